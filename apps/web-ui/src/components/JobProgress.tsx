@@ -0,0 +1,60 @@
+import { formatEta, type JobProgressEvent } from '../utils/progress';
+import './JobProgress.css';
+
+export default function JobProgress({
+  event,
+  showSteps = false,
+}: {
+  event: JobProgressEvent;
+  showSteps?: boolean;
+}) {
+  const eta = event.status === 'running' ? formatEta(event.eta_seconds) : null;
+
+  return (
+    <div className={`job-progress ${event.status}`}>
+      <div className="job-progress-header">
+        <span className="job-progress-message">
+          {event.status === 'failed' ? event.error ?? 'Failed' : event.message ?? event.step ?? 'Queued'}
+        </span>
+        <span className="job-progress-value">
+          {event.progress}%{eta && ` · ${eta}`}
+        </span>
+      </div>
+      <ProgressBar value={event.progress} status={event.status} />
+
+      {showSteps && (
+        <ul className="job-progress-steps">
+          {event.steps.map((step) => (
+            <li key={step.name} className={`job-progress-step ${step.status}`}>
+              <div className="job-progress-header">
+                <span className="job-progress-step-name">{step.name}</span>
+                <span className="job-progress-value">
+                  {step.status === 'running'
+                    ? [step.message, `${step.progress}%`, formatEta(step.eta_seconds)]
+                        .filter(Boolean)
+                        .join(' · ')
+                    : step.status}
+                </span>
+              </div>
+              <ProgressBar value={step.progress} status={step.status} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ProgressBar({ value, status }: { value: number; status: string }) {
+  return (
+    <div
+      className="progress-track"
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={value}
+    >
+      <div className={`progress-fill ${status}`} style={{ width: `${value}%` }} />
+    </div>
+  );
+}
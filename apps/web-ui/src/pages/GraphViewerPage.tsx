@@ -13,6 +13,7 @@ interface GraphNode {
   summary: string;
   importance_score: number;
   cluster_id?: string;
+  cluster_label?: string | null;
 }
 
 interface GraphEdge {
@@ -24,16 +25,59 @@ interface GraphEdge {
 }
 
 interface GraphData {
+  id: string;
   nodes: GraphNode[];
   edges: GraphEdge[];
 }
 
+interface GraphAnalytics {
+  topics: Array<{ topic_id: string; pagerank: number; betweenness: number }>;
+  bridges: Array<{ topic_id: string; connected_groups: string[] }>;
+}
+
+interface GraphVersion {
+  id: string;
+  version: number;
+  parent_version_id: string | null;
+  notes: string | null;
+}
+
+interface DiffEdge {
+  src_topic_id: string;
+  dst_topic_id: string;
+  edge_type: string;
+  weight: number;
+}
+
+interface GraphDiff {
+  summary: Record<DiffStatus | 'edges_added' | 'edges_removed' | 'edges_reweighted', number>;
+  topics: {
+    matched: Array<{ base_topic_id: string; target_topic_id: string; retitled: boolean }>;
+    added: Array<{ topic_id: string }>;
+    removed: Array<{ topic_id: string }>;
+    retitled: Array<{ base_topic_id: string; target_topic_id: string; base_title: string }>;
+    split: Array<{ base_topic_id: string; target_topic_ids: string[] }>;
+    merged: Array<{ base_topic_ids: string[]; target_topic_id: string }>;
+  };
+  edges: {
+    added: DiffEdge[];
+    removed: DiffEdge[];
+    reweighted: Array<DiffEdge & { base_weight: number }>;
+  };
+}
+
+type DiffStatus = 'added' | 'removed' | 'retitled' | 'split' | 'merged';
+type DiffView = 'overlay' | 'side-by-side';
+
 export default function GraphViewerPage() {
   const { id } = useParams<{ id: string }>();
   const { keycloak } = useKeycloak();
   const fgRef = useRef<any>(null);
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
   const [filteredLevel, setFilteredLevel] = useState<number | null>(null);
+  const [highlightKeyConcepts, setHighlightKeyConcepts] = useState(false);
+  const [compareWith, setCompareWith] = useState<string | null>(null);
+  const [diffView, setDiffView] = useState<DiffView>('overlay');
 
   const { data: graph, isLoading } = useQuery<GraphData>({
     queryKey: ['graph', id],
@@ -44,12 +88,72 @@ export default function GraphViewerPage() {
         },
       });
       return {
+        id: response.data.id,
         nodes: response.data.nodes,
         edges: response.data.edges,
       };
     },
   });
 
+  const { data: analytics } = useQuery<GraphAnalytics>({
+    queryKey: ['graph-analytics', graph?.id],
+    queryFn: async () => {
+      const response = await api.get(`/graphs/${graph!.id}/analytics`, {
+        params: { limit: 200 },
+        headers: {
+          Authorization: `Bearer ${keycloak.token}`,
+        },
+      });
+      return response.data;
+    },
+    enabled: highlightKeyConcepts && !!graph?.id,
+  });
+
+  const { data: versions } = useQuery<GraphVersion[]>({
+    queryKey: ['graph-versions', graph?.id],
+    queryFn: async () => {
+      const response = await api.get(`/graphs/${graph!.id}/versions`, {
+        headers: {
+          Authorization: `Bearer ${keycloak.token}`,
+        },
+      });
+      return response.data.items;
+    },
+    enabled: !!graph?.id,
+  });
+
+  const { data: diff } = useQuery<GraphDiff>({
+    queryKey: ['graph-diff', graph?.id, compareWith],
+    queryFn: async () => {
+      const response = await api.get(`/graphs/${graph!.id}/diff`, {
+        params: { base: compareWith },
+        headers: {
+          Authorization: `Bearer ${keycloak.token}`,
+        },
+      });
+      return response.data;
+    },
+    enabled: !!graph?.id && !!compareWith,
+  });
+
+  const { data: baseGraph } = useQuery<GraphData>({
+    queryKey: ['graph', id, compareWith],
+    queryFn: async () => {
+      const response = await api.get(`/videos/${id}/graph`, {
+        params: { version: compareWith },
+        headers: {
+          Authorization: `Bearer ${keycloak.token}`,
+        },
+      });
+      return {
+        id: response.data.id,
+        nodes: response.data.nodes,
+        edges: response.data.edges,
+      };
+    },
+    enabled: !!compareWith,
+  });
+
   useEffect(() => {
     if (fgRef.current) {
       fgRef.current.d3Force('charge')?.strength(-300);
@@ -82,18 +186,120 @@ export default function GraphViewerPage() {
   // Get unique levels
   const levels = Array.from(new Set(graph.nodes.map((n) => n.level))).sort();
 
+  // Size nodes by PageRank relative to the top topic and mark bridges
+  const ranks = new Map(
+    highlightKeyConcepts && analytics ? analytics.topics.map((t) => [t.topic_id, t]) : []
+  );
+  const topRank = Math.max(...Array.from(ranks.values()).map((t) => t.pagerank), 0);
+  const bridgeIds = new Set(
+    highlightKeyConcepts && analytics ? analytics.bridges.map((b) => b.topic_id) : []
+  );
+  const selectedRank = selectedNode ? ranks.get(selectedNode.id) : undefined;
+
+  const nodeSize = (n: GraphNode) => {
+    const rank = ranks.get(n.id);
+    return rank && topRank > 0 ? (rank.pagerank / topRank) * 20 + 2 : n.importance_score * 10 + 5;
+  };
+
+  const changes = diff && baseGraph ? describeDiff(diff) : null;
   const graphData = {
     nodes: filteredNodes.map((n) => ({
       ...n,
-      val: n.importance_score * 10 + 5,
-      color: getNodeColor(n.level),
+      val: nodeSize(n),
+      color: changes
+        ? DIFF_COLORS[changes.target.get(n.id) ?? 'unchanged']
+        : bridgeIds.has(n.id)
+          ? BRIDGE_COLOR
+          : getNodeColor(n.level),
     })),
     links: filteredEdges.map((e) => ({
       ...e,
-      color: getEdgeColor(e.edge_type),
+      color: changes
+        ? DIFF_COLORS[
+            changes.targetEdges.get(edgeKey(e.source, e.target, e.edge_type)) ?? 'unchanged'
+          ]
+        : getEdgeColor(e.edge_type),
     })),
   };
 
+  // The overlay adds the base version's unmatched topics and removed edges to
+  // the current graph; matched topics are drawn once, as their current version
+  const baseNodes = baseGraph && changes
+    ? baseGraph.nodes.filter((n) => filteredLevel === null || n.level === filteredLevel)
+    : [];
+  const overlayNodeId = (baseId: string) => changes?.matchedTargets.get(baseId) ?? `base:${baseId}`;
+  const overlayData = changes
+    ? {
+        nodes: [
+          ...graphData.nodes,
+          ...baseNodes
+            .filter((n) => !changes.matchedTargets.has(n.id))
+            .map((n) => ({
+              ...n,
+              id: `base:${n.id}`,
+              val: n.importance_score * 10 + 5,
+              color: DIFF_COLORS[changes.base.get(n.id) ?? 'removed'],
+            })),
+        ],
+        links: [
+          ...graphData.links,
+          ...baseGraph!.edges
+            .filter((e) => changes.baseEdges.has(edgeKey(e.source, e.target, e.edge_type)))
+            .map((e) => ({
+              ...e,
+              source: overlayNodeId(e.source),
+              target: overlayNodeId(e.target),
+              color: DIFF_COLORS.removed,
+            })),
+        ],
+      }
+    : null;
+  if (overlayData) {
+    const overlayIds = new Set(overlayData.nodes.map((n) => n.id));
+    overlayData.links = overlayData.links.filter(
+      (l) => overlayIds.has(l.source) && overlayIds.has(l.target)
+    );
+  }
+
+  const baseNodeIds = new Set(baseNodes.map((n) => n.id));
+  const baseData = changes
+    ? {
+        nodes: baseNodes.map((n) => ({
+          ...n,
+          val: n.importance_score * 10 + 5,
+          color: DIFF_COLORS[changes.base.get(n.id) ?? 'unchanged'],
+        })),
+        links: baseGraph!.edges
+          .filter((e) => baseNodeIds.has(e.source) && baseNodeIds.has(e.target))
+          .map((e) => ({
+            ...e,
+            color: changes.baseEdges.has(edgeKey(e.source, e.target, e.edge_type))
+              ? DIFF_COLORS.removed
+              : DIFF_COLORS.unchanged,
+          })),
+      }
+    : null;
+
+  const otherVersions = (versions ?? []).filter((v) => v.id !== graph.id);
+  const currentVersion = versions?.find((v) => v.id === graph.id);
+
+  const renderGraph = (data: typeof graphData, width: number, ref?: typeof fgRef) => (
+    <ForceGraph2D
+      ref={ref}
+      graphData={data}
+      nodeLabel={(node: any) =>
+        node.cluster_label ? `${node.title} (${node.cluster_label})` : node.title
+      }
+      nodeAutoColorBy={highlightKeyConcepts || changes ? undefined : 'cluster_id'}
+      linkDirectionalArrowLength={6}
+      linkDirectionalArrowRelPos={1}
+      linkCurvature={0.25}
+      onNodeClick={(node: any) => setSelectedNode(node)}
+      width={width}
+      height={600}
+    />
+  );
+
   return (
     <div className="graph-viewer-page">
       <div className="graph-controls">
@@ -116,21 +322,92 @@ export default function GraphViewerPage() {
             </button>
           ))}
         </div>
+        <label className="analytics-toggle">
+          <input
+            type="checkbox"
+            checked={highlightKeyConcepts}
+            onChange={(e) => setHighlightKeyConcepts(e.target.checked)}
+            disabled={!!compareWith}
+          />
+          Highlight key concepts
+        </label>
+        {otherVersions.length > 0 && (
+          <div className="diff-controls">
+            <label>
+              Compare with
+              <select
+                value={compareWith ?? ''}
+                onChange={(e) => {
+                  setCompareWith(e.target.value || null);
+                  setSelectedNode(null);
+                }}
+              >
+                <option value="">No comparison</option>
+                {otherVersions.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    Version {v.version}
+                    {v.id === currentVersion?.parent_version_id ? ' (parent)' : ''}
+                    {v.notes ? ` – ${v.notes}` : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {compareWith && (
+              <>
+                <button
+                  className={`filter-btn ${diffView === 'overlay' ? 'active' : ''}`}
+                  onClick={() => setDiffView('overlay')}
+                >
+                  Overlay
+                </button>
+                <button
+                  className={`filter-btn ${diffView === 'side-by-side' ? 'active' : ''}`}
+                  onClick={() => setDiffView('side-by-side')}
+                >
+                  Side by side
+                </button>
+              </>
+            )}
+          </div>
+        )}
       </div>
 
-      <div className="graph-container">
-        <ForceGraph2D
-          ref={fgRef}
-          graphData={graphData}
-          nodeLabel={(node: any) => node.title}
-          nodeAutoColorBy="cluster_id"
-          linkDirectionalArrowLength={6}
-          linkDirectionalArrowRelPos={1}
-          linkCurvature={0.25}
-          onNodeClick={(node: any) => setSelectedNode(node)}
-          width={800}
-          height={600}
-        />
+      {compareWith && diff && (
+        <div className="diff-summary">
+          {(Object.keys(DIFF_LABELS) as DiffStatus[]).map((status) => (
+            <span key={status} className="diff-count">
+              <span className="diff-swatch" style={{ background: DIFF_COLORS[status] }} />
+              {diff.summary[status]} {DIFF_LABELS[status]}
+            </span>
+          ))}
+          <span className="diff-count">
+            Edges: +{diff.summary.edges_added} / −{diff.summary.edges_removed} /{' '}
+            {diff.summary.edges_reweighted} reweighted
+          </span>
+        </div>
+      )}
+
+      <div
+        className={`graph-container ${baseData && diffView === 'side-by-side' ? 'side-by-side' : ''}`}
+      >
+        {overlayData && diffView === 'overlay' ? (
+          renderGraph(overlayData, 800, fgRef)
+        ) : baseData && diffView === 'side-by-side' ? (
+          <>
+            <div className="graph-pane">
+              <span className="graph-pane-label">
+                Version {versions?.find((v) => v.id === compareWith)?.version}
+              </span>
+              {renderGraph(baseData, 400)}
+            </div>
+            <div className="graph-pane">
+              <span className="graph-pane-label">Version {currentVersion?.version}</span>
+              {renderGraph(graphData, 400, fgRef)}
+            </div>
+          </>
+        ) : (
+          renderGraph(graphData, 800, fgRef)
+        )}
 
         {selectedNode && (
           <div className="node-panel">
@@ -150,6 +427,25 @@ export default function GraphViewerPage() {
                 <span className="badge">
                   Importance: {(selectedNode.importance_score * 100).toFixed(0)}%
                 </span>
+                {selectedNode.cluster_label && (
+                  <span className="badge">Cluster: {selectedNode.cluster_label}</span>
+                )}
+                {selectedRank && (
+                  <>
+                    <span className="badge">PageRank: {selectedRank.pagerank.toFixed(3)}</span>
+                    <span className="badge">
+                      Betweenness: {selectedRank.betweenness.toFixed(3)}
+                    </span>
+                  </>
+                )}
+                {bridgeIds.has(selectedNode.id) && (
+                  <span className="badge badge-bridge">Bridge topic</span>
+                )}
+                {changes && (
+                  <span className="badge">
+                    {nodeChangeLabel(selectedNode.id, changes)}
+                  </span>
+                )}
               </div>
             </div>
           </div>
@@ -159,6 +455,112 @@ export default function GraphViewerPage() {
   );
 }
 
+const BRIDGE_COLOR = '#ef4444';
+
+const DIFF_COLORS: Record<DiffStatus | 'reweighted' | 'unchanged', string> = {
+  added: '#10b981',
+  removed: '#ef4444',
+  retitled: '#f59e0b',
+  split: '#8b5cf6',
+  merged: '#ec4899',
+  reweighted: '#f59e0b',
+  unchanged: '#cbd5e1',
+};
+
+const DIFF_LABELS: Record<DiffStatus, string> = {
+  added: 'added',
+  removed: 'removed',
+  retitled: 'retitled',
+  split: 'split',
+  merged: 'merged',
+};
+
+interface DiffChanges {
+  /** Status of each changed topic of the viewed version */
+  target: Map<string, DiffStatus>;
+  /** Status of each changed topic of the base version */
+  base: Map<string, DiffStatus>;
+  /** Viewed version topic matched one-to-one with each base topic */
+  matchedTargets: Map<string, string>;
+  targetEdges: Map<string, 'added' | 'reweighted'>;
+  /** Removed edges of the base version */
+  baseEdges: Set<string>;
+  baseTitles: Map<string, string>;
+}
+
+function describeDiff(diff: GraphDiff): DiffChanges {
+  const target = new Map<string, DiffStatus>();
+  const base = new Map<string, DiffStatus>();
+  for (const t of diff.topics.added) target.set(t.topic_id, 'added');
+  for (const t of diff.topics.removed) base.set(t.topic_id, 'removed');
+  for (const m of diff.topics.retitled) {
+    target.set(m.target_topic_id, 'retitled');
+    base.set(m.base_topic_id, 'retitled');
+  }
+  for (const s of diff.topics.split) {
+    base.set(s.base_topic_id, 'split');
+    for (const topicId of s.target_topic_ids) target.set(topicId, 'split');
+  }
+  for (const m of diff.topics.merged) {
+    target.set(m.target_topic_id, 'merged');
+    for (const topicId of m.base_topic_ids) base.set(topicId, 'merged');
+  }
+
+  const targetEdges = new Map<string, 'added' | 'reweighted'>();
+  for (const e of diff.edges.added) {
+    targetEdges.set(edgeKey(e.src_topic_id, e.dst_topic_id, e.edge_type), 'added');
+  }
+  for (const e of diff.edges.reweighted) {
+    targetEdges.set(edgeKey(e.src_topic_id, e.dst_topic_id, e.edge_type), 'reweighted');
+  }
+  const baseEdges = new Set(
+    diff.edges.removed.map((e) => edgeKey(e.src_topic_id, e.dst_topic_id, e.edge_type))
+  );
+
+  return {
+    target,
+    base,
+    matchedTargets: new Map(diff.topics.matched.map((m) => [m.base_topic_id, m.target_topic_id])),
+    targetEdges,
+    baseEdges,
+    baseTitles: new Map(diff.topics.retitled.map((m) => [m.target_topic_id, m.base_title])),
+  };
+}
+
+function nodeChangeLabel(nodeId: string, changes: DiffChanges): string {
+  if (nodeId.startsWith('base:')) {
+    switch (changes.base.get(nodeId.slice('base:'.length))) {
+      case 'split':
+        return 'Split in this version';
+      case 'merged':
+        return 'Merged in this version';
+      default:
+        return 'Removed';
+    }
+  }
+  switch (changes.target.get(nodeId) ?? changes.base.get(nodeId)) {
+    case 'added':
+      return 'Added';
+    case 'retitled':
+      return changes.baseTitles.has(nodeId)
+        ? `Was "${changes.baseTitles.get(nodeId)}"`
+        : 'Retitled';
+    case 'split':
+      return 'Part of a split topic';
+    case 'merged':
+      return 'Merged topic';
+    case 'removed':
+      return 'Removed';
+    default:
+      return 'Unchanged';
+  }
+}
+
+/** Edges are compared regardless of direction, as the diff API does */
+function edgeKey(a: string, b: string, type: string): string {
+  return a < b ? `${type}:${a}:${b}` : `${type}:${b}:${a}`;
+}
+
 function getNodeColor(level: number): string {
   const colors = ['#3b82f6', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981'];
   return colors[level % colors.length];
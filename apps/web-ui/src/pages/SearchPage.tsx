@@ -4,6 +4,15 @@ import { useKeycloak } from '@react-keycloak/web';
 import { api } from '../utils/api';
 import './SearchPage.css';
 
+interface SegmentHit {
+  id: string;
+  start_ts: number;
+  snippet: string;
+  highlights: Array<{ start: number; end: number }>;
+  jump_to_ts: number;
+  deep_link: string | null;
+}
+
 interface SearchResult {
   topic: {
     id: string;
@@ -15,6 +24,45 @@ interface SearchResult {
   };
   score: number;
   highlight: string | null;
+  matched_signals?: string[];
+  segments?: SegmentHit[];
+}
+
+interface DeepSearchCitation {
+  number: number;
+  kind: 'topic' | 'segment';
+  topic_id: string;
+  title: string;
+  start_ts: number;
+  end_ts: number;
+  deep_link: string | null;
+}
+
+interface DeepSearchClaim {
+  text: string;
+  citations: number[];
+  status: 'supported' | 'unsupported' | 'uncited';
+  unsupported_citations: number[];
+}
+
+interface FacetCount {
+  value: string | number;
+  label?: string;
+  count: number;
+}
+
+interface SearchFacets {
+  videos: FacetCount[];
+  levels: FacetCount[];
+  speakers: FacetCount[];
+  clusters: FacetCount[];
+}
+
+interface Drilldown {
+  video?: string;
+  level?: number;
+  speaker?: string;
+  cluster?: string;
 }
 
 export default function SearchPage() {
@@ -22,16 +70,33 @@ export default function SearchPage() {
   const [query, setQuery] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [isDeepSearch, setIsDeepSearch] = useState(false);
+  const [searchSegments, setSearchSegments] = useState(false);
+  const [drilldown, setDrilldown] = useState<Drilldown>({});
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
 
   const { data: results, isLoading } = useQuery({
-    queryKey: ['search', searchQuery, isDeepSearch],
+    queryKey: ['search', searchQuery, isDeepSearch, searchSegments, drilldown, dateFrom, dateTo],
     queryFn: async () => {
       if (!searchQuery) return null;
 
       const endpoint = isDeepSearch ? '/search/deep' : '/search';
       const response = await api.post(
         endpoint,
-        { query: searchQuery },
+        isDeepSearch
+          ? { query: searchQuery }
+          : {
+              query: searchQuery,
+              ...(drilldown.video && { video_ids: [drilldown.video] }),
+              filters: {
+                level: drilldown.level,
+                speakers: drilldown.speaker ? [drilldown.speaker] : undefined,
+                cluster_ids: drilldown.cluster ? [drilldown.cluster] : undefined,
+                date_from: dateFrom ? new Date(dateFrom).toISOString() : undefined,
+                date_to: dateTo ? new Date(`${dateTo}T23:59:59`).toISOString() : undefined,
+              },
+              options: { mode: searchSegments ? 'segments' : 'topics' },
+            },
         {
           headers: {
             Authorization: `Bearer ${keycloak.token}`,
@@ -46,8 +111,11 @@ export default function SearchPage() {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setSearchQuery(query);
+    setDrilldown({});
   };
 
+  const facets: SearchFacets | undefined = results?.facets;
+
   return (
     <div className="search-page">
       <div className="page-header">
@@ -80,50 +148,134 @@ export default function SearchPage() {
           />
           <span>Deep search (uses LLM reasoning)</span>
         </label>
+        <label className="deep-search-toggle">
+          <input
+            type="checkbox"
+            checked={searchSegments}
+            disabled={isDeepSearch}
+            onChange={(e) => setSearchSegments(e.target.checked)}
+          />
+          <span>Search transcript passages</span>
+        </label>
       </form>
 
       {results && (
-        <div className="search-results">
-          {isDeepSearch && results.answer && (
-            <div className="deep-search-answer">
-              <h3>Answer</h3>
-              <p>{results.answer}</p>
-            </div>
+        <div className={facets ? 'search-layout' : undefined}>
+          {facets && (
+            <aside className="search-facets">
+              <div className="facet-group">
+                <h4>Date</h4>
+                <label className="facet-date">
+                  From
+                  <input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+                </label>
+                <label className="facet-date">
+                  To
+                  <input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+                </label>
+              </div>
+              <FacetGroup
+                title="Video"
+                counts={facets.videos}
+                selected={drilldown.video}
+                onSelect={(value) => setDrilldown({ ...drilldown, video: value as string | undefined })}
+              />
+              <FacetGroup
+                title="Level"
+                counts={facets.levels}
+                selected={drilldown.level}
+                format={(facet) => `Level ${facet.value}`}
+                onSelect={(value) => setDrilldown({ ...drilldown, level: value as number | undefined })}
+              />
+              <FacetGroup
+                title="Speaker"
+                counts={facets.speakers}
+                selected={drilldown.speaker}
+                onSelect={(value) => setDrilldown({ ...drilldown, speaker: value as string | undefined })}
+              />
+              <FacetGroup
+                title="Cluster"
+                counts={facets.clusters}
+                selected={drilldown.cluster}
+                onSelect={(value) => setDrilldown({ ...drilldown, cluster: value as string | undefined })}
+              />
+            </aside>
           )}
+          <div className="search-results">
+            {isDeepSearch && results.answer && (
+              <div className="deep-search-answer">
+                <h3>Answer</h3>
+                <DeepSearchAnswer
+                  answer={results.answer}
+                  claims={results.claims ?? []}
+                  citations={results.citations ?? []}
+                />
+                {results.unsupported_claims > 0 && (
+                  <p className="answer-warning">
+                    {results.unsupported_claims} statement
+                    {results.unsupported_claims === 1 ? ' is' : 's are'} not supported by the
+                    passages they cite.
+                  </p>
+                )}
+              </div>
+            )}
 
-          <div className="results-header">
-            <span>{results.total} results</span>
-            <span className="took">{results.took_ms}ms</span>
-          </div>
+            <div className="results-header">
+              <span>{results.total} results</span>
+              <span className="took">{results.took_ms}ms</span>
+            </div>
 
-          <div className="results-list">
-            {results.results?.map((result: SearchResult, index: number) => (
-              <div key={result.topic.id} className="result-card">
-                <div className="result-header">
-                  <h3>{result.topic.title}</h3>
-                  <span className="result-score">
-                    {(result.score * 100).toFixed(1)}% match
-                  </span>
-                </div>
-                <p className="result-summary">{result.topic.summary}</p>
-                {result.highlight && (
-                  <p className="result-highlight">{result.highlight}</p>
-                )}
-                <div className="result-meta">
-                  <div className="result-keywords">
-                    {result.topic.keywords.map((kw) => (
-                      <span key={kw} className="keyword-tag">
-                        {kw}
-                      </span>
-                    ))}
+            <div className="results-list">
+              {results.results?.map((result: SearchResult, index: number) => (
+                <div key={result.topic.id} className="result-card">
+                  <div className="result-header">
+                    <h3>{result.topic.title}</h3>
+                    <span className="result-score">
+                      {result.matched_signals?.length
+                        ? result.matched_signals.join(' + ')
+                        : `score ${result.score.toFixed(3)}`}
+                    </span>
+                  </div>
+                  <p className="result-summary">{result.topic.summary}</p>
+                  {result.segments ? (
+                    <ul className="segment-hits">
+                      {result.segments.map((segment) => (
+                        <li key={segment.id} className="segment-hit">
+                          {segment.deep_link ? (
+                            <a
+                              href={segment.deep_link}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="segment-time"
+                            >
+                              {formatTimestamp(segment.jump_to_ts)}
+                            </a>
+                          ) : (
+                            <span className="segment-time">{formatTimestamp(segment.jump_to_ts)}</span>
+                          )}
+                          <span className="segment-snippet">{renderHighlights(segment)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    result.highlight && <p className="result-highlight">{result.highlight}</p>
+                  )}
+                  <div className="result-meta">
+                    <div className="result-keywords">
+                      {result.topic.keywords.map((kw) => (
+                        <span key={kw} className="keyword-tag">
+                          {kw}
+                        </span>
+                      ))}
+                    </div>
+                    <span className="result-timestamp">
+                      {formatTimestamp(result.topic.start_ts)} -{' '}
+                      {formatTimestamp(result.topic.end_ts)}
+                    </span>
                   </div>
-                  <span className="result-timestamp">
-                    {formatTimestamp(result.topic.start_ts)} -{' '}
-                    {formatTimestamp(result.topic.end_ts)}
-                  </span>
                 </div>
-              </div>
-            ))}
+              ))}
+            </div>
           </div>
         </div>
       )}
@@ -131,6 +283,115 @@ export default function SearchPage() {
   );
 }
 
+function DeepSearchAnswer({
+  answer,
+  claims,
+  citations,
+}: {
+  answer: string;
+  claims: DeepSearchClaim[];
+  citations: DeepSearchCitation[];
+}) {
+  if (claims.length === 0) {
+    return <p>{answer}</p>;
+  }
+
+  const byNumber = new Map(citations.map((c) => [c.number, c]));
+
+  return (
+    <p>
+      {claims.map((claim, i) => (
+        <span
+          key={i}
+          className={`answer-claim ${claim.status === 'unsupported' ? 'unsupported' : ''}`}
+          title={claim.status === 'unsupported' ? 'Not supported by the cited passages' : undefined}
+        >
+          {claim.text.replace(/\s*\[\d+(?:\s*,\s*\d+)*\]/g, '')}
+          {claim.citations.map((number) => {
+            const citation = byNumber.get(number);
+            const flagged = claim.unsupported_citations.includes(number);
+            const className = `citation-chip ${flagged ? 'unsupported' : ''}`;
+            if (!citation) {
+              return (
+                <span key={number} className={className}>
+                  {number}
+                </span>
+              );
+            }
+            const label = `${citation.title}, ${formatTimestamp(citation.start_ts)}`;
+            return citation.deep_link ? (
+              <a
+                key={number}
+                href={citation.deep_link}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={className}
+                title={label}
+              >
+                {number}
+              </a>
+            ) : (
+              <span key={number} className={className} title={label}>
+                {number}
+              </span>
+            );
+          })}{' '}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+function FacetGroup({
+  title,
+  counts,
+  selected,
+  format,
+  onSelect,
+}: {
+  title: string;
+  counts: FacetCount[];
+  selected: string | number | undefined;
+  format?: (facet: FacetCount) => string;
+  onSelect: (value: string | number | undefined) => void;
+}) {
+  if (counts.length === 0 && selected === undefined) {
+    return null;
+  }
+
+  return (
+    <div className="facet-group">
+      <h4>{title}</h4>
+      <ul>
+        {counts.map((facet) => (
+          <li key={facet.value}>
+            <button
+              type="button"
+              className={`facet-value ${facet.value === selected ? 'selected' : ''}`}
+              onClick={() => onSelect(facet.value === selected ? undefined : facet.value)}
+            >
+              <span className="facet-label">{format ? format(facet) : facet.label ?? facet.value}</span>
+              <span className="facet-count">{facet.count}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function renderHighlights(segment: SegmentHit): React.ReactNode[] {
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  for (const { start, end } of segment.highlights) {
+    parts.push(segment.snippet.slice(offset, start));
+    parts.push(<mark key={start}>{segment.snippet.slice(start, end)}</mark>);
+    offset = end;
+  }
+  parts.push(segment.snippet.slice(offset));
+  return parts;
+}
+
 function formatTimestamp(seconds: number): string {
   const mins = Math.floor(seconds / 60);
   const secs = Math.floor(seconds % 60);
@@ -1,12 +1,58 @@
+import { useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useKeycloak } from '@react-keycloak/web';
 import { api } from '../utils/api';
+import { useJobProgress, type JobProgressEvent } from '../utils/progress';
+import JobProgress from '../components/JobProgress';
 import './VideoDetailPage.css';
 
+type Role = 'owner' | 'editor' | 'viewer';
+
+interface Collaborator {
+  user_id: string;
+  role: Role;
+  granted_by: string;
+  granted_at: string;
+}
+
+interface CollaboratorList {
+  owner_id: string;
+  your_role: Role;
+  can_manage: boolean;
+  collaborators: Collaborator[];
+}
+
+interface AuditEntry {
+  id: string;
+  user_id: string;
+  action: 'grant' | 'update' | 'revoke';
+  previous_role: Role | null;
+  role: Role | null;
+  actor_id: string;
+  created_at: string;
+}
+
+const ROLES: Role[] = ['viewer', 'editor', 'owner'];
+
+type JobAction = 'pause' | 'resume' | 'cancel';
+
+// Controls offered for a job in each status
+const JOB_ACTIONS: Partial<Record<JobProgressEvent['status'], JobAction[]>> = {
+  running: ['pause', 'cancel'],
+  paused: ['resume', 'cancel'],
+};
+
+const JOB_ACTION_LABELS: Record<JobAction, string> = {
+  pause: 'Pause',
+  resume: 'Resume',
+  cancel: 'Cancel',
+};
+
 export default function VideoDetailPage() {
   const { id } = useParams<{ id: string }>();
   const { keycloak } = useKeycloak();
+  const queryClient = useQueryClient();
 
   const { data: video, isLoading } = useQuery({
     queryKey: ['video', id],
@@ -20,6 +66,32 @@ export default function VideoDetailPage() {
     },
   });
 
+  const jobProgress = useJobProgress(id ? `/videos/${id}/events` : null, () => {
+    queryClient.invalidateQueries({ queryKey: ['video', id] });
+  });
+
+  // A cancelled paused job gets no further events, so it is hidden once the request succeeds
+  const [cancelledJobs, setCancelledJobs] = useState<Set<string>>(new Set());
+  const activeJobs = [...jobProgress.values()].filter(
+    (e) => e.status !== 'completed' && e.status !== 'cancelled' && !cancelledJobs.has(e.job_id)
+  );
+
+  const jobActionMutation = useMutation({
+    mutationFn: async ({ jobId, action }: { jobId: string; action: JobAction }) => {
+      await api.post(`/jobs/${jobId}/${action}`, null, {
+        headers: {
+          Authorization: `Bearer ${keycloak.token}`,
+        },
+      });
+    },
+    onSuccess: (_, { jobId, action }) => {
+      if (action === 'cancel') {
+        setCancelledJobs((previous) => new Set(previous).add(jobId));
+      }
+      queryClient.invalidateQueries({ queryKey: ['video', id] });
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="loading">
@@ -65,6 +137,30 @@ export default function VideoDetailPage() {
         </div>
       </div>
 
+      {activeJobs.map((event) => (
+        <div key={event.job_id} className="card job-progress-card">
+          <div className="job-progress-card-header">
+            <h3>{event.job_type === 'export' ? 'Export' : 'Processing'}</h3>
+            <div className="job-actions">
+              {(JOB_ACTIONS[event.status] ?? []).map((action) => (
+                <button
+                  key={action}
+                  className="btn btn-secondary"
+                  disabled={jobActionMutation.isPending}
+                  onClick={() => jobActionMutation.mutate({ jobId: event.job_id, action })}
+                >
+                  {JOB_ACTION_LABELS[action]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <JobProgress event={event} showSteps />
+          {jobActionMutation.isError && jobActionMutation.variables?.jobId === event.job_id && (
+            <p className="job-action-error">{errorMessage(jobActionMutation.error)}</p>
+          )}
+        </div>
+      ))}
+
       <div className="video-info-grid">
         <div className="card">
           <h3>Information</h3>
@@ -98,10 +194,196 @@ export default function VideoDetailPage() {
           </div>
         </div>
       </div>
+
+      {id && <CollaboratorsPanel videoId={id} />}
     </div>
   );
 }
 
+function CollaboratorsPanel({ videoId }: { videoId: string }) {
+  const { keycloak } = useKeycloak();
+  const queryClient = useQueryClient();
+  const [newUserId, setNewUserId] = useState('');
+  const [newRole, setNewRole] = useState<Role>('viewer');
+  const headers = { Authorization: `Bearer ${keycloak.token}` };
+
+  const { data } = useQuery({
+    queryKey: ['collaborators', videoId],
+    queryFn: async () => {
+      const response = await api.get<CollaboratorList>(`/videos/${videoId}/collaborators`, {
+        headers,
+      });
+      return response.data;
+    },
+  });
+
+  const { data: audit } = useQuery({
+    queryKey: ['collaborators-audit', videoId],
+    queryFn: async () => {
+      const response = await api.get<{ items: AuditEntry[] }>(
+        `/videos/${videoId}/collaborators/audit`,
+        { headers, params: { limit: 10 } }
+      );
+      return response.data.items;
+    },
+    enabled: Boolean(data?.can_manage),
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['collaborators', videoId] });
+    queryClient.invalidateQueries({ queryKey: ['collaborators-audit', videoId] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (body: { user_id: string; role: Role }) => {
+      await api.post(`/videos/${videoId}/collaborators`, body, { headers });
+    },
+    onSuccess: () => {
+      onChanged();
+      setNewUserId('');
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: Role }) => {
+      const url = `/videos/${videoId}/collaborators/${encodeURIComponent(userId)}`;
+      await api.patch(url, { role }, { headers });
+    },
+    onSuccess: onChanged,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const url = `/videos/${videoId}/collaborators/${encodeURIComponent(userId)}`;
+      await api.delete(url, { headers });
+    },
+    onSuccess: onChanged,
+  });
+
+  if (!data) {
+    return null;
+  }
+
+  const error = [addMutation, updateMutation, removeMutation].find((m) => m.isError)?.error;
+  // Only owners can grant or change ownership
+  const assignable = data.your_role === 'owner' ? ROLES : ROLES.filter((r) => r !== 'owner');
+  const canEdit = (c: Collaborator) =>
+    data.can_manage && (c.role !== 'owner' || data.your_role === 'owner');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newUserId.trim()) {
+      addMutation.mutate({ user_id: newUserId.trim(), role: newRole });
+    }
+  };
+
+  return (
+    <div className="card collaborators-panel">
+      <h3>Collaborators</h3>
+      <p className="collaborators-hint">
+        Collaborators can open this video, its graph versions and topics.
+      </p>
+
+      <ul className="collaborator-list">
+        <li className="collaborator">
+          <span className="collaborator-id">{data.owner_id}</span>
+          <span className="collaborator-meta">Creator</span>
+          <span className="collaborator-role">owner</span>
+        </li>
+        {data.collaborators.map((c) => (
+          <li key={c.user_id} className="collaborator">
+            <span className="collaborator-id">{c.user_id}</span>
+            <span className="collaborator-meta">
+              Added by {c.granted_by} on {new Date(c.granted_at).toLocaleDateString()}
+            </span>
+            {canEdit(c) ? (
+              <>
+                <select
+                  className="input collaborator-role-select"
+                  value={c.role}
+                  onChange={(e) =>
+                    updateMutation.mutate({ userId: c.user_id, role: e.target.value as Role })
+                  }
+                >
+                  {(c.role === 'owner' ? ROLES : assignable).map((role) => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => removeMutation.mutate(c.user_id)}
+                  disabled={removeMutation.isPending}
+                >
+                  Remove
+                </button>
+              </>
+            ) : (
+              <span className="collaborator-role">{c.role}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {data.can_manage && (
+        <form className="collaborator-form" onSubmit={handleAdd}>
+          <input
+            className="input"
+            placeholder="User ID"
+            value={newUserId}
+            onChange={(e) => setNewUserId(e.target.value)}
+          />
+          <select
+            className="input collaborator-role-select"
+            value={newRole}
+            onChange={(e) => setNewRole(e.target.value as Role)}
+          >
+            {assignable.map((role) => (
+              <option key={role} value={role}>{role}</option>
+            ))}
+          </select>
+          <button type="submit" className="btn btn-primary" disabled={addMutation.isPending}>
+            Add
+          </button>
+        </form>
+      )}
+
+      {error && <p className="collaborator-error">{errorMessage(error)}</p>}
+
+      {audit && audit.length > 0 && (
+        <div className="collaborator-audit">
+          <h4>History</h4>
+          <ul>
+            {audit.map((entry) => (
+              <li key={entry.id}>
+                <span>{describeAudit(entry)}</span>
+                <time>{new Date(entry.created_at).toLocaleString()}</time>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function describeAudit(entry: AuditEntry): string {
+  switch (entry.action) {
+    case 'grant':
+      return `${entry.actor_id} added ${entry.user_id} as ${entry.role}`;
+    case 'update':
+      return `${entry.actor_id} changed ${entry.user_id} from ${entry.previous_role} to ${entry.role}`;
+    case 'revoke':
+      return entry.actor_id === entry.user_id
+        ? `${entry.user_id} left (was ${entry.previous_role})`
+        : `${entry.actor_id} removed ${entry.user_id} (was ${entry.previous_role})`;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  const response = (error as { response?: { data?: { message?: string } } }).response;
+  return response?.data?.message ?? 'Something went wrong';
+}
+
 function formatDuration(seconds: number): string {
   const hrs = Math.floor(seconds / 3600);
   const mins = Math.floor((seconds % 3600) / 60);
@@ -3,6 +3,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { useKeycloak } from '@react-keycloak/web';
 import { api } from '../utils/api';
+import { useJobProgress } from '../utils/progress';
+import JobProgress from '../components/JobProgress';
 import './VideosPage.css';
 
 interface Video {
@@ -32,6 +34,25 @@ export default function VideosPage() {
     },
   });
 
+  const jobProgress = useJobProgress('/events', (event) => {
+    if (event.video_id) {
+      queryClient.invalidateQueries({ queryKey: ['videos'] });
+    }
+  });
+
+  // Analysis still running (or paused, or just failed) for each video
+  const analysisByVideo = new Map(
+    [...jobProgress.values()]
+      .filter(
+        (e) =>
+          e.video_id &&
+          e.job_type === 'video_analysis' &&
+          e.status !== 'completed' &&
+          e.status !== 'cancelled'
+      )
+      .map((e) => [e.video_id!, e])
+  );
+
   const analyzeMutation = useMutation({
     mutationFn: async (url: string) => {
       const response = await api.post(
@@ -158,6 +179,11 @@ export default function VideosPage() {
                       </span>
                     )}
                   </div>
+                  {analysisByVideo.has(video.id) && (
+                    <div className="video-progress">
+                      <JobProgress event={analysisByVideo.get(video.id)!} />
+                    </div>
+                  )}
                   <p className="video-date">
                     {new Date(video.created_at).toLocaleDateString()}
                   </p>
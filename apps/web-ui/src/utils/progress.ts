@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from 'react';
+import { useKeycloak } from '@react-keycloak/web';
+import { api } from './api';
+
+export interface StepProgress {
+  name: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  progress: number;
+  message: string | null;
+  eta_seconds: number | null;
+}
+
+export interface JobProgressEvent {
+  job_id: string;
+  job_type: string;
+  video_id: string | null;
+  user_id: string | null;
+  status: 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  step: string | null;
+  message: string | null;
+  progress: number;
+  eta_seconds: number | null;
+  steps: StepProgress[];
+  error: string | null;
+  emitted_at: string;
+}
+
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * Live job progress from one of the API's Server-Sent Events endpoints,
+ * keyed by job ID. Streams with fetch rather than EventSource so that the
+ * bearer token can be sent, and resumes with Last-Event-ID after a
+ * dropped connection. `onFinished` is called when a job stops running:
+ * it completed, failed, was paused or was cancelled.
+ */
+export function useJobProgress(
+  path: string | null,
+  onFinished?: (event: JobProgressEvent) => void
+): Map<string, JobProgressEvent> {
+  const { keycloak } = useKeycloak();
+  const [jobs, setJobs] = useState<Map<string, JobProgressEvent>>(new Map());
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    if (!path) return;
+
+    const controller = new AbortController();
+    let lastEventId: string | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const receive = (id: string | null, data: string) => {
+      lastEventId = id ?? lastEventId;
+      const event = JSON.parse(data) as JobProgressEvent;
+      setJobs((previous) => new Map(previous).set(event.job_id, event));
+      if (event.status !== 'running') {
+        onFinishedRef.current?.(event);
+      }
+    };
+
+    const connect = async () => {
+      try {
+        const response = await fetch(`${api.defaults.baseURL}${path}`, {
+          headers: {
+            Authorization: `Bearer ${keycloak.token}`,
+            Accept: 'text/event-stream',
+            ...(lastEventId && { 'Last-Event-ID': lastEventId }),
+          },
+          signal: controller.signal,
+        });
+
+        // Disabled, gone or not permitted: retrying will not help
+        if ([401, 403, 404, 503].includes(response.status)) return;
+
+        if (response.ok && response.body) {
+          const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+          let buffer = '';
+
+          for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+
+            buffer += value.replace(/\r\n/g, '\n');
+            let boundary: number;
+            while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+              const message = parseMessage(buffer.slice(0, boundary));
+              buffer = buffer.slice(boundary + 2);
+              if (message?.event === 'progress') {
+                receive(message.id, message.data);
+              }
+            }
+          }
+        }
+      } catch {
+        // Reconnect below unless the component went away
+      }
+
+      if (!controller.signal.aborted) {
+        retryTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }, [path, keycloak]);
+
+  return jobs;
+}
+
+export function formatEta(seconds: number | null): string | null {
+  if (seconds === null || seconds <= 0) return null;
+  if (seconds < 60) return `${seconds}s left`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min left` : `${Math.floor(minutes / 60)} h ${minutes % 60} min left`;
+}
+
+function parseMessage(block: string): { id: string | null; event: string; data: string } | null {
+  let id: string | null = null;
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith(':')) continue;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'id') id = value;
+    else if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  }
+
+  return data.length > 0 ? { id, event, data: data.join('\n') } : null;
+}
@@ -31,15 +31,17 @@ export type ExportType = 'pptx' | 'html' | 'pdf';
 
 export type ExportStatus = 'pending' | 'processing' | 'complete' | 'error';
 
-export type JobType = 'video_analysis' | 'export' | 'snippet_generation';
+export type JobType = 'video_analysis' | 'export' | 'snippet_generation' | 'library_graph';
 
 export type JobStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
 
 export type ShareScope = 'view' | 'comment' | 'edit';
 
+export type AccessRole = 'viewer' | 'editor' | 'owner';
+
 export type ResourceType = 'video' | 'graph' | 'topic';
 
-export type GraphStatus = 'processing' | 'complete' | 'error';
+export type GraphStatus = 'processing' | 'complete' | 'error' | 'cancelled';
 
 // ==================== Request Types ====================
 
@@ -66,6 +68,21 @@ export interface ForkGraphRequest {
   topic_modifications?: TopicModification[];
 }
 
+export interface ReprocessGraphRequest {
+  config: {
+    topic_levels?: number;
+    topic_merge_threshold?: number;
+    min_segment_duration_s?: number;
+    max_segment_duration_s?: number;
+    importance_centrality_weight?: number;
+    importance_duration_weight?: number;
+    importance_novelty_weight?: number;
+    llm_model?: LlmModel;
+    edge_similarity_threshold?: number;
+  };
+  notes?: string;
+}
+
 export interface TopicModification {
   topic_id: string;
   action: 'update' | 'delete' | 'merge_source' | 'merge_target';
@@ -89,17 +106,38 @@ export interface SplitTopicRequest {
   new_titles?: [string, string];
 }
 
+export interface RevertTopicEditsRequest {
+  /** Number of edits to undo or redo (default 1) */
+  count?: number;
+}
+
 export interface SearchFilters {
   level?: number;
   min_importance?: number;
   date_from?: string;
   date_to?: string;
+  speakers?: string[];
+  cluster_ids?: string[];
+  edge_types?: EdgeType[];
+  source_types?: SourceType[];
+  metadata?: Record<string, unknown>;
+}
+
+export type SearchSignal = 'vector' | 'title' | 'summary' | 'keywords' | 'transcript';
+
+export type SearchSignalWeights = Partial<Record<SearchSignal, number>>;
+
+export interface SearchFusion {
+  k?: number;
+  weights?: SearchSignalWeights;
 }
 
 export interface SearchOptions {
   include_transcripts?: boolean;
   include_edges?: boolean;
   top_k?: number;
+  mode?: 'topics' | 'segments';
+  fusion?: SearchFusion;
 }
 
 export interface SearchRequest {
@@ -144,6 +182,25 @@ export interface CreateShareRequest {
   password?: string;
 }
 
+export interface AddCollaboratorRequest {
+  user_id: string;
+  role: AccessRole;
+}
+
+export interface UpdateCollaboratorRequest {
+  role: AccessRole;
+}
+
+export interface CreateUploadRequest {
+  filename: string;
+  size_bytes: number;
+  checksum_sha256: string;
+  duration_s: number;
+  content_type?: string;
+  config?: PipelineConfig;
+  metadata?: Record<string, unknown>;
+}
+
 // ==================== Response Types ====================
 
 export interface VideoResponse {
@@ -156,6 +213,19 @@ export interface VideoResponse {
   job_id: string | null;
 }
 
+export type UploadStatus = 'uploading' | 'assembling' | 'completed' | 'failed' | 'aborted';
+
+export interface UploadResponse {
+  id: string;
+  filename: string;
+  status: UploadStatus;
+  size_bytes: number;
+  received_bytes: number;
+  chunk_size: number;
+  video_id: string | null;
+  created_at: string;
+}
+
 export interface GraphSummary {
   id: string;
   version: number;
@@ -202,6 +272,7 @@ export interface TopicNode {
   child_ids: string[];
   importance_score: number;
   cluster_id: string | null;
+  cluster_label: string | null;
 }
 
 export interface TopicEdge {
@@ -241,6 +312,71 @@ export interface GraphResponse {
   updated_at: string;
 }
 
+export interface ReprocessGraphResponse {
+  id: string;
+  video_id: string;
+  version: number;
+  parent_version_id: string;
+  status: 'processing';
+  config_snapshot: Record<string, unknown>;
+  job_id: string;
+  created_at: string;
+}
+
+export interface GraphDiffTopic {
+  topic_id: string;
+  title: string;
+  level: number;
+  start_ts: number;
+  end_ts: number;
+}
+
+export interface GraphDiffEdge {
+  src_topic_id: string;
+  dst_topic_id: string;
+  edge_type: EdgeType;
+  weight: number;
+}
+
+export interface GraphDiffResponse {
+  base: { id: string; version: number };
+  target: { id: string; version: number };
+  summary: {
+    matched: number;
+    added: number;
+    removed: number;
+    retitled: number;
+    split: number;
+    merged: number;
+    edges_added: number;
+    edges_removed: number;
+    edges_reweighted: number;
+  };
+  topics: {
+    matched: Array<{
+      base_topic_id: string;
+      target_topic_id: string;
+      score: number;
+      retitled: boolean;
+    }>;
+    added: GraphDiffTopic[];
+    removed: GraphDiffTopic[];
+    retitled: Array<{
+      base_topic_id: string;
+      target_topic_id: string;
+      base_title: string;
+      target_title: string;
+    }>;
+    split: Array<{ base_topic_id: string; target_topic_ids: string[] }>;
+    merged: Array<{ base_topic_ids: string[]; target_topic_id: string }>;
+  };
+  edges: {
+    added: GraphDiffEdge[];
+    removed: GraphDiffEdge[];
+    reweighted: Array<GraphDiffEdge & { base_weight: number }>;
+  };
+}
+
 export interface GraphVersionItem {
   id: string;
   version: number;
@@ -256,6 +392,131 @@ export interface GraphVersionListResponse {
   items: GraphVersionItem[];
 }
 
+export interface RankedTopic {
+  topic_id: string;
+  title: string;
+  level: number;
+  cluster_id: string | null;
+  pagerank: number;
+  betweenness: number;
+  community: number;
+}
+
+export interface TopicCommunity {
+  id: number;
+  size: number;
+  central_topic_id: string;
+  topic_ids: string[];
+}
+
+export interface BridgeTopic {
+  topic_id: string;
+  title: string;
+  group: string;
+  connected_groups: string[];
+  participation: number;
+  betweenness: number;
+}
+
+export interface GraphAnalyticsResponse {
+  graph_version_id: string;
+  computed_at: string;
+  cached: boolean;
+  modularity: number;
+  community_count: number;
+  topics: RankedTopic[];
+  communities: TopicCommunity[];
+  bridges: BridgeTopic[];
+}
+
+export interface PathTopic {
+  id: string;
+  title: string;
+  level: number;
+  start_ts: number;
+  end_ts: number;
+}
+
+export interface PathEdge {
+  id: string;
+  src_topic_id: string;
+  dst_topic_id: string;
+  edge_type: EdgeType;
+  weight: number;
+}
+
+export interface GraphPathResponse {
+  graph_version_id: string;
+  from: string;
+  to: string;
+  cost: number;
+  topics: PathTopic[];
+  edges: PathEdge[];
+}
+
+export type LibraryGraphStatus = 'processing' | 'complete' | 'error';
+
+export interface LibraryClusterLink {
+  cluster_id: string;
+  edge_count: number;
+}
+
+export interface LibraryCluster {
+  id: string;
+  label: string;
+  keywords: string[];
+  size: number;
+  video_ids: string[];
+  links: LibraryClusterLink[];
+}
+
+export interface LibraryNode {
+  id: string;
+  video_id: string;
+  video_title: string | null;
+  library_cluster_id: string | null;
+  level: number;
+  start_ts: number;
+  end_ts: number;
+  title: string;
+  keywords: string[];
+  importance_score: number;
+}
+
+export interface LibraryEdge {
+  id: string;
+  src_topic_id: string;
+  dst_topic_id: string;
+  src_video_id: string;
+  dst_video_id: string;
+  edge_type: 'semantic' | 'reference';
+  distance: number;
+  weight: number;
+  metadata: Record<string, unknown>;
+}
+
+export interface LibraryGraphResponse {
+  id: string;
+  status: LibraryGraphStatus;
+  job_id: string | null;
+  error: string | null;
+  computed_at: string | null;
+  video_count: number;
+  node_count: number;
+  edge_count: number;
+  cluster_count: number;
+  clusters: LibraryCluster[];
+  nodes: LibraryNode[];
+  edges: LibraryEdge[];
+  pagination: Pagination;
+}
+
+export interface BuildLibraryGraphResponse {
+  id: string;
+  status: LibraryGraphStatus;
+  job_id: string;
+}
+
 export interface Snippet {
   id: string;
   topic_id: string;
@@ -281,6 +542,7 @@ export interface TopicResponse {
   child_ids: string[];
   importance_score: number;
   cluster_id: string | null;
+  cluster_label: string | null;
   snippets: Snippet[];
   created_at: string;
   updated_at: string;
@@ -290,11 +552,35 @@ export interface SnippetListResponse {
   items: Snippet[];
 }
 
+export interface SearchSignalMatch {
+  rank: number;
+  score: number;
+  contribution: number;
+}
+
+export interface SearchSegmentHit {
+  id: string;
+  video_id: string;
+  start_ts: number;
+  end_ts: number;
+  speaker_id: string | null;
+  score: number;
+  matched_signals: SearchSignal[];
+  signals: Partial<Record<SearchSignal, SearchSignalMatch>>;
+  snippet: string;
+  highlights: Array<{ start: number; end: number }>;
+  jump_to_ts: number;
+  deep_link: string | null;
+}
+
 export interface SearchResult {
   topic: TopicNode;
   score: number;
   matched_transcript: string | null;
   highlight: string | null;
+  matched_signals?: SearchSignal[];
+  signals?: Partial<Record<SearchSignal, SearchSignalMatch>>;
+  segments?: SearchSegmentHit[];
 }
 
 export interface SearchResponse {
@@ -302,6 +588,24 @@ export interface SearchResponse {
   results: SearchResult[];
   total: number;
   took_ms: number;
+  fusion?: {
+    k: number;
+    weights: Record<SearchSignal, number>;
+  };
+  facets?: SearchFacets;
+}
+
+export interface FacetCount {
+  value: string | number;
+  label?: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  videos: FacetCount[];
+  levels: FacetCount[];
+  speakers: FacetCount[];
+  clusters: FacetCount[];
 }
 
 export interface CrossReference {
@@ -310,9 +614,37 @@ export interface CrossReference {
   relationship: string;
 }
 
+export interface DeepSearchCitation {
+  number: number;
+  kind: 'topic' | 'segment';
+  topic_id: string;
+  segment_id: string | null;
+  video_id: string;
+  title: string;
+  start_ts: number;
+  end_ts: number;
+  deep_link: string | null;
+}
+
+export type ClaimStatus = 'supported' | 'unsupported' | 'uncited';
+
+export interface DeepSearchClaim {
+  text: string;
+  start: number;
+  end: number;
+  citations: number[];
+  status: ClaimStatus;
+  supported_by: number[];
+  unsupported_citations: number[];
+}
+
 export interface DeepSearchResponse {
   query: string;
   answer: string;
+  citations: DeepSearchCitation[];
+  claims: DeepSearchClaim[];
+  claim_check: 'llm' | 'lexical' | 'none';
+  unsupported_claims: number;
   sources: SearchResult[];
   synthesis: string | null;
   cross_references: CrossReference[];
@@ -368,6 +700,88 @@ export interface SharedResourceResponse {
   scope: ShareScope;
 }
 
+export interface Collaborator {
+  user_id: string;
+  role: AccessRole;
+  granted_by: string;
+  granted_at: string;
+}
+
+export interface CollaboratorListResponse {
+  resource_type: ResourceType;
+  resource_id: string;
+  video_id: string;
+  /** True for graphs and topics, whose access comes from the video */
+  inherited: boolean;
+  /** Creator of the video, always an owner */
+  owner_id: string;
+  your_role: AccessRole;
+  can_manage: boolean;
+  collaborators: Collaborator[];
+}
+
+export interface CollaboratorAuditEntry {
+  id: string;
+  user_id: string;
+  action: 'grant' | 'update' | 'revoke';
+  previous_role: AccessRole | null;
+  role: AccessRole | null;
+  actor_id: string;
+  created_at: string;
+}
+
+export interface CollaboratorAuditResponse {
+  items: CollaboratorAuditEntry[];
+  pagination: Pagination;
+}
+
+export type TopicEditOperation = 'update' | 'merge' | 'split' | 'undo' | 'redo';
+
+export interface TopicEditSnapshot {
+  topics: Array<{ id: string; level: number; start_ts: number; end_ts: number; title: string }>;
+  /** Edges removed with a deleted topic and restored on undo */
+  edge_count: number;
+  snippet_count: number;
+}
+
+export interface TopicEdit {
+  id: string;
+  sequence: number;
+  operation: TopicEditOperation;
+  /** Edit undone or redone by this entry */
+  target_edit_id: string | null;
+  topic_ids: string[];
+  user_id: string;
+  /** Whether the edit is currently undone */
+  undone: boolean;
+  before: TopicEditSnapshot;
+  after: TopicEditSnapshot;
+  created_at: string;
+}
+
+export interface TopicEditHistoryResponse {
+  items: TopicEdit[];
+  undo_available: number;
+  redo_available: number;
+  pagination: Pagination;
+}
+
+export interface RevertTopicEditsResponse {
+  /** Undo or redo entries added to the history */
+  items: TopicEdit[];
+  undo_available: number;
+  redo_available: number;
+}
+
+export interface ShareRedemption {
+  resource_type: 'video';
+  resource_id: string;
+  scope: ShareScope;
+  /** Strongest role the caller now holds on the video */
+  role: AccessRole;
+  redeemed_at: string;
+}
+
 export interface WordAlignment {
   word: string;
   start_ts: number;
@@ -421,6 +835,7 @@ export interface ManifestPaths {
   transcript?: string;
   topics?: string;
   embeddings?: string;
+  segment_embeddings?: string;
   graph?: string;
   snippets?: string[];
   exports?: string[];
@@ -459,6 +874,29 @@ export interface JobStatusResponse {
   manifest: ArtifactManifest | null;
 }
 
+export interface StepProgress {
+  name: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  progress: number;
+  message: string | null;
+  eta_seconds: number | null;
+}
+
+export interface JobProgressEvent {
+  job_id: string;
+  job_type: JobType;
+  video_id: string | null;
+  user_id: string | null;
+  status: 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  step: string | null;
+  message: string | null;
+  progress: number;
+  eta_seconds: number | null;
+  steps: StepProgress[];
+  error: string | null;
+  emitted_at: string;
+}
+
 // ==================== Error Types ====================
 
 export interface ApiError {
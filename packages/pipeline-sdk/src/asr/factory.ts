@@ -0,0 +1,26 @@
+/**
+ * ASR Provider Factory
+ */
+
+import type { AsrStepConfig } from '../steps/asr-step';
+import type { AsrProvider } from './types';
+import { WhisperCppProvider, resolveWhisperCppModel } from './whisper-cpp';
+
+/**
+ * Create the ASR provider selected by `AsrStepConfig.provider`
+ */
+export function createAsrProvider(config: AsrStepConfig): AsrProvider {
+  switch (config.provider) {
+    case 'whisper-cpp':
+      return new WhisperCppProvider({
+        binaryPath: config.whisperCppPath,
+        modelPath: resolveWhisperCppModel(config.model, config.modelDir),
+        threads: config.threads,
+        beamSize: config.beamSize,
+        bestOf: config.bestOf,
+        temperature: config.temperature,
+      });
+    default:
+      throw new Error(`ASR provider ${config.provider} is not supported yet`);
+  }
+}
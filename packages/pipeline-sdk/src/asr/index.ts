@@ -0,0 +1,9 @@
+/**
+ * ASR Providers
+ *
+ * Speech-to-text engines used by AsrStep.
+ */
+
+export * from './types';
+export * from './whisper-cpp';
+export * from './factory';
@@ -0,0 +1,29 @@
+/**
+ * ASR Provider Types
+ */
+
+import type { TranscriptSegment } from '../steps/asr-step';
+
+export interface AsrTranscribeOptions {
+  /** Language code (auto-detect if not specified) */
+  language?: string;
+  /** Called with progress in [0, 1] */
+  onProgress?: (fraction: number) => void;
+  /** Stops transcription when aborted */
+  abortSignal?: AbortSignal;
+}
+
+export interface AsrResult {
+  /** Detected or requested language */
+  language: string;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * Speech-to-text engine used by AsrStep
+ */
+export interface AsrProvider {
+  readonly name: string;
+  /** Transcribe a local 16 kHz mono WAV file */
+  transcribe(audioFile: string, options?: AsrTranscribeOptions): Promise<AsrResult>;
+}
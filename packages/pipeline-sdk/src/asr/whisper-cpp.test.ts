@@ -0,0 +1,276 @@
+/**
+ * Unit Tests - whisper.cpp ASR Provider
+ *
+ * Uses a small script standing in for the whisper.cpp CLI, so no model
+ * file is needed. Also runs AsrStep end to end through that script.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  WhisperCppProvider,
+  parseWhisperCppOutput,
+  createWhisperProgressParser,
+  resolveWhisperCppModel,
+} from './whisper-cpp';
+import type { PipelineConfig, PipelineContext } from '@video-graph/shared-types';
+import { createAsrProvider } from './factory';
+import { AsrStep, defaultAsrStepConfig, type TranscriptSegment } from '../steps/asr-step';
+import { createEmptyManifest } from '../core';
+import { createMemoryStorage, createNoopLogger } from '../utils';
+
+/**
+ * Fake whisper.cpp: records its arguments, prints progress and writes
+ * `-ojf` output to `<-of>.json`; FAKE_MODE=fail|hang changes the outcome
+ */
+const FAKE_WHISPER_CPP = `#!/usr/bin/env node
+const fs = require('fs');
+const args = process.argv.slice(2);
+const arg = (name) => args[args.indexOf(name) + 1];
+const mode = process.env.FAKE_MODE || 'ok';
+fs.writeFileSync(arg('-of') + '.args', JSON.stringify(args));
+process.stderr.write('whisper_init_from_file: loading model\\n');
+process.stderr.write('whisper_print_progress_callback: progress =  50%\\n');
+if (mode === 'fail') {
+  process.stderr.write('error: failed to read WAV file\\n');
+  process.exit(1);
+}
+if (mode === 'hang') {
+  setInterval(() => {}, 1000);
+} else {
+  const tokens = (items) => items.map(([text, from, to, p]) => ({ text, offsets: { from, to }, p }));
+  fs.writeFileSync(arg('-of') + '.json', JSON.stringify({
+    params: { language: arg('-l') },
+    result: { language: 'en' },
+    transcription: [
+      {
+        offsets: { from: 0, to: 2000 },
+        text: ' Hello world.',
+        tokens: tokens([['[_BEG_]', 0, 0, 0.99], [' Hello', 0, 600, 0.9], [' wor', 700, 1100, 0.8], ['ld', 1100, 1400, 0.6], ['.', 1400, 1500, 0.7], ['[_TT_100]', 2000, 2000, 0.5]]),
+      },
+      { offsets: { from: 2000, to: 2500 }, text: ' ', tokens: [] },
+      {
+        offsets: { from: 2500, to: 4000 },
+        text: ' Graphs.',
+        tokens: tokens([[' Graphs', 2500, 3500, 1], ['.', 3500, 3600, 0.5], ['<|endoftext|>', 4000, 4000, 0.1]]),
+      },
+    ],
+  }));
+  process.stderr.write('whisper_print_progress_callback: progress = 100%\\n');
+}
+`;
+
+describe('WhisperCppProvider', () => {
+  let dir: string;
+  let binaryPath: string;
+  let audioFile: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'fake-whisper-'));
+    binaryPath = join(dir, 'whisper-cli');
+    audioFile = join(dir, 'audio.wav');
+    await fs.writeFile(binaryPath, FAKE_WHISPER_CPP, { mode: 0o755 });
+    await fs.writeFile(audioFile, 'RIFF');
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should transcribe with word timestamps and report progress', async () => {
+    const provider = new WhisperCppProvider({ binaryPath, modelPath: 'models/ggml-base.bin' });
+    const progress: number[] = [];
+
+    const result = await provider.transcribe(audioFile, {
+      onProgress: (fraction) => progress.push(fraction),
+    });
+
+    expect(result.language).toBe('en');
+    expect(result.segments).toHaveLength(2);
+    expect(result.segments[0]).toMatchObject({
+      id: 'seg-1',
+      start: 0,
+      end: 2,
+      text: 'Hello world.',
+      words: [
+        { word: 'Hello', start: 0, end: 0.6, confidence: 0.9 },
+        { word: 'world.', start: 0.7, end: 1.5 },
+      ],
+    });
+    expect(result.segments[0].words![1].confidence).toBeCloseTo(0.7);
+    expect(result.segments[0].confidence).toBeCloseTo(0.75);
+    expect(progress).toEqual([0.5, 1, 1]);
+  });
+
+  it('should pass model, language and decoding options to whisper.cpp', async () => {
+    const provider = new WhisperCppProvider({
+      binaryPath,
+      modelPath: 'models/ggml-small.bin',
+      threads: 4,
+      beamSize: 5,
+      temperature: 0,
+    });
+
+    await provider.transcribe(audioFile, { language: 'de' });
+
+    const args = JSON.parse(await fs.readFile(`${audioFile}.whisper.args`, 'utf8'));
+    expect(args).toEqual([
+      '-m', 'models/ggml-small.bin',
+      '-f', audioFile,
+      '-l', 'de',
+      '--print-progress',
+      '-ojf',
+      '-of', `${audioFile}.whisper`,
+      '-t', '4',
+      '-bs', '5',
+      '-tp', '0',
+    ]);
+  });
+
+  it('should remove its JSON output', async () => {
+    const provider = new WhisperCppProvider({ binaryPath, modelPath: 'm.bin' });
+
+    await provider.transcribe(audioFile);
+
+    await expect(fs.access(`${audioFile}.whisper.json`)).rejects.toThrow();
+  });
+
+  it('should include the stderr tail when whisper.cpp fails', async () => {
+    const provider = new WhisperCppProvider({ binaryPath, modelPath: 'm.bin' });
+
+    process.env.FAKE_MODE = 'fail';
+    try {
+      await expect(provider.transcribe(audioFile)).rejects.toThrow(
+        /exited with code 1: [\s\S]*failed to read WAV file/
+      );
+    } finally {
+      delete process.env.FAKE_MODE;
+    }
+  });
+
+  it('should kill whisper.cpp when aborted', async () => {
+    const provider = new WhisperCppProvider({ binaryPath, modelPath: 'm.bin' });
+    const controller = new AbortController();
+
+    process.env.FAKE_MODE = 'hang';
+    try {
+      await expect(
+        provider.transcribe(audioFile, {
+          abortSignal: controller.signal,
+          onProgress: () => controller.abort(),
+        })
+      ).rejects.toThrow(`${binaryPath} aborted`);
+    } finally {
+      delete process.env.FAKE_MODE;
+    }
+  });
+});
+
+describe('AsrStep (whisper.cpp)', () => {
+  let dir: string;
+  let whisperCppPath: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'asr-step-'));
+    whisperCppPath = join(dir, 'whisper-cli');
+    await fs.writeFile(whisperCppPath, FAKE_WHISPER_CPP, { mode: 0o755 });
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write the transcript and word alignment', async () => {
+    const storage = createMemoryStorage();
+    await storage.write('videos/v1/audio/audio.wav', Buffer.from('RIFF'));
+    const workDir = await fs.mkdtemp(join(dir, 'work-'));
+    const progress: number[] = [];
+    const step = new AsrStep({
+      whisperCppPath,
+      modelDir: dir,
+      workDir,
+      enableWordAlignment: true,
+    });
+
+    const manifest = createEmptyManifest('v1', 'gv1', 'job-1', {} as PipelineConfig);
+    manifest.paths.audio_wav = 'videos/v1/audio/audio.wav';
+    const result = await step.execute(manifest, {
+      jobId: 'job-1',
+      videoId: 'v1',
+      userId: 'u1',
+      storage,
+      config: {} as PipelineConfig,
+      logger: createNoopLogger(),
+      onProgress: (value) => progress.push(value),
+    } as PipelineContext);
+
+    const transcript = JSON.parse(
+      (await storage.read('videos/v1/transcripts/transcript.json')).toString()
+    ) as TranscriptSegment[];
+    expect(transcript.map((s) => s.text)).toEqual(['Hello world.', 'Graphs.']);
+    expect(transcript[1].words).toEqual([{ word: 'Graphs.', start: 2.5, end: 3.6, confidence: 0.75 }]);
+
+    const alignment = JSON.parse(
+      (await storage.read('videos/v1/transcripts/word_alignment.json')).toString()
+    ) as TranscriptSegment[];
+    expect(alignment).toHaveLength(2);
+    expect(alignment[0]).not.toHaveProperty('confidence');
+
+    expect(result.paths.transcript).toBe('videos/v1/transcripts/transcript.json');
+    expect(result.paths.word_alignment).toBe('videos/v1/transcripts/word_alignment.json');
+    expect(result.metrics.transcript_segments).toBe(2);
+
+    expect(progress).toEqual([10, 30, 50, 70, 70, 70, 100]);
+    expect(await fs.readdir(workDir)).toEqual([]);
+  });
+});
+
+describe('parseWhisperCppOutput', () => {
+  it('should fall back to the requested language and segment-level text', () => {
+    const result = parseWhisperCppOutput(
+      JSON.stringify({
+        params: { language: 'fr' },
+        transcription: [{ offsets: { from: 1000, to: 3000 }, text: ' Bonjour' }],
+      })
+    );
+
+    expect(result).toEqual({
+      language: 'fr',
+      segments: [{ id: 'seg-1', start: 1, end: 3, text: 'Bonjour', confidence: undefined }],
+    });
+  });
+});
+
+describe('createWhisperProgressParser', () => {
+  it('should parse progress lines split across chunks', () => {
+    const progress: number[] = [];
+    const parse = createWhisperProgressParser((f) => progress.push(f));
+
+    parse('whisper_print_progress_callback: progress =  2');
+    parse('5%\nsome other log line\nprogress = 80%\n');
+
+    expect(progress).toEqual([0.25, 0.8]);
+  });
+});
+
+describe('resolveWhisperCppModel', () => {
+  it('should map model sizes to ggml files and keep paths', () => {
+    expect(resolveWhisperCppModel('base', '/models')).toBe('/models/ggml-base.bin');
+    expect(resolveWhisperCppModel('/opt/ggml-large-v3.bin')).toBe('/opt/ggml-large-v3.bin');
+    expect(resolveWhisperCppModel('custom.bin')).toBe('custom.bin');
+  });
+});
+
+describe('createAsrProvider', () => {
+  it('should create the whisper.cpp provider', () => {
+    expect(createAsrProvider(defaultAsrStepConfig).name).toBe('whisper-cpp');
+  });
+
+  it('should reject providers without an implementation', () => {
+    expect(() =>
+      createAsrProvider({ ...defaultAsrStepConfig, provider: 'faster-whisper' })
+    ).toThrow('ASR provider faster-whisper is not supported yet');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * whisper.cpp ASR Provider
+ *
+ * Runs the whisper.cpp CLI on CPU against a local ggml model and parses
+ * its full JSON output (`-ojf`), which includes per-token timestamps and
+ * probabilities. Tokens are merged into words for word-level timestamps.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { runProcess } from '../process';
+import type { TranscriptSegment } from '../steps/asr-step';
+import type { AsrProvider, AsrResult, AsrTranscribeOptions } from './types';
+
+export interface WhisperCppOptions {
+  /** whisper.cpp CLI binary (defaults to WHISPER_CPP_PATH or `whisper-cli`) */
+  binaryPath?: string;
+  /** Path to a ggml model file */
+  modelPath: string;
+  /** CPU threads (whisper.cpp default when unset) */
+  threads?: number;
+  beamSize?: number;
+  bestOf?: number;
+  temperature?: number;
+}
+
+type Word = NonNullable<TranscriptSegment['words']>[number];
+
+interface WhisperCppToken {
+  text: string;
+  offsets?: { from: number; to: number };
+  p?: number;
+}
+
+interface WhisperCppOutput {
+  params?: { language?: string };
+  result?: { language?: string };
+  transcription?: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+    tokens?: WhisperCppToken[];
+  }>;
+}
+
+/** Control tokens such as `[_BEG_]`, `[_TT_150]` or `<|endoftext|>` */
+const SPECIAL_TOKEN = /^\s*(\[_[^\]]*\]|<\|[^|]*\|>)\s*$/;
+
+export class WhisperCppProvider implements AsrProvider {
+  readonly name = 'whisper-cpp';
+
+  constructor(private options: WhisperCppOptions) {}
+
+  async transcribe(audioFile: string, options: AsrTranscribeOptions = {}): Promise<AsrResult> {
+    const binary = this.options.binaryPath ?? process.env.WHISPER_CPP_PATH ?? 'whisper-cli';
+    // whisper.cpp appends `.json` to the output base name
+    const outputBase = `${audioFile}.whisper`;
+
+    try {
+      await runProcess(binary, this.buildArgs(audioFile, outputBase, options.language), {
+        abortSignal: options.abortSignal,
+        onStderr: createWhisperProgressParser(options.onProgress),
+      });
+      options.onProgress?.(1);
+
+      return parseWhisperCppOutput(await fs.readFile(`${outputBase}.json`, 'utf8'));
+    } finally {
+      await fs.rm(`${outputBase}.json`, { force: true });
+    }
+  }
+
+  private buildArgs(audioFile: string, outputBase: string, language?: string): string[] {
+    const args = [
+      '-m', this.options.modelPath,
+      '-f', audioFile,
+      '-l', language ?? 'auto',
+      '--print-progress',
+      '-ojf',
+      '-of', outputBase,
+    ];
+    if (this.options.threads) args.push('-t', String(this.options.threads));
+    if (this.options.beamSize) args.push('-bs', String(this.options.beamSize));
+    if (this.options.bestOf) args.push('-bo', String(this.options.bestOf));
+    if (this.options.temperature !== undefined) args.push('-tp', String(this.options.temperature));
+    return args;
+  }
+}
+
+/**
+ * Resolve a model size (e.g. `base`) to `<modelDir>/ggml-<size>.bin`;
+ * anything that looks like a path is used as-is
+ */
+export function resolveWhisperCppModel(model: string, modelDir?: string): string {
+  if (model.includes('/') || model.endsWith('.bin')) {
+    return model;
+  }
+  return join(modelDir ?? process.env.WHISPER_CPP_MODEL_DIR ?? 'models', `ggml-${model}.bin`);
+}
+
+/**
+ * Parse whisper.cpp `-ojf` output into transcript segments
+ */
+export function parseWhisperCppOutput(json: string): AsrResult {
+  const data = JSON.parse(json) as WhisperCppOutput;
+  const segments: TranscriptSegment[] = [];
+
+  for (const entry of data.transcription ?? []) {
+    const text = entry.text.trim();
+    if (!text) continue;
+
+    const tokens = (entry.tokens ?? []).filter((t) => t.text && !SPECIAL_TOKEN.test(t.text));
+    const words = mergeTokens(tokens);
+
+    segments.push({
+      id: `seg-${segments.length + 1}`,
+      start: entry.offsets.from / 1000,
+      end: entry.offsets.to / 1000,
+      text,
+      confidence: mean(tokens.map((t) => t.p)),
+      ...(words.length > 0 && { words }),
+    });
+  }
+
+  return {
+    language: data.result?.language ?? data.params?.language ?? 'unknown',
+    segments,
+  };
+}
+
+/**
+ * Build a parser for `--print-progress` lines on stderr
+ * (`whisper_print_progress_callback: progress =  42%`)
+ */
+export function createWhisperProgressParser(
+  onProgress: ((fraction: number) => void) | undefined
+): (chunk: string) => void {
+  let buffered = '';
+
+  return (chunk: string) => {
+    buffered += chunk;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const match = /progress\s*=\s*(\d+)%/.exec(line);
+      if (match) {
+        onProgress?.(Math.min(parseInt(match[1], 10) / 100, 1));
+      }
+    }
+  };
+}
+
+/**
+ * Merge sub-word tokens into words. A token starting with a space begins
+ * a new word; anything else (word pieces, punctuation) continues it.
+ */
+function mergeTokens(tokens: WhisperCppToken[]): Word[] {
+  const words: Array<Word & { probabilities: number[] }> = [];
+
+  for (const token of tokens) {
+    const from = (token.offsets?.from ?? 0) / 1000;
+    const to = (token.offsets?.to ?? 0) / 1000;
+    const current = words[words.length - 1];
+
+    if (!current || token.text.startsWith(' ')) {
+      words.push({
+        word: token.text.trim(),
+        start: from,
+        end: to,
+        probabilities: token.p === undefined ? [] : [token.p],
+      });
+    } else {
+      current.word += token.text;
+      current.end = to;
+      if (token.p !== undefined) current.probabilities.push(token.p);
+    }
+  }
+
+  return words
+    .filter((w) => w.word)
+    .map(({ probabilities, ...word }) => ({ ...word, confidence: mean(probabilities) }));
+}
+
+function mean(values: Array<number | undefined>): number | undefined {
+  const defined = values.filter((v): v is number => v !== undefined);
+  if (defined.length === 0) return undefined;
+  return defined.reduce((sum, v) => sum + v, 0) / defined.length;
+}
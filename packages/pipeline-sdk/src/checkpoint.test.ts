@@ -0,0 +1,232 @@
+/**
+ * Unit Tests - Manifest Checkpoints
+ *
+ * Tests for checkpoint persistence and resuming pipelines from them.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type {
+  ArtifactManifest,
+  ArtifactPaths,
+  PipelineConfig,
+  PipelineContext,
+  StorageService,
+} from '@video-graph/shared-types';
+import { BasePipelineStep, PipelineOrchestrator, createEmptyManifest } from './core';
+import {
+  discardCheckpoint,
+  getManifestPath,
+  loadManifestCheckpoint,
+  isStepUpToDate,
+  resumeFromCheckpoint,
+  saveManifestCheckpoint,
+} from './checkpoint';
+import { createMemoryStorage, createNoopLogger } from './utils';
+
+class FakeStep extends BasePipelineStep {
+  executions = 0;
+  failNext = false;
+
+  constructor(
+    readonly name: string,
+    public version: string,
+    private inputs: (keyof ArtifactPaths)[],
+    private output: keyof ArtifactPaths
+  ) {
+    super();
+  }
+
+  getRequiredInputs(): (keyof ArtifactPaths)[] {
+    return this.inputs;
+  }
+
+  getProducedOutputs(): (keyof ArtifactPaths)[] {
+    return [this.output];
+  }
+
+  async execute(
+    manifest: ArtifactManifest,
+    context: PipelineContext
+  ): Promise<ArtifactManifest> {
+    this.executions++;
+    if (this.failNext) {
+      this.failNext = false;
+      throw new Error(`${this.name} failed`);
+    }
+    const path = `videos/${manifest.video_id}/${this.output}.json`;
+    await context.storage.write(path, Buffer.from(this.name));
+    return this.markStepCompleted(this.updateManifest(manifest, { [this.output]: path }), this.name);
+  }
+}
+
+const config = { asr_model: 'faster-whisper' } as PipelineConfig;
+
+describe('PipelineOrchestrator checkpoints', () => {
+  let storage: StorageService;
+  let video: FakeStep;
+  let asr: FakeStep;
+  let graph: FakeStep;
+  let orchestrator: PipelineOrchestrator;
+
+  const run = (jobId: string, stepConfig: PipelineConfig = config) => {
+    const context: PipelineContext = {
+      jobId,
+      videoId: 'v1',
+      userId: 'u1',
+      storage,
+      config: stepConfig,
+      logger: createNoopLogger(),
+    };
+    return orchestrator.executePipeline(
+      createEmptyManifest('v1', 'gv1', jobId, stepConfig),
+      context,
+      ['video', 'asr', 'embeddings-graph']
+    );
+  };
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    video = new FakeStep('video', '1.0.0', [], 'video_normalized');
+    asr = new FakeStep('asr', '1.0.0', ['video_normalized'], 'transcript');
+    graph = new FakeStep('embeddings-graph', '1.0.0', ['transcript'], 'graph');
+    orchestrator = new PipelineOrchestrator();
+    for (const step of [video, asr, graph]) orchestrator.registerStep(step);
+  });
+
+  it('should persist the manifest after every step', async () => {
+    graph.failNext = true;
+    await run('job-1');
+
+    const checkpoint = await loadManifestCheckpoint(storage, 'v1', 'gv1');
+    expect(checkpoint?.completed_steps).toEqual(['video', 'asr']);
+    expect(checkpoint?.step_versions).toEqual({ video: '1.0.0', asr: '1.0.0' });
+    expect(checkpoint?.step_errors).toEqual({ 'embeddings-graph': 'embeddings-graph failed' });
+  });
+
+  it('should resume from the first incomplete step', async () => {
+    graph.failNext = true;
+    await run('job-1');
+    const result = await run('job-2');
+
+    expect(result.success).toBe(true);
+    expect(video.executions).toBe(1);
+    expect(asr.executions).toBe(1);
+    expect(graph.executions).toBe(2);
+    expect(result.stepResults.map((r) => r.skipped ?? false)).toEqual([true, true, false]);
+    expect(result.manifest.job_id).toBe('job-2');
+    expect(result.manifest.step_errors).toEqual({});
+  });
+
+  it('should re-run a step whose version changed, and every step after it', async () => {
+    await run('job-1');
+    asr.version = '2.0.0';
+    const result = await run('job-2');
+
+    expect(video.executions).toBe(1);
+    expect(asr.executions).toBe(2);
+    expect(graph.executions).toBe(2);
+    expect(result.manifest.step_versions?.asr).toBe('2.0.0');
+  });
+
+  it('should re-run a step whose outputs were deleted', async () => {
+    await run('job-1');
+    await storage.delete('videos/v1/transcript.json');
+    await run('job-2');
+
+    expect(video.executions).toBe(1);
+    expect(asr.executions).toBe(2);
+    expect(graph.executions).toBe(2);
+  });
+
+  it('should ignore checkpoints written with a different config', async () => {
+    await run('job-1');
+    await run('job-2', { asr_model: 'whisper' } as PipelineConfig);
+
+    expect(video.executions).toBe(2);
+  });
+
+  it('should not resume when disabled', async () => {
+    await run('job-1');
+    await orchestrator.executePipeline(
+      createEmptyManifest('v1', 'gv1', 'job-2', config),
+      { jobId: 'job-2', videoId: 'v1', userId: 'u1', storage, config, logger: createNoopLogger() },
+      ['video'],
+      { resume: false }
+    );
+
+    expect(video.executions).toBe(2);
+  });
+});
+
+describe('checkpoint helpers', () => {
+  const manifest = createEmptyManifest('v1', 'gv1', 'job-1', config);
+
+  it('should place checkpoints under the video directory', () => {
+    expect(getManifestPath('v1', 'gv1')).toBe('videos/v1/manifests/gv1.json');
+  });
+
+  it('should only resume checkpoints for the same graph version', () => {
+    const checkpoint = { ...manifest, graph_version_id: 'gv2', completed_steps: ['video'] };
+    expect(resumeFromCheckpoint(manifest, checkpoint)).toBe(manifest);
+    expect(resumeFromCheckpoint(manifest, null)).toBe(manifest);
+  });
+
+  it('should require every produced output to exist', async () => {
+    const storage = createMemoryStorage();
+    const step = new FakeStep('snippet', '1.0.0', [], 'snippets');
+    const completed: ArtifactManifest = {
+      ...manifest,
+      paths: { snippets: ['videos/v1/a.mp4', 'videos/v1/b.mp4'] },
+      completed_steps: ['snippet'],
+      step_versions: { snippet: '1.0.0' },
+    };
+
+    await storage.write('videos/v1/a.mp4', Buffer.from('a'));
+    expect(await isStepUpToDate(step, completed, storage)).toBe(false);
+
+    await storage.write('videos/v1/b.mp4', Buffer.from('b'));
+    expect(await isStepUpToDate(step, completed, storage)).toBe(true);
+  });
+
+  it('should discard a checkpoint together with its artifacts', async () => {
+    const storage = createMemoryStorage();
+    await storage.write('videos/v1/audio.wav', Buffer.from('audio'));
+    await storage.write('videos/v1/a.mp4', Buffer.from('a'));
+    await storage.write('videos/v1/other.json', Buffer.from('other'));
+    await saveManifestCheckpoint(storage, {
+      ...manifest,
+      paths: { audio_wav: 'videos/v1/audio.wav', snippets: ['videos/v1/a.mp4', 'videos/v1/b.mp4'] },
+    });
+
+    await discardCheckpoint(storage, 'v1', 'gv1');
+
+    expect(await storage.list('videos/v1/')).toEqual(['videos/v1/other.json']);
+    await expect(discardCheckpoint(storage, 'v1', 'gv1')).resolves.toBeUndefined();
+  });
+
+  it('should keep artifacts a discarded checkpoint shares with its parent version', async () => {
+    const storage = createMemoryStorage();
+    await storage.write('videos/v1/transcript.json', Buffer.from('transcript'));
+    await storage.write('videos/v1/versions/gv2/topics.json', Buffer.from('topics'));
+    await saveManifestCheckpoint(storage, {
+      ...manifest,
+      paths: { transcript: 'videos/v1/transcript.json' },
+    });
+    await saveManifestCheckpoint(storage, {
+      ...manifest,
+      graph_version_id: 'gv2',
+      parent_graph_version_id: 'gv1',
+      paths: {
+        transcript: 'videos/v1/transcript.json',
+        topics: 'videos/v1/versions/gv2/topics.json',
+      },
+    });
+
+    await discardCheckpoint(storage, 'v1', 'gv2');
+
+    expect((await storage.list('videos/v1/')).sort()).toEqual([
+      'videos/v1/manifests/gv1.json',
+      'videos/v1/transcript.json',
+    ]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Manifest Checkpoints
+ *
+ * The orchestrator persists the ArtifactManifest after every step so a
+ * retried or restarted job can resume from the first incomplete step
+ * instead of re-running the whole pipeline.
+ */
+
+import type {
+  ArtifactManifest,
+  PipelineStep,
+  StorageService,
+} from '@video-graph/shared-types';
+
+/**
+ * Storage path of the manifest checkpoint for a graph version
+ */
+export function getManifestPath(videoId: string, graphVersionId: string): string {
+  return `videos/${videoId}/manifests/${graphVersionId}.json`;
+}
+
+/**
+ * Storage directory for the artifacts that belong to one graph version.
+ * Topics, the graph and snippets are written here so that reprocessing a
+ * video never overwrites the artifacts of its earlier versions.
+ */
+export function getGraphVersionDir(videoId: string, graphVersionId: string): string {
+  return `videos/${videoId}/versions/${graphVersionId}`;
+}
+
+/**
+ * Persist a manifest checkpoint
+ */
+export async function saveManifestCheckpoint(
+  storage: StorageService,
+  manifest: ArtifactManifest
+): Promise<void> {
+  await storage.write(
+    getManifestPath(manifest.video_id, manifest.graph_version_id),
+    Buffer.from(JSON.stringify(manifest, null, 2))
+  );
+}
+
+/**
+ * Load the manifest checkpoint for a graph version, if one exists
+ */
+export async function loadManifestCheckpoint(
+  storage: StorageService,
+  videoId: string,
+  graphVersionId: string
+): Promise<ArtifactManifest | null> {
+  const path = getManifestPath(videoId, graphVersionId);
+  if (!(await storage.exists(path))) {
+    return null;
+  }
+  return JSON.parse((await storage.read(path)).toString()) as ArtifactManifest;
+}
+
+/**
+ * Delete the artifacts recorded in a graph version's checkpoint, then the
+ * checkpoint itself, so nothing of an abandoned run is left or resumed.
+ * Only files the pipeline wrote under the video's directory are deleted:
+ * artifacts reused from a parent version are kept, and so are inputs the
+ * run only read, such as the uploaded source of a `file` video.
+ */
+export async function discardCheckpoint(
+  storage: StorageService,
+  videoId: string,
+  graphVersionId: string
+): Promise<void> {
+  const checkpoint = await loadManifestCheckpoint(storage, videoId, graphVersionId);
+  if (!checkpoint) return;
+
+  const parent = checkpoint.parent_graph_version_id
+    ? await loadManifestCheckpoint(storage, videoId, checkpoint.parent_graph_version_id)
+    : null;
+  const shared = new Set(parent ? artifactPaths(parent) : []);
+  const videoDir = `videos/${videoId}/`;
+
+  for (const path of artifactPaths(checkpoint)) {
+    if (!path.startsWith(videoDir) || shared.has(path)) continue;
+    if (await storage.exists(path)) {
+      await storage.delete(path);
+    }
+  }
+  await storage.delete(getManifestPath(videoId, graphVersionId));
+}
+
+function artifactPaths(manifest: ArtifactManifest): string[] {
+  return Object.values(manifest.paths).flatMap((value) =>
+    value === undefined ? [] : Array.isArray(value) ? value : [value]
+  );
+}
+
+/**
+ * Merge a checkpoint into a fresh manifest for a new run.
+ *
+ * The checkpoint is only usable when it was produced with the same
+ * pipeline configuration; otherwise its artifacts may not match what
+ * this run would produce and the fresh manifest is returned unchanged.
+ */
+export function resumeFromCheckpoint(
+  manifest: ArtifactManifest,
+  checkpoint: ArtifactManifest | null
+): ArtifactManifest {
+  if (
+    !checkpoint ||
+    checkpoint.video_id !== manifest.video_id ||
+    checkpoint.graph_version_id !== manifest.graph_version_id ||
+    JSON.stringify(checkpoint.config_snapshot) !== JSON.stringify(manifest.config_snapshot)
+  ) {
+    return manifest;
+  }
+
+  return {
+    ...checkpoint,
+    job_id: manifest.job_id,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Check whether a step can be skipped: it completed with the same
+ * version and every output it produces still exists in storage.
+ */
+export async function isStepUpToDate(
+  step: PipelineStep,
+  manifest: ArtifactManifest,
+  storage: StorageService
+): Promise<boolean> {
+  if (!manifest.completed_steps?.includes(step.name)) return false;
+  if (manifest.step_versions?.[step.name] !== step.version) return false;
+
+  for (const key of step.getProducedOutputs()) {
+    const value = manifest.paths[key];
+    if (value === undefined || value === null) return false;
+
+    const paths = Array.isArray(value) ? value : [value];
+    for (const path of paths) {
+      if (!(await storage.exists(path))) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Record that a step completed, replacing any earlier completion
+ */
+export function recordStepCompletion(
+  manifest: ArtifactManifest,
+  step: PipelineStep
+): ArtifactManifest {
+  const stepErrors = { ...(manifest.step_errors || {}) };
+  delete stepErrors[step.name];
+
+  return {
+    ...manifest,
+    completed_steps: [
+      ...(manifest.completed_steps || []).filter((name) => name !== step.name),
+      step.name,
+    ],
+    step_versions: {
+      ...(manifest.step_versions || {}),
+      [step.name]: step.version,
+    },
+    step_errors: stepErrors,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Forget a step's completion so it is re-run on the next resume
+ */
+export function clearStepCompletion(
+  manifest: ArtifactManifest,
+  stepName: string
+): ArtifactManifest {
+  const stepVersions = { ...(manifest.step_versions || {}) };
+  delete stepVersions[stepName];
+
+  return {
+    ...manifest,
+    completed_steps: (manifest.completed_steps || []).filter((name) => name !== stepName),
+    step_versions: stepVersions,
+  };
+}
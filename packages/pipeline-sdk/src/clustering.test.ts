@@ -0,0 +1,181 @@
+/**
+ * Unit Tests - Topic Clustering
+ *
+ * Clusters seeded synthetic embeddings with known groups.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clusterVectors,
+  hdbscan,
+  kmeans,
+  kmeansAuto,
+  labelClusters,
+  silhouetteScore,
+  spectral,
+  NOISE,
+} from './clustering';
+
+/** Deterministic PRNG (mulberry32) */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Unit vectors scattered around `groups` random directions, like topic
+ * embeddings; returns the vectors and their group per vector
+ */
+function blobs(seed: number, groups: number, perGroup: number, spread = 0.3, dim = 16) {
+  const rand = random(seed);
+  const vectors: number[][] = [];
+  const truth: number[] = [];
+
+  for (let g = 0; g < groups; g++) {
+    const center = Array.from({ length: dim }, () => rand() * 2 - 1);
+    for (let i = 0; i < perGroup; i++) {
+      const v = center.map((x) => x + (rand() * 2 - 1) * spread);
+      const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+      vectors.push(v.map((x) => x / norm));
+      truth.push(g);
+    }
+  }
+
+  return { vectors, truth };
+}
+
+/** Whether two labelings describe the same partition */
+function samePartition(a: number[], b: number[]): boolean {
+  for (let i = 0; i < a.length; i++) {
+    for (let j = i + 1; j < a.length; j++) {
+      if ((a[i] === a[j]) !== (b[i] === b[j])) return false;
+    }
+  }
+  return true;
+}
+
+describe('kmeans', () => {
+  it('should recover well-separated groups', () => {
+    const { vectors, truth } = blobs(1, 3, 8);
+
+    const result = kmeans(vectors, 3);
+
+    expect(result.clusterCount).toBe(3);
+    expect(result.centroids).toHaveLength(3);
+    expect(samePartition(result.labels, truth)).toBe(true);
+  });
+
+  it('should be deterministic for a seed', () => {
+    const { vectors } = blobs(2, 4, 5, 0.8);
+
+    expect(kmeans(vectors, 4, { seed: 7 }).labels).toEqual(kmeans(vectors, 4, { seed: 7 }).labels);
+  });
+
+  it('should not create more clusters than points', () => {
+    expect(kmeans([[0, 1], [1, 0]], 5).clusterCount).toBe(2);
+    expect(kmeans([[0, 1]], 3).labels).toEqual([0]);
+  });
+});
+
+describe('kmeansAuto', () => {
+  it('should choose k by silhouette', () => {
+    const { vectors, truth } = blobs(3, 4, 6);
+
+    const result = kmeansAuto(vectors);
+
+    expect(result.clusterCount).toBe(4);
+    expect(samePartition(result.labels, truth)).toBe(true);
+  });
+});
+
+describe('silhouetteScore', () => {
+  it('should approach 1 for tight, distant clusters and ignore noise', () => {
+    const vectors = [[0, 0], [0, 0.1], [10, 0], [10, 0.1], [5, 5]];
+
+    expect(silhouetteScore(vectors, [0, 0, 1, 1, NOISE])).toBeGreaterThan(0.98);
+    expect(silhouetteScore(vectors, [0, 1, 0, 1, NOISE])).toBeLessThan(0);
+    expect(silhouetteScore(vectors, [0, 0, 0, 0, 0])).toBe(0);
+  });
+});
+
+describe('hdbscan', () => {
+  it('should find dense groups and mark outliers as noise', () => {
+    const rand = random(4);
+    const centers = [[0, 0], [10, 0], [0, 10]];
+    const vectors = centers.flatMap(([x, y]) =>
+      Array.from({ length: 10 }, () => [x + rand() * 2 - 1, y + rand() * 2 - 1])
+    );
+    const truth = centers.flatMap((_, c) => new Array(10).fill(c));
+    const outliers = [[40, 40], [-30, 25]];
+
+    const result = hdbscan([...vectors, ...outliers], { minClusterSize: 4 });
+
+    expect(result.clusterCount).toBe(3);
+    expect(samePartition(result.labels.slice(0, vectors.length), truth)).toBe(true);
+    expect(result.labels.slice(vectors.length)).toEqual([NOISE, NOISE]);
+  });
+
+  it('should label everything noise when there are too few points', () => {
+    expect(hdbscan([[0, 1], [1, 0]], { minClusterSize: 3 })).toEqual({
+      labels: [NOISE, NOISE],
+      clusterCount: 0,
+    });
+  });
+});
+
+describe('spectral', () => {
+  it('should separate groups with a given k', () => {
+    const { vectors, truth } = blobs(5, 3, 7);
+
+    const result = spectral(vectors, 3);
+
+    expect(result.clusterCount).toBe(3);
+    expect(samePartition(result.labels, truth)).toBe(true);
+  });
+
+  it('should choose k by eigengap', () => {
+    const { vectors, truth } = blobs(6, 4, 6, 0.2);
+
+    const result = spectral(vectors, 0);
+
+    expect(result.clusterCount).toBe(4);
+    expect(samePartition(result.labels, truth)).toBe(true);
+  });
+});
+
+describe('clusterVectors', () => {
+  it('should honor numClusters for k-means', () => {
+    const { vectors } = blobs(7, 4, 5);
+
+    expect(clusterVectors(vectors, { algorithm: 'kmeans', numClusters: 2 }).clusterCount).toBe(2);
+  });
+});
+
+describe('labelClusters', () => {
+  it('should prefer keywords that distinguish a cluster', () => {
+    const labels = labelClusters(
+      [
+        ['Graphs', 'lecture', 'nodes'],
+        ['graphs', 'lecture', 'edges'],
+        ['proteins', 'lecture'],
+        ['proteins', 'folding'],
+        ['noise'],
+      ],
+      [0, 0, 1, 1, NOISE],
+      { topKeywords: 2 }
+    );
+
+    expect(labels).toEqual([
+      { cluster: 0, label: 'graphs, edges', keywords: ['graphs', 'edges'], size: 2 },
+      { cluster: 1, label: 'proteins, folding', keywords: ['proteins', 'folding'], size: 2 },
+    ]);
+  });
+
+  it('should fall back to a numbered label without keywords', () => {
+    expect(labelClusters([[]], [0])[0].label).toBe('Cluster 1');
+  });
+});
@@ -0,0 +1,582 @@
+/**
+ * Topic Clustering
+ *
+ * Pure TypeScript k-means (k-means++ seeding, k chosen by silhouette when
+ * not given), HDBSCAN and spectral clustering over embedding vectors,
+ * plus keyword labels for the resulting clusters. All randomness is
+ * seeded, so a graph version clusters the same way every time.
+ */
+
+export interface ClusteringOptions {
+  algorithm: 'kmeans' | 'hdbscan' | 'spectral';
+  /** Number of clusters for k-means and spectral (0 = choose automatically) */
+  numClusters: number;
+  /** Upper bound when choosing k automatically (default 10) */
+  maxClusters?: number;
+  /** Smallest group HDBSCAN reports as a cluster (default 3) */
+  minClusterSize?: number;
+  /** Neighbours used for HDBSCAN core distances (defaults to `minClusterSize`) */
+  minSamples?: number;
+  /** Seed for k-means++ initialisation (default 42) */
+  seed?: number;
+}
+
+export interface ClusteringResult {
+  /** Cluster index per vector; -1 marks HDBSCAN noise */
+  labels: number[];
+  /** Number of clusters found */
+  clusterCount: number;
+}
+
+export interface ClusterLabel {
+  /** Index used in `ClusteringResult.labels` */
+  cluster: number;
+  /** Top keywords joined for display */
+  label: string;
+  keywords: string[];
+  size: number;
+}
+
+/** Noise label assigned by HDBSCAN */
+export const NOISE = -1;
+
+/**
+ * Cluster vectors with the selected algorithm
+ */
+export function clusterVectors(vectors: number[][], options: ClusteringOptions): ClusteringResult {
+  switch (options.algorithm) {
+    case 'kmeans':
+      return options.numClusters > 0
+        ? kmeans(vectors, options.numClusters, { seed: options.seed })
+        : kmeansAuto(vectors, { maxClusters: options.maxClusters, seed: options.seed });
+    case 'hdbscan':
+      return hdbscan(vectors, {
+        minClusterSize: options.minClusterSize,
+        minSamples: options.minSamples,
+      });
+    case 'spectral':
+      return spectral(vectors, options.numClusters, {
+        maxClusters: options.maxClusters,
+        seed: options.seed,
+      });
+    default:
+      throw new Error(`Clustering algorithm ${options.algorithm as string} is not supported`);
+  }
+}
+
+// ==================== k-means ====================
+
+/**
+ * Lloyd's k-means with k-means++ seeding; keeps the best of several
+ * restarts by inertia
+ */
+export function kmeans(
+  vectors: number[][],
+  k: number,
+  options: { seed?: number; maxIterations?: number; restarts?: number } = {}
+): ClusteringResult & { centroids: number[][] } {
+  const n = vectors.length;
+  k = Math.min(k, n);
+  if (k <= 1) {
+    return { labels: new Array(n).fill(0), clusterCount: n > 0 ? 1 : 0, centroids: n > 0 ? [mean(vectors)] : [] };
+  }
+
+  const rand = random(options.seed ?? 42);
+  let best: { labels: number[]; centroids: number[][]; inertia: number } | undefined;
+
+  for (let restart = 0; restart < (options.restarts ?? 4); restart++) {
+    let centroids = seedCentroids(vectors, k, rand);
+    let labels = new Array<number>(n).fill(-1);
+
+    for (let iteration = 0; iteration < (options.maxIterations ?? 100); iteration++) {
+      const next = vectors.map((v) => nearest(v, centroids).index);
+      const changed = next.some((label, i) => label !== labels[i]);
+      labels = next;
+      if (!changed) break;
+
+      centroids = centroids.map((centroid, c) => {
+        const members = vectors.filter((_, i) => labels[i] === c);
+        // An emptied cluster takes the point furthest from its centroid
+        return members.length > 0 ? mean(members) : vectors[furthestPoint(vectors, labels, centroids)];
+      });
+    }
+
+    const inertia = vectors.reduce((sum, v, i) => sum + squaredDistance(v, centroids[labels[i]]), 0);
+    if (!best || inertia < best.inertia) {
+      best = { labels, centroids, inertia };
+    }
+  }
+
+  const { labels, centroids } = relabel(best!.labels, best!.centroids);
+  return { labels, clusterCount: centroids.length, centroids };
+}
+
+/**
+ * k-means with k chosen by the highest mean silhouette in 2..maxClusters
+ */
+export function kmeansAuto(
+  vectors: number[][],
+  options: { maxClusters?: number; seed?: number } = {}
+): ClusteringResult {
+  const maxK = Math.min(options.maxClusters ?? 10, vectors.length - 1);
+  let best: ClusteringResult = kmeans(vectors, 1);
+  let bestScore = -Infinity;
+
+  for (let k = 2; k <= maxK; k++) {
+    const result = kmeans(vectors, k, { seed: options.seed });
+    const score = silhouetteScore(vectors, result.labels);
+    if (score > bestScore) {
+      best = result;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Mean silhouette coefficient (Euclidean). Noise points are ignored and
+ * points in singleton clusters score 0.
+ */
+export function silhouetteScore(vectors: number[][], labels: number[]): number {
+  const indices = labels.map((_, i) => i).filter((i) => labels[i] !== NOISE);
+  const clusters = new Set(indices.map((i) => labels[i]));
+  if (clusters.size < 2) {
+    return 0;
+  }
+
+  let total = 0;
+  for (const i of indices) {
+    const sums = new Map<number, { total: number; count: number }>();
+    for (const j of indices) {
+      if (i === j) continue;
+      const entry = sums.get(labels[j]) ?? { total: 0, count: 0 };
+      entry.total += Math.sqrt(squaredDistance(vectors[i], vectors[j]));
+      entry.count++;
+      sums.set(labels[j], entry);
+    }
+
+    const own = sums.get(labels[i]);
+    if (!own) continue; // singleton cluster
+
+    const a = own.total / own.count;
+    let b = Infinity;
+    for (const [cluster, { total: sum, count }] of sums) {
+      if (cluster !== labels[i]) b = Math.min(b, sum / count);
+    }
+    total += (b - a) / Math.max(a, b) || 0;
+  }
+
+  return total / indices.length;
+}
+
+// ==================== HDBSCAN ====================
+
+interface CondensedCluster {
+  parent: number;
+  birthLambda: number;
+  stability: number;
+  children: number[];
+}
+
+/**
+ * HDBSCAN: single-linkage hierarchy over mutual reachability distances,
+ * condensed by `minClusterSize`, with clusters picked by excess of mass.
+ * Points that never join a selected cluster are labelled noise (-1).
+ */
+export function hdbscan(
+  vectors: number[][],
+  options: { minClusterSize?: number; minSamples?: number } = {}
+): ClusteringResult {
+  const n = vectors.length;
+  const minClusterSize = Math.max(2, options.minClusterSize ?? 3);
+  const minSamples = Math.max(1, options.minSamples ?? minClusterSize);
+  if (n < minClusterSize) {
+    return { labels: new Array(n).fill(NOISE), clusterCount: 0 };
+  }
+
+  const distances = vectors.map((a) => vectors.map((b) => Math.sqrt(squaredDistance(a, b))));
+
+  // Core distance: distance to the minSamples-th nearest point (counting itself)
+  const core = distances.map((row) => {
+    const sorted = [...row].sort((x, y) => x - y);
+    return sorted[Math.min(minSamples, n) - 1];
+  });
+  const reachability = (i: number, j: number) => Math.max(core[i], core[j], distances[i][j]);
+
+  // Minimum spanning tree (Prim) of the mutual reachability graph
+  const edges: Array<[number, number, number]> = [];
+  const inTree = new Array<boolean>(n).fill(false);
+  const bestDistance = new Array<number>(n).fill(Infinity);
+  const bestFrom = new Array<number>(n).fill(0);
+  let current = 0;
+  inTree[0] = true;
+  for (let added = 1; added < n; added++) {
+    let next = -1;
+    for (let j = 0; j < n; j++) {
+      if (inTree[j]) continue;
+      const d = reachability(current, j);
+      if (d < bestDistance[j]) {
+        bestDistance[j] = d;
+        bestFrom[j] = current;
+      }
+      if (next === -1 || bestDistance[j] < bestDistance[next]) next = j;
+    }
+    inTree[next] = true;
+    edges.push([bestFrom[next], next, bestDistance[next]]);
+    current = next;
+  }
+  edges.sort((a, b) => a[2] - b[2]);
+
+  // Single-linkage dendrogram: leaves 0..n-1, merge i creates node n + i
+  const left: number[] = [];
+  const right: number[] = [];
+  const height: number[] = [];
+  const size: number[] = new Array(n).fill(1);
+  const parent = Array.from({ length: 2 * n - 1 }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) x = parent[x] = parent[parent[x]];
+    return x;
+  };
+  for (const [a, b, d] of edges) {
+    const rootA = find(a);
+    const rootB = find(b);
+    const node = n + left.length;
+    left.push(rootA);
+    right.push(rootB);
+    height.push(d);
+    size.push(size[rootA] + size[rootB]);
+    parent[rootA] = parent[rootB] = node;
+  }
+
+  const pointsUnder = (node: number): number[] => {
+    const points: number[] = [];
+    const stack = [node];
+    while (stack.length > 0) {
+      const x = stack.pop()!;
+      if (x < n) points.push(x);
+      else stack.push(left[x - n], right[x - n]);
+    }
+    return points;
+  };
+
+  // Condense the dendrogram: a split only creates clusters when both sides
+  // have at least minClusterSize points; otherwise points fall out
+  const minHeight = Math.min(...height.filter((h) => h > 0), 1);
+  const lambdaOf = (node: number) => 1 / Math.max(height[node - n], minHeight * 1e-6);
+  const clusters: CondensedCluster[] = [{ parent: -1, birthLambda: 0, stability: 0, children: [] }];
+  const pointCluster = new Array<number>(n).fill(0);
+  const stack: Array<[node: number, cluster: number]> = [[2 * n - 2, 0]];
+
+  while (stack.length > 0) {
+    const [node, cluster] = stack.pop()!;
+    if (node < n) continue;
+
+    const lambda = lambdaOf(node);
+    const children = [left[node - n], right[node - n]];
+    const large = children.filter((child) => size[child] >= minClusterSize);
+
+    if (large.length === 2) {
+      for (const child of children) {
+        const id = clusters.length;
+        clusters.push({ parent: cluster, birthLambda: lambda, stability: 0, children: [] });
+        clusters[cluster].children.push(id);
+        clusters[cluster].stability += size[child] * (lambda - clusters[cluster].birthLambda);
+        stack.push([child, id]);
+      }
+      continue;
+    }
+
+    for (const child of children) {
+      if (large.includes(child)) {
+        stack.push([child, cluster]);
+      } else {
+        for (const point of pointsUnder(child)) {
+          pointCluster[point] = cluster;
+          clusters[cluster].stability += lambda - clusters[cluster].birthLambda;
+        }
+      }
+    }
+  }
+
+  // Excess of mass: keep a cluster unless its children are jointly more stable
+  const selected = new Array<boolean>(clusters.length).fill(false);
+  const stability = clusters.map((c) => c.stability);
+  for (let id = clusters.length - 1; id > 0; id--) {
+    const childStability = clusters[id].children.reduce((sum, child) => sum + stability[child], 0);
+    if (clusters[id].children.length > 0 && childStability > stability[id]) {
+      stability[id] = childStability;
+    } else {
+      selected[id] = true;
+      const descendants = [...clusters[id].children];
+      while (descendants.length > 0) {
+        const descendant = descendants.pop()!;
+        selected[descendant] = false;
+        descendants.push(...clusters[descendant].children);
+      }
+    }
+  }
+
+  const labelOf = new Map<number, number>();
+  const labels = pointCluster.map((cluster) => {
+    for (let c = cluster; c > 0; c = clusters[c].parent) {
+      if (selected[c]) {
+        if (!labelOf.has(c)) labelOf.set(c, labelOf.size);
+        return labelOf.get(c)!;
+      }
+    }
+    return NOISE;
+  });
+
+  return { labels, clusterCount: labelOf.size };
+}
+
+// ==================== Spectral ====================
+
+/**
+ * Normalized spectral clustering (Ng, Jordan & Weiss) over a locally
+ * scaled Gaussian affinity graph. When `k` is 0 it is chosen by the
+ * largest eigengap.
+ */
+export function spectral(
+  vectors: number[][],
+  k: number,
+  options: { maxClusters?: number; seed?: number } = {}
+): ClusteringResult {
+  const n = vectors.length;
+  if (n < 3) {
+    return kmeans(vectors, Math.max(1, Math.min(k, n)));
+  }
+
+  // Self-tuning Gaussian affinity: each point's scale is the distance to
+  // its K-th nearest neighbour (Zelnik-Manor & Perona), no self-loops
+  const distances = vectors.map((a) => vectors.map((b) => Math.sqrt(squaredDistance(a, b))));
+  const neighbour = Math.min(7, n - 1);
+  const sigma = distances.map((row) => [...row].sort((x, y) => x - y)[neighbour] || 1e-12);
+  const affinity = distances.map((row, i) =>
+    row.map((d, j) => (i === j ? 0 : Math.exp(-(d * d) / (sigma[i] * sigma[j]))))
+  );
+  const degree = affinity.map((row) => row.reduce((sum, w) => sum + w, 0) || 1);
+  const scale = degree.map((d) => 1 / Math.sqrt(d));
+
+  // D^-1/2 W D^-1/2 shifted by I so its spectrum lies in [0, 2]; its top
+  // eigenvectors are the bottom eigenvectors of the normalized Laplacian
+  const matrix = affinity.map((row, i) =>
+    row.map((w, j) => w * scale[i] * scale[j] + (i === j ? 1 : 0))
+  );
+
+  const maxK = Math.min(options.maxClusters ?? 10, n - 1);
+  const { values, vectors: eigenvectors } = topEigenvectors(matrix, Math.min(maxK + 1, n), options.seed);
+
+  if (k <= 0) {
+    k = 2;
+    for (let candidate = 3; candidate <= maxK; candidate++) {
+      if (values[candidate - 1] - values[candidate] > values[k - 1] - values[k]) k = candidate;
+    }
+  }
+  k = Math.min(k, eigenvectors.length);
+
+  // Embed each point as its row of the first k eigenvectors, unit length
+  const embedded = Array.from({ length: n }, (_, i) => {
+    const row = eigenvectors.slice(0, k).map((vector) => vector[i]);
+    const norm = Math.sqrt(dot(row, row)) || 1;
+    return row.map((x) => x / norm);
+  });
+
+  const { labels, clusterCount } = kmeans(embedded, k, { seed: options.seed });
+  return { labels, clusterCount };
+}
+
+/**
+ * Largest eigenpairs of a symmetric positive semi-definite matrix by
+ * orthogonal iteration, sorted by descending eigenvalue
+ */
+function topEigenvectors(
+  matrix: number[][],
+  count: number,
+  seed = 42,
+  iterations = 300
+): { values: number[]; vectors: number[][] } {
+  const n = matrix.length;
+  const rand = random(seed);
+  let basis = orthonormalize(
+    Array.from({ length: count }, () => Array.from({ length: n }, () => rand() - 0.5))
+  );
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const next = orthonormalize(basis.map((v) => multiply(matrix, v)));
+    const converged = next.every((v, i) => Math.abs(Math.abs(dot(v, basis[i])) - 1) < 1e-10);
+    basis = next;
+    if (converged) break;
+  }
+
+  const pairs = basis.map((v) => ({ value: dot(v, multiply(matrix, v)), vector: v }));
+  pairs.sort((a, b) => b.value - a.value);
+  return { values: pairs.map((p) => p.value), vectors: pairs.map((p) => p.vector) };
+}
+
+// ==================== Labels ====================
+
+/**
+ * Label each cluster with its most characteristic keywords: frequent in
+ * the cluster's topics, rare in other clusters
+ */
+export function labelClusters(
+  keywordsPerItem: string[][],
+  labels: number[],
+  options: { topKeywords?: number } = {}
+): ClusterLabel[] {
+  const counts = new Map<number, Map<string, number>>();
+  const sizes = new Map<number, number>();
+
+  labels.forEach((cluster, i) => {
+    if (cluster === NOISE) return;
+    sizes.set(cluster, (sizes.get(cluster) ?? 0) + 1);
+    const clusterCounts = counts.get(cluster) ?? new Map<string, number>();
+    for (const keyword of new Set(keywordsPerItem[i].map((k) => k.trim().toLowerCase()).filter(Boolean))) {
+      clusterCounts.set(keyword, (clusterCounts.get(keyword) ?? 0) + 1);
+    }
+    counts.set(cluster, clusterCounts);
+  });
+
+  const clustersWith = new Map<string, number>();
+  for (const clusterCounts of counts.values()) {
+    for (const keyword of clusterCounts.keys()) {
+      clustersWith.set(keyword, (clustersWith.get(keyword) ?? 0) + 1);
+    }
+  }
+
+  return [...counts.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([cluster, clusterCounts]) => {
+      // Keywords shared by every cluster score 0 and only fill remaining slots
+      const keywords = [...clusterCounts.entries()]
+        .map(([keyword, count]) => ({
+          keyword,
+          count,
+          score: counts.size > 1 ? count * Math.log(counts.size / clustersWith.get(keyword)!) : count,
+        }))
+        .sort((a, b) => b.score - a.score || b.count - a.count || a.keyword.localeCompare(b.keyword))
+        .slice(0, options.topKeywords ?? 3)
+        .map(({ keyword }) => keyword);
+
+      return {
+        cluster,
+        label: keywords.length > 0 ? keywords.join(', ') : `Cluster ${cluster + 1}`,
+        keywords,
+        size: sizes.get(cluster)!,
+      };
+    });
+}
+
+// ==================== Vector helpers ====================
+
+/** Deterministic PRNG (mulberry32) */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function seedCentroids(vectors: number[][], k: number, rand: () => number): number[][] {
+  const centroids = [vectors[Math.floor(rand() * vectors.length)]];
+
+  while (centroids.length < k) {
+    const weights = vectors.map((v) => nearest(v, centroids).distance);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    if (total === 0) {
+      // Fewer distinct points than k
+      centroids.push(vectors[centroids.length % vectors.length]);
+      continue;
+    }
+    let target = rand() * total;
+    let index = 0;
+    while (target > weights[index] && index < vectors.length - 1) {
+      target -= weights[index++];
+    }
+    centroids.push(vectors[index]);
+  }
+
+  return centroids;
+}
+
+function nearest(vector: number[], centroids: number[][]): { index: number; distance: number } {
+  let index = 0;
+  let distance = Infinity;
+  centroids.forEach((centroid, c) => {
+    const d = squaredDistance(vector, centroid);
+    if (d < distance) {
+      index = c;
+      distance = d;
+    }
+  });
+  return { index, distance };
+}
+
+function furthestPoint(vectors: number[][], labels: number[], centroids: number[][]): number {
+  let furthest = 0;
+  let max = -1;
+  vectors.forEach((v, i) => {
+    const d = squaredDistance(v, centroids[labels[i]]);
+    if (d > max) {
+      furthest = i;
+      max = d;
+    }
+  });
+  return furthest;
+}
+
+/**
+ * Renumber clusters by first appearance and drop empty ones
+ */
+function relabel(labels: number[], centroids: number[][]): { labels: number[]; centroids: number[][] } {
+  const mapping = new Map<number, number>();
+  const renumbered = labels.map((label) => {
+    if (!mapping.has(label)) mapping.set(label, mapping.size);
+    return mapping.get(label)!;
+  });
+  const ordered = [...mapping.keys()].map((label) => centroids[label]);
+  return { labels: renumbered, centroids: ordered };
+}
+
+function mean(vectors: number[][]): number[] {
+  const result = new Array<number>(vectors[0].length).fill(0);
+  for (const v of vectors) {
+    for (let d = 0; d < v.length; d++) result[d] += v[d] / vectors.length;
+  }
+  return result;
+}
+
+function squaredDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let d = 0; d < a.length; d++) sum += (a[d] - b[d]) ** 2;
+  return sum;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let d = 0; d < a.length; d++) sum += a[d] * b[d];
+  return sum;
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+  return matrix.map((row) => dot(row, vector));
+}
+
+/** Modified Gram-Schmidt */
+function orthonormalize(vectors: number[][]): number[][] {
+  const basis: number[][] = [];
+  for (const vector of vectors) {
+    const v = [...vector];
+    for (const b of basis) {
+      const projection = dot(v, b);
+      for (let d = 0; d < v.length; d++) v[d] -= projection * b[d];
+    }
+    const norm = Math.sqrt(dot(v, v)) || 1;
+    basis.push(v.map((x) => x / norm));
+  }
+  return basis;
+}
@@ -0,0 +1,45 @@
+/**
+ * Unit Tests - Job Control
+ *
+ * Tests for control message parsing and telling interruptions apart from
+ * other aborts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { JobInterruption, jobInterruption, parseJobControlMessage } from './control';
+
+describe('jobInterruption', () => {
+  it('should return the interruption a signal was aborted with', () => {
+    const controller = new AbortController();
+    expect(jobInterruption(controller.signal)).toBeNull();
+
+    controller.abort(new JobInterruption('cancel'));
+    expect(jobInterruption(controller.signal)).toMatchObject({
+      action: 'cancel',
+      message: 'Job cancelled',
+    });
+  });
+
+  it('should ignore other abort reasons', () => {
+    const controller = new AbortController();
+    controller.abort(new Error('Step video timed out after 1000ms'));
+
+    expect(jobInterruption(controller.signal)).toBeNull();
+    expect(jobInterruption(undefined)).toBeNull();
+  });
+});
+
+describe('parseJobControlMessage', () => {
+  it('should accept cancel and pause messages', () => {
+    expect(parseJobControlMessage('{"job_id":"job-1","action":"pause"}')).toEqual({
+      job_id: 'job-1',
+      action: 'pause',
+    });
+  });
+
+  it('should reject malformed messages', () => {
+    expect(parseJobControlMessage('{"job_id":"job-1","action":"resume"}')).toBeNull();
+    expect(parseJobControlMessage('{"action":"cancel"}')).toBeNull();
+    expect(parseJobControlMessage('not json')).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Job Control
+ *
+ * Cancelling and pausing running jobs. The API publishes a
+ * JobControlMessage on the `job-control` Redis channel; the worker running
+ * the job aborts the pipeline's abortSignal with a JobInterruption, which
+ * kills running subprocesses and ends the run at the next step boundary.
+ * The abort reason tells the worker whether to keep what the run produced
+ * (pause) or discard it (cancel).
+ */
+
+import type { JobControlMessage } from '@video-graph/shared-types';
+
+/** Redis pub/sub channel carrying JobControlMessages */
+export const JOB_CONTROL_CHANNEL = 'job-control';
+
+export type JobControlAction = JobControlMessage['action'];
+
+/**
+ * Abort reason of a job that was cancelled or paused
+ */
+export class JobInterruption extends Error {
+  constructor(readonly action: JobControlAction) {
+    super(action === 'cancel' ? 'Job cancelled' : 'Job paused');
+    this.name = 'JobInterruption';
+  }
+}
+
+/**
+ * The interruption a signal was aborted with, or null if it was not
+ * aborted or was aborted for another reason (such as a timeout)
+ */
+export function jobInterruption(signal: AbortSignal | undefined): JobInterruption | null {
+  return signal?.aborted && signal.reason instanceof JobInterruption ? signal.reason : null;
+}
+
+/**
+ * Parse a message received on the control channel
+ */
+export function parseJobControlMessage(data: string): JobControlMessage | null {
+  try {
+    const message = JSON.parse(data) as JobControlMessage;
+    return typeof message.job_id === 'string' &&
+      (message.action === 'cancel' || message.action === 'pause')
+      ? message
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -11,7 +11,24 @@ import type {
   ValidationResult,
   ArtifactPaths,
   Logger,
+  PipelineDefinition,
+  PipelineStepConfig,
+  PipelineResult,
+  StepResult,
 } from '@video-graph/shared-types';
+import {
+  loadManifestCheckpoint,
+  saveManifestCheckpoint,
+  resumeFromCheckpoint,
+  isStepUpToDate,
+  recordStepCompletion,
+  clearStepCompletion,
+} from './checkpoint';
+import { buildStepGraph, availableOutputs, mergeStepOutput } from './dag';
+import { withRetry } from './utils';
+
+/** Base delay between step retries (doubled on every attempt) */
+const DEFAULT_RETRY_DELAY_MS = 1000;
 
 export type {
   PipelineStep,
@@ -20,6 +37,10 @@ export type {
   ValidationResult,
   ArtifactPaths,
   Logger,
+  PipelineDefinition,
+  PipelineStepConfig,
+  PipelineResult,
+  StepResult,
 };
 
 /**
@@ -120,7 +141,14 @@ export abstract class BasePipelineStep implements PipelineStep {
   ): ArtifactManifest {
     return {
       ...manifest,
-      completed_steps: [...(manifest.completed_steps || []), stepName],
+      completed_steps: [
+        ...(manifest.completed_steps || []).filter((name) => name !== stepName),
+        stepName,
+      ],
+      step_versions: {
+        ...(manifest.step_versions || {}),
+        [stepName]: this.version,
+      },
       updated_at: new Date().toISOString(),
     };
   }
@@ -193,107 +221,273 @@ export class PipelineOrchestrator {
   }
 
   /**
-   * Execute a pipeline with the given steps
+   * Execute a pipeline.
+   *
+   * Step order is derived from what each step requires and produces:
+   * a step starts as soon as every step producing its inputs has
+   * finished, so independent steps run concurrently (up to
+   * `maxConcurrency`). Definitions with unknown steps, cycles or inputs
+   * nothing provides are rejected before any step runs.
+   *
+   * Each step runs with its PipelineStepConfig applied: attempts are
+   * retried with exponential backoff, `timeoutMs` aborts the step through
+   * its context's abortSignal, and failures of `continueOnFailure` steps
+   * are recorded in `step_errors` without stopping the pipeline.
+   *
+   * The manifest is checkpointed to storage after every step. With
+   * `resume` (the default), a checkpoint left by an earlier run of the
+   * same graph version is loaded first, and steps whose outputs are still
+   * present at the same step version are skipped unless a step they
+   * depend on has to re-run.
    */
   async executePipeline(
     manifest: ArtifactManifest,
     context: PipelineContext,
-    stepNames: string[]
-  ): Promise<{
-    success: boolean;
-    manifest: ArtifactManifest;
-    results: Array<{
-      stepName: string;
-      success: boolean;
-      durationMs: number;
-      error?: string;
-    }>;
-  }> {
-    const results: Array<{
-      stepName: string;
-      success: boolean;
-      durationMs: number;
-      error?: string;
-    }> = [];
-
-    let currentManifest = manifest;
-
-    for (const stepName of stepNames) {
-      const step = this.steps.get(stepName);
-      if (!step) {
-        const error = `Step not found: ${stepName}`;
-        context.logger.error(error);
-        results.push({
-          stepName,
-          success: false,
-          durationMs: 0,
-          error,
-        });
-        return { success: false, manifest: currentManifest, results };
-      }
+    pipeline: PipelineDefinition | string[],
+    options: { resume?: boolean; retryDelayMs?: number; maxConcurrency?: number } = {}
+  ): Promise<PipelineResult> {
+    const definition = Array.isArray(pipeline)
+      ? definePipeline('ad-hoc', pipeline)
+      : pipeline;
+
+    const resume = options.resume ?? true;
+    let currentManifest = resume
+      ? await this.loadCheckpoint(manifest, context)
+      : manifest;
+
+    const { graph, errors } = buildStepGraph(
+      definition,
+      this.steps,
+      availableOutputs(currentManifest)
+    );
+    if (!graph) {
+      const error = `Invalid pipeline definition ${definition.name}: ${errors.join('; ')}`;
+      context.logger.error(error);
+      return { success: false, manifest: currentManifest, error, stepResults: [] };
+    }
 
-      // Check for abort signal
-      if (context.abortSignal?.aborted) {
-        const error = 'Pipeline aborted';
-        context.logger.warn(error);
-        results.push({
+    const stepConfigs = new Map(definition.steps.map((s) => [s.name, s]));
+    const results = new Map<string, StepResult>();
+
+    // Skip steps a previous run completed, unless something they depend on re-runs
+    const finished = new Set<string>();
+    for (const stepName of graph.order) {
+      const dependenciesSkipped = [...graph.dependencies.get(stepName)!].every((dep) =>
+        finished.has(dep)
+      );
+      if (
+        resume &&
+        dependenciesSkipped &&
+        (await isStepUpToDate(this.steps.get(stepName)!, currentManifest, context.storage))
+      ) {
+        context.logger.info(`Skipping step: ${stepName} (outputs up to date)`);
+        results.set(stepName, {
           stepName,
-          success: false,
+          success: true,
           durationMs: 0,
-          error,
+          attempts: 0,
+          skipped: true,
         });
-        return { success: false, manifest: currentManifest, results };
+        finished.add(stepName);
+      } else {
+        currentManifest = clearStepCompletion(currentManifest, stepName);
       }
+    }
 
-      // Validate inputs
-      const validation = step.validateInput(currentManifest);
-      if (!validation.valid) {
-        const error = `Input validation failed for ${stepName}: ${validation.errors.join(', ')}`;
-        context.logger.error(error);
-        results.push({
-          stepName,
-          success: false,
-          durationMs: 0,
-          error,
-        });
-        return { success: false, manifest: currentManifest, results };
-      }
+    const running = new Map<string, Promise<void>>();
+    const maxConcurrency = options.maxConcurrency ?? Infinity;
+    let failure: StepResult | null = null;
+
+    // Checkpoints are written one at a time, in completion order
+    let checkpoints = Promise.resolve();
+    const checkpoint = () => {
+      const snapshot = currentManifest;
+      checkpoints = checkpoints.then(() => this.saveCheckpoint(snapshot, context));
+    };
 
-      // Execute step
-      const startTime = Date.now();
-      context.logger.info(`Starting step: ${stepName}`);
-      context.onProgress?.(0, `Starting ${stepName}`);
+    const start = (stepName: string) => {
+      const step = this.steps.get(stepName)!;
+      const stepConfig = stepConfigs.get(stepName)!;
+      const input = currentManifest;
+
+      const run = this.runStep(step, stepConfig, input, context, options).then(
+        ({ result, output }) => {
+          running.delete(stepName);
+          results.set(stepName, result);
+
+          if (output) {
+            currentManifest = recordStepCompletion(
+              mergeStepOutput(currentManifest, input, output),
+              step
+            );
+            finished.add(stepName);
+          } else {
+            currentManifest = {
+              ...currentManifest,
+              step_errors: {
+                ...(currentManifest.step_errors || {}),
+                [stepName]: result.error!,
+              },
+              updated_at: new Date().toISOString(),
+            };
+
+            if (stepConfig.continueOnFailure && !context.abortSignal?.aborted) {
+              context.logger.warn(`Continuing after failure of ${stepName}`);
+              result.tolerated = true;
+              finished.add(stepName);
+            } else {
+              failure ??= result;
+            }
+          }
+          checkpoint();
+        }
+      );
+      running.set(stepName, run);
+    };
 
-      try {
-        currentManifest = await step.execute(currentManifest, context);
-        const durationMs = Date.now() - startTime;
+    for (;;) {
+      if (!failure) {
+        for (const stepName of graph.order) {
+          if (running.size >= maxConcurrency) break;
+          if (finished.has(stepName) || running.has(stepName) || results.has(stepName)) continue;
+          if (![...graph.dependencies.get(stepName)!].every((dep) => finished.has(dep))) continue;
+
+          // Check for abort signal
+          if (context.abortSignal?.aborted) {
+            const error = 'Pipeline aborted';
+            context.logger.warn(error);
+            failure = { stepName, success: false, durationMs: 0, attempts: 0, error };
+            results.set(stepName, failure);
+            break;
+          }
+
+          start(stepName);
+        }
+      }
 
-        context.logger.info(`Completed step: ${stepName} in ${durationMs}ms`);
-        context.onProgress?.(100, `Completed ${stepName}`);
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
 
-        results.push({
-          stepName,
-          success: true,
-          durationMs,
-        });
-      } catch (error) {
-        const durationMs = Date.now() - startTime;
-        const errorMessage = error instanceof Error ? error.message : String(error);
+    await checkpoints;
 
-        context.logger.error(`Step ${stepName} failed: ${errorMessage}`);
+    const stepResults = graph.order
+      .filter((stepName) => results.has(stepName))
+      .map((stepName) => results.get(stepName)!);
 
-        results.push({
-          stepName,
-          success: false,
-          durationMs,
-          error: errorMessage,
-        });
+    if (failure) {
+      return {
+        success: false,
+        manifest: currentManifest,
+        error: (failure as StepResult).error,
+        stepResults,
+      };
+    }
+
+    return { success: true, manifest: currentManifest, stepResults };
+  }
 
-        return { success: false, manifest: currentManifest, results };
+  /**
+   * Validate inputs and run a step with its retry policy
+   */
+  private async runStep(
+    step: PipelineStep,
+    stepConfig: PipelineStepConfig,
+    manifest: ArtifactManifest,
+    context: PipelineContext,
+    options: { retryDelayMs?: number }
+  ): Promise<{ result: StepResult; output?: ArtifactManifest }> {
+    const stepName = step.name;
+    const startTime = Date.now();
+    let attempts = 0;
+    context.logger.info(`Starting step: ${stepName}`);
+    context.onProgress?.(0, `Starting ${stepName}`, stepName);
+
+    try {
+      // Input validation is deterministic, so it is not retried
+      const validation = step.validateInput(manifest);
+      if (!validation.valid) {
+        throw new Error(
+          `Input validation failed for ${stepName}: ${validation.errors.join(', ')}`
+        );
       }
+
+      const output = await withRetry(
+        () => {
+          attempts++;
+          return this.executeStep(step, stepConfig, manifest, context);
+        },
+        {
+          maxAttempts: stepConfig.retryable === false ? 1 : 1 + (stepConfig.maxRetries ?? 0),
+          delayMs: options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+          backoff: 'exponential',
+          shouldRetry: () => !context.abortSignal?.aborted,
+          onRetry: (attempt, error) => {
+            context.logger.warn(`Step ${stepName} attempt ${attempt} failed, retrying`, {
+              error: error.message,
+            });
+          },
+        }
+      );
+
+      const durationMs = Date.now() - startTime;
+      context.logger.info(`Completed step: ${stepName} in ${durationMs}ms`);
+      context.onProgress?.(100, `Completed ${stepName}`, stepName);
+
+      return { result: { stepName, success: true, durationMs, attempts }, output };
+    } catch (error) {
+      const durationMs = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      context.logger.error(`Step ${stepName} failed: ${errorMessage}`, { attempts });
+
+      return {
+        result: { stepName, success: false, durationMs, attempts, error: errorMessage },
+      };
     }
+  }
 
-    return { success: true, manifest: currentManifest, results };
+  /**
+   * Run a single attempt of a step, enforcing its timeout.
+   *
+   * The step receives its own abortSignal, which fires when the pipeline
+   * is aborted or the timeout elapses. Steps that ignore the signal are
+   * abandoned when the timeout fires.
+   */
+  private async executeStep(
+    step: PipelineStep,
+    stepConfig: PipelineStepConfig,
+    manifest: ArtifactManifest,
+    context: PipelineContext
+  ): Promise<ArtifactManifest> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(context.abortSignal?.reason);
+    context.abortSignal?.addEventListener('abort', onAbort);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      if (!stepConfig.timeoutMs) return;
+      timer = setTimeout(() => {
+        const error = new Error(`Step ${step.name} timed out after ${stepConfig.timeoutMs}ms`);
+        controller.abort(error);
+        reject(error);
+      }, stepConfig.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([
+        step.execute(manifest, {
+          ...context,
+          abortSignal: controller.signal,
+          // Steps report their own percent; tag it with the step name
+          onProgress: (progress, message) => context.onProgress?.(progress, message, step.name),
+        }),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+      context.abortSignal?.removeEventListener('abort', onAbort);
+    }
   }
 
   /**
@@ -302,6 +496,50 @@ export class PipelineOrchestrator {
   getRegisteredSteps(): string[] {
     return Array.from(this.steps.keys());
   }
+
+  /**
+   * Merge a previous run's checkpoint into the manifest, if usable
+   */
+  private async loadCheckpoint(
+    manifest: ArtifactManifest,
+    context: PipelineContext
+  ): Promise<ArtifactManifest> {
+    try {
+      const checkpoint = await loadManifestCheckpoint(
+        context.storage,
+        manifest.video_id,
+        manifest.graph_version_id
+      );
+      const resumed = resumeFromCheckpoint(manifest, checkpoint);
+      if (resumed !== manifest) {
+        context.logger.info('Resuming pipeline from checkpoint', {
+          completedSteps: resumed.completed_steps,
+        });
+      }
+      return resumed;
+    } catch (error) {
+      context.logger.warn('Failed to load manifest checkpoint, starting fresh', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return manifest;
+    }
+  }
+
+  /**
+   * Persist the manifest; a failed write only costs resumability
+   */
+  private async saveCheckpoint(
+    manifest: ArtifactManifest,
+    context: PipelineContext
+  ): Promise<void> {
+    try {
+      await saveManifestCheckpoint(context.storage, manifest);
+    } catch (error) {
+      context.logger.warn('Failed to save manifest checkpoint', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
 }
 
 /**
@@ -348,3 +586,18 @@ export function createEmptyManifest(
     step_errors: {},
   };
 }
+
+/**
+ * Build a pipeline definition from step names or step configs
+ */
+export function definePipeline(
+  name: string,
+  steps: Array<string | PipelineStepConfig>,
+  version = '1.0.0'
+): PipelineDefinition {
+  return {
+    name,
+    version,
+    steps: steps.map((step) => (typeof step === 'string' ? { name: step } : step)),
+  };
+}
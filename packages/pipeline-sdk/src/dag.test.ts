@@ -0,0 +1,155 @@
+/**
+ * Unit Tests - Step Dependency Graph
+ */
+
+import { describe, it, expect } from 'vitest';
+import type {
+  ArtifactManifest,
+  ArtifactPaths,
+  PipelineStep,
+} from '@video-graph/shared-types';
+import { createEmptyManifest, definePipeline } from './core';
+import { buildStepGraph, availableOutputs, mergeStepOutput } from './dag';
+
+function fakeStep(
+  name: string,
+  inputs: (keyof ArtifactPaths)[],
+  outputs: (keyof ArtifactPaths)[]
+): PipelineStep {
+  return {
+    name,
+    version: '1.0.0',
+    execute: async (manifest) => manifest,
+    validateInput: () => ({ valid: true, errors: [], warnings: [] }),
+    getRequiredInputs: () => inputs,
+    getProducedOutputs: () => outputs,
+  };
+}
+
+function registry(...steps: PipelineStep[]): Map<string, PipelineStep> {
+  return new Map(steps.map((step) => [step.name, step]));
+}
+
+const videoPipeline = registry(
+  fakeStep('video', [], ['video_original', 'video_normalized', 'audio_wav']),
+  fakeStep('asr', ['audio_wav'], ['transcript']),
+  fakeStep('topic', ['transcript'], ['topics']),
+  fakeStep('embeddings-graph', ['topics', 'transcript'], ['embeddings', 'graph']),
+  fakeStep('snippet', ['video_normalized', 'topics', 'transcript'], ['snippets'])
+);
+
+describe('buildStepGraph', () => {
+  it('should derive dependencies from inputs and outputs', () => {
+    const { graph } = buildStepGraph(
+      definePipeline('analysis', ['video', 'asr', 'topic', 'embeddings-graph', 'snippet']),
+      videoPipeline
+    );
+
+    expect(graph?.order).toEqual(['video', 'asr', 'topic', 'embeddings-graph', 'snippet']);
+    expect([...graph!.dependencies.get('snippet')!].sort()).toEqual(['asr', 'topic', 'video']);
+    expect([...graph!.dependents.get('topic')!].sort()).toEqual(['embeddings-graph', 'snippet']);
+  });
+
+  it('should order steps topologically regardless of definition order', () => {
+    const { graph } = buildStepGraph(
+      definePipeline('analysis', ['snippet', 'topic', 'asr', 'video']),
+      videoPipeline
+    );
+
+    expect(graph?.order).toEqual(['video', 'asr', 'topic', 'snippet']);
+  });
+
+  it('should reject unknown and duplicate steps', () => {
+    const { errors } = buildStepGraph(
+      definePipeline('analysis', ['video', 'video', 'ocr']),
+      videoPipeline
+    );
+
+    expect(errors).toEqual(['Duplicate step in pipeline: video', 'Step not found: ocr']);
+  });
+
+  it('should reject unsatisfiable inputs', () => {
+    const { graph, errors } = buildStepGraph(
+      definePipeline('analysis', ['topic', 'embeddings-graph']),
+      videoPipeline
+    );
+
+    expect(graph).toBeNull();
+    expect(errors).toEqual([
+      'Step topic requires "transcript", which no step produces',
+      'Step embeddings-graph requires "transcript", which no step produces',
+    ]);
+  });
+
+  it('should accept inputs already present in the manifest', () => {
+    const { graph, errors } = buildStepGraph(
+      definePipeline('analysis', ['topic', 'embeddings-graph']),
+      videoPipeline,
+      ['transcript']
+    );
+
+    expect(errors).toEqual([]);
+    expect(graph?.order).toEqual(['topic', 'embeddings-graph']);
+  });
+
+  it('should reject outputs produced by more than one step', () => {
+    const steps = registry(
+      fakeStep('asr', [], ['transcript']),
+      fakeStep('asr-fast', [], ['transcript'])
+    );
+
+    const { errors } = buildStepGraph(definePipeline('analysis', ['asr', 'asr-fast']), steps);
+
+    expect(errors).toEqual(['Output "transcript" is produced by both asr and asr-fast']);
+  });
+
+  it('should reject cycles', () => {
+    const steps = registry(
+      fakeStep('a', ['topics'], ['transcript']),
+      fakeStep('b', ['transcript'], ['topics'])
+    );
+
+    const { graph, errors } = buildStepGraph(definePipeline('loop', ['a', 'b']), steps);
+
+    expect(graph).toBeNull();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^Pipeline contains a dependency cycle: (a -> b -> a|b -> a -> b)$/);
+  });
+});
+
+describe('availableOutputs', () => {
+  it('should list keys with values', () => {
+    const manifest: ArtifactManifest = {
+      ...createEmptyManifest('v1', 'gv1', 'job-1', {} as ArtifactManifest['config_snapshot']),
+      paths: { transcript: 'videos/v1/transcript.json', topics: undefined },
+    };
+
+    expect(availableOutputs(manifest)).toEqual(['transcript']);
+  });
+});
+
+describe('mergeStepOutput', () => {
+  it('should apply only the changes a step made', () => {
+    const base = createEmptyManifest('v1', 'gv1', 'job-1', {} as ArtifactManifest['config_snapshot']);
+    const input = { ...base, paths: { audio_wav: 'a.wav' } };
+    const current = {
+      ...input,
+      paths: { ...input.paths, scenes: 'scenes.json' },
+      metrics: { duration_s: 60 },
+    };
+    const output = {
+      ...input,
+      paths: { ...input.paths, transcript: 'transcript.json' },
+      metrics: { transcript_segments: 12 },
+    };
+
+    const merged = mergeStepOutput(current, input, output);
+
+    expect(merged.paths).toEqual({
+      audio_wav: 'a.wav',
+      scenes: 'scenes.json',
+      transcript: 'transcript.json',
+    });
+    expect(merged.metrics).toEqual({ duration_s: 60, transcript_segments: 12 });
+  });
+});
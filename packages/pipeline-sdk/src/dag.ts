@@ -0,0 +1,195 @@
+/**
+ * Step Dependency Graph
+ *
+ * Derives the execution order of a pipeline from what each step
+ * consumes (`getRequiredInputs()`) and produces (`getProducedOutputs()`),
+ * so independent steps can run concurrently.
+ */
+
+import type {
+  ArtifactManifest,
+  ArtifactPaths,
+  PipelineDefinition,
+  PipelineStep,
+} from '@video-graph/shared-types';
+
+/**
+ * Dependency graph of the steps in a pipeline definition
+ */
+export interface StepGraph {
+  /** Step names in a valid execution order (definition order where possible) */
+  order: string[];
+  /** Steps whose outputs each step consumes */
+  dependencies: Map<string, Set<string>>;
+  /** Steps that consume each step's outputs */
+  dependents: Map<string, Set<string>>;
+}
+
+/**
+ * Build the dependency graph for a pipeline definition.
+ *
+ * Returns the problems found instead of a graph when the definition
+ * references unknown steps, has two steps producing the same output,
+ * requires inputs that neither a step nor the initial manifest provides,
+ * or contains a cycle.
+ *
+ * @param available - Artifact paths already present before the run
+ */
+export function buildStepGraph(
+  definition: PipelineDefinition,
+  steps: Map<string, PipelineStep>,
+  available: (keyof ArtifactPaths)[] = []
+): { graph: StepGraph; errors: [] } | { graph: null; errors: string[] } {
+  const errors: string[] = [];
+  const names: string[] = [];
+
+  for (const { name } of definition.steps) {
+    if (names.includes(name)) {
+      errors.push(`Duplicate step in pipeline: ${name}`);
+    } else if (!steps.has(name)) {
+      errors.push(`Step not found: ${name}`);
+    } else {
+      names.push(name);
+    }
+  }
+
+  // Map each output to the step that produces it
+  const producers = new Map<keyof ArtifactPaths, string>();
+  for (const name of names) {
+    for (const output of steps.get(name)!.getProducedOutputs()) {
+      const existing = producers.get(output);
+      if (existing && existing !== name) {
+        errors.push(`Output "${output}" is produced by both ${existing} and ${name}`);
+      } else {
+        producers.set(output, name);
+      }
+    }
+  }
+
+  const dependencies = new Map<string, Set<string>>();
+  const dependents = new Map<string, Set<string>>();
+  for (const name of names) {
+    dependencies.set(name, new Set());
+    dependents.set(name, new Set());
+  }
+
+  for (const name of names) {
+    for (const input of steps.get(name)!.getRequiredInputs()) {
+      const producer = producers.get(input);
+      if (producer && producer !== name) {
+        dependencies.get(name)!.add(producer);
+        dependents.get(producer)!.add(name);
+      } else if (!available.includes(input)) {
+        errors.push(`Step ${name} requires "${input}", which no step produces`);
+      }
+    }
+  }
+
+  const cycle = findCycle(names, dependencies);
+  if (cycle) {
+    errors.push(`Pipeline contains a dependency cycle: ${cycle.join(' -> ')}`);
+  }
+
+  if (errors.length > 0) {
+    return { graph: null, errors };
+  }
+
+  return {
+    graph: { order: topologicalOrder(names, dependencies), dependencies, dependents },
+    errors: [],
+  };
+}
+
+/**
+ * Artifact keys already present in a manifest
+ */
+export function availableOutputs(manifest: ArtifactManifest): (keyof ArtifactPaths)[] {
+  return (Object.keys(manifest.paths) as (keyof ArtifactPaths)[]).filter((key) => {
+    const value = manifest.paths[key];
+    return value !== undefined && value !== null;
+  });
+}
+
+/**
+ * Apply the changes a step made to its input manifest onto the current
+ * manifest, which other steps may have updated in the meantime
+ */
+export function mergeStepOutput(
+  current: ArtifactManifest,
+  input: ArtifactManifest,
+  output: ArtifactManifest
+): ArtifactManifest {
+  const paths: Record<string, unknown> = { ...current.paths };
+  for (const [key, value] of Object.entries(output.paths)) {
+    if (value !== input.paths[key as keyof ArtifactPaths]) {
+      paths[key] = value;
+    }
+  }
+
+  const metrics: Record<string, unknown> = { ...current.metrics };
+  for (const [key, value] of Object.entries(output.metrics)) {
+    if (value !== input.metrics[key as keyof ArtifactManifest['metrics']]) {
+      metrics[key] = value;
+    }
+  }
+
+  return {
+    ...current,
+    paths: paths as ArtifactPaths,
+    metrics: metrics as ArtifactManifest['metrics'],
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Kahn's algorithm, preferring definition order among ready steps
+ */
+function topologicalOrder(
+  names: string[],
+  dependencies: Map<string, Set<string>>
+): string[] {
+  const order: string[] = [];
+  const placed = new Set<string>();
+
+  while (order.length < names.length) {
+    const next = names.find(
+      (name) =>
+        !placed.has(name) &&
+        [...dependencies.get(name)!].every((dep) => placed.has(dep))
+    );
+    if (!next) break;
+    order.push(next);
+    placed.add(next);
+  }
+
+  return order;
+}
+
+function findCycle(
+  names: string[],
+  dependencies: Map<string, Set<string>>
+): string[] | null {
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (name: string): string[] | null => {
+    const index = stack.indexOf(name);
+    if (index !== -1) return [...stack.slice(index), name];
+    if (visited.has(name)) return null;
+
+    visited.add(name);
+    stack.push(name);
+    for (const dep of dependencies.get(name) ?? []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    return null;
+  };
+
+  for (const name of names) {
+    const cycle = visit(name);
+    if (cycle) return cycle.reverse();
+  }
+  return null;
+}
@@ -0,0 +1,191 @@
+/**
+ * Unit Tests - ffmpeg / ffprobe Helpers
+ *
+ * Uses small scripts standing in for the ffmpeg and ffprobe binaries.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  runFfmpeg,
+  probeMedia,
+  parseProbeOutput,
+  parseFrameRate,
+  createProgressParser,
+} from './ffmpeg';
+
+/**
+ * Fake ffmpeg: prints progress for a 10s input, then behaves per FAKE_MODE
+ */
+const FAKE_FFMPEG = `#!/usr/bin/env node
+const mode = process.env.FAKE_MODE || 'ok';
+const out = (s) => process.stdout.write(s);
+out('frame=1\\nout_time_us=2500000\\nprogress=continue\\n');
+out('out_time_us=5000');
+setTimeout(() => {
+  out('000\\nprogress=continue\\n');
+  if (mode === 'fail') {
+    process.stderr.write('Invalid data found when processing input\\n');
+    process.exit(1);
+  }
+  if (mode === 'hang') {
+    setInterval(() => {}, 1000);
+    return;
+  }
+  require('fs').writeFileSync(process.argv[process.argv.length - 1], 'done');
+  out('out_time_us=10000000\\nprogress=end\\n');
+}, 10);
+`;
+
+const FAKE_FFPROBE = `#!/usr/bin/env node
+process.stdout.write(JSON.stringify({
+  streams: [
+    { codec_type: 'video', width: 1280, height: 720, avg_frame_rate: '30000/1001' },
+    { codec_type: 'audio' },
+  ],
+  format: { duration: '12.5', format_name: 'mov,mp4,m4a,3gp,3g2,mj2' },
+}));
+`;
+
+describe('ffmpeg helpers', () => {
+  let dir: string;
+  let ffmpegPath: string;
+  let ffprobePath: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'fake-ffmpeg-'));
+    ffmpegPath = join(dir, 'ffmpeg');
+    ffprobePath = join(dir, 'ffprobe');
+    await fs.writeFile(ffmpegPath, FAKE_FFMPEG, { mode: 0o755 });
+    await fs.writeFile(ffprobePath, FAKE_FFPROBE, { mode: 0o755 });
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('runFfmpeg', () => {
+    it('should report progress as a fraction of the duration', async () => {
+      const progress: number[] = [];
+      const output = join(dir, 'out.mp4');
+
+      await runFfmpeg(['-i', 'in.mp4', output], {
+        ffmpegPath,
+        durationS: 10,
+        onProgress: (fraction) => progress.push(fraction),
+      });
+
+      expect(progress).toEqual([0.25, 0.5, 1, 1]);
+      expect(await fs.readFile(output, 'utf8')).toBe('done');
+    });
+
+    it('should include the stderr tail when ffmpeg fails', async () => {
+      process.env.FAKE_MODE = 'fail';
+      try {
+        await expect(runFfmpeg(['out.mp4'], { ffmpegPath })).rejects.toThrow(
+          /exited with code 1: Invalid data found when processing input/
+        );
+      } finally {
+        delete process.env.FAKE_MODE;
+      }
+    });
+
+    it('should kill ffmpeg when aborted', async () => {
+      process.env.FAKE_MODE = 'hang';
+      const controller = new AbortController();
+      try {
+        const run = runFfmpeg(['out.mp4'], {
+          ffmpegPath,
+          durationS: 10,
+          abortSignal: controller.signal,
+          onProgress: () => controller.abort(),
+        });
+        await expect(run).rejects.toThrow(`${ffmpegPath} aborted`);
+      } finally {
+        delete process.env.FAKE_MODE;
+      }
+    });
+
+    it('should not start when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        runFfmpeg(['out.mp4'], { ffmpegPath, abortSignal: controller.signal })
+      ).rejects.toThrow('aborted');
+    });
+
+    it('should report a missing binary', async () => {
+      await expect(
+        runFfmpeg(['out.mp4'], { ffmpegPath: join(dir, 'missing') })
+      ).rejects.toThrow(/Failed to start/);
+    });
+  });
+
+  describe('probeMedia', () => {
+    it('should parse ffprobe output', async () => {
+      const probe = await probeMedia('in.mp4', { ffprobePath });
+
+      expect(probe).toEqual({
+        duration: 12.5,
+        format: 'mov,mp4,m4a,3gp,3g2,mj2',
+        resolution: { width: 1280, height: 720 },
+        fps: 29.97,
+        hasVideo: true,
+        hasAudio: true,
+      });
+    });
+  });
+});
+
+describe('parseProbeOutput', () => {
+  it('should fall back to stream durations and handle audio-only input', () => {
+    const probe = parseProbeOutput(
+      JSON.stringify({
+        streams: [{ codec_type: 'audio', duration: '3.2' }],
+        format: { format_name: 'wav' },
+      })
+    );
+
+    expect(probe).toEqual({
+      duration: 3.2,
+      format: 'wav',
+      resolution: { width: 0, height: 0 },
+      fps: 0,
+      hasVideo: false,
+      hasAudio: true,
+    });
+  });
+});
+
+describe('parseFrameRate', () => {
+  it('should parse rational and integer rates', () => {
+    expect(parseFrameRate('25/1')).toBe(25);
+    expect(parseFrameRate('24000/1001')).toBe(23.976);
+    expect(parseFrameRate('30')).toBe(30);
+    expect(parseFrameRate('0/0')).toBe(0);
+    expect(parseFrameRate(undefined)).toBe(0);
+  });
+});
+
+describe('createProgressParser', () => {
+  it('should ignore progress without a known duration', () => {
+    const progress: number[] = [];
+    const parse = createProgressParser(undefined, (f) => progress.push(f));
+
+    parse('out_time_us=1000000\n');
+
+    expect(progress).toEqual([]);
+  });
+
+  it('should clamp progress past the end and skip N/A values', () => {
+    const progress: number[] = [];
+    const parse = createProgressParser(2, (f) => progress.push(f));
+
+    parse('out_time_us=N/A\nout_time_ms=3000000\n');
+
+    expect(progress).toEqual([1]);
+  });
+});
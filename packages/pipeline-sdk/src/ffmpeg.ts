@@ -0,0 +1,152 @@
+/**
+ * ffmpeg / ffprobe Helpers
+ *
+ * Spawns ffmpeg and ffprobe, parses ffmpeg's machine-readable progress
+ * output, and kills the process when the abort signal fires.
+ */
+
+import { runProcess } from './process';
+
+export interface FfmpegRunOptions {
+  /** ffmpeg binary (defaults to FFMPEG_PATH or `ffmpeg`) */
+  ffmpegPath?: string;
+  /** Input duration in seconds, used to turn output time into a fraction */
+  durationS?: number;
+  /** Called with progress in [0, 1] */
+  onProgress?: (fraction: number) => void;
+  /** Kills ffmpeg when aborted */
+  abortSignal?: AbortSignal;
+}
+
+export interface ProbeOptions {
+  /** ffprobe binary (defaults to FFPROBE_PATH or `ffprobe`) */
+  ffprobePath?: string;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Media metadata reported by ffprobe
+ */
+export interface MediaProbe {
+  /** Duration in seconds */
+  duration: number;
+  /** Container format name (e.g. `mov,mp4,m4a,3gp,3g2,mj2`) */
+  format: string;
+  /** Resolution of the first video stream (0x0 when there is none) */
+  resolution: { width: number; height: number };
+  /** Frame rate of the first video stream (0 when there is none) */
+  fps: number;
+  hasVideo: boolean;
+  hasAudio: boolean;
+}
+
+/**
+ * Run ffmpeg with progress reporting.
+ *
+ * `-progress pipe:1 -nostats` is prepended to the arguments, so callers
+ * pass only inputs, filters and outputs.
+ */
+export function runFfmpeg(args: string[], options: FfmpegRunOptions = {}): Promise<void> {
+  const binary = options.ffmpegPath ?? process.env.FFMPEG_PATH ?? 'ffmpeg';
+  const fullArgs = ['-hide_banner', '-nostdin', '-progress', 'pipe:1', '-nostats', ...args];
+
+  return runProcess(binary, fullArgs, {
+    abortSignal: options.abortSignal,
+    onStdout: createProgressParser(options.durationS, options.onProgress),
+  }).then(() => {
+    options.onProgress?.(1);
+  });
+}
+
+/**
+ * Probe a media file with ffprobe
+ */
+export async function probeMedia(path: string, options: ProbeOptions = {}): Promise<MediaProbe> {
+  const binary = options.ffprobePath ?? process.env.FFPROBE_PATH ?? 'ffprobe';
+  let output = '';
+
+  await runProcess(
+    binary,
+    ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', path],
+    {
+      abortSignal: options.abortSignal,
+      onStdout: (chunk) => {
+        output += chunk;
+      },
+    }
+  );
+
+  return parseProbeOutput(output);
+}
+
+/**
+ * Parse ffprobe's JSON output
+ */
+export function parseProbeOutput(json: string): MediaProbe {
+  const data = JSON.parse(json) as {
+    format?: { duration?: string; format_name?: string };
+    streams?: Array<{
+      codec_type?: string;
+      width?: number;
+      height?: number;
+      avg_frame_rate?: string;
+      r_frame_rate?: string;
+      duration?: string;
+    }>;
+  };
+
+  const streams = data.streams ?? [];
+  const video = streams.find((s) => s.codec_type === 'video');
+  const audio = streams.find((s) => s.codec_type === 'audio');
+
+  const duration =
+    parseFloat(data.format?.duration ?? '') ||
+    Math.max(0, ...streams.map((s) => parseFloat(s.duration ?? '') || 0));
+
+  return {
+    duration,
+    format: data.format?.format_name ?? 'unknown',
+    resolution: { width: video?.width ?? 0, height: video?.height ?? 0 },
+    fps: video ? parseFrameRate(video.avg_frame_rate) || parseFrameRate(video.r_frame_rate) : 0,
+    hasVideo: Boolean(video),
+    hasAudio: Boolean(audio),
+  };
+}
+
+/**
+ * Parse an ffmpeg rational frame rate such as `30000/1001`
+ */
+export function parseFrameRate(rate?: string): number {
+  if (!rate) return 0;
+  const [num, den] = rate.split('/').map(Number);
+  if (!den) return num || 0;
+  return Math.round((num / den) * 1000) / 1000;
+}
+
+/**
+ * Build a parser for ffmpeg `-progress` output. Chunks may split lines,
+ * so partial lines are buffered until their newline arrives.
+ */
+export function createProgressParser(
+  durationS: number | undefined,
+  onProgress: ((fraction: number) => void) | undefined
+): (chunk: string) => void {
+  let buffered = '';
+
+  return (chunk: string) => {
+    buffered += chunk;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const [key, value] = line.trim().split('=');
+      // out_time_ms is in microseconds, despite its name
+      if ((key === 'out_time_us' || key === 'out_time_ms') && durationS && durationS > 0) {
+        const seconds = parseInt(value, 10) / 1_000_000;
+        if (Number.isFinite(seconds) && seconds >= 0) {
+          onProgress?.(Math.min(seconds / durationS, 1));
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * Unit Tests - Graph Analytics
+ *
+ * Centrality, communities, paths and bridges on small hand-built graphs
+ * and seeded planted-partition graphs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeGraph,
+  betweennessCentrality,
+  bridgeTopics,
+  louvainCommunities,
+  pageRank,
+  shortestPath,
+  type AnalyticsGraph,
+} from './graph-analytics';
+
+/** Deterministic PRNG (mulberry32) */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function graphOf(pairs: Array<[string, string, number?]>, extraNodes: string[] = []): AnalyticsGraph {
+  const nodes = new Set<string>(extraNodes);
+  for (const [a, b] of pairs) {
+    nodes.add(a);
+    nodes.add(b);
+  }
+  return {
+    nodes: [...nodes],
+    edges: pairs.map(([source, target, weight]) => ({ source, target, weight: weight ?? 1 })),
+  };
+}
+
+/** Complete graphs on `a0..a3`, `b0..b3`, ... */
+function cliques(names: string[], size: number): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  for (const name of names) {
+    for (let i = 0; i < size; i++) {
+      for (let j = i + 1; j < size; j++) {
+        pairs.push([`${name}${i}`, `${name}${j}`]);
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Random graph with dense groups and sparse links between them; returns
+ * the graph and the group of every node
+ */
+function plantedPartition(seed: number, groups: number, perGroup: number) {
+  const rand = random(seed);
+  const nodes = Array.from({ length: groups * perGroup }, (_, i) => `t${i}`);
+  const truth = nodes.map((_, i) => Math.floor(i / perGroup));
+  const edges: AnalyticsGraph['edges'] = [];
+
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const same = truth[i] === truth[j];
+      if (rand() < (same ? 0.6 : 0.03)) {
+        edges.push({ source: nodes[i], target: nodes[j], weight: same ? 0.6 + rand() * 0.4 : 0.3 + rand() * 0.3 });
+      }
+    }
+  }
+
+  return { graph: { nodes, edges }, truth };
+}
+
+describe('pageRank', () => {
+  it('sums to one and ranks the hub of a star highest', () => {
+    const graph = graphOf([['hub', 'a'], ['hub', 'b'], ['hub', 'c'], ['c', 'd']], ['isolated']);
+    const ranks = pageRank(graph);
+
+    const total = Object.values(ranks).reduce((sum, r) => sum + r, 0);
+    expect(total).toBeCloseTo(1, 6);
+    expect(Object.entries(ranks).sort((a, b) => b[1] - a[1])[0][0]).toBe('hub');
+    expect(ranks.isolated).toBeLessThan(ranks.a);
+  });
+
+  it('sends more rank along stronger edges', () => {
+    const graph = graphOf([['source', 'strong', 1], ['source', 'weak', 0.1]]);
+    const ranks = pageRank(graph);
+
+    expect(ranks.strong).toBeGreaterThan(ranks.weak);
+  });
+
+  it('returns an empty result for an empty graph', () => {
+    expect(pageRank({ nodes: [], edges: [] })).toEqual({});
+  });
+});
+
+describe('betweennessCentrality', () => {
+  it('gives the middle of a path full centrality', () => {
+    const scores = betweennessCentrality(graphOf([['a', 'b'], ['b', 'c']]));
+
+    expect(scores.b).toBeCloseTo(1, 9);
+    expect(scores.a).toBe(0);
+    expect(scores.c).toBe(0);
+  });
+
+  it('splits credit between equally short paths', () => {
+    // a - b - d and a - c - d are both two hops
+    const scores = betweennessCentrality(graphOf([['a', 'b'], ['a', 'c'], ['b', 'd'], ['c', 'd']]), {
+      normalized: false,
+    });
+
+    expect(scores.b).toBeCloseTo(0.5, 9);
+    expect(scores.c).toBeCloseTo(0.5, 9);
+  });
+
+  it('routes around weak edges', () => {
+    // The direct a - c edge costs 10, the detour through b costs 2
+    const scores = betweennessCentrality(graphOf([['a', 'c', 0.1], ['a', 'b'], ['b', 'c']]));
+
+    expect(scores.b).toBeCloseTo(1, 9);
+  });
+});
+
+describe('louvainCommunities', () => {
+  it('separates two cliques joined by one edge', () => {
+    const graph = graphOf([...cliques(['a', 'b'], 5), ['a0', 'b0']]);
+    const { communities, communityCount, modularity } = louvainCommunities(graph);
+
+    expect(communityCount).toBe(2);
+    expect(new Set(['a0', 'a1', 'a2', 'a3', 'a4'].map((id) => communities[id])).size).toBe(1);
+    expect(communities.a0).not.toBe(communities.b0);
+    expect(modularity).toBeGreaterThan(0.4);
+  });
+
+  it('finds each clique in a ring of cliques', () => {
+    const names = ['a', 'b', 'c', 'd', 'e', 'f'];
+    const ring = names.map((name, i) => [`${name}0`, `${names[(i + 1) % names.length]}1`] as [string, string]);
+    const { communities, communityCount } = louvainCommunities(graphOf([...cliques(names, 4), ...ring]));
+
+    expect(communityCount).toBe(6);
+    for (const name of names) {
+      expect(new Set([0, 1, 2, 3].map((i) => communities[`${name}${i}`])).size).toBe(1);
+    }
+  });
+
+  it('recovers planted groups across seeds', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const { graph, truth } = plantedPartition(seed, 4, 12);
+      const { communities } = louvainCommunities(graph);
+
+      // Every planted group should map onto a single community
+      let agreeing = 0;
+      for (let g = 0; g < 4; g++) {
+        const members = graph.nodes.filter((_, i) => truth[i] === g).map((id) => communities[id]);
+        const counts = new Map<number, number>();
+        for (const c of members) counts.set(c, (counts.get(c) ?? 0) + 1);
+        agreeing += Math.max(...counts.values());
+      }
+      expect(agreeing / graph.nodes.length).toBeGreaterThanOrEqual(0.9);
+    }
+  });
+
+  it('numbers communities by size and is deterministic', () => {
+    const graph = graphOf([...cliques(['small'], 3), ...cliques(['large'], 6), ['small0', 'large0']]);
+    const first = louvainCommunities(graph);
+
+    expect(first.communities.large0).toBe(0);
+    expect(first.communities.small0).toBe(1);
+    expect(louvainCommunities(graph)).toEqual(first);
+  });
+
+  it('leaves edgeless nodes in their own communities', () => {
+    const result = louvainCommunities({ nodes: ['a', 'b'], edges: [] });
+
+    expect(result.communityCount).toBe(2);
+    expect(result.modularity).toBe(0);
+  });
+});
+
+describe('shortestPath', () => {
+  it('prefers a strong detour over a weak direct edge', () => {
+    const graph = graphOf([['a', 'd', 0.2], ['a', 'b', 0.9], ['b', 'c', 0.9], ['c', 'd', 0.9]]);
+    const result = shortestPath(graph, 'a', 'd');
+
+    expect(result?.path).toEqual(['a', 'b', 'c', 'd']);
+    expect(result?.cost).toBeCloseTo(3 / 0.9, 9);
+  });
+
+  it('returns a single-node path from a topic to itself', () => {
+    expect(shortestPath(graphOf([['a', 'b']]), 'a', 'a')).toEqual({ path: ['a'], cost: 0 });
+  });
+
+  it('returns null for disconnected or unknown topics', () => {
+    const graph = graphOf([['a', 'b'], ['c', 'd']]);
+
+    expect(shortestPath(graph, 'a', 'd')).toBeNull();
+    expect(shortestPath(graph, 'a', 'missing')).toBeNull();
+  });
+});
+
+describe('bridgeTopics', () => {
+  it('ranks the topic linking two clusters first', () => {
+    const graph = graphOf([...cliques(['a', 'b'], 4), ['a0', 'link'], ['link', 'b0']]);
+    const groups: Record<string, string> = { link: 'cluster-a' };
+    for (const id of graph.nodes) {
+      groups[id] ??= id.startsWith('a') ? 'cluster-a' : 'cluster-b';
+    }
+
+    const bridges = bridgeTopics(graph, groups);
+
+    expect(bridges[0].id).toBe('link');
+    expect(bridges[0].connectedGroups).toEqual(['cluster-b']);
+    expect(bridges[0].participation).toBeCloseTo(0.5, 9);
+    expect(bridges.map((b) => b.id)).not.toContain('a1');
+  });
+});
+
+describe('analyzeGraph', () => {
+  it('falls back to communities for topics without a cluster', () => {
+    const graph = graphOf([...cliques(['a', 'b'], 4), ['a0', 'b0']]);
+    const result = analyzeGraph(graph, { groups: { a1: 'cluster-1' }, bridgeLimit: 3 });
+
+    expect(result.communityCount).toBe(2);
+    expect(result.bridges.length).toBeLessThanOrEqual(3);
+    expect(result.bridges.map((b) => b.id)).toEqual(expect.arrayContaining(['a0', 'b0']));
+    expect(result.bridges.find((b) => b.id === 'a0')?.group).toMatch(/^community-/);
+    expect(Object.keys(result.pageRank)).toHaveLength(graph.nodes.length);
+  });
+});
@@ -0,0 +1,494 @@
+/**
+ * Graph Analytics
+ *
+ * Centrality, community and path analysis over a topic graph: weighted
+ * PageRank, Brandes betweenness, Louvain communities, Dijkstra shortest
+ * paths and bridge topics that connect clusters. Edges are treated as
+ * undirected; parallel edges between two topics keep the strongest
+ * weight, and the cost of traversing an edge is `1 / weight`, so closely
+ * related topics are near each other.
+ */
+
+export interface AnalyticsEdge {
+  source: string;
+  target: string;
+  /** Relation strength in (0, 1]; edges with weight <= 0 are ignored */
+  weight: number;
+}
+
+export interface AnalyticsGraph {
+  nodes: string[];
+  edges: AnalyticsEdge[];
+}
+
+export interface CommunityResult {
+  /** Community index per node id, numbered by size (largest first) */
+  communities: Record<string, number>;
+  communityCount: number;
+  modularity: number;
+}
+
+export interface ShortestPath {
+  /** Node ids from source to target, inclusive */
+  path: string[];
+  /** Sum of edge costs along the path */
+  cost: number;
+}
+
+export interface BridgeTopic {
+  id: string;
+  /** Group of the topic itself */
+  group: string;
+  /** Groups the topic's neighbours belong to, other than its own */
+  connectedGroups: string[];
+  /** 1 - sum of squared neighbour weight shares per group (0 = single group) */
+  participation: number;
+  betweenness: number;
+}
+
+export interface GraphAnalytics {
+  pageRank: Record<string, number>;
+  betweenness: Record<string, number>;
+  communities: Record<string, number>;
+  communityCount: number;
+  modularity: number;
+  bridges: BridgeTopic[];
+}
+
+/** Weighted adjacency lists indexed by node position */
+interface Adjacency {
+  ids: string[];
+  neighbours: Array<Map<number, number>>;
+}
+
+/**
+ * Run every analysis on a graph. Bridges are found between `groups`
+ * (e.g. topic clusters); nodes without a group fall back to their
+ * Louvain community.
+ */
+export function analyzeGraph(
+  graph: AnalyticsGraph,
+  options: { groups?: Record<string, string | null | undefined>; bridgeLimit?: number } = {}
+): GraphAnalytics {
+  const pageRankScores = pageRank(graph);
+  const betweenness = betweennessCentrality(graph);
+  const { communities, communityCount, modularity } = louvainCommunities(graph);
+
+  const groups: Record<string, string> = {};
+  for (const id of graph.nodes) {
+    groups[id] = options.groups?.[id] ?? `community-${communities[id]}`;
+  }
+
+  return {
+    pageRank: pageRankScores,
+    betweenness,
+    communities,
+    communityCount,
+    modularity,
+    bridges: bridgeTopics(graph, groups, betweenness).slice(0, options.bridgeLimit ?? 10),
+  };
+}
+
+// ==================== PageRank ====================
+
+/**
+ * Weighted PageRank. Rank flows along each edge in proportion to its
+ * weight; isolated nodes spread their rank over the whole graph.
+ */
+export function pageRank(
+  graph: AnalyticsGraph,
+  options: { damping?: number; tolerance?: number; maxIterations?: number } = {}
+): Record<string, number> {
+  const damping = options.damping ?? 0.85;
+  const tolerance = options.tolerance ?? 1e-9;
+  const maxIterations = options.maxIterations ?? 100;
+
+  const { ids, neighbours } = buildAdjacency(graph);
+  const n = ids.length;
+  if (n === 0) {
+    return {};
+  }
+
+  const strength = neighbours.map((adj) => sum(adj.values()));
+  let rank = new Array<number>(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let dangling = 0;
+    for (let i = 0; i < n; i++) {
+      if (strength[i] === 0) dangling += rank[i];
+    }
+
+    const next = new Array<number>(n).fill((1 - damping) / n + (damping * dangling) / n);
+    for (let i = 0; i < n; i++) {
+      if (strength[i] === 0) continue;
+      for (const [j, weight] of neighbours[i]) {
+        next[j] += (damping * rank[i] * weight) / strength[i];
+      }
+    }
+
+    const change = next.reduce((total, value, i) => total + Math.abs(value - rank[i]), 0);
+    rank = next;
+    if (change < tolerance) break;
+  }
+
+  return toRecord(ids, rank);
+}
+
+// ==================== Betweenness ====================
+
+/**
+ * Brandes betweenness centrality over weighted shortest paths. Scores are
+ * normalised by the number of node pairs, so they fall in [0, 1].
+ */
+export function betweennessCentrality(
+  graph: AnalyticsGraph,
+  options: { normalized?: boolean } = {}
+): Record<string, number> {
+  const { ids, neighbours } = buildAdjacency(graph);
+  const n = ids.length;
+  const centrality = new Array<number>(n).fill(0);
+
+  for (let source = 0; source < n; source++) {
+    const { order, predecessors, paths } = shortestPathDag(neighbours, source);
+    const dependency = new Array<number>(n).fill(0);
+
+    for (let k = order.length - 1; k >= 0; k--) {
+      const w = order[k];
+      for (const v of predecessors[w]) {
+        dependency[v] += (paths[v] / paths[w]) * (1 + dependency[w]);
+      }
+      if (w !== source) {
+        centrality[w] += dependency[w];
+      }
+    }
+  }
+
+  // Every pair is counted once from each end
+  const pairs = options.normalized === false || n <= 2 ? 2 : (n - 1) * (n - 2);
+  return toRecord(ids, centrality.map((value) => value / pairs));
+}
+
+// ==================== Louvain ====================
+
+/**
+ * Louvain community detection: greedy local moves that raise modularity,
+ * then aggregation of each community into a single node, repeated until
+ * nothing moves. Nodes are visited in input order, so results are
+ * deterministic.
+ */
+export function louvainCommunities(
+  graph: AnalyticsGraph,
+  options: { resolution?: number } = {}
+): CommunityResult {
+  const resolution = options.resolution ?? 1;
+  const { ids, neighbours } = buildAdjacency(graph);
+  const n = ids.length;
+
+  // Symmetric weight matrix as adjacency maps; self loops hold the
+  // weight inside aggregated communities
+  let level: Array<Map<number, number>> = neighbours.map((adj) => new Map(adj));
+  let membership = ids.map((_, i) => i);
+  const totalWeight = sum(level.map((adj) => sum(adj.values())));
+
+  while (totalWeight > 0) {
+    const { assignment, moved } = localMoves(level, totalWeight, resolution);
+    if (!moved) break;
+
+    const { renumbered, count } = renumber(assignment);
+    membership = membership.map((node) => renumbered[node]);
+    if (count === level.length) break;
+
+    const aggregated = Array.from({ length: count }, () => new Map<number, number>());
+    level.forEach((adj, i) => {
+      for (const [j, weight] of adj) {
+        const a = renumbered[i];
+        const b = renumbered[j];
+        aggregated[a].set(b, (aggregated[a].get(b) ?? 0) + weight);
+      }
+    });
+    level = aggregated;
+  }
+
+  // Number communities by size, largest first, ties by first member
+  const { renumbered } = renumber(membership);
+  const sizes = new Map<number, number>();
+  for (const c of renumbered) sizes.set(c, (sizes.get(c) ?? 0) + 1);
+  const order = [...sizes.keys()].sort((a, b) => sizes.get(b)! - sizes.get(a)! || a - b);
+  const rank = new Map(order.map((c, index) => [c, index]));
+  const final = renumbered.map((c) => rank.get(c)!);
+
+  return {
+    communities: toRecord(ids, final),
+    communityCount: n === 0 ? 0 : order.length,
+    modularity: modularity(neighbours, final, resolution),
+  };
+}
+
+/**
+ * Newman modularity of a partition
+ */
+function modularity(
+  neighbours: Array<Map<number, number>>,
+  communities: number[],
+  resolution = 1
+): number {
+  const strength = neighbours.map((adj) => sum(adj.values()));
+  const total = sum(strength);
+  if (total === 0) {
+    return 0;
+  }
+
+  const inside = new Map<number, number>();
+  const degree = new Map<number, number>();
+  neighbours.forEach((adj, i) => {
+    const c = communities[i];
+    degree.set(c, (degree.get(c) ?? 0) + strength[i]);
+    for (const [j, weight] of adj) {
+      if (communities[j] === c) inside.set(c, (inside.get(c) ?? 0) + weight);
+    }
+  });
+
+  let q = 0;
+  for (const [c, d] of degree) {
+    q += (inside.get(c) ?? 0) / total - resolution * (d / total) ** 2;
+  }
+  return q;
+}
+
+function localMoves(
+  level: Array<Map<number, number>>,
+  totalWeight: number,
+  resolution: number
+): { assignment: number[]; moved: boolean } {
+  const n = level.length;
+  const assignment = level.map((_, i) => i);
+  const strength = level.map((adj) => sum(adj.values()));
+  const communityStrength = [...strength];
+  let moved = false;
+
+  for (let improved = true; improved; ) {
+    improved = false;
+
+    for (let i = 0; i < n; i++) {
+      const current = assignment[i];
+      communityStrength[current] -= strength[i];
+
+      const links = new Map<number, number>();
+      for (const [j, weight] of level[i]) {
+        if (j !== i) links.set(assignment[j], (links.get(assignment[j]) ?? 0) + weight);
+      }
+
+      const gain = (c: number) =>
+        (links.get(c) ?? 0) - (resolution * communityStrength[c] * strength[i]) / totalWeight;
+
+      let best = current;
+      let bestGain = gain(current);
+      for (const c of links.keys()) {
+        const g = gain(c);
+        if (g > bestGain + 1e-12) {
+          best = c;
+          bestGain = g;
+        }
+      }
+
+      communityStrength[best] += strength[i];
+      if (best !== current) {
+        assignment[i] = best;
+        improved = true;
+        moved = true;
+      }
+    }
+  }
+
+  return { assignment, moved };
+}
+
+function renumber(assignment: number[]): { renumbered: number[]; count: number } {
+  const ids = new Map<number, number>();
+  const renumbered = assignment.map((c) => {
+    if (!ids.has(c)) ids.set(c, ids.size);
+    return ids.get(c)!;
+  });
+  return { renumbered, count: ids.size };
+}
+
+// ==================== Paths ====================
+
+/**
+ * Cheapest path between two nodes, or null when they are not connected
+ */
+export function shortestPath(graph: AnalyticsGraph, from: string, to: string): ShortestPath | null {
+  const { ids, neighbours } = buildAdjacency(graph);
+  const source = ids.indexOf(from);
+  const target = ids.indexOf(to);
+  if (source === -1 || target === -1) {
+    return null;
+  }
+
+  const { distance, predecessors } = shortestPathDag(neighbours, source);
+  if (!Number.isFinite(distance[target])) {
+    return null;
+  }
+
+  const path = [target];
+  while (path[0] !== source) {
+    // Ties resolve to the lowest predecessor index for stable results
+    path.unshift(Math.min(...predecessors[path[0]]));
+  }
+
+  return { path: path.map((i) => ids[i]), cost: distance[target] };
+}
+
+/**
+ * Dijkstra from `source`, keeping every predecessor on a shortest path
+ * and the number of shortest paths to each node
+ */
+function shortestPathDag(neighbours: Array<Map<number, number>>, source: number) {
+  const n = neighbours.length;
+  const distance = new Array<number>(n).fill(Infinity);
+  const paths = new Array<number>(n).fill(0);
+  const predecessors: number[][] = Array.from({ length: n }, () => []);
+  const settled = new Array<boolean>(n).fill(false);
+  const order: number[] = [];
+  const queue = new MinHeap();
+
+  distance[source] = 0;
+  paths[source] = 1;
+  queue.push(source, 0);
+
+  while (queue.size > 0) {
+    const { node: v, priority } = queue.pop()!;
+    if (settled[v] || priority > distance[v]) continue;
+    settled[v] = true;
+    order.push(v);
+
+    for (const [w, weight] of neighbours[v]) {
+      const candidate = distance[v] + 1 / weight;
+      if (candidate < distance[w] - 1e-12) {
+        distance[w] = candidate;
+        paths[w] = paths[v];
+        predecessors[w] = [v];
+        queue.push(w, candidate);
+      } else if (Math.abs(candidate - distance[w]) <= 1e-12 && !settled[w]) {
+        paths[w] += paths[v];
+        predecessors[w].push(v);
+      }
+    }
+  }
+
+  return { distance, paths, predecessors, order };
+}
+
+// ==================== Bridges ====================
+
+/**
+ * Topics whose neighbours span more than one group, ranked by
+ * betweenness and then by participation coefficient
+ */
+export function bridgeTopics(
+  graph: AnalyticsGraph,
+  groups: Record<string, string>,
+  betweenness: Record<string, number> = betweennessCentrality(graph)
+): BridgeTopic[] {
+  const { ids, neighbours } = buildAdjacency(graph);
+  const bridges: BridgeTopic[] = [];
+
+  neighbours.forEach((adj, i) => {
+    const group = groups[ids[i]];
+    const shares = new Map<string, number>();
+    for (const [j, weight] of adj) {
+      const neighbourGroup = groups[ids[j]];
+      shares.set(neighbourGroup, (shares.get(neighbourGroup) ?? 0) + weight);
+    }
+
+    const connectedGroups = [...shares.keys()].filter((g) => g !== group).sort();
+    if (connectedGroups.length === 0) return;
+
+    const strength = sum(shares.values());
+    const participation = 1 - sum([...shares.values()].map((w) => (w / strength) ** 2));
+    bridges.push({
+      id: ids[i],
+      group,
+      connectedGroups,
+      participation,
+      betweenness: betweenness[ids[i]] ?? 0,
+    });
+  });
+
+  return bridges.sort(
+    (a, b) => b.betweenness - a.betweenness || b.participation - a.participation
+  );
+}
+
+// ==================== Helpers ====================
+
+function buildAdjacency(graph: AnalyticsGraph): Adjacency {
+  const index = new Map(graph.nodes.map((id, i) => [id, i]));
+  const neighbours = graph.nodes.map(() => new Map<number, number>());
+
+  for (const edge of graph.edges) {
+    const a = index.get(edge.source);
+    const b = index.get(edge.target);
+    if (a === undefined || b === undefined || a === b || !(edge.weight > 0)) continue;
+
+    const weight = Math.max(edge.weight, neighbours[a].get(b) ?? 0);
+    neighbours[a].set(b, weight);
+    neighbours[b].set(a, weight);
+  }
+
+  return { ids: graph.nodes, neighbours };
+}
+
+function toRecord(ids: string[], values: number[]): Record<string, number> {
+  const record: Record<string, number> = {};
+  ids.forEach((id, i) => (record[id] = values[i]));
+  return record;
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const value of values) total += value;
+  return total;
+}
+
+/** Binary min-heap of node indices keyed by priority */
+class MinHeap {
+  private items: Array<{ node: number; priority: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(node: number, priority: number): void {
+    const items = this.items;
+    items.push({ node, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { node: number; priority: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Unit Tests - Graph Version Diff
+ *
+ * Topic matching across versions, splits and merges, and edge changes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  diffGraphs,
+  findFragments,
+  matchScore,
+  matchTopics,
+  type DiffEdge,
+  type DiffTopic,
+} from './graph-diff';
+
+function topic(
+  id: string,
+  start: number,
+  end: number,
+  title = id,
+  embedding?: number[]
+): DiffTopic {
+  return { id, level: 1, start, end, title, embedding };
+}
+
+function edge(srcTopicId: string, dstTopicId: string, weight = 1, edgeType = 'sequence'): DiffEdge {
+  return { srcTopicId, dstTopicId, edgeType, weight };
+}
+
+describe('matchScore', () => {
+  it('should score time overlap as intersection over union', () => {
+    expect(matchScore(topic('a', 0, 100), topic('b', 0, 100))).toBe(1);
+    expect(matchScore(topic('a', 0, 100), topic('b', 50, 150))).toBeCloseTo(1 / 3);
+    expect(matchScore(topic('a', 0, 100), topic('b', 100, 200))).toBe(0);
+  });
+
+  it('should blend in embedding similarity when both topics have one', () => {
+    const a = topic('a', 0, 100, 'a', [1, 0]);
+    expect(matchScore(a, topic('b', 0, 100, 'b', [1, 0]))).toBeCloseTo(1);
+    expect(matchScore(a, topic('b', 0, 100, 'b', [0, 1]))).toBeCloseTo(0.5);
+    expect(matchScore(a, topic('b', 0, 100, 'b'))).toBe(1);
+  });
+
+  it('should not match topics that do not overlap, however similar', () => {
+    expect(matchScore(topic('a', 0, 10, 'a', [1, 0]), topic('b', 20, 30, 'b', [1, 0]))).toBe(0);
+  });
+});
+
+describe('matchTopics', () => {
+  it('should pair each topic with its best counterpart once', () => {
+    const matches = matchTopics(
+      [topic('a1', 0, 60), topic('a2', 60, 120)],
+      [topic('b1', 0, 55, 'Intro'), topic('b2', 55, 120, 'a2')]
+    );
+
+    expect(matches.map((m) => [m.fromId, m.toId, m.retitled])).toEqual([
+      ['a2', 'b2', false],
+      ['a1', 'b1', true],
+    ]);
+  });
+
+  it('should only match topics on the same level', () => {
+    expect(matchTopics([topic('a', 0, 100)], [{ ...topic('b', 0, 100), level: 2 }])).toEqual([]);
+  });
+});
+
+describe('findFragments', () => {
+  it('should find a topic split into parts that cover it', () => {
+    const result = findFragments(
+      [topic('a', 0, 100)],
+      [topic('b2', 50, 100), topic('b1', 0, 50), topic('c', 100, 200)]
+    );
+
+    expect(result.splits).toEqual([{ fromId: 'a', toIds: ['b1', 'b2'] }]);
+    expect(result.merges).toEqual([]);
+  });
+
+  it('should find topics merged into one', () => {
+    const result = findFragments([topic('a1', 0, 40), topic('a2', 40, 100)], [topic('b', 0, 100)]);
+
+    expect(result.merges).toEqual([{ fromIds: ['a1', 'a2'], toId: 'b' }]);
+  });
+
+  it('should ignore slivers and shifted boundaries', () => {
+    expect(
+      findFragments([topic('a', 0, 100)], [topic('b1', 0, 95), topic('b2', 95, 100)]).splits
+    ).toEqual([]);
+    expect(
+      findFragments([topic('a', 0, 100)], [topic('b1', 0, 50), topic('b2', 40, 160)]).splits
+    ).toEqual([]);
+  });
+});
+
+describe('diffGraphs', () => {
+  const from = {
+    topics: [
+      topic('a1', 0, 60, 'Intro'),
+      topic('a2', 60, 120, 'Setup'),
+      topic('a3', 120, 200),
+      topic('a4', 200, 260),
+    ],
+    edges: [edge('a1', 'a2'), edge('a2', 'a3'), edge('a1', 'a4', 0.8, 'semantic')],
+  };
+  const to = {
+    topics: [
+      topic('b1', 0, 60, 'Welcome'),
+      topic('b2', 60, 120, 'Setup'),
+      topic('b3', 120, 160),
+      topic('b4', 160, 200),
+      topic('b5', 260, 300),
+    ],
+    edges: [edge('b2', 'b1'), edge('b2', 'b3'), edge('b1', 'b2', 0.6, 'semantic'), edge('b3', 'b4')],
+  };
+
+  it('should report added, removed, retitled and split topics', () => {
+    const diff = diffGraphs(from, to);
+
+    expect(diff.matched.map((m) => [m.fromId, m.toId, m.retitled])).toEqual([
+      ['a1', 'b1', true],
+      ['a2', 'b2', false],
+    ]);
+    expect(diff.splits).toEqual([{ fromId: 'a3', toIds: ['b3', 'b4'] }]);
+    expect(diff.merges).toEqual([]);
+    expect(diff.removed).toEqual(['a4']);
+    expect(diff.added).toEqual(['b5']);
+  });
+
+  it('should compare edges through matched topics', () => {
+    const { edges } = diffGraphs(from, to);
+
+    expect(edges.added).toEqual([
+      edge('b2', 'b3'),
+      edge('b1', 'b2', 0.6, 'semantic'),
+      edge('b3', 'b4'),
+    ]);
+    expect(edges.removed).toEqual([edge('a2', 'a3'), edge('a1', 'a4', 0.8, 'semantic')]);
+    expect(edges.reweighted).toEqual([]);
+  });
+
+  it('should report weight changes of kept edges', () => {
+    const { edges } = diffGraphs(
+      { topics: from.topics, edges: [edge('a1', 'a2', 0.5, 'semantic')] },
+      { topics: from.topics, edges: [edge('a1', 'a2', 0.9, 'semantic')] }
+    );
+
+    expect(edges.reweighted).toEqual([
+      { from: edge('a1', 'a2', 0.5, 'semantic'), to: edge('a1', 'a2', 0.9, 'semantic') },
+    ]);
+    expect(edges.added).toEqual([]);
+    expect(edges.removed).toEqual([]);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Graph Version Diff
+ *
+ * Compares two versions of a video's topic graph. Topic IDs differ between
+ * versions, so topics are matched on the same hierarchy level by how much
+ * their time spans overlap and, when both have embeddings, how similar
+ * their embeddings are. A topic whose span is covered by several topics of
+ * the other version was split (or, the other way round, merged). Edges are
+ * compared through the one-to-one matches, so edges of split, merged,
+ * added or removed topics are reported as removed and added.
+ */
+
+export interface DiffTopic {
+  id: string;
+  level: number;
+  start: number;
+  end: number;
+  title: string;
+  embedding?: number[] | null;
+}
+
+export interface DiffEdge {
+  srcTopicId: string;
+  dstTopicId: string;
+  edgeType: string;
+  weight: number;
+}
+
+export interface DiffGraph {
+  topics: DiffTopic[];
+  edges: DiffEdge[];
+}
+
+/** Topic of the old version matched one-to-one with a topic of the new version */
+export interface TopicMatch {
+  fromId: string;
+  toId: string;
+  /** Match score (0-1) */
+  score: number;
+  retitled: boolean;
+}
+
+export interface TopicSplit {
+  fromId: string;
+  toIds: string[];
+}
+
+export interface TopicMerge {
+  fromIds: string[];
+  toId: string;
+}
+
+export interface ReweightedEdge {
+  /** Edge in the old version */
+  from: DiffEdge;
+  /** Same edge in the new version */
+  to: DiffEdge;
+}
+
+export interface GraphDiff {
+  matched: TopicMatch[];
+  /** New version's topics with no counterpart */
+  added: string[];
+  /** Old version's topics with no counterpart */
+  removed: string[];
+  splits: TopicSplit[];
+  merges: TopicMerge[];
+  edges: {
+    /** Edges of the new version, between new topic IDs */
+    added: DiffEdge[];
+    /** Edges of the old version, between old topic IDs */
+    removed: DiffEdge[];
+    reweighted: ReweightedEdge[];
+  };
+}
+
+export interface GraphDiffOptions {
+  /** Minimum score for a one-to-one match (default 0.5) */
+  minMatchScore?: number;
+  /** Weight of embedding similarity against time overlap when both topics have embeddings (default 0.5) */
+  embeddingWeight?: number;
+  /** Share of a part's span that must fall inside the whole for a split or merge (default 0.8) */
+  minContainment?: number;
+  /** Share of the whole that a split or merge's parts must cover together (default 0.8) */
+  minCoverage?: number;
+  /** Parts covering less than this share of the whole are not counted (default 0.15) */
+  minPartShare?: number;
+  /** Weight changes smaller than this are ignored (default 0.001) */
+  weightTolerance?: number;
+}
+
+/**
+ * Diff two versions of a graph, `from` being the older one
+ */
+export function diffGraphs(
+  from: DiffGraph,
+  to: DiffGraph,
+  options: GraphDiffOptions = {}
+): GraphDiff {
+  const fragments = findFragments(from.topics, to.topics, options);
+  const regrouped = new Set([
+    ...fragments.splits.flatMap((s) => [s.fromId, ...s.toIds]),
+    ...fragments.merges.flatMap((m) => [...m.fromIds, m.toId]),
+  ]);
+
+  const matched = matchTopics(
+    from.topics.filter((t) => !regrouped.has(t.id)),
+    to.topics.filter((t) => !regrouped.has(t.id)),
+    options
+  );
+  const matchedFrom = new Set(matched.map((m) => m.fromId));
+  const matchedTo = new Set(matched.map((m) => m.toId));
+
+  return {
+    matched,
+    added: to.topics.filter((t) => !regrouped.has(t.id) && !matchedTo.has(t.id)).map((t) => t.id),
+    removed: from.topics
+      .filter((t) => !regrouped.has(t.id) && !matchedFrom.has(t.id))
+      .map((t) => t.id),
+    splits: fragments.splits,
+    merges: fragments.merges,
+    edges: diffEdges(from.edges, to.edges, matched, options.weightTolerance ?? 0.001),
+  };
+}
+
+/**
+ * Match topics one-to-one, best pairs first, among pairs on the same level
+ * scoring at least `minMatchScore`
+ */
+export function matchTopics(
+  from: DiffTopic[],
+  to: DiffTopic[],
+  options: Pick<GraphDiffOptions, 'minMatchScore' | 'embeddingWeight'> = {}
+): TopicMatch[] {
+  const minScore = options.minMatchScore ?? 0.5;
+
+  const candidates: Array<{ a: DiffTopic; b: DiffTopic; score: number }> = [];
+  for (const a of from) {
+    for (const b of to) {
+      if (a.level !== b.level) continue;
+      const score = matchScore(a, b, options.embeddingWeight ?? 0.5);
+      if (score >= minScore) candidates.push({ a, b, score });
+    }
+  }
+  // Ties go to the earlier pair so results do not depend on input order
+  candidates.sort((x, y) => y.score - x.score || x.a.start - y.a.start || x.b.start - y.b.start);
+
+  const usedFrom = new Set<string>();
+  const usedTo = new Set<string>();
+  const matches: TopicMatch[] = [];
+  for (const { a, b, score } of candidates) {
+    if (usedFrom.has(a.id) || usedTo.has(b.id)) continue;
+    usedFrom.add(a.id);
+    usedTo.add(b.id);
+    matches.push({ fromId: a.id, toId: b.id, score, retitled: a.title !== b.title });
+  }
+  return matches;
+}
+
+/**
+ * Similarity of two topics: time-span overlap (intersection over union),
+ * blended with embedding cosine similarity when both topics have one
+ */
+export function matchScore(a: DiffTopic, b: DiffTopic, embeddingWeight = 0.5): number {
+  const union = Math.max(a.end, b.end) - Math.min(a.start, b.start);
+  const overlapScore = union > 0 ? overlap(a, b) / union : 0;
+  if (overlapScore === 0) return 0;
+
+  if (!a.embedding || !b.embedding || a.embedding.length !== b.embedding.length) {
+    return overlapScore;
+  }
+  const similarity = Math.max(cosineSimilarity(a.embedding, b.embedding), 0);
+  return (1 - embeddingWeight) * overlapScore + embeddingWeight * similarity;
+}
+
+/**
+ * Find topics split into several topics of the other version, and groups of
+ * topics merged into one. Parts must lie mostly inside the whole and
+ * together cover most of it; a topic is only reported in one split or merge.
+ */
+export function findFragments(
+  from: DiffTopic[],
+  to: DiffTopic[],
+  options: Pick<GraphDiffOptions, 'minContainment' | 'minCoverage' | 'minPartShare'> = {}
+): { splits: TopicSplit[]; merges: TopicMerge[] } {
+  const used = new Set<string>();
+
+  const splits: TopicSplit[] = [];
+  for (const whole of from) {
+    const parts = fragmentParts(whole, to, used, options);
+    if (!parts) continue;
+    splits.push({ fromId: whole.id, toIds: parts.map((p) => p.id) });
+    for (const id of [whole.id, ...parts.map((p) => p.id)]) used.add(id);
+  }
+
+  const merges: TopicMerge[] = [];
+  for (const whole of to) {
+    if (used.has(whole.id)) continue;
+    const parts = fragmentParts(whole, from, used, options);
+    if (!parts) continue;
+    merges.push({ fromIds: parts.map((p) => p.id), toId: whole.id });
+    for (const id of [whole.id, ...parts.map((p) => p.id)]) used.add(id);
+  }
+
+  return { splits, merges };
+}
+
+function fragmentParts(
+  whole: DiffTopic,
+  candidates: DiffTopic[],
+  used: Set<string>,
+  options: Pick<GraphDiffOptions, 'minContainment' | 'minCoverage' | 'minPartShare'>
+): DiffTopic[] | null {
+  const duration = whole.end - whole.start;
+  if (duration <= 0 || used.has(whole.id)) return null;
+
+  const parts = candidates
+    .filter((part) => {
+      if (part.level !== whole.level || used.has(part.id)) return false;
+      const shared = overlap(whole, part);
+      const partDuration = part.end - part.start;
+      return (
+        partDuration > 0 &&
+        shared / partDuration >= (options.minContainment ?? 0.8) &&
+        shared / duration >= (options.minPartShare ?? 0.15)
+      );
+    })
+    .sort((a, b) => a.start - b.start);
+
+  const covered = parts.reduce((sum, part) => sum + overlap(whole, part), 0);
+  if (parts.length < 2 || covered / duration < (options.minCoverage ?? 0.8)) return null;
+  return parts;
+}
+
+function diffEdges(
+  from: DiffEdge[],
+  to: DiffEdge[],
+  matched: TopicMatch[],
+  tolerance: number
+): GraphDiff['edges'] {
+  // Edges of the new version are keyed by their endpoints' old IDs
+  const fromIdOf = new Map(matched.map((m) => [m.toId, m.fromId]));
+  const fromEdges = new Map(from.map((e) => [edgeKey(e.srcTopicId, e.dstTopicId, e.edgeType), e]));
+
+  const added: DiffEdge[] = [];
+  const reweighted: ReweightedEdge[] = [];
+  const kept = new Set<string>();
+  for (const edge of to) {
+    const src = fromIdOf.get(edge.srcTopicId);
+    const dst = fromIdOf.get(edge.dstTopicId);
+    const key = src && dst ? edgeKey(src, dst, edge.edgeType) : null;
+    const previous = key ? fromEdges.get(key) : undefined;
+    if (!key || !previous) {
+      added.push(edge);
+      continue;
+    }
+    kept.add(key);
+    if (Math.abs(previous.weight - edge.weight) > tolerance) {
+      reweighted.push({ from: previous, to: edge });
+    }
+  }
+
+  const removed = [...fromEdges.entries()]
+    .filter(([key]) => !kept.has(key))
+    .map(([, edge]) => edge);
+
+  return { added, removed, reweighted };
+}
+
+/** Edges are compared regardless of direction */
+function edgeKey(a: string, b: string, type: string): string {
+  return a < b ? `${type}:${a}:${b}` : `${type}:${b}:${a}`;
+}
+
+function overlap(a: DiffTopic, b: DiffTopic): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
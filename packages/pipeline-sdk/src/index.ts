@@ -6,9 +6,41 @@
  * - Step registry for swappable implementations
  * - Pipeline orchestration utilities
  * - Built-in step implementations
+ * - Storage service implementations
+ * - ASR providers
+ * - LLM providers
+ * - Topic boundary detection
+ * - Topic clustering
+ * - Graph analytics
+ * - Graph version diffs
+ * - Cross-video library graphs
+ * - Rank fusion
+ * - Transcript search highlighting
+ * - Retrieval-augmented answers
+ * - Job progress tracking
+ * - Job cancellation and pausing
+ * - Reprocessing with changed settings
+ * - ffmpeg / ffprobe helpers
  */
 
 export * from './core';
+export * from './checkpoint';
+export * from './dag';
 export * from './registry';
 export * from './steps';
+export * from './storage';
+export * from './asr';
+export * from './llm';
+export * from './segmentation';
+export * from './clustering';
+export * from './graph-analytics';
+export * from './graph-diff';
+export * from './library-graph';
+export * from './rank-fusion';
+export * from './transcript-highlight';
+export * from './rag';
+export * from './progress';
+export * from './control';
+export * from './reprocess';
+export * from './ffmpeg';
 export * from './utils';
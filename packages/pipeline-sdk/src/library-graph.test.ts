@@ -0,0 +1,141 @@
+/**
+ * Unit Tests - Library Graph
+ *
+ * Cross-video semantic and reference links and library clustering.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildLibraryGraph,
+  clusterLibrary,
+  findReferenceLinks,
+  selectSemanticLinks,
+  type LibraryTopic,
+} from './library-graph';
+
+/** Deterministic PRNG (mulberry32) */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function topic(id: string, videoId: string, keywords: string[] = [], embedding?: number[]): LibraryTopic {
+  return { id, videoId, keywords, embedding };
+}
+
+describe('selectSemanticLinks', () => {
+  const topics = [topic('a1', 'A'), topic('a2', 'A'), topic('b1', 'B'), topic('c1', 'C')];
+
+  it('keeps cross-video pairs above the threshold once', () => {
+    const edges = selectSemanticLinks(topics, [
+      { srcTopicId: 'a1', dstTopicId: 'b1', similarity: 0.9 },
+      { srcTopicId: 'b1', dstTopicId: 'a1', similarity: 0.9 },
+      { srcTopicId: 'a1', dstTopicId: 'a2', similarity: 0.99 },
+      { srcTopicId: 'a1', dstTopicId: 'c1', similarity: 0.5 },
+    ]);
+
+    expect(edges).toHaveLength(1);
+    expect(edges[0]).toMatchObject({ edgeType: 'semantic', weight: 0.9 });
+    expect(edges[0].distance).toBeCloseTo(0.1, 9);
+  });
+
+  it('caps the links per topic, keeping the strongest', () => {
+    const many = [topic('hub', 'A'), ...Array.from({ length: 6 }, (_, i) => topic(`t${i}`, `V${i}`))];
+    const candidates = Array.from({ length: 6 }, (_, i) => ({
+      srcTopicId: 'hub',
+      dstTopicId: `t${i}`,
+      similarity: 0.8 + i * 0.01,
+    }));
+
+    const edges = selectSemanticLinks(many, candidates, { maxLinksPerTopic: 3 });
+
+    expect(edges.map((e) => e.dstTopicId)).toEqual(['t5', 't4', 't3']);
+  });
+});
+
+describe('findReferenceLinks', () => {
+  it('links topics of different videos that share keywords', () => {
+    const edges = findReferenceLinks([
+      topic('a1', 'A', ['gradient descent', 'learning rate', 'loss']),
+      topic('b1', 'B', ['Learning Rate', 'gradient descent', 'momentum']),
+      topic('b2', 'B', ['gradient descent', 'learning rate']),
+      topic('c1', 'C', ['tokenizer', 'vocabulary']),
+      topic('d1', 'D', ['attention', 'softmax']),
+      topic('e1', 'E', ['dropout', 'regularization']),
+    ]);
+
+    expect(edges.map((e) => [e.srcTopicId, e.dstTopicId].sort().join('-')).sort()).toEqual([
+      'a1-b1',
+      'a1-b2',
+    ]);
+    expect(edges[0].edgeType).toBe('reference');
+    expect(edges[0].metadata.sharedKeywords).toEqual(['gradient descent', 'learning rate']);
+  });
+
+  it('ignores keywords used across most of the library', () => {
+    const topics = ['A', 'B', 'C', 'D'].map((video) =>
+      topic(`${video}1`, video, ['machine learning', 'neural network', `${video} detail`])
+    );
+
+    expect(findReferenceLinks(topics)).toEqual([]);
+    expect(findReferenceLinks(topics, { maxKeywordVideoShare: 1 })).toHaveLength(6);
+  });
+});
+
+describe('clusterLibrary', () => {
+  it('groups topics from different videos by embedding', () => {
+    const rand = random(7);
+    const centers = [0, 1, 2].map(() => Array.from({ length: 8 }, () => rand() * 2 - 1));
+    const names = ['optimizers', 'tokenizers', 'attention'];
+    const topics: LibraryTopic[] = [];
+
+    for (let i = 0; i < 36; i++) {
+      const group = i % 3;
+      topics.push(
+        topic(
+          `t${i}`,
+          `video-${i % 4}`,
+          [names[group], `term-${i}`],
+          centers[group].map((v) => v + (rand() - 0.5) * 0.1)
+        )
+      );
+    }
+    topics.push(topic('no-embedding', 'video-0', ['orphan']));
+
+    const clusters = clusterLibrary(topics, { maxClusters: 3 });
+
+    expect(clusters).toHaveLength(3);
+    expect(clusters.map((c) => c.size)).toEqual([12, 12, 12]);
+    expect(clusters.map((c) => c.id)).toEqual(['library-cluster-0', 'library-cluster-1', 'library-cluster-2']);
+    for (const cluster of clusters) {
+      expect(names).toContain(cluster.keywords[0]);
+      expect(cluster.videoIds.length).toBe(4);
+    }
+    expect(clusters.flatMap((c) => c.topicIds)).not.toContain('no-embedding');
+  });
+
+  it('returns no clusters without embeddings', () => {
+    expect(clusterLibrary([topic('a', 'A')])).toEqual([]);
+  });
+});
+
+describe('buildLibraryGraph', () => {
+  it('combines semantic and reference edges with clusters', () => {
+    const topics = [
+      topic('a1', 'A', ['backprop', 'chain rule'], [1, 0]),
+      topic('b1', 'B', ['backprop', 'chain rule'], [0.9, 0.1]),
+    ];
+
+    const { edges, clusters } = buildLibraryGraph(topics, [
+      { srcTopicId: 'a1', dstTopicId: 'b1', similarity: 0.95 },
+    ]);
+
+    expect(edges.map((e) => e.edgeType).sort()).toEqual(['reference', 'semantic']);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].videoIds.sort()).toEqual(['A', 'B']);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Library Graph
+ *
+ * Links topics across the videos of a user's library. Semantic edges come
+ * from nearest-neighbour candidates (found with pgvector by the caller),
+ * reference edges from keywords shared between topics of different
+ * videos, and the library's topics are clustered so the graph can be
+ * browsed one cluster at a time.
+ */
+
+import { clusterVectors, labelClusters } from './clustering';
+
+export interface LibraryTopic {
+  id: string;
+  videoId: string;
+  keywords: string[];
+  embedding?: number[] | null;
+}
+
+/** Nearest-neighbour pair between topics of different videos */
+export interface LibraryCandidate {
+  srcTopicId: string;
+  dstTopicId: string;
+  /** Cosine similarity of the two topic embeddings */
+  similarity: number;
+}
+
+export interface LibraryEdge {
+  srcTopicId: string;
+  dstTopicId: string;
+  edgeType: 'semantic' | 'reference';
+  weight: number;
+  distance: number;
+  metadata: Record<string, unknown>;
+}
+
+export interface LibraryCluster {
+  id: string;
+  label: string;
+  keywords: string[];
+  size: number;
+  topicIds: string[];
+  videoIds: string[];
+}
+
+export interface LibraryGraphOptions {
+  /** Minimum cosine similarity for a semantic edge (default 0.75) */
+  minSimilarity?: number;
+  /** Cap on cross-video edges of each type per topic (default 5) */
+  maxLinksPerTopic?: number;
+  /** Shared keywords required for a reference edge (default 2) */
+  minSharedKeywords?: number;
+  /** Keywords used by more than this share of the library's videos are ignored (default 0.5) */
+  maxKeywordVideoShare?: number;
+  /** Upper bound on library clusters (default 50) */
+  maxClusters?: number;
+  /** Seed for clustering (default 42) */
+  seed?: number;
+}
+
+/**
+ * Build the cross-video edges and clusters for a library
+ */
+export function buildLibraryGraph(
+  topics: LibraryTopic[],
+  candidates: LibraryCandidate[],
+  options: LibraryGraphOptions = {}
+): { edges: LibraryEdge[]; clusters: LibraryCluster[] } {
+  return {
+    edges: [
+      ...selectSemanticLinks(topics, candidates, options),
+      ...findReferenceLinks(topics, options),
+    ],
+    clusters: clusterLibrary(topics, options),
+  };
+}
+
+/**
+ * Keep the strongest cross-video candidates above the similarity
+ * threshold, at most `maxLinksPerTopic` per topic. Pairs are undirected
+ * and reported once.
+ */
+export function selectSemanticLinks(
+  topics: LibraryTopic[],
+  candidates: LibraryCandidate[],
+  options: Pick<LibraryGraphOptions, 'minSimilarity' | 'maxLinksPerTopic'> = {}
+): LibraryEdge[] {
+  const minSimilarity = options.minSimilarity ?? 0.75;
+  const videoOf = new Map(topics.map((t) => [t.id, t.videoId]));
+
+  const best = new Map<string, LibraryCandidate>();
+  for (const candidate of candidates) {
+    const srcVideo = videoOf.get(candidate.srcTopicId);
+    const dstVideo = videoOf.get(candidate.dstTopicId);
+    if (!srcVideo || !dstVideo || srcVideo === dstVideo) continue;
+    if (candidate.similarity < minSimilarity) continue;
+
+    const key = pairKey(candidate.srcTopicId, candidate.dstTopicId);
+    if ((best.get(key)?.similarity ?? -Infinity) < candidate.similarity) {
+      best.set(key, candidate);
+    }
+  }
+
+  const links = [...best.values()].map((c) => ({
+    srcTopicId: c.srcTopicId,
+    dstTopicId: c.dstTopicId,
+    score: c.similarity,
+    metadata: { similarity: c.similarity },
+  }));
+
+  return capLinks(links, options.maxLinksPerTopic ?? 5).map((link) => ({
+    srcTopicId: link.srcTopicId,
+    dstTopicId: link.dstTopicId,
+    edgeType: 'semantic',
+    weight: link.score,
+    distance: 1 - link.score,
+    metadata: link.metadata,
+  }));
+}
+
+/**
+ * Link topics of different videos that share keywords. Keywords common to
+ * most of the library (the series' overall subject) carry no signal and
+ * are skipped.
+ */
+export function findReferenceLinks(
+  topics: LibraryTopic[],
+  options: Pick<
+    LibraryGraphOptions,
+    'minSharedKeywords' | 'maxKeywordVideoShare' | 'maxLinksPerTopic'
+  > = {}
+): LibraryEdge[] {
+  const minShared = options.minSharedKeywords ?? 2;
+  const maxShare = options.maxKeywordVideoShare ?? 0.5;
+
+  const keywordsOf = topics.map((t) => new Set(t.keywords.map((k) => k.trim().toLowerCase()).filter(Boolean)));
+  const videoCount = new Set(topics.map((t) => t.videoId)).size;
+
+  const topicsWith = new Map<string, number[]>();
+  keywordsOf.forEach((keywords, i) => {
+    for (const keyword of keywords) {
+      const indices = topicsWith.get(keyword) ?? [];
+      indices.push(i);
+      topicsWith.set(keyword, indices);
+    }
+  });
+
+  const shared = new Map<string, { a: number; b: number; keywords: string[] }>();
+  for (const [keyword, indices] of topicsWith) {
+    const videos = new Set(indices.map((i) => topics[i].videoId));
+    if (videos.size < 2 || (videoCount > 2 && videos.size / videoCount > maxShare)) continue;
+
+    for (let x = 0; x < indices.length; x++) {
+      for (let y = x + 1; y < indices.length; y++) {
+        const a = indices[x];
+        const b = indices[y];
+        if (topics[a].videoId === topics[b].videoId) continue;
+
+        const key = pairKey(topics[a].id, topics[b].id);
+        const entry = shared.get(key) ?? { a, b, keywords: [] };
+        entry.keywords.push(keyword);
+        shared.set(key, entry);
+      }
+    }
+  }
+
+  const links = [...shared.values()]
+    .filter((entry) => entry.keywords.length >= minShared)
+    .map(({ a, b, keywords }) => ({
+      srcTopicId: topics[a].id,
+      dstTopicId: topics[b].id,
+      score: keywords.length / Math.max(keywordsOf[a].size, keywordsOf[b].size),
+      metadata: { sharedKeywords: keywords.sort() },
+    }));
+
+  return capLinks(links, options.maxLinksPerTopic ?? 5).map((link) => ({
+    srcTopicId: link.srcTopicId,
+    dstTopicId: link.dstTopicId,
+    edgeType: 'reference',
+    weight: link.score,
+    distance: 1 - link.score,
+    metadata: link.metadata,
+  }));
+}
+
+/**
+ * Cluster the library's topics by embedding and label each cluster with
+ * its distinctive keywords. Topics without an embedding are left out.
+ */
+export function clusterLibrary(
+  topics: LibraryTopic[],
+  options: Pick<LibraryGraphOptions, 'maxClusters' | 'seed'> = {}
+): LibraryCluster[] {
+  const embedded = topics.filter((t) => t.embedding && t.embedding.length > 0);
+  if (embedded.length === 0) {
+    return [];
+  }
+
+  // k-means with k ~ sqrt(n / 2) scales to large libraries, unlike the
+  // silhouette search used for a single video
+  const k = Math.min(Math.max(Math.round(Math.sqrt(embedded.length / 2)), 1), options.maxClusters ?? 50);
+  const { labels } = clusterVectors(
+    embedded.map((t) => t.embedding!),
+    { algorithm: 'kmeans', numClusters: k, seed: options.seed }
+  );
+  const labelled = labelClusters(embedded.map((t) => t.keywords), labels);
+
+  return labelled
+    .map((cluster) => {
+      const members = embedded.filter((_, i) => labels[i] === cluster.cluster);
+      return {
+        id: '',
+        label: cluster.label,
+        keywords: cluster.keywords,
+        size: members.length,
+        topicIds: members.map((t) => t.id),
+        videoIds: [...new Set(members.map((t) => t.videoId))],
+      };
+    })
+    .sort((a, b) => b.size - a.size)
+    .map((cluster, index) => ({ ...cluster, id: `library-cluster-${index}` }));
+}
+
+/**
+ * Greedily keep the highest-scoring links while neither endpoint has
+ * reached `maxPerTopic`
+ */
+function capLinks<T extends { srcTopicId: string; dstTopicId: string; score: number }>(
+  links: T[],
+  maxPerTopic: number
+): T[] {
+  const degree = new Map<string, number>();
+  const kept: T[] = [];
+
+  const sorted = [...links].sort(
+    (a, b) =>
+      b.score - a.score ||
+      pairKey(a.srcTopicId, a.dstTopicId).localeCompare(pairKey(b.srcTopicId, b.dstTopicId))
+  );
+
+  for (const link of sorted) {
+    const srcDegree = degree.get(link.srcTopicId) ?? 0;
+    const dstDegree = degree.get(link.dstTopicId) ?? 0;
+    if (srcDegree >= maxPerTopic || dstDegree >= maxPerTopic) continue;
+
+    degree.set(link.srcTopicId, srcDegree + 1);
+    degree.set(link.dstTopicId, dstDegree + 1);
+    kept.push(link);
+  }
+
+  return kept;
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
@@ -0,0 +1,69 @@
+/**
+ * LLM Provider Factory
+ */
+
+import type { EmbeddingModelConfig, LlmModelConfig } from '@video-graph/shared-types';
+import { OllamaProvider } from './ollama';
+import { OpenAiCompatibleProvider } from './openai-compatible';
+import type { EmbeddingProvider, LlmProvider } from './types';
+
+/** Default `/v1` endpoints of servers that speak the OpenAI chat API */
+const DEFAULT_BASE_URLS: Record<string, string> = {
+  'llama-cpp': 'http://localhost:8080/v1',
+  vllm: 'http://localhost:8000/v1',
+  'openai-compatible': 'http://localhost:8080/v1',
+};
+
+/**
+ * Create the LLM provider selected by `LlmModelConfig.provider`. Base
+ * URLs and keys fall back to LLM_BASE_URL / LLM_API_KEY.
+ */
+export function createLlmProvider(config: LlmModelConfig): LlmProvider {
+  switch (config.provider) {
+    case 'ollama':
+      return new OllamaProvider({
+        host: config.ollamaHost ?? config.baseUrl,
+        model: config.model,
+        contextWindow: config.contextWindow,
+        topP: config.topP,
+        topK: config.topK,
+        repeatPenalty: config.repeatPenalty,
+      });
+    case 'llama-cpp':
+    case 'vllm':
+    case 'openai-compatible':
+      return new OpenAiCompatibleProvider({
+        name: config.provider,
+        baseUrl: config.baseUrl ?? process.env.LLM_BASE_URL ?? DEFAULT_BASE_URLS[config.provider],
+        model: config.model,
+        apiKey: config.apiKey ?? process.env.LLM_API_KEY,
+        topP: config.topP,
+      });
+    default:
+      throw new Error(`LLM provider ${config.provider} is not supported yet`);
+  }
+}
+
+/**
+ * Create the embedding provider selected by `EmbeddingModelConfig.provider`.
+ * Base URLs and keys fall back to EMBEDDING_BASE_URL / EMBEDDING_API_KEY.
+ */
+export function createEmbeddingProvider(config: EmbeddingModelConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'ollama':
+      return new OllamaProvider({ host: config.ollamaHost ?? config.baseUrl, model: config.model });
+    case 'openai':
+    case 'openai-compatible':
+      return new OpenAiCompatibleProvider({
+        name: config.provider,
+        baseUrl:
+          config.baseUrl ??
+          process.env.EMBEDDING_BASE_URL ??
+          (config.provider === 'openai' ? 'https://api.openai.com/v1' : DEFAULT_BASE_URLS[config.provider]),
+        model: config.model,
+        apiKey: config.apiKey ?? process.env.EMBEDDING_API_KEY,
+      });
+    default:
+      throw new Error(`Embedding provider ${config.provider} is not supported yet`);
+  }
+}
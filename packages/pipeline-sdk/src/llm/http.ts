@@ -0,0 +1,27 @@
+/**
+ * JSON-over-HTTP helper shared by the LLM providers
+ */
+
+/**
+ * POST a JSON body and parse the JSON response. Rejects with the status
+ * and response text on non-2xx replies.
+ */
+export async function postJson<T>(
+  url: string,
+  body: unknown,
+  options: { headers?: Record<string, string>; abortSignal?: AbortSignal } = {}
+): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: JSON.stringify(body),
+    signal: options.abortSignal,
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`POST ${url} failed with status ${response.status}: ${text.slice(0, 500)}`);
+  }
+
+  return (await response.json()) as T;
+}
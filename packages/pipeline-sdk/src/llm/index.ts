@@ -0,0 +1,15 @@
+/**
+ * LLM Providers
+ *
+ * Chat models used for topic summarization, with structured output
+ * validation and token budgeting, and embedding models for topic graphs
+ * and vector search.
+ */
+
+export * from './types';
+export * from './ollama';
+export * from './openai-compatible';
+export * from './mock';
+export * from './structured';
+export * from './tokens';
+export * from './factory';
@@ -0,0 +1,89 @@
+/**
+ * Mock LLM Provider
+ *
+ * Deterministic providers for tests: replies come from a fixed queue or a
+ * function of the request, embeddings from hashing the text's words, and
+ * every call is recorded.
+ */
+
+import { estimateTokens } from './tokens';
+import type {
+  EmbeddingOptions,
+  EmbeddingProvider,
+  LlmCompletion,
+  LlmCompletionOptions,
+  LlmMessage,
+  LlmProvider,
+} from './types';
+
+export type MockLlmReply = string | Record<string, unknown> | unknown[];
+
+export interface MockLlmOptions {
+  /** Replies returned in order; objects are serialized as JSON */
+  responses?: MockLlmReply[];
+  /** Builds a reply from the request once `responses` is exhausted */
+  respond?: (messages: LlmMessage[], options: LlmCompletionOptions) => MockLlmReply;
+  model?: string;
+}
+
+export class MockLlmProvider implements LlmProvider {
+  readonly name = 'mock';
+  readonly model: string;
+  readonly calls: Array<{ messages: LlmMessage[]; options: LlmCompletionOptions }> = [];
+  private responses: MockLlmReply[];
+
+  constructor(private options: MockLlmOptions = {}) {
+    this.model = options.model ?? 'mock';
+    this.responses = [...(options.responses ?? [])];
+  }
+
+  async complete(messages: LlmMessage[], options: LlmCompletionOptions = {}): Promise<LlmCompletion> {
+    options.abortSignal?.throwIfAborted();
+    this.calls.push({ messages: [...messages], options });
+
+    const reply = this.responses.length > 0
+      ? this.responses.shift()!
+      : this.options.respond?.(messages, options);
+    if (reply === undefined) {
+      throw new Error('MockLlmProvider has no responses left');
+    }
+
+    const content = typeof reply === 'string' ? reply : JSON.stringify(reply);
+    return {
+      content,
+      promptTokens: messages.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+      completionTokens: estimateTokens(content),
+    };
+  }
+}
+
+/**
+ * Embeds each text as a normalized bag of hashed words, so texts that
+ * share words are similar and identical texts get identical vectors
+ */
+export class MockEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'mock';
+  readonly model: string;
+  readonly calls: string[][] = [];
+
+  constructor(private options: { model?: string; dimensions?: number } = {}) {
+    this.model = options.model ?? 'mock';
+  }
+
+  async embed(texts: string[], options: EmbeddingOptions = {}): Promise<number[][]> {
+    options.abortSignal?.throwIfAborted();
+    this.calls.push([...texts]);
+
+    const dimensions = this.options.dimensions ?? 384;
+    return texts.map((text) => {
+      const vector = new Array<number>(dimensions).fill(0);
+      for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+        let hash = 0;
+        for (let i = 0; i < word.length; i++) hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+        vector[hash % dimensions] += 1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0)) || 1;
+      return vector.map((x) => x / norm);
+    });
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Ollama LLM Provider
+ *
+ * Calls the Ollama chat API (`POST /api/chat`) without streaming, and
+ * the embedding API (`POST /api/embed`) when used for embeddings.
+ */
+
+import { postJson } from './http';
+import type {
+  EmbeddingOptions,
+  EmbeddingProvider,
+  LlmCompletion,
+  LlmCompletionOptions,
+  LlmMessage,
+  LlmProvider,
+} from './types';
+
+export interface OllamaOptions {
+  /** Server URL (defaults to OLLAMA_HOST or `http://localhost:11434`) */
+  host?: string;
+  model: string;
+  /** Context window passed as `num_ctx` (model default when unset) */
+  contextWindow?: number;
+  topP?: number;
+  topK?: number;
+  repeatPenalty?: number;
+}
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OllamaEmbedResponse {
+  embeddings?: number[][];
+}
+
+export class OllamaProvider implements LlmProvider, EmbeddingProvider {
+  readonly name = 'ollama';
+  readonly model: string;
+  private host: string;
+
+  constructor(private options: OllamaOptions) {
+    this.model = options.model;
+    this.host = (options.host ?? process.env.OLLAMA_HOST ?? 'http://localhost:11434').replace(/\/+$/, '');
+  }
+
+  async complete(messages: LlmMessage[], options: LlmCompletionOptions = {}): Promise<LlmCompletion> {
+    const response = await postJson<OllamaChatResponse>(
+      `${this.host}/api/chat`,
+      {
+        model: this.model,
+        messages,
+        stream: false,
+        ...(options.json && { format: 'json' }),
+        options: {
+          num_predict: options.maxTokens,
+          num_ctx: this.options.contextWindow,
+          temperature: options.temperature,
+          top_p: this.options.topP,
+          top_k: this.options.topK,
+          repeat_penalty: this.options.repeatPenalty,
+        },
+      },
+      { abortSignal: options.abortSignal }
+    );
+
+    return {
+      content: response.message?.content ?? '',
+      promptTokens: response.prompt_eval_count,
+      completionTokens: response.eval_count,
+    };
+  }
+
+  async embed(texts: string[], options: EmbeddingOptions = {}): Promise<number[][]> {
+    const response = await postJson<OllamaEmbedResponse>(
+      `${this.host}/api/embed`,
+      { model: this.model, input: texts },
+      { abortSignal: options.abortSignal }
+    );
+
+    const embeddings = response.embeddings ?? [];
+    if (embeddings.length !== texts.length) {
+      throw new Error(`Ollama returned ${embeddings.length} embeddings for ${texts.length} texts`);
+    }
+    return embeddings;
+  }
+}
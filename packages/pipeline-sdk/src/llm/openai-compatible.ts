@@ -0,0 +1,91 @@
+/**
+ * OpenAI-Compatible LLM Provider
+ *
+ * Calls `POST <baseUrl>/chat/completions`, as served by llama.cpp's
+ * `llama-server`, vLLM and other local inference servers, and
+ * `POST <baseUrl>/embeddings` when used for embeddings.
+ */
+
+import { postJson } from './http';
+import type {
+  EmbeddingOptions,
+  EmbeddingProvider,
+  LlmCompletion,
+  LlmCompletionOptions,
+  LlmMessage,
+  LlmProvider,
+} from './types';
+
+export interface OpenAiCompatibleOptions {
+  /** Base URL including the `/v1` prefix */
+  baseUrl: string;
+  model: string;
+  /** Sent as a bearer token when set */
+  apiKey?: string;
+  topP?: number;
+  /** Name reported in logs (e.g. `llama-cpp`, `vllm`) */
+  name?: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface EmbeddingsResponse {
+  data?: Array<{ index: number; embedding: number[] }>;
+}
+
+export class OpenAiCompatibleProvider implements LlmProvider, EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(private options: OpenAiCompatibleOptions) {
+    this.name = options.name ?? 'openai-compatible';
+    this.model = options.model;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+  }
+
+  async complete(messages: LlmMessage[], options: LlmCompletionOptions = {}): Promise<LlmCompletion> {
+    const response = await postJson<ChatCompletionResponse>(
+      `${this.baseUrl}/chat/completions`,
+      {
+        model: this.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        top_p: this.options.topP,
+        ...(options.json && { response_format: { type: 'json_object' } }),
+      },
+      {
+        headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {},
+        abortSignal: options.abortSignal,
+      }
+    );
+
+    return {
+      content: response.choices?.[0]?.message?.content ?? '',
+      promptTokens: response.usage?.prompt_tokens,
+      completionTokens: response.usage?.completion_tokens,
+    };
+  }
+
+  async embed(texts: string[], options: EmbeddingOptions = {}): Promise<number[][]> {
+    const response = await postJson<EmbeddingsResponse>(
+      `${this.baseUrl}/embeddings`,
+      { model: this.model, input: texts },
+      {
+        headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {},
+        abortSignal: options.abortSignal,
+      }
+    );
+
+    const data = response.data ?? [];
+    if (data.length !== texts.length) {
+      throw new Error(`${this.name} returned ${data.length} embeddings for ${texts.length} texts`);
+    }
+    // Servers may return the vectors out of order
+    return [...data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Unit Tests - LLM Providers
+ *
+ * Runs the Ollama and OpenAI-compatible providers against a local HTTP
+ * server that records requests and replies with canned responses.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { OllamaProvider } from './ollama';
+import { OpenAiCompatibleProvider } from './openai-compatible';
+import { createEmbeddingProvider, createLlmProvider } from './factory';
+
+interface RecordedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+describe('LLM providers', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let reply: { status: number; body: unknown };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url!, headers: req.headers, body: JSON.parse(data) });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  describe('OllamaProvider', () => {
+    it('should call the chat API in JSON mode', async () => {
+      reply = {
+        status: 200,
+        body: { message: { role: 'assistant', content: '{"title":"x"}' }, prompt_eval_count: 12, eval_count: 5 },
+      };
+      const provider = new OllamaProvider({ host: `${baseUrl}/`, model: 'mistral', contextWindow: 4096 });
+
+      const completion = await provider.complete([{ role: 'user', content: 'hi' }], {
+        json: true,
+        maxTokens: 64,
+        temperature: 0,
+      });
+
+      expect(completion).toEqual({ content: '{"title":"x"}', promptTokens: 12, completionTokens: 5 });
+      expect(requests[0].url).toBe('/api/chat');
+      expect(requests[0].body).toEqual({
+        model: 'mistral',
+        messages: [{ role: 'user', content: 'hi' }],
+        stream: false,
+        format: 'json',
+        options: { num_predict: 64, num_ctx: 4096, temperature: 0 },
+      });
+    });
+
+    it('should embed texts with the embed API', async () => {
+      reply = { status: 200, body: { model: 'all-minilm', embeddings: [[0.1, 0.2], [0.3, 0.4]] } };
+      const provider = new OllamaProvider({ host: baseUrl, model: 'all-minilm' });
+
+      const embeddings = await provider.embed(['a', 'b']);
+
+      expect(embeddings).toEqual([[0.1, 0.2], [0.3, 0.4]]);
+      expect(requests[0].url).toBe('/api/embed');
+      expect(requests[0].body).toEqual({ model: 'all-minilm', input: ['a', 'b'] });
+    });
+
+    it('should include the response body when the server fails', async () => {
+      reply = { status: 404, body: { error: 'model "mistral" not found' } };
+      const provider = new OllamaProvider({ host: baseUrl, model: 'mistral' });
+
+      await expect(provider.complete([{ role: 'user', content: 'hi' }])).rejects.toThrow(
+        /failed with status 404: .*not found/
+      );
+    });
+  });
+
+  describe('OpenAiCompatibleProvider', () => {
+    it('should call chat completions with a bearer token and JSON response format', async () => {
+      reply = {
+        status: 200,
+        body: {
+          choices: [{ message: { role: 'assistant', content: '{}' } }],
+          usage: { prompt_tokens: 20, completion_tokens: 2 },
+        },
+      };
+      const provider = new OpenAiCompatibleProvider({ baseUrl: `${baseUrl}/v1`, model: 'qwen', apiKey: 'secret' });
+
+      const completion = await provider.complete([{ role: 'user', content: 'hi' }], {
+        json: true,
+        maxTokens: 32,
+      });
+
+      expect(completion).toEqual({ content: '{}', promptTokens: 20, completionTokens: 2 });
+      expect(requests[0].url).toBe('/v1/chat/completions');
+      expect(requests[0].headers.authorization).toBe('Bearer secret');
+      expect(requests[0].body).toEqual({
+        model: 'qwen',
+        messages: [{ role: 'user', content: 'hi' }],
+        max_tokens: 32,
+        response_format: { type: 'json_object' },
+      });
+    });
+
+    it('should return embeddings in input order', async () => {
+      reply = {
+        status: 200,
+        body: {
+          data: [
+            { index: 1, embedding: [0.3, 0.4] },
+            { index: 0, embedding: [0.1, 0.2] },
+          ],
+        },
+      };
+      const provider = new OpenAiCompatibleProvider({ baseUrl: `${baseUrl}/v1`, model: 'bge', apiKey: 'secret' });
+
+      const embeddings = await provider.embed(['a', 'b']);
+
+      expect(embeddings).toEqual([[0.1, 0.2], [0.3, 0.4]]);
+      expect(requests[0].url).toBe('/v1/embeddings');
+      expect(requests[0].headers.authorization).toBe('Bearer secret');
+      expect(requests[0].body).toEqual({ model: 'bge', input: ['a', 'b'] });
+    });
+
+    it('should reject a reply with the wrong number of embeddings', async () => {
+      reply = { status: 200, body: { data: [{ index: 0, embedding: [0.1] }] } };
+      const provider = new OpenAiCompatibleProvider({ baseUrl, model: 'bge' });
+
+      await expect(provider.embed(['a', 'b'])).rejects.toThrow('returned 1 embeddings for 2 texts');
+    });
+
+    it('should stop the request when aborted', async () => {
+      const provider = new OpenAiCompatibleProvider({ baseUrl, model: 'qwen' });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        provider.complete([{ role: 'user', content: 'hi' }], { abortSignal: controller.signal })
+      ).rejects.toThrow(/abort/i);
+      expect(requests).toHaveLength(0);
+    });
+  });
+});
+
+describe('createLlmProvider', () => {
+  it('should serve llama.cpp and vLLM through the OpenAI-compatible provider', () => {
+    const llamaCpp = createLlmProvider({ provider: 'llama-cpp', model: 'm', device: 'cpu' });
+    const vllm = createLlmProvider({ provider: 'vllm', model: 'm', device: 'cuda' });
+
+    expect(llamaCpp).toBeInstanceOf(OpenAiCompatibleProvider);
+    expect(llamaCpp.name).toBe('llama-cpp');
+    expect(vllm.name).toBe('vllm');
+  });
+
+  it('should create the Ollama provider', () => {
+    expect(createLlmProvider({ provider: 'ollama', model: 'mistral', device: 'cpu' })).toBeInstanceOf(
+      OllamaProvider
+    );
+  });
+
+  it('should reject providers without an implementation', () => {
+    expect(() => createLlmProvider({ provider: 'transformers', model: 'm', device: 'cpu' })).toThrow(
+      'LLM provider transformers is not supported yet'
+    );
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  it('should create the Ollama and OpenAI-compatible providers', () => {
+    const ollama = createEmbeddingProvider({ provider: 'ollama', model: 'all-minilm', device: 'cpu' });
+    const server = createEmbeddingProvider({ provider: 'openai-compatible', model: 'bge', device: 'cpu' });
+
+    expect(ollama).toBeInstanceOf(OllamaProvider);
+    expect(ollama.model).toBe('all-minilm');
+    expect(server).toBeInstanceOf(OpenAiCompatibleProvider);
+    expect(server.name).toBe('openai-compatible');
+  });
+
+  it('should reject providers without an implementation', () => {
+    expect(() =>
+      createEmbeddingProvider({ provider: 'sentence-transformers', model: 'm', device: 'cpu' })
+    ).toThrow('Embedding provider sentence-transformers is not supported yet');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit Tests - Structured LLM Output
+ *
+ * Drives completeJson with the deterministic mock provider.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { completeJson, extractJson } from './structured';
+import { MockLlmProvider } from './mock';
+import { estimateTokens, fitToTokenBudget } from './tokens';
+
+const schema = z.object({
+  title: z.string().min(1),
+  keywords: z.array(z.string()),
+});
+
+const messages = [{ role: 'user' as const, content: 'Summarize' }];
+
+describe('completeJson', () => {
+  it('should return validated output and request JSON mode', async () => {
+    const llm = new MockLlmProvider({ responses: [{ title: 'Graphs', keywords: ['nodes'] }] });
+
+    const result = await completeJson(llm, messages, schema, { maxTokens: 100 });
+
+    expect(result).toEqual({ title: 'Graphs', keywords: ['nodes'] });
+    expect(llm.calls).toHaveLength(1);
+    expect(llm.calls[0].options).toMatchObject({ json: true, maxTokens: 100 });
+  });
+
+  it('should accept JSON wrapped in code fences and prose', async () => {
+    const llm = new MockLlmProvider({
+      responses: ['Sure! ```json\n{"title": "Graphs", "keywords": []}\n``` Hope this helps.'],
+    });
+
+    await expect(completeJson(llm, messages, schema)).resolves.toEqual({
+      title: 'Graphs',
+      keywords: [],
+    });
+  });
+
+  it('should retry with a correction after malformed output', async () => {
+    const llm = new MockLlmProvider({
+      responses: ['{"title": "Graphs", ', { title: '', keywords: [] }, { title: 'Graphs', keywords: [] }],
+    });
+
+    const result = await completeJson(llm, messages, schema);
+
+    expect(result.title).toBe('Graphs');
+    expect(llm.calls).toHaveLength(3);
+    const retry = llm.calls[1].messages;
+    expect(retry.slice(0, 1)).toEqual(messages);
+    expect(retry[1]).toEqual({ role: 'assistant', content: '{"title": "Graphs", ' });
+    expect(retry[2].content).toContain('not valid JSON');
+    expect(llm.calls[2].messages[4].content).toContain('title:');
+  });
+
+  it('should fail after the maximum number of attempts', async () => {
+    const llm = new MockLlmProvider({ respond: () => ({ title: 'Graphs' }) });
+
+    await expect(completeJson(llm, messages, schema, { maxAttempts: 2 })).rejects.toThrow(
+      'LLM output failed validation after 2 attempts: keywords: Required'
+    );
+    expect(llm.calls).toHaveLength(2);
+  });
+});
+
+describe('extractJson', () => {
+  it('should keep arrays and plain objects', () => {
+    expect(extractJson('[1, 2]')).toBe('[1, 2]');
+    expect(extractJson('  {"a": {"b": 1}} ')).toBe('{"a": {"b": 1}}');
+  });
+});
+
+describe('MockLlmProvider', () => {
+  it('should fail when it runs out of responses', async () => {
+    const llm = new MockLlmProvider({ responses: ['one'] });
+
+    await expect(llm.complete(messages)).resolves.toMatchObject({ content: 'one' });
+    await expect(llm.complete(messages)).rejects.toThrow('MockLlmProvider has no responses left');
+  });
+});
+
+describe('fitToTokenBudget', () => {
+  it('should leave short texts unchanged', () => {
+    expect(fitToTokenBudget('short text', 10)).toBe('short text');
+  });
+
+  it('should keep the beginning and end of long texts within budget', () => {
+    const text = `intro ${'middle '.repeat(500)}conclusion`;
+
+    const fitted = fitToTokenBudget(text, 50);
+
+    expect(estimateTokens(fitted)).toBeLessThanOrEqual(50);
+    expect(fitted.startsWith('intro middle')).toBe(true);
+    expect(fitted.endsWith('conclusion')).toBe(true);
+    expect(fitted).toContain('[...]');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Structured LLM Output
+ *
+ * Requests JSON from a provider and validates it against a zod schema,
+ * asking the model to correct itself when the reply is malformed.
+ */
+
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { LlmCompletionOptions, LlmMessage, LlmProvider } from './types';
+
+export interface CompleteJsonOptions extends Omit<LlmCompletionOptions, 'json'> {
+  /** Total attempts, including the first request (default 3) */
+  maxAttempts?: number;
+}
+
+/**
+ * Complete a chat and parse the reply as JSON matching `schema`. On
+ * invalid JSON or a schema mismatch, the bad reply and the validation
+ * error are sent back so the model can fix its output.
+ */
+export async function completeJson<T>(
+  provider: LlmProvider,
+  messages: LlmMessage[],
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: CompleteJsonOptions = {}
+): Promise<T> {
+  const { maxAttempts = 3, ...completionOptions } = options;
+  const conversation = [...messages];
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const { content } = await provider.complete(conversation, { ...completionOptions, json: true });
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(extractJson(content));
+    } catch (error) {
+      lastError = `reply is not valid JSON (${(error as Error).message})`;
+      conversation.push(...correction(content, lastError));
+      continue;
+    }
+
+    const result = schema.safeParse(parsed);
+    if (result.success) {
+      return result.data;
+    }
+
+    lastError = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    conversation.push(...correction(content, lastError));
+  }
+
+  throw new Error(`LLM output failed validation after ${maxAttempts} attempts: ${lastError}`);
+}
+
+/**
+ * Pull the JSON value out of a reply, dropping markdown code fences and
+ * any prose around it
+ */
+export function extractJson(content: string): string {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(content);
+  const text = (fenced ? fenced[1] : content).trim();
+
+  const start = text.search(/[[{]/);
+  if (start === -1) {
+    return text;
+  }
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  return end > start ? text.slice(start, end + 1) : text.slice(start);
+}
+
+function correction(reply: string, error: string): LlmMessage[] {
+  return [
+    { role: 'assistant', content: reply },
+    {
+      role: 'user',
+      content: `That reply was invalid: ${error}. Respond again with only the corrected JSON object.`,
+    },
+  ];
+}
@@ -0,0 +1,37 @@
+/**
+ * Token Budgeting
+ *
+ * Tokenizers differ per model, so budgets use a conservative estimate of
+ * about four characters per token.
+ */
+
+const CHARS_PER_TOKEN = 4;
+
+const GAP_MARKER = '\n[...]\n';
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Shorten a text to fit a token budget, keeping its beginning and end
+ * (where topics are usually introduced and wrapped up) around a gap marker
+ */
+export function fitToTokenBudget(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  const maxChars = Math.max(0, maxTokens * CHARS_PER_TOKEN - GAP_MARKER.length);
+  const headChars = Math.ceil((maxChars * 2) / 3);
+  const tailChars = maxChars - headChars;
+
+  return (
+    text.slice(0, headChars).trimEnd() +
+    GAP_MARKER +
+    (tailChars > 0 ? text.slice(-tailChars).trimStart() : '')
+  );
+}
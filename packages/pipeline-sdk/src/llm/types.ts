@@ -0,0 +1,53 @@
+/**
+ * LLM Provider Types
+ */
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmCompletionOptions {
+  /** Maximum tokens to generate */
+  maxTokens?: number;
+  /** Temperature for sampling */
+  temperature?: number;
+  /** Ask the server to constrain output to a JSON object */
+  json?: boolean;
+  /** Cancels the request when aborted */
+  abortSignal?: AbortSignal;
+}
+
+export interface LlmCompletion {
+  /** Assistant reply text */
+  content: string;
+  /** Prompt tokens, when the server reports usage */
+  promptTokens?: number;
+  /** Generated tokens, when the server reports usage */
+  completionTokens?: number;
+}
+
+/**
+ * Chat model used for summarization and other text generation
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(messages: LlmMessage[], options?: LlmCompletionOptions): Promise<LlmCompletion>;
+}
+
+export interface EmbeddingOptions {
+  /** Cancels the request when aborted */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Embedding model used for topic graphs and vector search. Topics,
+ * transcript segments and queries must be embedded with the same model.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  /** One vector per text, in order */
+  embed(texts: string[], options?: EmbeddingOptions): Promise<number[][]>;
+}
@@ -0,0 +1,399 @@
+/**
+ * Unit Tests - Pipeline Orchestrator
+ *
+ * Tests for dependency scheduling, retries, timeouts, aborts and
+ * continueOnFailure handling.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type {
+  ArtifactManifest,
+  ArtifactPaths,
+  PipelineConfig,
+  PipelineContext,
+} from '@video-graph/shared-types';
+import {
+  BasePipelineStep,
+  PipelineOrchestrator,
+  createEmptyManifest,
+  definePipeline,
+} from './core';
+import { JobInterruption, jobInterruption } from './control';
+import { createMemoryStorage, createNoopLogger } from './utils';
+
+class ScriptedStep extends BasePipelineStep {
+  readonly version = '1.0.0';
+  executions = 0;
+  signals: AbortSignal[] = [];
+
+  constructor(
+    readonly name: string,
+    private behavior: (attempt: number, signal?: AbortSignal) => Promise<void> = async () => {},
+    private inputs: (keyof ArtifactPaths)[] = [],
+    private output: keyof ArtifactPaths = 'transcript'
+  ) {
+    super();
+  }
+
+  getRequiredInputs(): (keyof ArtifactPaths)[] {
+    return this.inputs;
+  }
+
+  getProducedOutputs(): (keyof ArtifactPaths)[] {
+    return [this.output];
+  }
+
+  async execute(
+    manifest: ArtifactManifest,
+    context: PipelineContext
+  ): Promise<ArtifactManifest> {
+    this.executions++;
+    if (context.abortSignal) this.signals.push(context.abortSignal);
+    await this.behavior(this.executions, context.abortSignal);
+
+    const path = `videos/${manifest.video_id}/${this.name}.json`;
+    await context.storage.write(path, Buffer.from(this.name));
+    return this.markStepCompleted(this.updateManifest(manifest, { [this.output]: path }), this.name);
+  }
+}
+
+const config = {} as PipelineConfig;
+
+describe('PipelineOrchestrator', () => {
+  let orchestrator: PipelineOrchestrator;
+  let context: PipelineContext;
+
+  const run = (pipeline: Parameters<PipelineOrchestrator['executePipeline']>[2]) =>
+    orchestrator.executePipeline(
+      createEmptyManifest('v1', 'gv1', 'job-1', config),
+      context,
+      pipeline,
+      { resume: false, retryDelayMs: 1 }
+    );
+
+  beforeEach(() => {
+    orchestrator = new PipelineOrchestrator();
+    context = {
+      jobId: 'job-1',
+      videoId: 'v1',
+      userId: 'u1',
+      storage: createMemoryStorage(),
+      config,
+      logger: createNoopLogger(),
+    };
+  });
+
+  it('should accept a list of step names', async () => {
+    orchestrator.registerStep(new ScriptedStep('video'));
+
+    const result = await run(['video']);
+
+    expect(result.success).toBe(true);
+    expect(result.stepResults).toEqual([
+      expect.objectContaining({ stepName: 'video', success: true, attempts: 1 }),
+    ]);
+  });
+
+  it('should tag progress reported by steps with the step name', async () => {
+    class ReportingStep extends ScriptedStep {
+      async execute(manifest: ArtifactManifest, context: PipelineContext) {
+        context.onProgress?.(50, 'Halfway');
+        return super.execute(manifest, context);
+      }
+    }
+    orchestrator.registerStep(new ReportingStep('asr'));
+    const reports: Array<[number, string | undefined, string | undefined]> = [];
+    context.onProgress = (progress, message, step) => reports.push([progress, message, step]);
+
+    await run(['asr']);
+
+    expect(reports).toEqual([
+      [0, 'Starting asr', 'asr'],
+      [50, 'Halfway', 'asr'],
+      [100, 'Completed asr', 'asr'],
+    ]);
+  });
+
+  it('should retry failed steps up to maxRetries', async () => {
+    const step = new ScriptedStep('asr', async (attempt) => {
+      if (attempt < 3) throw new Error(`transient ${attempt}`);
+    });
+    orchestrator.registerStep(step);
+
+    const result = await run(definePipeline('test', [{ name: 'asr', maxRetries: 2 }]));
+
+    expect(result.success).toBe(true);
+    expect(step.executions).toBe(3);
+    expect(result.stepResults[0].attempts).toBe(3);
+  });
+
+  it('should report attempts when retries are exhausted', async () => {
+    const step = new ScriptedStep('asr', async () => {
+      throw new Error('model crashed');
+    });
+    orchestrator.registerStep(step);
+
+    const result = await run(definePipeline('test', [{ name: 'asr', maxRetries: 1 }]));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('model crashed');
+    expect(result.stepResults[0]).toMatchObject({ success: false, attempts: 2 });
+    expect(result.manifest.step_errors).toEqual({ asr: 'model crashed' });
+  });
+
+  it('should not retry steps marked as not retryable', async () => {
+    const step = new ScriptedStep('asr', async () => {
+      throw new Error('bad input');
+    });
+    orchestrator.registerStep(step);
+
+    await run(definePipeline('test', [{ name: 'asr', retryable: false, maxRetries: 3 }]));
+
+    expect(step.executions).toBe(1);
+  });
+
+  it('should abort steps that exceed their timeout', async () => {
+    const step = new ScriptedStep(
+      'video',
+      (_attempt, signal) =>
+        new Promise((resolve) => {
+          const timer = setTimeout(resolve, 5000);
+          signal?.addEventListener('abort', () => clearTimeout(timer));
+        })
+    );
+    orchestrator.registerStep(step);
+
+    const result = await run(definePipeline('test', [{ name: 'video', timeoutMs: 20 }]));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Step video timed out after 20ms');
+    expect(step.signals[0].aborted).toBe(true);
+  });
+
+  it('should retry timed out attempts', async () => {
+    const step = new ScriptedStep('video', (attempt) =>
+      attempt === 1 ? new Promise((resolve) => setTimeout(resolve, 200)) : Promise.resolve()
+    );
+    orchestrator.registerStep(step);
+
+    const result = await run(
+      definePipeline('test', [{ name: 'video', timeoutMs: 20, maxRetries: 1 }])
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.stepResults[0].attempts).toBe(2);
+  });
+
+  it('should continue past tolerated failures and record them', async () => {
+    orchestrator.registerStep(new ScriptedStep('video', async () => {}, [], 'video_normalized'));
+    orchestrator.registerStep(
+      new ScriptedStep(
+        'snippet',
+        async () => {
+          throw new Error('ffmpeg missing');
+        },
+        [],
+        'snippets'
+      )
+    );
+    orchestrator.registerStep(new ScriptedStep('export', async () => {}, [], 'exports'));
+
+    const result = await run(
+      definePipeline('test', ['video', { name: 'snippet', continueOnFailure: true }, 'export'])
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.stepResults.map((r) => [r.stepName, r.success, r.tolerated ?? false])).toEqual([
+      ['video', true, false],
+      ['snippet', false, true],
+      ['export', true, false],
+    ]);
+    expect(result.manifest.step_errors).toEqual({ snippet: 'ffmpeg missing' });
+    expect(result.manifest.completed_steps).toEqual(['video', 'export']);
+  });
+
+  it('should not retry or continue once the pipeline is aborted', async () => {
+    const controller = new AbortController();
+    context.abortSignal = controller.signal;
+    const step = new ScriptedStep('video', async () => {
+      controller.abort();
+      throw new Error('cancelled');
+    });
+    orchestrator.registerStep(step);
+    orchestrator.registerStep(new ScriptedStep('asr', async () => {}, ['transcript'], 'topics'));
+
+    const result = await run(
+      definePipeline('test', [
+        { name: 'video', maxRetries: 3, continueOnFailure: true },
+        'asr',
+      ])
+    );
+
+    expect(result.success).toBe(false);
+    expect(step.executions).toBe(1);
+    expect(result.stepResults).toHaveLength(1);
+  });
+
+  it('should abort running steps with the reason the pipeline was aborted with', async () => {
+    const controller = new AbortController();
+    context.abortSignal = controller.signal;
+    const step = new ScriptedStep('video', async (_, signal) => {
+      controller.abort(new JobInterruption('pause'));
+      signal?.throwIfAborted();
+    });
+    orchestrator.registerStep(step);
+
+    const result = await run(definePipeline('test', ['video']));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Job paused');
+    expect(jobInterruption(step.signals[0])?.action).toBe('pause');
+  });
+
+  it('should not retry input validation failures', async () => {
+    orchestrator.registerStep(
+      new ScriptedStep('asr', async () => {
+        throw new Error('no audio');
+      })
+    );
+    const step = new ScriptedStep('topic', async () => {}, ['transcript'], 'topics');
+    orchestrator.registerStep(step);
+
+    const result = await run(
+      definePipeline('test', [
+        { name: 'asr', continueOnFailure: true },
+        { name: 'topic', maxRetries: 3 },
+      ])
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Input validation failed for topic: Missing required input: transcript');
+    expect(step.executions).toBe(0);
+    expect(result.stepResults[1].attempts).toBe(0);
+  });
+
+  describe('dependency scheduling', () => {
+    const tracked = (log: string[], name: string, ms: number) => async () => {
+      log.push(`start:${name}`);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      log.push(`end:${name}`);
+    };
+
+    it('should run independent steps concurrently', async () => {
+      const log: string[] = [];
+      orchestrator.registerStep(new ScriptedStep('video', tracked(log, 'video', 5), [], 'audio_wav'));
+      orchestrator.registerStep(
+        new ScriptedStep('asr', tracked(log, 'asr', 30), ['audio_wav'], 'transcript')
+      );
+      orchestrator.registerStep(
+        new ScriptedStep('scenes', tracked(log, 'scenes', 30), ['audio_wav'], 'scenes')
+      );
+      orchestrator.registerStep(
+        new ScriptedStep('topic', tracked(log, 'topic', 5), ['transcript', 'scenes'], 'topics')
+      );
+
+      const result = await run(['video', 'asr', 'scenes', 'topic']);
+
+      expect(result.success).toBe(true);
+      expect(log.slice(0, 4)).toEqual(['start:video', 'end:video', 'start:asr', 'start:scenes']);
+      expect(log.slice(-2)).toEqual(['start:topic', 'end:topic']);
+      expect(Object.keys(result.manifest.paths).sort()).toEqual([
+        'audio_wav',
+        'scenes',
+        'topics',
+        'transcript',
+      ]);
+      expect(result.manifest.completed_steps).toHaveLength(4);
+    });
+
+    it('should order steps by dependencies rather than definition order', async () => {
+      const log: string[] = [];
+      orchestrator.registerStep(
+        new ScriptedStep('topic', tracked(log, 'topic', 1), ['transcript'], 'topics')
+      );
+      orchestrator.registerStep(new ScriptedStep('asr', tracked(log, 'asr', 1), [], 'transcript'));
+
+      const result = await run(['topic', 'asr']);
+
+      expect(log).toEqual(['start:asr', 'end:asr', 'start:topic', 'end:topic']);
+      expect(result.stepResults.map((r) => r.stepName)).toEqual(['asr', 'topic']);
+    });
+
+    it('should respect maxConcurrency', async () => {
+      const log: string[] = [];
+      orchestrator.registerStep(new ScriptedStep('a', tracked(log, 'a', 5), [], 'scenes'));
+      orchestrator.registerStep(new ScriptedStep('b', tracked(log, 'b', 5), [], 'transcript'));
+
+      await orchestrator.executePipeline(
+        createEmptyManifest('v1', 'gv1', 'job-1', config),
+        context,
+        ['a', 'b'],
+        { resume: false, maxConcurrency: 1 }
+      );
+
+      expect(log).toEqual(['start:a', 'end:a', 'start:b', 'end:b']);
+    });
+
+    it('should let running siblings finish but start nothing after a failure', async () => {
+      const log: string[] = [];
+      orchestrator.registerStep(
+        new ScriptedStep('a', async () => {
+          throw new Error('boom');
+        }, [], 'scenes')
+      );
+      orchestrator.registerStep(new ScriptedStep('b', tracked(log, 'b', 20), [], 'transcript'));
+      orchestrator.registerStep(
+        new ScriptedStep('c', tracked(log, 'c', 1), ['transcript'], 'topics')
+      );
+
+      const result = await run(['a', 'b', 'c']);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('boom');
+      expect(log).toEqual(['start:b', 'end:b']);
+      expect(result.manifest.completed_steps).toEqual(['b']);
+    });
+
+    it('should reject invalid definitions before running any step', async () => {
+      const video = new ScriptedStep('video', async () => {}, [], 'audio_wav');
+      orchestrator.registerStep(video);
+      orchestrator.registerStep(new ScriptedStep('topic', async () => {}, ['transcript'], 'topics'));
+
+      const result = await run(['video', 'topic']);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        'Invalid pipeline definition ad-hoc: Step topic requires "transcript", which no step produces'
+      );
+      expect(result.stepResults).toEqual([]);
+      expect(video.executions).toBe(0);
+    });
+
+    it('should re-run dependents of a step that re-runs on resume', async () => {
+      const video = new ScriptedStep('video', async () => {}, [], 'audio_wav');
+      const asr = new ScriptedStep('asr', async () => {}, ['audio_wav'], 'transcript');
+      const scenes = new ScriptedStep('scenes', async () => {}, ['audio_wav'], 'scenes');
+      const topic = new ScriptedStep('topic', async () => {}, ['transcript'], 'topics');
+      for (const step of [video, asr, scenes, topic]) orchestrator.registerStep(step);
+
+      const resumeRun = () =>
+        orchestrator.executePipeline(
+          createEmptyManifest('v1', 'gv1', 'job-1', config),
+          context,
+          ['video', 'asr', 'scenes', 'topic']
+        );
+
+      await resumeRun();
+      await context.storage.delete('videos/v1/asr.json');
+      const result = await resumeRun();
+
+      expect([video, asr, scenes, topic].map((s) => s.executions)).toEqual([1, 2, 1, 2]);
+      expect(result.stepResults.map((r) => r.skipped ?? false)).toEqual([
+        true,
+        false,
+        true,
+        false,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Subprocess Runner
+ *
+ * Runs external tools (ffmpeg, whisper.cpp, ...) and kills them when the
+ * step's abort signal fires.
+ */
+
+import { spawn } from 'child_process';
+
+export interface RunProcessOptions {
+  /** Kills the process when aborted */
+  abortSignal?: AbortSignal;
+  /** Called with each chunk written to stdout */
+  onStdout?: (chunk: string) => void;
+  /** Called with each chunk written to stderr */
+  onStderr?: (chunk: string) => void;
+}
+
+/** Time allowed for a process to exit after SIGTERM before it is killed */
+const KILL_GRACE_MS = 2000;
+
+/** Number of stderr lines kept for error messages */
+const STDERR_TAIL_LINES = 20;
+
+/**
+ * Run a binary to completion. Rejects with the tail of stderr when it
+ * exits with a non-zero code.
+ */
+export function runProcess(
+  binary: string,
+  args: string[],
+  options: RunProcessOptions = {}
+): Promise<void> {
+  const { abortSignal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(new Error(`${binary} aborted`));
+      return;
+    }
+
+    const child = spawn(binary, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const stderrLines: string[] = [];
+    let aborted = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    child.stdout.on('data', (chunk: Buffer) => options.onStdout?.(chunk.toString()));
+    child.stderr.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      options.onStderr?.(text);
+      stderrLines.push(...text.split('\n').filter(Boolean));
+      stderrLines.splice(0, Math.max(0, stderrLines.length - STDERR_TAIL_LINES));
+    });
+
+    const onAbort = () => {
+      aborted = true;
+      child.kill('SIGTERM');
+      killTimer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_MS);
+    };
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+    const cleanup = () => {
+      abortSignal?.removeEventListener('abort', onAbort);
+      if (killTimer) clearTimeout(killTimer);
+    };
+
+    child.on('error', (error) => {
+      cleanup();
+      reject(new Error(`Failed to start ${binary}: ${error.message}`));
+    });
+
+    child.on('close', (code, signal) => {
+      cleanup();
+      if (aborted) {
+        reject(new Error(`${binary} aborted`));
+      } else if (code === 0) {
+        resolve();
+      } else {
+        const reason = signal ? `signal ${signal}` : `code ${code}`;
+        reject(new Error(`${binary} exited with ${reason}: ${stderrLines.join('\n')}`));
+      }
+    });
+  });
+}
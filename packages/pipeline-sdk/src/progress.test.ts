@@ -0,0 +1,112 @@
+/**
+ * Unit Tests - Job Progress Tracking
+ *
+ * Step attribution, throttling, ETAs and final events of the progress
+ * tracker, driven by a fake clock.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { JobProgressEvent } from '@video-graph/shared-types';
+import { ProgressTracker } from './progress';
+
+function tracker(options: { throttleMs?: number } = {}) {
+  let time = 0;
+  const events: JobProgressEvent[] = [];
+  const progress = new ProgressTracker({
+    jobId: 'job-1',
+    jobType: 'video_analysis',
+    videoId: 'video-1',
+    steps: ['video', 'asr'],
+    onEvent: (event) => events.push(event),
+    throttleMs: options.throttleMs,
+    now: () => time,
+  });
+  return {
+    progress,
+    events,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe('ProgressTracker', () => {
+  it('tracks each step and the overall percent', () => {
+    const { progress, events, advance } = tracker();
+
+    progress.onProgress(0, 'Starting video', 'video');
+    advance(10_000);
+    progress.onProgress(40, 'Normalizing video', 'video');
+
+    const event = events[events.length - 1];
+    expect(event.status).toBe('running');
+    expect(event.step).toBe('video');
+    expect(event.message).toBe('Normalizing video');
+    expect(event.progress).toBe(20);
+    expect(event.steps).toEqual([
+      { name: 'video', status: 'running', progress: 40, message: 'Normalizing video', eta_seconds: 15 },
+      { name: 'asr', status: 'pending', progress: 0, message: null, eta_seconds: null },
+    ]);
+    expect(event.eta_seconds).toBe(40);
+  });
+
+  it('attributes unnamed progress to the only running step', () => {
+    const { progress, events } = tracker({ throttleMs: 0 });
+
+    progress.onProgress(0, 'Starting asr', 'asr');
+    progress.onProgress(50, 'Transcribing');
+
+    expect(events[events.length - 1].steps[1]).toMatchObject({ progress: 50, message: 'Transcribing' });
+  });
+
+  it('throttles updates within a step but not step changes', () => {
+    const { progress, events, advance } = tracker({ throttleMs: 1000 });
+
+    progress.onProgress(0, undefined, 'video');
+    progress.onProgress(10, undefined, 'video');
+    progress.onProgress(20, undefined, 'video');
+    advance(1000);
+    progress.onProgress(30, undefined, 'video');
+    progress.onProgress(100, undefined, 'video');
+
+    expect(events.map((e) => e.steps[0].progress)).toEqual([0, 30, 100]);
+  });
+
+  it('completes skipped steps and ignores progress after the final event', () => {
+    const { progress, events } = tracker();
+
+    progress.onProgress(100, 'Completed video', 'video');
+    const final = progress.complete();
+    progress.onProgress(10, 'late', 'asr');
+
+    expect(final.status).toBe('completed');
+    expect(final.progress).toBe(100);
+    expect(final.steps.map((s) => s.status)).toEqual(['completed', 'completed']);
+    expect(events[events.length - 1]).toBe(final);
+    expect(progress.snapshot()).toBe(final);
+  });
+
+  it('marks running steps failed', () => {
+    const { progress } = tracker();
+
+    progress.onProgress(30, 'Transcribing', 'asr');
+    const final = progress.fail('ASR crashed');
+
+    expect(final).toMatchObject({ status: 'failed', error: 'ASR crashed', eta_seconds: null });
+    expect(final.steps[1].status).toBe('failed');
+  });
+
+  it('returns interrupted steps to pending', () => {
+    const { progress } = tracker();
+
+    progress.onProgress(100, 'Completed video', 'video');
+    progress.onProgress(30, 'Transcribing', 'asr');
+    const final = progress.interrupt('paused', 'Job paused');
+
+    expect(final).toMatchObject({ status: 'paused', message: 'Job paused', progress: 50, error: null });
+    expect(final.steps.map((s) => [s.status, s.progress])).toEqual([
+      ['completed', 100],
+      ['pending', 0],
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Job Progress Tracking
+ *
+ * Turns the `onProgress(percent, message, step)` calls of a pipeline run
+ * into job progress events: per-step status and percent, overall percent
+ * and ETAs extrapolated from elapsed time. Workers publish the events to
+ * the `job-progress` Redis channel and append them to the
+ * `job-progress:events` stream, from which the API replays missed events.
+ */
+
+import type { JobProgressEvent, StepProgress } from '@video-graph/shared-types';
+
+/** Redis pub/sub channel carrying `{ id, event }` messages */
+export const JOB_PROGRESS_CHANNEL = 'job-progress';
+
+/** Redis stream holding recent events under an `event` field; entry IDs are event IDs */
+export const JOB_PROGRESS_STREAM = 'job-progress:events';
+
+/** Redis key holding the latest `{ id, event }` message of a job */
+export function jobProgressKey(jobId: string): string {
+  return `job-progress:latest:${jobId}`;
+}
+
+export interface ProgressTrackerOptions {
+  jobId: string;
+  jobType: string;
+  videoId?: string | null;
+  userId?: string | null;
+  /** Steps the job runs, in order */
+  steps: string[];
+  /** Called with every emitted event */
+  onEvent: (event: JobProgressEvent) => void;
+  /** Least time between events within a step; step changes are always emitted (default 500) */
+  throttleMs?: number;
+  /** Clock, for tests */
+  now?: () => number;
+}
+
+interface StepState extends StepProgress {
+  startedAt: number | null;
+}
+
+export class ProgressTracker {
+  private readonly steps: StepState[];
+  private readonly throttleMs: number;
+  private readonly now: () => number;
+  private readonly startedAt: number;
+  private lastEmitAt = 0;
+  private step: string | null = null;
+  private message: string | null = null;
+  private final: JobProgressEvent | null = null;
+
+  constructor(private readonly options: ProgressTrackerOptions) {
+    this.throttleMs = options.throttleMs ?? 500;
+    this.now = options.now ?? Date.now;
+    this.startedAt = this.now();
+    this.steps = options.steps.map((name) => ({
+      name,
+      status: 'pending',
+      progress: 0,
+      message: null,
+      eta_seconds: null,
+      startedAt: null,
+    }));
+  }
+
+  /**
+   * Progress callback for `PipelineContext.onProgress`. Calls without a
+   * step name are attributed to the only running step, if there is one.
+   */
+  readonly onProgress = (progress: number, message?: string, step?: string): void => {
+    if (this.final) return;
+
+    const running = this.steps.filter((s) => s.status === 'running');
+    const state = step
+      ? this.steps.find((s) => s.name === step)
+      : running.length === 1 ? running[0] : undefined;
+    if (!state) return;
+
+    const previousStatus = state.status;
+    const now = this.now();
+
+    state.progress = Math.min(Math.max(Math.round(progress), 0), 100);
+    state.message = message ?? state.message;
+    state.startedAt ??= now;
+    state.status = state.progress >= 100 ? 'completed' : 'running';
+    state.eta_seconds = state.status === 'completed' ? 0 : this.estimate(state.startedAt, state.progress, now);
+
+    this.step = state.name;
+    this.message = message ?? this.message;
+
+    if (state.status !== previousStatus || now - this.lastEmitAt >= this.throttleMs) {
+      this.emit('running', null);
+    }
+  };
+
+  /**
+   * Emit the final event of a successful job; steps that never reported
+   * (skipped because their outputs were up to date) count as completed
+   */
+  complete(message = 'Completed'): JobProgressEvent {
+    for (const state of this.steps) {
+      if (state.status !== 'failed') {
+        state.status = 'completed';
+        state.progress = 100;
+        state.eta_seconds = 0;
+      }
+    }
+    this.message = message;
+    this.final = this.emit('completed', null);
+    return this.final;
+  }
+
+  /**
+   * Emit the final event of a failed job; running steps are marked failed
+   */
+  fail(error: string): JobProgressEvent {
+    for (const state of this.steps) {
+      if (state.status === 'running') {
+        state.status = 'failed';
+        state.eta_seconds = null;
+      }
+    }
+    this.message = error;
+    this.final = this.emit('failed', error);
+    return this.final;
+  }
+
+  /**
+   * Emit the final event of a paused or cancelled job; running steps go
+   * back to pending, as a resumed job runs them again
+   */
+  interrupt(status: 'paused' | 'cancelled', message: string): JobProgressEvent {
+    for (const state of this.steps) {
+      if (state.status === 'running') {
+        state.status = 'pending';
+        state.progress = 0;
+        state.eta_seconds = null;
+      }
+    }
+    this.message = message;
+    this.final = this.emit(status, null);
+    return this.final;
+  }
+
+  /**
+   * The current state, without emitting it
+   */
+  snapshot(): JobProgressEvent {
+    return this.final ?? this.event('running', null);
+  }
+
+  private emit(status: JobProgressEvent['status'], error: string | null): JobProgressEvent {
+    const event = this.event(status, error);
+    this.lastEmitAt = this.now();
+    this.options.onEvent(event);
+    return event;
+  }
+
+  private event(status: JobProgressEvent['status'], error: string | null): JobProgressEvent {
+    const now = this.now();
+    const progress = this.steps.length > 0
+      ? Math.floor(this.steps.reduce((sum, s) => sum + s.progress, 0) / this.steps.length)
+      : 0;
+
+    return {
+      job_id: this.options.jobId,
+      job_type: this.options.jobType,
+      video_id: this.options.videoId ?? null,
+      user_id: this.options.userId ?? null,
+      status,
+      step: this.step,
+      message: this.message,
+      progress,
+      eta_seconds: status === 'running' ? this.estimate(this.startedAt, progress, now) : null,
+      steps: this.steps.map(({ startedAt: _, ...step }) => ({ ...step })),
+      error,
+      emitted_at: new Date(now).toISOString(),
+    };
+  }
+
+  /** Remaining seconds if progress continues at its average rate so far */
+  private estimate(startedAt: number, progress: number, now: number): number | null {
+    if (progress <= 0 || progress >= 100) {
+      return progress >= 100 ? 0 : null;
+    }
+    const elapsed = (now - startedAt) / 1000;
+    return Math.round((elapsed * (100 - progress)) / progress);
+  }
+}
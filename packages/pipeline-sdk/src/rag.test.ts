@@ -0,0 +1,173 @@
+/**
+ * Unit Tests - Retrieval-Augmented Answers
+ *
+ * Prompt budgeting, citation parsing and claim checks, driven by the
+ * deterministic mock provider.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MockLlmProvider } from './llm/mock';
+import { estimateTokens } from './llm/tokens';
+import {
+  answerWithCitations,
+  buildRagPrompt,
+  checkClaims,
+  extractClaims,
+  type RagPassage,
+} from './rag';
+
+function passage(id: string, text: string, start = 0): RagPassage {
+  return {
+    id,
+    kind: 'segment',
+    topicId: `topic-${id}`,
+    videoId: 'video-1',
+    startSeconds: start,
+    endSeconds: start + 30,
+    title: `Topic ${id}`,
+    text,
+  };
+}
+
+const passages = [
+  passage('a', 'Gradient descent updates the weights in the direction of the negative gradient.', 65),
+  passage('b', 'The learning rate controls how large each update step is.', 130),
+];
+
+describe('buildRagPrompt', () => {
+  it('numbers passages with their topic and time span', () => {
+    const prompt = buildRagPrompt('How does gradient descent work?', passages);
+
+    expect(prompt.passages).toHaveLength(2);
+    expect(prompt.omitted).toBe(0);
+    expect(prompt.messages[1].content).toContain('[1] Topic a (transcript, 1:05-1:35)');
+    expect(prompt.messages[1].content).toContain('[2] Topic b (transcript, 2:10-2:40)');
+    expect(prompt.messages[1].content).toMatch(/Question: How does gradient descent work\?$/);
+  });
+
+  it('leaves out passages that do not fit the context window', () => {
+    const long = Array.from({ length: 5 }, (_, i) => passage(String(i), 'word '.repeat(400)));
+
+    const prompt = buildRagPrompt('question', long, {
+      contextWindow: 1200,
+      maxAnswerTokens: 200,
+      maxPassageTokens: 300,
+    });
+
+    expect(prompt.passages.map((p) => p.id)).toEqual(['0', '1']);
+    expect(prompt.omitted).toBe(3);
+  });
+});
+
+describe('extractClaims', () => {
+  it('splits sentences and keeps trailing markers with their sentence', () => {
+    const claims = extractClaims('Weights move against the gradient [1]. The step size is set. [2, 1]\nDone!');
+
+    expect(claims.map((c) => c.text)).toEqual([
+      'Weights move against the gradient [1].',
+      'The step size is set. [2, 1]',
+      'Done!',
+    ]);
+    expect(claims.map((c) => c.citations)).toEqual([[1], [2, 1], []]);
+    expect(claims[1].start).toBe(39);
+  });
+});
+
+describe('checkClaims', () => {
+  it('flags claims whose cited passages do not support them', async () => {
+    const claims = extractClaims(
+      'Gradient descent updates weights against the gradient [1]. ' +
+        'Momentum speeds up convergence [2]. ' +
+        'The rate sets the step size [5]. ' +
+        'It is widely used.'
+    );
+
+    const { claims: checked, mode } = await checkClaims(claims, passages);
+
+    expect(mode).toBe('lexical');
+    expect(checked.map((c) => c.status)).toEqual(['supported', 'unsupported', 'unsupported', 'uncited']);
+    expect(checked[0].supportedBy).toEqual([1]);
+    expect(checked[2].unsupportedCitations).toEqual([5]);
+  });
+
+  it('asks the model about each cited passage', async () => {
+    const llm = new MockLlmProvider({
+      responses: [{ checks: [{ check: 1, supported: false }, { check: 2, supported: true }] }],
+    });
+    const claims = extractClaims('Each update follows the gradient [1][2].');
+
+    const { claims: checked, mode } = await checkClaims(claims, passages, { provider: llm });
+
+    expect(mode).toBe('llm');
+    expect(checked[0]).toMatchObject({ status: 'supported', supportedBy: [2], unsupportedCitations: [1] });
+    expect(llm.calls[0].messages[1].content).toContain('Check 2\nClaim: Each update follows the gradient.');
+  });
+
+  it('trims passages and batches checks to fit the context window', async () => {
+    const long = [passage('a', 'gradient '.repeat(400)), passage('b', 'learning rate '.repeat(300))];
+    const llm = new MockLlmProvider({
+      respond: (messages) => ({
+        checks: [...messages[1].content.matchAll(/Check (\d+)/g)].map((m) => ({
+          check: Number(m[1]),
+          supported: true,
+        })),
+      }),
+    });
+    const claims = extractClaims('Gradients matter [1]. So does the rate [2]. Both do [1][2].');
+
+    const { claims: checked } = await checkClaims(claims, long, {
+      provider: llm,
+      contextWindow: 800,
+      maxAnswerTokens: 200,
+      maxPassageTokens: 150,
+    });
+
+    expect(checked.map((c) => c.status)).toEqual(['supported', 'supported', 'supported']);
+    expect(llm.calls.length).toBeGreaterThan(1);
+    for (const call of llm.calls) {
+      const prompt = call.messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+      expect(prompt).toBeLessThanOrEqual(800 - 200);
+      expect(call.options.maxTokens).toBe(200);
+    }
+  });
+});
+
+describe('answerWithCitations', () => {
+  it('answers from the passages and checks the citations', async () => {
+    const llm = new MockLlmProvider({
+      responses: [
+        'Weights are updated against the gradient [1]. The learning rate sets the step size [2].',
+        { checks: [{ check: 1, supported: true }, { check: 2, supported: true }] },
+      ],
+    });
+
+    const result = await answerWithCitations(llm, 'How are weights updated?', passages, {
+      maxAnswerTokens: 256,
+    });
+
+    expect(result.claims.map((c) => c.status)).toEqual(['supported', 'supported']);
+    expect(result.claimCheck).toBe('llm');
+    expect(result.passages).toHaveLength(2);
+    expect(llm.calls[0].options).toMatchObject({ maxTokens: 256 });
+  });
+
+  it('falls back to the lexical check when the model check fails', async () => {
+    const llm = new MockLlmProvider({
+      responses: ['The learning rate controls the update step [2].', 'not json', 'still not json', '[]'],
+    });
+
+    const result = await answerWithCitations(llm, 'What is the learning rate?', passages);
+
+    expect(result.claimCheck).toBe('lexical');
+    expect(result.claims[0].status).toBe('supported');
+  });
+
+  it('does not call the model without passages', async () => {
+    const llm = new MockLlmProvider();
+
+    const result = await answerWithCitations(llm, 'anything', []);
+
+    expect(result.answer).toBe('');
+    expect(llm.calls).toHaveLength(0);
+  });
+});
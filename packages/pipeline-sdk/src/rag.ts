@@ -0,0 +1,420 @@
+/**
+ * Retrieval-Augmented Answers
+ *
+ * Answers a question from retrieved topic summaries and transcript
+ * passages. Passages are numbered in the prompt and the model cites them
+ * inline as `[n]`. The answer is then split into claims (sentences), and
+ * each passage a claim cites is checked for support, by the model or by
+ * term overlap; claims no cited passage supports are flagged.
+ */
+
+import { z } from 'zod';
+import { completeJson } from './llm/structured';
+import { estimateTokens, fitToTokenBudget } from './llm/tokens';
+import type { LlmMessage, LlmProvider } from './llm/types';
+import { queryTerms } from './transcript-highlight';
+
+export interface RagPassage {
+  /** Topic or transcript segment ID */
+  id: string;
+  kind: 'topic' | 'segment';
+  topicId: string;
+  videoId: string;
+  startSeconds: number;
+  endSeconds: number;
+  /** Title of the topic the passage belongs to */
+  title: string;
+  text: string;
+}
+
+export interface RagPromptOptions {
+  /** Model context window in tokens (default 4096) */
+  contextWindow?: number;
+  /** Tokens reserved for the answer (default 512) */
+  maxAnswerTokens?: number;
+  /** Longest single passage in tokens; longer ones are trimmed (default 300) */
+  maxPassageTokens?: number;
+}
+
+export interface RagPrompt {
+  messages: LlmMessage[];
+  /** Passages in the prompt; passage i is cited as [i + 1] */
+  passages: RagPassage[];
+  /** Passages left out because the context window was full */
+  omitted: number;
+}
+
+export interface AnswerClaim {
+  /** Sentence of the answer, with its citation markers */
+  text: string;
+  /** Character offset of the sentence in the answer */
+  start: number;
+  /** Character offset just past the sentence */
+  end: number;
+  /** Cited passage numbers (1-based), in order of appearance */
+  citations: number[];
+}
+
+export type ClaimStatus = 'supported' | 'unsupported' | 'uncited';
+
+export interface CheckedClaim extends AnswerClaim {
+  status: ClaimStatus;
+  /** Cited passages that support the claim */
+  supportedBy: number[];
+  /** Cited numbers whose passage does not support the claim or does not exist */
+  unsupportedCitations: number[];
+}
+
+export type ClaimCheckMode = 'llm' | 'lexical' | 'none';
+
+export interface RagAnswerOptions extends RagPromptOptions {
+  temperature?: number;
+  /** How cited passages are checked (default 'llm', falling back to 'lexical') */
+  claimCheck?: ClaimCheckMode;
+  abortSignal?: AbortSignal;
+}
+
+export interface RagAnswer {
+  answer: string;
+  /** Passages given to the model, in citation order */
+  passages: RagPassage[];
+  claims: CheckedClaim[];
+  /** Check actually used; 'lexical' when the model check failed */
+  claimCheck: ClaimCheckMode;
+  omittedPassages: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export const RAG_SYSTEM_PROMPT = [
+  'You answer questions about a library of videos using only the numbered passages provided,',
+  'which are topic summaries and transcript excerpts.',
+  'After every sentence that states a fact, cite the passages that support it with their numbers',
+  'in square brackets, for example [2] or [1][4]. Only cite passages that support the sentence.',
+  'If the passages do not answer the question, say so instead of guessing.',
+  'Reply in plain prose without headings.',
+].join(' ');
+
+const CLAIM_CHECK_PROMPT = [
+  'You check whether passages support claims.',
+  'For each check, decide whether the passage alone states or directly implies the claim.',
+  'Respond with JSON: {"checks": [{"check": <number>, "supported": <true|false>}]}.',
+].join(' ');
+
+/** Tokens for message framing and passage headings */
+const PROMPT_OVERHEAD_TOKENS = 64;
+
+/** Reply tokens for one claim check verdict */
+const CHECK_REPLY_TOKENS = 12;
+
+/** Share of a claim's terms a passage must contain to support it lexically */
+const LEXICAL_SUPPORT_RATIO = 0.5;
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+const claimCheckSchema = z.object({
+  checks: z.array(z.object({ check: z.number().int(), supported: z.boolean() })),
+});
+
+/**
+ * Build the answer prompt, adding passages in the given (ranked) order
+ * until the context window, less the answer budget, is full
+ */
+export function buildRagPrompt(
+  query: string,
+  passages: RagPassage[],
+  options: RagPromptOptions = {}
+): RagPrompt {
+  const contextWindow = options.contextWindow ?? 4096;
+  const maxAnswerTokens = options.maxAnswerTokens ?? 512;
+  const maxPassageTokens = options.maxPassageTokens ?? 300;
+
+  const question = `Question: ${query}`;
+  let budget =
+    contextWindow -
+    maxAnswerTokens -
+    estimateTokens(RAG_SYSTEM_PROMPT) -
+    estimateTokens(question) -
+    PROMPT_OVERHEAD_TOKENS;
+
+  const included: RagPassage[] = [];
+  const blocks: string[] = [];
+
+  for (const passage of passages) {
+    const block = formatPassage(included.length + 1, passage, maxPassageTokens);
+    const cost = estimateTokens(block);
+    if (cost > budget) break;
+
+    budget -= cost;
+    included.push(passage);
+    blocks.push(block);
+  }
+
+  return {
+    messages: [
+      { role: 'system', content: RAG_SYSTEM_PROMPT },
+      { role: 'user', content: `Passages:\n\n${blocks.join('\n\n')}\n\n${question}` },
+    ],
+    passages: included,
+    omitted: passages.length - included.length,
+  };
+}
+
+/**
+ * Split an answer into sentences with the passage numbers each cites.
+ * Markers placed after a sentence's full stop belong to that sentence.
+ */
+export function extractClaims(answer: string): AnswerClaim[] {
+  const claims: AnswerClaim[] = [];
+  const boundary = /[.!?](?:\s*\[\d+(?:\s*,\s*\d+)*\])*(?=\s|$)|\n+/g;
+  let start = 0;
+
+  const push = (end: number) => {
+    const raw = answer.slice(start, end);
+    const text = raw.trim();
+    if (stripCitations(text)) {
+      const offset = start + raw.indexOf(text);
+      claims.push({
+        text,
+        start: offset,
+        end: offset + text.length,
+        citations: citationNumbers(text),
+      });
+    }
+    start = end;
+  };
+
+  for (const match of answer.matchAll(boundary)) {
+    push(match.index! + match[0].length);
+  }
+  push(answer.length);
+
+  return claims;
+}
+
+/**
+ * Check every passage each claim cites; a claim is supported when at
+ * least one of its cited passages supports it
+ */
+export async function checkClaims(
+  claims: AnswerClaim[],
+  passages: RagPassage[],
+  options: RagPromptOptions & {
+    provider?: LlmProvider;
+    mode?: ClaimCheckMode;
+    abortSignal?: AbortSignal;
+  } = {}
+): Promise<{ claims: CheckedClaim[]; mode: ClaimCheckMode }> {
+  const mode = options.mode ?? (options.provider ? 'llm' : 'lexical');
+  const pairs = claims.flatMap((claim, c) =>
+    claim.citations
+      .filter((n) => n >= 1 && n <= passages.length)
+      .map((n) => ({ claim: c, citation: n }))
+  );
+
+  const lexical = () =>
+    pairs.map((p) => lexicallySupported(claims[p.claim].text, passages[p.citation - 1].text));
+
+  let verdicts: boolean[];
+  let used = mode;
+
+  if (mode === 'none') {
+    verdicts = pairs.map(() => true);
+  } else if (mode === 'llm' && options.provider) {
+    try {
+      verdicts = pairs.length > 0
+        ? await llmVerdicts(options.provider, claims, passages, pairs, options)
+        : [];
+    } catch {
+      options.abortSignal?.throwIfAborted();
+      used = 'lexical';
+      verdicts = lexical();
+    }
+  } else {
+    used = 'lexical';
+    verdicts = lexical();
+  }
+
+  const checked = claims.map((claim, c): CheckedClaim => {
+    const supportedBy = pairs
+      .map((pair, i) => (pair.claim === c && verdicts[i] ? pair.citation : null))
+      .filter((n): n is number => n !== null);
+    const unsupportedCitations = claim.citations.filter((n) => !supportedBy.includes(n));
+
+    let status: ClaimStatus = 'supported';
+    if (claim.citations.length === 0) status = 'uncited';
+    else if (supportedBy.length === 0) status = 'unsupported';
+
+    return { ...claim, status, supportedBy, unsupportedCitations };
+  });
+
+  return { claims: checked, mode: used };
+}
+
+/**
+ * Answer a question from ranked passages with inline citations, then
+ * check the claims against the passages they cite
+ */
+export async function answerWithCitations(
+  provider: LlmProvider,
+  query: string,
+  passages: RagPassage[],
+  options: RagAnswerOptions = {}
+): Promise<RagAnswer> {
+  const prompt = buildRagPrompt(query, passages, options);
+
+  if (prompt.passages.length === 0) {
+    return {
+      answer: '',
+      passages: [],
+      claims: [],
+      claimCheck: 'none',
+      omittedPassages: prompt.omitted,
+    };
+  }
+
+  const completion = await provider.complete(prompt.messages, {
+    maxTokens: options.maxAnswerTokens ?? 512,
+    temperature: options.temperature ?? 0.2,
+    abortSignal: options.abortSignal,
+  });
+  const answer = completion.content.trim();
+
+  const { claims, mode } = await checkClaims(extractClaims(answer), prompt.passages, {
+    contextWindow: options.contextWindow,
+    maxAnswerTokens: options.maxAnswerTokens,
+    maxPassageTokens: options.maxPassageTokens,
+    provider,
+    mode: options.claimCheck ?? 'llm',
+    abortSignal: options.abortSignal,
+  });
+
+  return {
+    answer,
+    passages: prompt.passages,
+    claims,
+    claimCheck: mode,
+    omittedPassages: prompt.omitted,
+    promptTokens: completion.promptTokens,
+    completionTokens: completion.completionTokens,
+  };
+}
+
+function formatPassage(number: number, passage: RagPassage, maxTokens: number): string {
+  const span = `${formatTimestamp(passage.startSeconds)}-${formatTimestamp(passage.endSeconds)}`;
+  const label = passage.kind === 'topic' ? 'topic summary' : 'transcript';
+  const text = fitToTokenBudget(passage.text, maxTokens);
+  return `[${number}] ${passage.title} (${label}, ${span})\n${text}`;
+}
+
+function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${mins}:${String(secs).padStart(2, '0')}`;
+}
+
+function citationNumbers(text: string): number[] {
+  const numbers: number[] = [];
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    for (const n of match[1].split(',')) {
+      const number = Number(n.trim());
+      if (!numbers.includes(number)) numbers.push(number);
+    }
+  }
+  return numbers;
+}
+
+/** Claim text without its citation markers */
+function stripCitations(text: string): string {
+  return text.replace(/\s*\[\d+(?:\s*,\s*\d+)*\]/g, '').trim();
+}
+
+/**
+ * Ask the model about each claim/passage pair. Passages are trimmed as in
+ * the answer prompt, and the pairs are sent in batches that each fit the
+ * context window less the reply budget.
+ */
+async function llmVerdicts(
+  provider: LlmProvider,
+  claims: AnswerClaim[],
+  passages: RagPassage[],
+  pairs: Array<{ claim: number; citation: number }>,
+  options: RagPromptOptions & { abortSignal?: AbortSignal }
+): Promise<boolean[]> {
+  const contextWindow = options.contextWindow ?? 4096;
+  const maxTokens = options.maxAnswerTokens ?? 512;
+  const maxPassageTokens = options.maxPassageTokens ?? 300;
+
+  const budget =
+    contextWindow - maxTokens - estimateTokens(CLAIM_CHECK_PROMPT) - PROMPT_OVERHEAD_TOKENS;
+  const maxChecks = Math.max(1, Math.floor(maxTokens / CHECK_REPLY_TOKENS));
+
+  const blocks = pairs.map((pair) => {
+    const claim = stripCitations(claims[pair.claim].text);
+    const passage = fitToTokenBudget(passages[pair.citation - 1].text, maxPassageTokens);
+    return `Claim: ${claim}\nPassage: ${passage}`;
+  });
+
+  const verdicts: boolean[] = [];
+  let start = 0;
+  while (start < blocks.length) {
+    // A batch always takes at least one pair
+    let end = start;
+    let used = 0;
+    while (end < blocks.length && end - start < maxChecks) {
+      const cost = estimateTokens(`Check ${end - start + 1}\n${blocks[end]}\n\n`);
+      if (end > start && used + cost > budget) break;
+      used += cost;
+      end++;
+    }
+
+    const batch = blocks.slice(start, end);
+    verdicts.push(...(await checkBatch(provider, batch, maxTokens, options.abortSignal)));
+    start = end;
+  }
+  return verdicts;
+}
+
+async function checkBatch(
+  provider: LlmProvider,
+  blocks: string[],
+  maxTokens: number,
+  abortSignal?: AbortSignal
+): Promise<boolean[]> {
+  const checks = blocks.map((block, i) => `Check ${i + 1}\n${block}`).join('\n\n');
+
+  const result = await completeJson(
+    provider,
+    [
+      { role: 'system', content: CLAIM_CHECK_PROMPT },
+      { role: 'user', content: checks },
+    ],
+    claimCheckSchema,
+    { maxTokens, temperature: 0, abortSignal }
+  );
+
+  // Checks the model skipped count as unsupported
+  const verdicts = blocks.map(() => false);
+  for (const { check, supported } of result.checks) {
+    if (check >= 1 && check <= blocks.length) verdicts[check - 1] = supported;
+  }
+  return verdicts;
+}
+
+/** Whether the passage contains enough of the claim's content words */
+function lexicallySupported(claim: string, passage: string): boolean {
+  const terms = queryTerms(stripCitations(claim));
+  if (terms.length === 0) {
+    return true;
+  }
+
+  const passageWords = new Set(queryTerms(passage).map(prefix));
+  const found = terms.filter((term) => passageWords.has(prefix(term))).length;
+  return found / terms.length >= LEXICAL_SUPPORT_RATIO;
+}
+
+/** Leading characters of a word, so that inflections still match */
+function prefix(word: string): string {
+  return word.slice(0, 5);
+}
@@ -0,0 +1,68 @@
+/**
+ * Unit Tests - Rank Fusion
+ *
+ * Reciprocal rank fusion of vector and full-text rankings.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { reciprocalRankFusion } from './rank-fusion';
+
+describe('reciprocalRankFusion', () => {
+  it('sums weight / (k + rank) across lists', () => {
+    const results = reciprocalRankFusion(
+      [
+        { signal: 'vector', ids: ['a', 'b', 'c'] },
+        { signal: 'lexical', ids: ['c', 'a'] },
+      ],
+      { k: 10 }
+    );
+
+    expect(results.map((r) => r.id)).toEqual(['a', 'c', 'b']);
+    expect(results[0].score).toBeCloseTo(1 / 11 + 1 / 12, 12);
+    expect(results[0].signals).toEqual({
+      vector: { rank: 1, contribution: 1 / 11 },
+      lexical: { rank: 2, contribution: 1 / 12 },
+    });
+    expect(Object.keys(results[2].signals)).toEqual(['vector']);
+  });
+
+  it('lets weights favour one signal', () => {
+    const lists = [
+      { signal: 'vector', ids: ['semantic-hit', 'exact-hit'] },
+      { signal: 'lexical', ids: ['exact-hit'] },
+    ];
+
+    expect(reciprocalRankFusion(lists)[0].id).toBe('exact-hit');
+
+    const vectorOnly = reciprocalRankFusion([
+      { ...lists[0], weight: 1 },
+      { ...lists[1], weight: 0 },
+    ]);
+    expect(vectorOnly.map((r) => r.id)).toEqual(['semantic-hit', 'exact-hit']);
+    expect(vectorOnly[1].signals.lexical).toBeUndefined();
+  });
+
+  it('ranks repeated ids by their first position', () => {
+    const results = reciprocalRankFusion([{ signal: 'transcript', ids: ['a', 'a', 'b'] }]);
+
+    expect(results.map((r) => r.id)).toEqual(['a', 'b']);
+    expect(results[1].signals).toEqual({ transcript: { rank: 2, contribution: 1 / 62 } });
+  });
+
+  it('breaks score ties by the number of matching signals', () => {
+    const results = reciprocalRankFusion([
+      { signal: 'vector', ids: ['a'] },
+      { signal: 'title', ids: ['b'], weight: 0.5 },
+      { signal: 'summary', ids: ['b'], weight: 0.5 },
+    ]);
+
+    expect(results[0].score).toBe(results[1].score);
+    expect(results.map((r) => r.id)).toEqual(['b', 'a']);
+  });
+
+  it('truncates to the limit', () => {
+    const results = reciprocalRankFusion([{ signal: 'vector', ids: ['a', 'b', 'c'] }], { limit: 2 });
+
+    expect(results.map((r) => r.id)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Rank Fusion
+ *
+ * Reciprocal rank fusion (RRF) of several ranked result lists, e.g. a
+ * vector similarity ranking and full-text rankings. Each list contributes
+ * `weight / (k + rank)` to the score of every id it contains, so results
+ * found by several signals rise above results found by only one, without
+ * having to calibrate the signals' raw scores against each other.
+ */
+
+export interface RankedList {
+  /** Signal name reported back in the fused results, e.g. `vector` */
+  signal: string;
+  /** Ids ordered best first; repeated ids keep their first position */
+  ids: string[];
+  /** Relative weight of the signal (default 1); lists with weight <= 0 are ignored */
+  weight?: number;
+}
+
+export interface FusedSignal {
+  /** 1-based rank of the id in the signal's list */
+  rank: number;
+  /** Amount the signal added to the fused score */
+  contribution: number;
+}
+
+export interface FusedResult {
+  id: string;
+  score: number;
+  /** Signals that ranked the id, keyed by signal name */
+  signals: Record<string, FusedSignal>;
+}
+
+export interface RankFusionOptions {
+  /** Rank offset damping the influence of top positions (default 60) */
+  k?: number;
+  /** Maximum number of fused results to return */
+  limit?: number;
+}
+
+/**
+ * Fuse ranked lists into a single ranking, best first. Ties are broken
+ * by the number of matching signals, then by the best individual rank.
+ */
+export function reciprocalRankFusion(
+  lists: RankedList[],
+  options: RankFusionOptions = {}
+): FusedResult[] {
+  const k = options.k ?? 60;
+  const fused = new Map<string, FusedResult>();
+
+  for (const list of lists) {
+    const weight = list.weight ?? 1;
+    if (weight <= 0) continue;
+
+    let rank = 0;
+    const seen = new Set<string>();
+    for (const id of list.ids) {
+      if (seen.has(id)) continue;
+      seen.add(id);
+      rank++;
+
+      const contribution = weight / (k + rank);
+      const result = fused.get(id) ?? { id, score: 0, signals: {} };
+      result.score += contribution;
+      result.signals[list.signal] = { rank, contribution };
+      fused.set(id, result);
+    }
+  }
+
+  const bestRank = (result: FusedResult) =>
+    Math.min(...Object.values(result.signals).map((s) => s.rank));
+
+  const ranked = [...fused.values()].sort(
+    (a, b) =>
+      b.score - a.score ||
+      Object.keys(b.signals).length - Object.keys(a.signals).length ||
+      bestRank(a) - bestRank(b)
+  );
+
+  return options.limit !== undefined ? ranked.slice(0, options.limit) : ranked;
+}
@@ -5,12 +5,14 @@
  * Steps can be registered and retrieved by name.
  */
 
+import type { PipelineConfig } from '@video-graph/shared-types';
 import type { PipelineStep } from './core';
 
 /**
- * Step factory function type
+ * Step factory function type. Factories given a job's pipeline config
+ * apply the settings of it that their step understands.
  */
-export type StepFactory = () => PipelineStep;
+export type StepFactory = (config?: Partial<PipelineConfig>) => PipelineStep;
 
 /**
  * Registered step entry
@@ -64,12 +66,12 @@ class StepRegistry {
   /**
    * Create an instance of a registered step
    */
-  create(name: string): PipelineStep | undefined {
+  create(name: string, config?: Partial<PipelineConfig>): PipelineStep | undefined {
     const entry = this.steps.get(name);
     if (!entry) {
       return undefined;
     }
-    return entry.factory();
+    return entry.factory(config);
   }
 
   /**
@@ -0,0 +1,183 @@
+/**
+ * Unit Tests - Reprocessing
+ *
+ * Tests for finding the steps changed settings affect and seeding a child
+ * graph version's checkpoint from its parent.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type {
+  ArtifactManifest,
+  ArtifactPaths,
+  PipelineConfig,
+  PipelineContext,
+  StorageService,
+} from '@video-graph/shared-types';
+import { BasePipelineStep, PipelineOrchestrator, createEmptyManifest } from './core';
+import { getGraphVersionDir, loadManifestCheckpoint } from './checkpoint';
+import {
+  changedReprocessSettings,
+  seedReprocessCheckpoint,
+  stepsForSettings,
+} from './reprocess';
+import { createMemoryStorage, createNoopLogger } from './utils';
+
+class FakeStep extends BasePipelineStep {
+  readonly version = '1.0.0';
+  executions = 0;
+
+  constructor(
+    readonly name: string,
+    private inputs: (keyof ArtifactPaths)[],
+    private output: keyof ArtifactPaths
+  ) {
+    super();
+  }
+
+  getRequiredInputs(): (keyof ArtifactPaths)[] {
+    return this.inputs;
+  }
+
+  getProducedOutputs(): (keyof ArtifactPaths)[] {
+    return [this.output];
+  }
+
+  async execute(
+    manifest: ArtifactManifest,
+    context: PipelineContext
+  ): Promise<ArtifactManifest> {
+    this.executions++;
+    const dir = getGraphVersionDir(manifest.video_id, manifest.graph_version_id);
+    const path = `${dir}/${this.output}.json`;
+    await context.storage.write(path, Buffer.from(JSON.stringify(context.config)));
+    return this.markStepCompleted(this.updateManifest(manifest, { [this.output]: path }), this.name);
+  }
+}
+
+const parentConfig = { topic_levels: 3, edge_similarity_threshold: 0.75 } as PipelineConfig;
+
+describe('changedReprocessSettings', () => {
+  it('should list the settings that differ', () => {
+    expect(
+      changedReprocessSettings(parentConfig, { ...parentConfig, edge_similarity_threshold: 0.6 })
+    ).toEqual(['edge_similarity_threshold']);
+    expect(changedReprocessSettings(parentConfig, parentConfig)).toEqual([]);
+  });
+
+  it('should treat a setting the parent left out as changed', () => {
+    expect(changedReprocessSettings(parentConfig, { ...parentConfig, llm_model: 'mixtral' })).toEqual(
+      ['llm_model']
+    );
+  });
+
+  it('should map settings to the steps that apply them', () => {
+    expect(
+      stepsForSettings(['topic_levels', 'importance_novelty_weight', 'edge_similarity_threshold'])
+    ).toEqual(['topic', 'embeddings-graph']);
+  });
+});
+
+describe('seedReprocessCheckpoint', () => {
+  let storage: StorageService;
+  let steps: Record<string, FakeStep>;
+  let orchestrator: PipelineOrchestrator;
+
+  const run = (graphVersionId: string, jobId: string, config: PipelineConfig) =>
+    orchestrator.executePipeline(
+      createEmptyManifest('v1', graphVersionId, jobId, config),
+      {
+        jobId,
+        videoId: 'v1',
+        userId: 'u1',
+        storage,
+        config,
+        logger: createNoopLogger(),
+      },
+      ['asr', 'topic', 'embeddings-graph']
+    );
+
+  beforeEach(async () => {
+    storage = createMemoryStorage();
+    steps = {
+      asr: new FakeStep('asr', [], 'transcript'),
+      topic: new FakeStep('topic', ['transcript'], 'topics'),
+      'embeddings-graph': new FakeStep('embeddings-graph', ['topics'], 'graph'),
+    };
+    orchestrator = new PipelineOrchestrator();
+    for (const step of Object.values(steps)) orchestrator.registerStep(step);
+
+    await run('gv1', 'job-1', parentConfig);
+  });
+
+  it('should only re-run the steps downstream of the changed settings', async () => {
+    const config = { ...parentConfig, edge_similarity_threshold: 0.6 };
+    const options = {
+      videoId: 'v1',
+      parentGraphVersionId: 'gv1',
+      graphVersionId: 'gv2',
+      jobId: 'job-2',
+      config,
+    };
+
+    expect(await seedReprocessCheckpoint(storage, options)).toEqual(['embeddings-graph']);
+    const result = await run('gv2', 'job-2', config);
+
+    expect(result.success).toBe(true);
+    expect(steps.asr.executions).toBe(1);
+    expect(steps.topic.executions).toBe(1);
+    expect(steps['embeddings-graph'].executions).toBe(2);
+    expect(result.manifest.parent_graph_version_id).toBe('gv1');
+    expect(result.manifest.paths).toEqual({
+      transcript: 'videos/v1/versions/gv1/transcript.json',
+      topics: 'videos/v1/versions/gv1/topics.json',
+      graph: 'videos/v1/versions/gv2/graph.json',
+    });
+    // The parent's graph is left as it was
+    expect((await storage.read('videos/v1/versions/gv1/graph.json')).toString()).toBe(
+      JSON.stringify(parentConfig)
+    );
+  });
+
+  it('should re-run every step after the topics when topic settings change', async () => {
+    const config = { ...parentConfig, topic_levels: 2 };
+    await seedReprocessCheckpoint(storage, {
+      videoId: 'v1',
+      parentGraphVersionId: 'gv1',
+      graphVersionId: 'gv2',
+      jobId: 'job-2',
+      config,
+    });
+    await run('gv2', 'job-2', config);
+
+    expect(steps.asr.executions).toBe(1);
+    expect(steps.topic.executions).toBe(2);
+    expect(steps['embeddings-graph'].executions).toBe(2);
+  });
+
+  it('should keep a checkpoint the child version already has', async () => {
+    const options = {
+      videoId: 'v1',
+      parentGraphVersionId: 'gv1',
+      graphVersionId: 'gv2',
+      jobId: 'job-2',
+      config: { ...parentConfig, topic_levels: 2 },
+    };
+    await seedReprocessCheckpoint(storage, options);
+    const seeded = await loadManifestCheckpoint(storage, 'v1', 'gv2');
+
+    expect(await seedReprocessCheckpoint(storage, options)).toBeNull();
+    expect(await loadManifestCheckpoint(storage, 'v1', 'gv2')).toEqual(seeded);
+  });
+
+  it('should fail when the parent version has no checkpoint', async () => {
+    await expect(
+      seedReprocessCheckpoint(storage, {
+        videoId: 'v1',
+        parentGraphVersionId: 'gv9',
+        graphVersionId: 'gv2',
+        jobId: 'job-2',
+        config: parentConfig,
+      })
+    ).rejects.toThrow('Graph version gv9 has no checkpoint to reprocess from');
+  });
+});
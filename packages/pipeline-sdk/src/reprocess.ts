@@ -0,0 +1,127 @@
+/**
+ * Reprocessing
+ *
+ * Re-runs part of a video's pipeline with different settings to produce a
+ * child graph version. The child's checkpoint is seeded from the parent's,
+ * so the video and transcript artifacts are reused; the steps whose
+ * settings changed are marked incomplete, and the orchestrator re-runs them
+ * and everything downstream of them.
+ */
+
+import type { ArtifactManifest, PipelineConfig, StorageService } from '@video-graph/shared-types';
+import {
+  clearStepCompletion,
+  loadManifestCheckpoint,
+  saveManifestCheckpoint,
+} from './checkpoint';
+
+/**
+ * Pipeline settings a reprocess may change, and the step that applies each.
+ * Settings that would change the transcript are left out: a reprocess
+ * always reuses the parent's.
+ */
+export const REPROCESS_SETTING_STEPS = {
+  topic_levels: 'topic',
+  topic_merge_threshold: 'topic',
+  min_segment_duration_s: 'topic',
+  max_segment_duration_s: 'topic',
+  importance_centrality_weight: 'topic',
+  importance_duration_weight: 'topic',
+  importance_novelty_weight: 'topic',
+  llm_model: 'topic',
+  edge_similarity_threshold: 'embeddings-graph',
+} as const satisfies Partial<Record<keyof PipelineConfig, string>>;
+
+export type ReprocessSetting = keyof typeof REPROCESS_SETTING_STEPS;
+
+/**
+ * Reprocess settings whose values differ between two configs
+ */
+export function changedReprocessSettings(
+  previous: Partial<PipelineConfig>,
+  next: Partial<PipelineConfig>
+): ReprocessSetting[] {
+  return (Object.keys(REPROCESS_SETTING_STEPS) as ReprocessSetting[]).filter(
+    (setting) => previous[setting] !== next[setting]
+  );
+}
+
+/**
+ * Steps that apply the given settings, in no particular order
+ */
+export function stepsForSettings(settings: ReprocessSetting[]): string[] {
+  return [...new Set(settings.map((setting) => REPROCESS_SETTING_STEPS[setting]))];
+}
+
+export interface ReprocessOptions {
+  videoId: string;
+  parentGraphVersionId: string;
+  graphVersionId: string;
+  jobId: string;
+  config: PipelineConfig;
+}
+
+/**
+ * Manifest for a child graph version: the parent's artifacts and step
+ * completions under the child's identity and config, with the given steps
+ * marked incomplete
+ */
+export function seedReprocessManifest(
+  parent: ArtifactManifest,
+  options: ReprocessOptions,
+  steps: string[]
+): ArtifactManifest {
+  const now = new Date().toISOString();
+  let manifest: ArtifactManifest = {
+    ...parent,
+    graph_version_id: options.graphVersionId,
+    job_id: options.jobId,
+    config_snapshot: options.config,
+    parent_graph_version_id: options.parentGraphVersionId,
+    step_errors: {},
+    current_step: undefined,
+    created_at: now,
+    updated_at: now,
+  };
+  for (const step of steps) {
+    manifest = clearStepCompletion(manifest, step);
+  }
+  return manifest;
+}
+
+/**
+ * Write the child version's checkpoint from the parent's so that running
+ * the pipeline for the child only re-runs what its settings affect.
+ * Returns the steps marked for re-running, or null when the child already
+ * has a checkpoint from an earlier run of the job, which is kept as it is.
+ */
+export async function seedReprocessCheckpoint(
+  storage: StorageService,
+  options: ReprocessOptions
+): Promise<string[] | null> {
+  const existing = await loadManifestCheckpoint(
+    storage,
+    options.videoId,
+    options.graphVersionId
+  );
+  if (existing) {
+    return null;
+  }
+
+  const parent = await loadManifestCheckpoint(
+    storage,
+    options.videoId,
+    options.parentGraphVersionId
+  );
+  if (!parent) {
+    throw new Error(
+      `Graph version ${options.parentGraphVersionId} has no checkpoint to reprocess from`
+    );
+  }
+
+  const steps = stepsForSettings(
+    changedReprocessSettings(parent.config_snapshot, options.config)
+  );
+  await saveManifestCheckpoint(storage, seedReprocessManifest(parent, options, steps));
+  return steps;
+}
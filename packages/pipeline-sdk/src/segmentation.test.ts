@@ -0,0 +1,202 @@
+/**
+ * Unit Tests - Topic Boundary Detection
+ *
+ * Segments synthetic transcripts with known topic boundaries and checks
+ * boundary precision/recall/F1.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectBoundaries,
+  evaluateBoundaries,
+  groupSegments,
+  scoreBoundaries,
+  type SegmentationInput,
+  type SegmentationOptions,
+} from './segmentation';
+
+const VOCABULARIES = [
+  ['graph', 'node', 'edge', 'vertex', 'adjacency', 'degree', 'path', 'cycle', 'neighbor', 'traversal'],
+  ['protein', 'enzyme', 'amino', 'folding', 'molecule', 'receptor', 'cell', 'membrane', 'binding', 'peptide'],
+  ['volcano', 'magma', 'eruption', 'lava', 'crater', 'tectonic', 'plate', 'ash', 'seismic', 'crust'],
+  ['budget', 'revenue', 'expense', 'invoice', 'profit', 'margin', 'forecast', 'ledger', 'audit', 'cash'],
+  ['melody', 'chord', 'rhythm', 'tempo', 'harmony', 'scale', 'guitar', 'piano', 'octave', 'note'],
+  ['orbit', 'planet', 'gravity', 'telescope', 'galaxy', 'comet', 'asteroid', 'satellite', 'star', 'moon'],
+];
+
+const FILLER = [
+  'the', 'and', 'so', 'we', 'now', 'look', 'at', 'basically', 'example', 'important',
+  'interesting', 'question', 'idea', 'today', 'point', 'again', 'simple', 'case', 'part', 'next',
+];
+
+/** Deterministic PRNG (mulberry32) */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Build a transcript of `topicCount` topics. Sentences mix topic words,
+ * filler and the occasional word from another topic; each topic gets its
+ * own embedding direction. Returns the start times of topics 2..n.
+ */
+function syntheticTranscript(seed: number, topicCount = 5) {
+  const rand = random(seed);
+  const pick = <T>(items: T[]) => items[Math.floor(rand() * items.length)];
+  const segments: SegmentationInput[] = [];
+  const boundaries: number[] = [];
+  let time = 0;
+
+  for (let topic = 0; topic < topicCount; topic++) {
+    const vocabulary = VOCABULARIES[(topic + seed) % VOCABULARIES.length];
+    const direction = Array.from({ length: 16 }, () => rand() * 2 - 1);
+    if (topic > 0) boundaries.push(time);
+
+    const sentences = 6 + Math.floor(rand() * 5);
+    for (let s = 0; s < sentences; s++) {
+      const words = Array.from({ length: 10 }, () => {
+        const r = rand();
+        if (r < 0.4) return pick(vocabulary);
+        if (r < 0.45) return pick(pick(VOCABULARIES));
+        return pick(FILLER);
+      });
+      const duration = 4 + rand() * 4;
+
+      segments.push({
+        id: `s${segments.length + 1}`,
+        start: time,
+        end: time + duration,
+        text: words.join(' '),
+        embedding: direction.map((v) => v + (rand() - 0.5) * 0.8),
+      });
+      time += duration + 0.2 + rand() * 0.6;
+    }
+  }
+
+  return { segments, boundaries };
+}
+
+const options: SegmentationOptions = {
+  method: 'texttiling',
+  windowSize: 4,
+  minDuration: 5,
+  maxDuration: 300,
+};
+
+const SEEDS = Array.from({ length: 20 }, (_, i) => i + 1);
+
+/**
+ * Mean boundary F1 over the seeded transcripts
+ *
+ * @param tolerance - Seconds a boundary may be off (a sentence is 4-8s)
+ */
+function boundaryF1(method: SegmentationOptions['method'], tolerance: number): number {
+  const scores = SEEDS.map((seed) => {
+    const { segments, boundaries } = syntheticTranscript(seed);
+    const predicted = detectBoundaries(segments, { ...options, method }).map(
+      (gap) => segments[gap + 1].start
+    );
+    return evaluateBoundaries(predicted, boundaries, tolerance).f1;
+  });
+  return scores.reduce((sum, f1) => sum + f1, 0) / scores.length;
+}
+
+const duration = (group: SegmentationInput[]) => group[group.length - 1].end - group[0].start;
+
+describe('detectBoundaries', () => {
+  it('should find lexical topic shifts with TextTiling', () => {
+    expect(boundaryF1('texttiling', 0)).toBeGreaterThanOrEqual(0.75);
+    expect(boundaryF1('texttiling', 10)).toBeGreaterThanOrEqual(0.85);
+  });
+
+  it('should find embedding change points', () => {
+    expect(boundaryF1('embedding', 0)).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it('should keep micro-topics at least minDuration long', () => {
+    const { segments } = syntheticTranscript(11);
+
+    const groups = groupSegments(segments, detectBoundaries(segments, { ...options, minDuration: 40 }));
+
+    expect(groups.length).toBeGreaterThan(1);
+    for (const group of groups) {
+      expect(duration(group)).toBeGreaterThanOrEqual(40);
+    }
+  });
+
+  it('should split micro-topics longer than maxDuration', () => {
+    const { segments } = syntheticTranscript(12, 1);
+
+    const groups = groupSegments(segments, detectBoundaries(segments, { ...options, maxDuration: 20 }));
+
+    expect(groups.length).toBeGreaterThan(1);
+    for (const group of groups) {
+      expect(duration(group)).toBeLessThanOrEqual(20);
+      expect(duration(group)).toBeGreaterThanOrEqual(5);
+    }
+    expect(groups.flat()).toEqual(segments);
+  });
+
+  it('should treat a long pause as a boundary when the text does not change', () => {
+    const segments = Array.from({ length: 8 }, (_, i) => ({
+      id: `s${i}`,
+      start: i * 10 + (i >= 4 ? 5 : 0),
+      end: i * 10 + 9.5 + (i >= 4 ? 5 : 0),
+      text: 'graphs have nodes and edges',
+    }));
+
+    expect(detectBoundaries(segments, options)).toEqual([3]);
+  });
+
+  it('should return no boundaries for a single segment', () => {
+    expect(detectBoundaries([{ id: 's1', start: 0, end: 5, text: 'hello' }], options)).toEqual([]);
+  });
+
+  it('should require embeddings for the embedding method', () => {
+    const segments = [
+      { id: 's1', start: 0, end: 5, text: 'a' },
+      { id: 's2', start: 5, end: 10, text: 'b' },
+    ];
+
+    expect(() => detectBoundaries(segments, { ...options, method: 'embedding' })).toThrow(
+      'Embedding segmentation requires an embedding for every segment'
+    );
+  });
+});
+
+describe('scoreBoundaries', () => {
+  it('should score the deepest similarity valley highest', () => {
+    const { segments, boundaries } = syntheticTranscript(3, 2);
+
+    const { scores } = scoreBoundaries(segments, { ...options, method: 'embedding' });
+
+    const best = scores.indexOf(Math.max(...scores));
+    expect(segments[best + 1].start).toBe(boundaries[0]);
+  });
+});
+
+describe('groupSegments', () => {
+  it('should split after each boundary gap', () => {
+    expect(groupSegments(['a', 'b', 'c', 'd', 'e'], [3, 0])).toEqual([['a'], ['b', 'c', 'd'], ['e']]);
+    expect(groupSegments(['a', 'b'], [])).toEqual([['a', 'b']]);
+  });
+});
+
+describe('evaluateBoundaries', () => {
+  it('should match each reference boundary at most once within tolerance', () => {
+    expect(evaluateBoundaries([10, 11, 50], [10, 30], 2)).toEqual({
+      precision: 1 / 3,
+      recall: 0.5,
+      f1: 0.4,
+    });
+  });
+
+  it('should score empty predictions', () => {
+    expect(evaluateBoundaries([], [])).toEqual({ precision: 1, recall: 1, f1: 1 });
+    expect(evaluateBoundaries([], [5]).f1).toBe(0);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Topic Boundary Detection
+ *
+ * Splits a transcript into coherent micro-topics. Each gap between two
+ * transcript segments is scored by comparing a window of segments before
+ * it with a window after it, either lexically (TextTiling over TF-IDF
+ * term vectors) or with sentence embeddings. Gaps at the bottom of a
+ * similarity valley score highest (depth score), long pauses add to the
+ * score, and boundaries are chosen so every micro-topic stays within the
+ * duration limits.
+ */
+
+export interface SegmentationInput {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+  /** Required for the `embedding` method */
+  embedding?: number[];
+}
+
+export interface SegmentationOptions {
+  /** Similarity measure between the windows around a gap */
+  method: 'texttiling' | 'embedding';
+  /** Segments on each side of a gap that are compared */
+  windowSize: number;
+  /** Minimum micro-topic duration in seconds */
+  minDuration: number;
+  /** Maximum micro-topic duration in seconds */
+  maxDuration: number;
+  /** Pause (seconds) that counts as a full topic-change signal (default 2) */
+  pauseThreshold?: number;
+  /** Score added for a pause of `pauseThreshold` or longer (default 0.2) */
+  pauseWeight?: number;
+}
+
+export interface BoundaryScores {
+  /** Similarity of the windows around each gap (gap `i` follows segment `i`) */
+  similarities: number[];
+  /** Depth score plus pause bonus for each gap */
+  scores: number[];
+}
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was',
+  'one', 'our', 'out', 'has', 'him', 'his', 'how', 'its', 'may', 'now', 'see', 'she', 'two',
+  'who', 'did', 'get', 'got', 'let', 'say', 'too', 'use', 'way', 'yes', 'yeah', 'okay', 'that',
+  'this', 'with', 'have', 'from', 'they', 'will', 'what', 'when', 'your', 'about', 'there',
+  'their', 'which', 'would', 'could', 'should', 'these', 'those', 'then', 'than', 'them',
+  'into', 'just', 'like', 'also', 'some', 'here', 'were', 'been', 'being', 'very', 'more',
+  'most', 'other', 'know', 'going', 'want', 'really', 'thing', 'things', 'because', 'where',
+  'well', 'right', 'only', 'over', 'such', 'even', 'much', 'each', 'make', 'does', 'doing',
+]);
+
+/**
+ * Score every gap between adjacent segments
+ */
+export function scoreBoundaries(
+  segments: SegmentationInput[],
+  options: SegmentationOptions
+): BoundaryScores {
+  const gapCount = Math.max(segments.length - 1, 0);
+  const window = Math.max(1, options.windowSize);
+  const pauseThreshold = options.pauseThreshold ?? 2;
+  const pauseWeight = options.pauseWeight ?? 0.2;
+
+  const similarity = options.method === 'embedding'
+    ? embeddingSimilarity(segments)
+    : lexicalSimilarity(segments);
+
+  const similarities: number[] = [];
+  for (let gap = 0; gap < gapCount; gap++) {
+    const before = [Math.max(0, gap - window + 1), gap + 1] as const;
+    const after = [gap + 1, Math.min(segments.length, gap + 1 + window)] as const;
+    similarities.push(similarity(before, after));
+  }
+
+  const scores = similarities.map((value, gap) => {
+    const pause = Math.max(0, segments[gap + 1].start - segments[gap].end);
+    const pauseBonus = pauseWeight * Math.min(pause / pauseThreshold, 1);
+    return depthScore(similarities, gap) + pauseBonus;
+  });
+
+  return { similarities, scores };
+}
+
+/**
+ * Detect topic boundaries. Returns the indices of the gaps where a new
+ * micro-topic starts (gap `i` lies between segment `i` and `i + 1`), in
+ * ascending order.
+ */
+export function detectBoundaries(
+  segments: SegmentationInput[],
+  options: SegmentationOptions
+): number[] {
+  if (segments.length < 2) {
+    return [];
+  }
+
+  const { scores } = scoreBoundaries(segments, options);
+
+  // Peaks above mean + stddev / 2. TextTiling's usual mean - stddev / 2
+  // over-segments short ASR sentences, whose windows share few words.
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  const stddev = Math.sqrt(scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length);
+  const cutoff = mean + stddev / 2;
+
+  const candidates = scores
+    .map((score, gap) => ({ gap, score }))
+    .filter(({ gap, score }) =>
+      score > 0 &&
+      score > cutoff &&
+      isPeak(scores, gap)
+    )
+    .sort((a, b) => b.score - a.score || a.gap - b.gap);
+
+  const boundaries: number[] = [];
+  for (const { gap } of candidates) {
+    if (splitsWithinMinimum(segments, boundaries, gap, options.minDuration)) {
+      insertSorted(boundaries, gap);
+    }
+  }
+
+  enforceMaxDuration(segments, boundaries, scores, options);
+  return boundaries;
+}
+
+/**
+ * Group segments into micro-topics at the given boundaries
+ */
+export function groupSegments<T>(segments: T[], boundaries: number[]): T[][] {
+  const groups: T[][] = [];
+  let start = 0;
+
+  for (const gap of [...boundaries].sort((a, b) => a - b)) {
+    groups.push(segments.slice(start, gap + 1));
+    start = gap + 1;
+  }
+  if (start < segments.length) {
+    groups.push(segments.slice(start));
+  }
+
+  return groups;
+}
+
+/**
+ * Precision, recall and F1 of predicted boundary times against reference
+ * times. Each reference boundary matches at most one prediction within
+ * `tolerance` seconds.
+ */
+export function evaluateBoundaries(
+  predicted: number[],
+  reference: number[],
+  tolerance = 0
+): { precision: number; recall: number; f1: number } {
+  const unmatched = [...predicted];
+  let matched = 0;
+
+  for (const time of reference) {
+    let best = -1;
+    for (let i = 0; i < unmatched.length; i++) {
+      const distance = Math.abs(unmatched[i] - time);
+      if (distance <= tolerance && (best === -1 || distance < Math.abs(unmatched[best] - time))) {
+        best = i;
+      }
+    }
+    if (best !== -1) {
+      unmatched.splice(best, 1);
+      matched++;
+    }
+  }
+
+  const precision = predicted.length === 0 ? (reference.length === 0 ? 1 : 0) : matched / predicted.length;
+  const recall = reference.length === 0 ? 1 : matched / reference.length;
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  return { precision, recall, f1 };
+}
+
+type Range = readonly [start: number, end: number];
+
+/**
+ * Cosine similarity of TF-IDF term vectors. IDF is computed over the
+ * transcript's own segments, so words used throughout the video (the
+ * speaker's filler, the overall subject) carry little weight.
+ */
+function lexicalSimilarity(segments: SegmentationInput[]): (a: Range, b: Range) => number {
+  const terms = segments.map((s) => tokenize(s.text));
+
+  const documentFrequency = new Map<string, number>();
+  for (const segmentTerms of terms) {
+    for (const term of new Set(segmentTerms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const idf = (term: string) => Math.log(segments.length / documentFrequency.get(term)!);
+
+  const counts = ([start, end]: Range) => {
+    const bag = new Map<string, number>();
+    for (let i = start; i < end; i++) {
+      for (const term of terms[i]) {
+        bag.set(term, (bag.get(term) ?? 0) + idf(term));
+      }
+    }
+    return bag;
+  };
+
+  return (a, b) => {
+    const left = counts(a);
+    const right = counts(b);
+    let dot = 0;
+    for (const [term, count] of left) {
+      dot += count * (right.get(term) ?? 0);
+    }
+    const norm = Math.sqrt(sumOfSquares(left.values())) * Math.sqrt(sumOfSquares(right.values()));
+    return norm === 0 ? 0 : dot / norm;
+  };
+}
+
+function embeddingSimilarity(segments: SegmentationInput[]): (a: Range, b: Range) => number {
+  if (segments.some((s) => !s.embedding?.length)) {
+    throw new Error('Embedding segmentation requires an embedding for every segment');
+  }
+
+  const centroid = ([start, end]: Range) => {
+    const sum = new Array<number>(segments[start].embedding!.length).fill(0);
+    for (let i = start; i < end; i++) {
+      segments[i].embedding!.forEach((value, d) => (sum[d] += value));
+    }
+    return sum;
+  };
+
+  return (a, b) => {
+    const left = centroid(a);
+    const right = centroid(b);
+    let dot = 0;
+    for (let d = 0; d < left.length; d++) {
+      dot += left[d] * right[d];
+    }
+    const norm = Math.sqrt(sumOfSquares(left)) * Math.sqrt(sumOfSquares(right));
+    return norm === 0 ? 0 : dot / norm;
+  };
+}
+
+/**
+ * How far similarity drops at a gap relative to the nearest peaks on
+ * either side
+ */
+function depthScore(similarities: number[], gap: number): number {
+  let left = gap;
+  while (left > 0 && similarities[left - 1] >= similarities[left]) left--;
+  let right = gap;
+  while (right < similarities.length - 1 && similarities[right + 1] >= similarities[right]) right++;
+
+  return similarities[left] + similarities[right] - 2 * similarities[gap];
+}
+
+/**
+ * Whether splitting at `gap` keeps both resulting micro-topics at least
+ * `minDuration` long
+ */
+function splitsWithinMinimum(
+  segments: SegmentationInput[],
+  boundaries: number[],
+  gap: number,
+  minDuration: number
+): boolean {
+  const previous = boundaries.filter((b) => b < gap).pop();
+  const next = boundaries.find((b) => b > gap);
+  const first = previous === undefined ? 0 : previous + 1;
+  const last = next === undefined ? segments.length - 1 : next;
+
+  return (
+    segments[gap].end - segments[first].start >= minDuration &&
+    segments[last].end - segments[gap + 1].start >= minDuration
+  );
+}
+
+/**
+ * Split micro-topics longer than `maxDuration` at their highest-scoring
+ * gap, preferring gaps that respect `minDuration`
+ */
+function enforceMaxDuration(
+  segments: SegmentationInput[],
+  boundaries: number[],
+  scores: number[],
+  options: SegmentationOptions
+): void {
+  for (let changed = true; changed; ) {
+    changed = false;
+    let first = 0;
+
+    for (const last of [...boundaries, segments.length - 1]) {
+      if (last > first && segments[last].end - segments[first].start > options.maxDuration) {
+        const gaps = Array.from({ length: last - first }, (_, i) => first + i);
+        const valid = gaps.filter((gap) =>
+          splitsWithinMinimum(segments, boundaries, gap, options.minDuration)
+        );
+        const pool = valid.length > 0 ? valid : gaps;
+        const best = pool.reduce((a, b) => (scores[b] > scores[a] ? b : a));
+
+        insertSorted(boundaries, best);
+        changed = true;
+        break;
+      }
+      first = last + 1;
+    }
+  }
+}
+
+/**
+ * At least as high as both neighbours and higher than one of them, so
+ * flat stretches do not count as peaks
+ */
+function isPeak(scores: number[], gap: number): boolean {
+  const neighbours = [scores[gap - 1], scores[gap + 1]].filter((s) => s !== undefined);
+  return neighbours.every((s) => scores[gap] >= s) && neighbours.some((s) => scores[gap] > s);
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+    .map((word) => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+function sumOfSquares(values: Iterable<number>): number {
+  let sum = 0;
+  for (const value of values) sum += value * value;
+  return sum;
+}
+
+function insertSorted(values: number[], value: number): void {
+  const index = values.findIndex((v) => v > value);
+  values.splice(index === -1 ? values.length : index, 0, value);
+}
@@ -8,7 +8,13 @@
  * - Language detection
  */
 
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { BasePipelineStep } from '../core';
+import { copyToLocalFile } from '../utils';
+import { createAsrProvider } from '../asr/factory';
+import type { AsrProvider } from '../asr/types';
 import type {
   ArtifactManifest,
   PipelineContext,
@@ -42,10 +48,18 @@ export interface AsrStepConfig {
   computeType: 'int8' | 'int8_float16' | 'int16' | 'float16' | 'float32';
   /** VAD filter */
   vadFilter: boolean;
+  /** whisper.cpp binary (defaults to WHISPER_CPP_PATH or `whisper-cli`) */
+  whisperCppPath?: string;
+  /** Directory holding whisper.cpp `ggml-<model>.bin` files (defaults to WHISPER_CPP_MODEL_DIR) */
+  modelDir?: string;
+  /** CPU threads for whisper.cpp */
+  threads?: number;
+  /** Scratch directory for the local audio copy (defaults to the OS temp dir) */
+  workDir?: string;
 }
 
 export const defaultAsrStepConfig: AsrStepConfig = {
-  provider: 'faster-whisper',
+  provider: 'whisper-cpp',
   model: 'base',
   device: 'cpu',
   enableWordAlignment: false,
@@ -82,13 +96,18 @@ export interface TranscriptSegment {
  */
 export class AsrStep extends BasePipelineStep {
   readonly name = 'asr';
-  readonly version = '1.0.0';
+  readonly version = '1.1.0';
 
   private config: AsrStepConfig;
+  private provider?: AsrProvider;
 
-  constructor(config: Partial<AsrStepConfig> = {}) {
+  /**
+   * @param provider - Overrides the provider selected by `config.provider`
+   */
+  constructor(config: Partial<AsrStepConfig> = {}, provider?: AsrProvider) {
     super();
     this.config = { ...defaultAsrStepConfig, ...config };
+    this.provider = provider;
   }
 
   getRequiredInputs(): (keyof ArtifactPaths)[] {
@@ -116,31 +135,41 @@ export class AsrStep extends BasePipelineStep {
     }
 
     context.logger.info(`Running ASR with ${this.config.provider} model: ${this.config.model}`);
-    context.onProgress?.(10, 'Loading ASR model');
+    context.onProgress?.(10, 'Loading audio');
 
-    // Load audio
-    const audioData = await context.storage.read(audioPath);
+    // ASR engines read local files, so the audio is staged in a scratch directory
+    const workDir = await fs.mkdtemp(
+      join(this.config.workDir ?? tmpdir(), `asr-${manifest.video_id}-`)
+    );
 
-    context.onProgress?.(30, 'Transcribing audio');
+    let transcript: TranscriptSegment[];
+    let diarization: Array<{ start: number; end: number; speaker: string }> | undefined;
+    try {
+      const audioFile = join(workDir, 'audio.wav');
+      await copyToLocalFile(context.storage, audioPath, audioFile);
 
-    // Step 1: Transcribe audio
-    const transcript = await this.transcribe(audioData, context);
+      context.onProgress?.(30, 'Transcribing audio');
 
-    context.onProgress?.(70, 'Processing transcript');
+      // Step 1: Transcribe audio
+      transcript = await this.transcribe(audioFile, context);
 
-    // Step 2: Optional word alignment
-    let wordAlignment: TranscriptSegment[] | undefined;
-    if (this.config.enableWordAlignment) {
-      wordAlignment = await this.alignWords(audioData, transcript, context);
+      context.onProgress?.(70, 'Processing transcript');
+
+      // Step 2: Optional diarization
+      if (this.config.enableDiarization) {
+        context.onProgress?.(85, 'Running speaker diarization');
+        diarization = await this.diarize(audioFile, context);
+        // Merge diarization with transcript
+        this.mergeDiarization(transcript, diarization);
+      }
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
     }
 
-    // Step 3: Optional diarization
-    let diarization: Array<{ start: number; end: number; speaker: string }> | undefined;
-    if (this.config.enableDiarization) {
-      context.onProgress?.(85, 'Running speaker diarization');
-      diarization = await this.diarize(audioData, context);
-      // Merge diarization with transcript
-      this.mergeDiarization(transcript, diarization);
+    // Step 3: Optional word alignment
+    let wordAlignment: TranscriptSegment[] | undefined;
+    if (this.config.enableWordAlignment) {
+      wordAlignment = this.alignWords(transcript);
     }
 
     context.onProgress?.(100, 'ASR complete');
@@ -193,60 +222,37 @@ export class AsrStep extends BasePipelineStep {
   }
 
   private async transcribe(
-    audioData: Buffer,
+    audioFile: string,
     context: PipelineContext
   ): Promise<TranscriptSegment[]> {
-    context.logger.info(`Transcribing with ${this.config.provider}`);
-
-    // Implementation would use the appropriate ASR library
-    // For faster-whisper:
-    // from faster_whisper import WhisperModel
-    // model = WhisperModel(model_size, device=device, compute_type=compute_type)
-    // segments, info = model.transcribe(audio, beam_size=beam_size, ...)
+    const provider = this.provider ?? createAsrProvider(this.config);
+    context.logger.info(`Transcribing with ${provider.name}`);
+
+    const result = await provider.transcribe(audioFile, {
+      language: this.config.language,
+      abortSignal: context.abortSignal,
+      onProgress: (fraction) =>
+        context.onProgress?.(30 + Math.round(fraction * 40), 'Transcribing audio'),
+    });
 
-    // Placeholder return
-    return [
-      {
-        id: 'seg-1',
-        start: 0,
-        end: 5.5,
-        text: 'Welcome to this presentation about video topic graphs.',
-        confidence: 0.95,
-      },
-      {
-        id: 'seg-2',
-        start: 5.5,
-        end: 12.0,
-        text: 'Today we will explore how to automatically extract topics from video content.',
-        confidence: 0.92,
-      },
-    ];
+    context.logger.info(
+      `Transcribed ${result.segments.length} segments (language: ${result.language})`
+    );
+    return result.segments;
   }
 
-  private async alignWords(
-    audioData: Buffer,
-    transcript: TranscriptSegment[],
-    context: PipelineContext
-  ): Promise<TranscriptSegment[]> {
-    context.logger.info('Aligning words');
-
-    // Implementation would use whisper's word-level timestamps
-    // or a dedicated alignment model like CTC-based aligner
-
-    // Placeholder: add word-level timestamps
-    return transcript.map((seg) => ({
-      ...seg,
-      words: seg.text.split(' ').map((word, i) => ({
-        word,
-        start: seg.start + i * ((seg.end - seg.start) / seg.text.split(' ').length),
-        end: seg.start + (i + 1) * ((seg.end - seg.start) / seg.text.split(' ').length),
-        confidence: 0.9,
-      })),
-    }));
+  /**
+   * Word timestamps come from the provider; the alignment artifact holds
+   * only the segments that have them
+   */
+  private alignWords(transcript: TranscriptSegment[]): TranscriptSegment[] {
+    return transcript
+      .filter((seg) => seg.words && seg.words.length > 0)
+      .map(({ id, start, end, text, words }) => ({ id, start, end, text, words }));
   }
 
   private async diarize(
-    audioData: Buffer,
+    audioFile: string,
     context: PipelineContext
   ): Promise<Array<{ start: number; end: number; speaker: string }>> {
     context.logger.info('Running speaker diarization');
@@ -297,7 +303,7 @@ stepRegistry.register(
   () => new AsrStep(),
   {
     description: 'Speech recognition with optional diarization',
-    version: '1.0.0',
+    version: '1.1.0',
     author: 'Video Topic Graph Platform',
     tags: ['asr', 'speech', 'whisper', 'diarization', 'transcription'],
     inputs: ['audio_wav'],
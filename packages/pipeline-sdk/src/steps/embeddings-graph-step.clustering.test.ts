@@ -0,0 +1,123 @@
+/**
+ * Unit Tests - Embeddings Graph Step Clustering
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { PipelineConfig, PipelineContext } from '@video-graph/shared-types';
+import { createEmptyManifest } from '../core';
+import { createMemoryStorage, createNoopLogger } from '../utils';
+import { MockEmbeddingProvider } from '../llm/mock';
+import { EmbeddingsGraphStep, type TopicCluster } from './embeddings-graph-step';
+
+const topics = [
+  ['graphs', 'nodes'],
+  ['graphs', 'edges'],
+  ['proteins', 'folding'],
+  ['proteins', 'enzymes'],
+  ['volcanoes', 'magma'],
+].map((keywords, i) => ({
+  id: `t${i}`,
+  level: 0,
+  start: i * 10,
+  end: i * 10 + 10,
+  title: `Topic ${i}`,
+  summary: keywords.join(' '),
+  keywords,
+  parentIds: [],
+  childIds: [],
+  importanceScore: 0.5,
+}));
+
+const transcript = [
+  { id: 's0', start: 0, end: 5, text: 'Graphs are made of nodes' },
+  { id: 's1', start: 5, end: 10, text: 'and edges between them' },
+  { id: 's2', start: 20, end: 25, text: 'Proteins fold into shapes' },
+];
+
+async function runStep(step: EmbeddingsGraphStep, storage = createMemoryStorage()) {
+  await storage.write('videos/v1/topics/topics.json', Buffer.from(JSON.stringify(topics)));
+  await storage.write('videos/v1/transcripts/transcript.json', Buffer.from(JSON.stringify(transcript)));
+  const manifest = createEmptyManifest('v1', 'gv1', 'job-1', {} as PipelineConfig);
+  manifest.paths.topics = 'videos/v1/topics/topics.json';
+  manifest.paths.transcript = 'videos/v1/transcripts/transcript.json';
+
+  const result = await step.execute(manifest, {
+    jobId: 'job-1',
+    videoId: 'v1',
+    userId: 'u1',
+    storage,
+    config: {} as PipelineConfig,
+    logger: createNoopLogger(),
+  } as PipelineContext);
+
+  const graph = JSON.parse((await storage.read('videos/v1/versions/gv1/graph/graph.json')).toString()) as {
+    nodes: Array<{ id: string; clusterId?: string; clusterLabel?: string }>;
+    clusters: TopicCluster[];
+  };
+  return { graph, metrics: result.metrics, paths: result.paths };
+}
+
+describe('EmbeddingsGraphStep clustering', () => {
+  it('should store labelled clusters with the configured count', async () => {
+    const { graph, metrics } = await runStep(
+      new EmbeddingsGraphStep(
+        { clusteringAlgorithm: 'kmeans', numClusters: 2 },
+        new MockEmbeddingProvider()
+      )
+    );
+
+    expect(graph.clusters).toHaveLength(2);
+    expect(metrics.cluster_count).toBe(2);
+    expect(graph.clusters.reduce((sum, c) => sum + c.size, 0)).toBe(topics.length);
+
+    for (const node of graph.nodes) {
+      const cluster = graph.clusters.find((c) => c.id === node.clusterId);
+      expect(cluster).toBeDefined();
+      expect(node.clusterLabel).toBe(cluster!.label);
+    }
+  });
+
+  it('should leave HDBSCAN noise topics unclustered', async () => {
+    const { graph } = await runStep(
+      new EmbeddingsGraphStep(
+        { clusteringAlgorithm: 'hdbscan', minClusterSize: 10 },
+        new MockEmbeddingProvider()
+      )
+    );
+
+    expect(graph.clusters).toEqual([]);
+    expect(graph.nodes.every((n) => n.clusterId === undefined)).toBe(true);
+  });
+
+  it('should embed topics with the configured provider in batches', async () => {
+    const embedder = new MockEmbeddingProvider();
+    const storage = createMemoryStorage();
+    await runStep(new EmbeddingsGraphStep({ embeddingBatchSize: 2 }, embedder), storage);
+
+    // Five topics, then three transcript segments
+    expect(embedder.calls.map((batch) => batch.length)).toEqual([2, 2, 1, 2, 1]);
+    const stored = JSON.parse(
+      (await storage.read('videos/v1/versions/gv1/embeddings/embeddings.json')).toString()
+    ) as Array<{ id: string; embedding: number[] }>;
+    const expected = await embedder.embed([
+      `${topics[0].title}. ${topics[0].summary}. Keywords: ${topics[0].keywords.join(', ')}`,
+    ]);
+    expect(stored[0]).toEqual({ id: 't0', embedding: expected[0] });
+  });
+
+  it('should embed transcript segments with the topic model', async () => {
+    const embedder = new MockEmbeddingProvider();
+    const storage = createMemoryStorage();
+    const result = await runStep(new EmbeddingsGraphStep({}, embedder), storage);
+
+    const stored = JSON.parse(
+      (await storage.read('videos/v1/versions/gv1/embeddings/segment_embeddings.json')).toString()
+    ) as Array<{ id: string; embedding: number[] }>;
+    const expected = await embedder.embed(transcript.map((segment) => segment.text));
+    expect(stored.map((s) => s.id)).toEqual(transcript.map((segment) => segment.id));
+    stored.forEach(({ embedding }, i) => {
+      embedding.forEach((value, j) => expect(value).toBeCloseTo(expected[i][j]));
+    });
+    expect(result.paths.segment_embeddings).toBe('videos/v1/versions/gv1/embeddings/segment_embeddings.json');
+  });
+});
@@ -2,7 +2,7 @@
  * Embeddings and Graph Construction Step
  * 
  * Handles:
- * - Topic embedding generation
+ * - Topic and transcript segment embedding generation
  * - Edge construction (semantic, hierarchy, sequence, reference)
  * - Edge pruning
  * - Graph metrics computation
@@ -10,17 +10,29 @@
  */
 
 import { BasePipelineStep } from '../core';
+import { getGraphVersionDir } from '../checkpoint';
+import { clusterVectors, labelClusters, NOISE, type ClusterLabel } from '../clustering';
+import { createEmbeddingProvider } from '../llm/factory';
+import type { EmbeddingProvider } from '../llm/types';
 import type {
   ArtifactManifest,
+  EmbeddingModelConfig,
+  PipelineConfig,
   PipelineContext,
   ArtifactPaths,
 } from '@video-graph/shared-types';
 
 export interface EmbeddingsGraphStepConfig {
   /** Embedding model provider */
-  embeddingProvider: 'sentence-transformers' | 'ollama' | 'openai';
-  /** Embedding model name */
+  embeddingProvider: EmbeddingModelConfig['provider'];
+  /** Embedding model name; search embeds queries with the same model */
   embeddingModel: string;
+  /** Embedding server URL (Ollama host, or OpenAI-compatible base URL including `/v1`) */
+  embeddingBaseUrl?: string;
+  /** Bearer token for OpenAI-compatible embedding servers */
+  embeddingApiKey?: string;
+  /** Texts sent per embedding request */
+  embeddingBatchSize: number;
   /** Device for inference */
   device: 'cpu' | 'cuda' | 'mps';
   /** K for KNN semantic edges */
@@ -41,11 +53,15 @@ export interface EmbeddingsGraphStepConfig {
   numClusters: number;
   /** Clustering algorithm */
   clusteringAlgorithm: 'kmeans' | 'hdbscan' | 'spectral';
+  /** Smallest cluster HDBSCAN reports; smaller groups become unclustered */
+  minClusterSize: number;
 }
 
 export const defaultEmbeddingsGraphStepConfig: EmbeddingsGraphStepConfig = {
-  embeddingProvider: 'sentence-transformers',
-  embeddingModel: 'all-MiniLM-L6-v2',
+  embeddingProvider: 'ollama',
+  // Ollama's all-MiniLM-L6-v2: 384 dimensions, like the vector columns
+  embeddingModel: 'all-minilm',
+  embeddingBatchSize: 32,
   device: 'cpu',
   knnK: 5,
   similarityThreshold: 0.75,
@@ -56,8 +72,23 @@ export const defaultEmbeddingsGraphStepConfig: EmbeddingsGraphStepConfig = {
   enableClustering: true,
   numClusters: 0,
   clusteringAlgorithm: 'hdbscan',
+  minClusterSize: 3,
 };
 
+/**
+ * Graph step settings taken from a job's pipeline config. Only the
+ * semantic edge threshold can be chosen per job.
+ */
+export function embeddingsGraphStepConfigFromPipeline(
+  config: Partial<PipelineConfig>
+): Partial<EmbeddingsGraphStepConfig> {
+  const settings: Partial<EmbeddingsGraphStepConfig> = {};
+  if (config.edge_similarity_threshold !== undefined) {
+    settings.similarityThreshold = config.edge_similarity_threshold;
+  }
+  return settings;
+}
+
 /**
  * Graph edge structure
  */
@@ -87,6 +118,18 @@ export interface TopicWithEmbedding {
   embedding: number[];
   importanceScore: number;
   clusterId?: string;
+  /** Top keywords of the topic's cluster */
+  clusterLabel?: string;
+}
+
+/**
+ * Topic cluster in the graph artifact
+ */
+export interface TopicCluster {
+  id: string;
+  label: string;
+  keywords: string[];
+  size: number;
 }
 
 /**
@@ -109,13 +152,18 @@ export interface GraphMetrics {
  */
 export class EmbeddingsGraphStep extends BasePipelineStep {
   readonly name = 'embeddings-graph';
-  readonly version = '1.0.0';
+  readonly version = '1.2.0';
 
   private config: EmbeddingsGraphStepConfig;
+  private embedder?: EmbeddingProvider;
 
-  constructor(config: Partial<EmbeddingsGraphStepConfig> = {}) {
+  /**
+   * @param embedder - Overrides the provider selected by `config.embeddingProvider`
+   */
+  constructor(config: Partial<EmbeddingsGraphStepConfig> = {}, embedder?: EmbeddingProvider) {
     super();
     this.config = { ...defaultEmbeddingsGraphStepConfig, ...config };
+    this.embedder = embedder;
   }
 
   getRequiredInputs(): (keyof ArtifactPaths)[] {
@@ -160,6 +208,15 @@ export class EmbeddingsGraphStep extends BasePipelineStep {
     // Generate embeddings for topics
     const topicsWithEmbeddings = await this.generateEmbeddings(topics, context);
 
+    // Embed transcript segments with the same model, for segment search
+    const transcript = JSON.parse(
+      (await context.storage.read(transcriptPath)).toString()
+    ) as Array<{ id: string; text: string }>;
+    const segmentEmbeddings = await this.computeEmbeddings(
+      transcript.map((segment) => segment.text),
+      context
+    );
+
     context.onProgress?.(45, 'Building semantic edges');
 
     // Build semantic edges (KNN)
@@ -197,8 +254,9 @@ export class EmbeddingsGraphStep extends BasePipelineStep {
 
     // Cluster topics
     let clusteredTopics = topicsWithEmbeddings;
+    let clusters: TopicCluster[] = [];
     if (this.config.enableClustering) {
-      clusteredTopics = this.clusterTopics(topicsWithEmbeddings);
+      ({ topics: clusteredTopics, clusters } = this.clusterTopics(topicsWithEmbeddings, context));
     }
 
     context.onProgress?.(95, 'Computing graph metrics');
@@ -209,7 +267,7 @@ export class EmbeddingsGraphStep extends BasePipelineStep {
     context.onProgress?.(100, 'Embeddings and graph construction complete');
 
     // Save embeddings
-    const outputDir = `videos/${manifest.video_id}/embeddings`;
+    const outputDir = `${getGraphVersionDir(manifest.video_id, manifest.graph_version_id)}/embeddings`;
     const embeddingsPath = `${outputDir}/embeddings.json`;
     await context.storage.write(
       embeddingsPath,
@@ -223,7 +281,7 @@ export class EmbeddingsGraphStep extends BasePipelineStep {
     );
 
     // Save graph
-    const graphDir = `videos/${manifest.video_id}/graph`;
+    const graphDir = `${getGraphVersionDir(manifest.video_id, manifest.graph_version_id)}/graph`;
     const graphPath = `${graphDir}/graph.json`;
     await context.storage.write(
       graphPath,
@@ -242,8 +300,10 @@ export class EmbeddingsGraphStep extends BasePipelineStep {
               childIds: t.childIds,
               importanceScore: t.importanceScore,
               clusterId: t.clusterId,
+              clusterLabel: t.clusterLabel,
             })),
             edges,
+            clusters,
             metrics,
           },
           null,
@@ -252,14 +312,28 @@ export class EmbeddingsGraphStep extends BasePipelineStep {
       )
     );
 
+    const segmentEmbeddingsPath = `${outputDir}/segment_embeddings.json`;
+    await context.storage.write(
+      segmentEmbeddingsPath,
+      Buffer.from(
+        JSON.stringify(
+          transcript.map((segment, i) => ({ id: segment.id, embedding: segmentEmbeddings[i] })),
+          null,
+          2
+        )
+      )
+    );
+
     let updatedManifest = this.updateManifest(manifest, {
       embeddings: embeddingsPath,
+      segment_embeddings: segmentEmbeddingsPath,
       graph: graphPath,
     });
 
     // Update metrics
     updatedManifest = this.updateMetrics(updatedManifest, {
       edge_count: edges.length,
+      cluster_count: clusters.length,
     });
 
     return this.markStepCompleted(updatedManifest, this.name);
@@ -302,17 +376,27 @@ export class EmbeddingsGraphStep extends BasePipelineStep {
     texts: string[],
     context: PipelineContext
   ): Promise<number[][]> {
-    // Implementation would use sentence-transformers or similar
-    // from sentence_transformers import SentenceTransformer
-    // model = SentenceTransformer(model_name)
-    // embeddings = model.encode(texts)
-
-    // Placeholder: return random normalized embeddings
-    return texts.map(() => {
-      const vec = Array.from({ length: 384 }, () => Math.random() * 2 - 1);
-      const norm = Math.sqrt(vec.reduce((sum, x) => sum + x * x, 0));
-      return vec.map((x) => x / norm);
+    const embedder = this.getEmbedder();
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.config.embeddingBatchSize) {
+      const batch = texts.slice(i, i + this.config.embeddingBatchSize);
+      const vectors = await embedder.embed(batch, { abortSignal: context.abortSignal });
+      embeddings.push(...vectors.map((v) => this.normalize(v)));
+    }
+
+    return embeddings;
+  }
+
+  private getEmbedder(): EmbeddingProvider {
+    this.embedder ??= createEmbeddingProvider({
+      provider: this.config.embeddingProvider,
+      model: this.config.embeddingModel,
+      device: this.config.device,
+      baseUrl: this.config.embeddingBaseUrl,
+      apiKey: this.config.embeddingApiKey,
     });
+    return this.embedder;
   }
 
   private buildSemanticEdges(topics: TopicWithEmbedding[]): GraphEdge[] {
@@ -490,73 +574,48 @@ export class EmbeddingsGraphStep extends BasePipelineStep {
     return prunedEdges;
   }
 
-  private clusterTopics(topics: TopicWithEmbedding[]): TopicWithEmbedding[] {
+  /**
+   * Cluster topic embeddings and label each cluster with its most
+   * distinctive keywords. HDBSCAN noise topics stay unclustered.
+   */
+  private clusterTopics(
+    topics: TopicWithEmbedding[],
+    context: PipelineContext
+  ): { topics: TopicWithEmbedding[]; clusters: TopicCluster[] } {
     context.logger.info(
       `Clustering topics using ${this.config.clusteringAlgorithm}`
     );
 
-    // Implementation would use clustering algorithm
-    // For now, assign clusters based on level and similarity
-
-    const embeddings = topics.map((t) => t.embedding);
-    const clusterIds = this.performClustering(embeddings);
-
-    return topics.map((topic, i) => ({
-      ...topic,
-      clusterId: `cluster-${clusterIds[i]}`,
-    }));
-  }
-
-  private performClustering(embeddings: number[][]): number[] {
-    // Placeholder: simple greedy clustering
-    const clusters: number[][] = [];
-    const assignments: number[] = [];
-
-    for (let i = 0; i < embeddings.length; i++) {
-      let bestCluster = -1;
-      let bestSimilarity = 0;
-
-      for (let c = 0; c < clusters.length; c++) {
-        const centroid = this.computeCentroid(clusters[c].map((idx) => embeddings[idx]));
-        const similarity = this.cosineSimilarity(embeddings[i], centroid);
-
-        if (similarity > 0.7 && similarity > bestSimilarity) {
-          bestCluster = c;
-          bestSimilarity = similarity;
-        }
-      }
-
-      if (bestCluster === -1) {
-        bestCluster = clusters.length;
-        clusters.push([]);
+    const { labels, clusterCount } = clusterVectors(
+      topics.map((t) => t.embedding),
+      {
+        algorithm: this.config.clusteringAlgorithm,
+        numClusters: this.config.numClusters,
+        minClusterSize: this.config.minClusterSize,
       }
+    );
 
-      clusters[bestCluster].push(i);
-      assignments.push(bestCluster);
-    }
-
-    return assignments;
-  }
-
-  private computeCentroid(vectors: number[][]): number[] {
-    if (vectors.length === 0) {
-      return Array(384).fill(0);
-    }
-
-    const dim = vectors[0].length;
-    const centroid = Array(dim).fill(0);
-
-    for (const vec of vectors) {
-      for (let i = 0; i < dim; i++) {
-        centroid[i] += vec[i];
-      }
-    }
+    const clusters = labelClusters(
+      topics.map((t) => t.keywords),
+      labels
+    ).map(({ cluster, label, keywords, size }: ClusterLabel) => ({
+      id: `cluster-${cluster}`,
+      label,
+      keywords,
+      size,
+    }));
 
-    for (let i = 0; i < dim; i++) {
-      centroid[i] /= vectors.length;
-    }
+    context.logger.info(
+      `Found ${clusterCount} clusters (${labels.filter((l) => l === NOISE).length} unclustered topics)`
+    );
 
-    return centroid;
+    return {
+      topics: topics.map((topic, i) => {
+        const cluster = clusters.find((c) => c.id === `cluster-${labels[i]}`);
+        return { ...topic, clusterId: cluster?.id, clusterLabel: cluster?.label };
+      }),
+      clusters,
+    };
   }
 
   private computeMetrics(
@@ -610,6 +669,11 @@ export class EmbeddingsGraphStep extends BasePipelineStep {
 
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
+
+  private normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm === 0 ? vector : vector.map((x) => x / norm);
+  }
 }
 
 // Register the step
@@ -617,10 +681,10 @@ import { stepRegistry } from '../registry';
 
 stepRegistry.register(
   'embeddings-graph',
-  () => new EmbeddingsGraphStep(),
+  (config) => new EmbeddingsGraphStep(config && embeddingsGraphStepConfigFromPipeline(config)),
   {
     description: 'Generate embeddings and construct topic graph',
-    version: '1.0.0',
+    version: '1.2.0',
     author: 'Video Topic Graph Platform',
     tags: ['embeddings', 'graph', 'clustering', 'semantic', 'edges'],
     inputs: ['topics', 'transcript'],
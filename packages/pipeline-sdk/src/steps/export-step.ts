@@ -122,9 +122,11 @@ export class ExportStep extends BasePipelineStep {
       videoUrl: string;
       thumbnailUrl?: string;
     }> = [];
-    if (this.config.includeSnippets && manifest.paths.snippets) {
+    // The metadata sits next to the clips, which a reprocessed version may share with its parent
+    const [firstSnippet] = manifest.paths.snippets ?? [];
+    if (this.config.includeSnippets && firstSnippet) {
       const snippetsData = await context.storage.read(
-        `videos/${manifest.video_id}/snippets/snippets.json`
+        `${firstSnippet.slice(0, firstSnippet.lastIndexOf('/'))}/snippets.json`
       );
       snippets = JSON.parse(snippetsData.toString());
     }
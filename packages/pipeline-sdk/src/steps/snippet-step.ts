@@ -8,6 +8,7 @@
  */
 
 import { BasePipelineStep } from '../core';
+import { getGraphVersionDir } from '../checkpoint';
 import type {
   ArtifactManifest,
   PipelineContext,
@@ -232,7 +233,7 @@ export class SnippetStep extends BasePipelineStep {
     context.onProgress?.(100, 'Snippet generation complete');
 
     // Save snippet metadata
-    const outputDir = `videos/${manifest.video_id}/snippets`;
+    const outputDir = `${getGraphVersionDir(manifest.video_id, manifest.graph_version_id)}/snippets`;
     const snippetsMetaPath = `${outputDir}/snippets.json`;
     await context.storage.write(
       snippetsMetaPath,
@@ -271,7 +272,7 @@ export class SnippetStep extends BasePipelineStep {
     manifest: ArtifactManifest,
     context: PipelineContext
   ): Promise<string> {
-    const outputDir = `videos/${manifest.video_id}/snippets`;
+    const outputDir = `${getGraphVersionDir(manifest.video_id, manifest.graph_version_id)}/snippets`;
     const outputPath = `${outputDir}/${topicId}.${this.config.outputFormat}`;
 
     context.logger.info(`Generating video snippet: ${start}s - ${end}s`);
@@ -292,7 +293,7 @@ export class SnippetStep extends BasePipelineStep {
     manifest: ArtifactManifest,
     context: PipelineContext
   ): Promise<string> {
-    const outputDir = `videos/${manifest.video_id}/thumbnails`;
+    const outputDir = `${getGraphVersionDir(manifest.video_id, manifest.graph_version_id)}/thumbnails`;
     const outputPath = `${outputDir}/${topicId}.${this.config.thumbnailFormat}`;
 
     context.logger.info(`Generating thumbnail at ${timestamp}s`);
@@ -314,7 +315,7 @@ export class SnippetStep extends BasePipelineStep {
     manifest: ArtifactManifest,
     context: PipelineContext
   ): Promise<string> {
-    const outputDir = `videos/${manifest.video_id}/captions`;
+    const outputDir = `${getGraphVersionDir(manifest.video_id, manifest.graph_version_id)}/captions`;
     const outputPath = `${outputDir}/${topicId}.${this.config.captionFormat}`;
 
     context.logger.info(`Generating captions for ${topicId}`);
@@ -0,0 +1,89 @@
+/**
+ * Unit Tests - Topic Step LLM Summarization
+ *
+ * Runs TopicStep with the mock LLM provider.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { PipelineConfig, PipelineContext } from '@video-graph/shared-types';
+import { createEmptyManifest } from '../core';
+import { createMemoryStorage, createNoopLogger } from '../utils';
+import { MockLlmProvider } from '../llm/mock';
+import type { LlmMessage } from '../llm/types';
+import { TopicStep, type Topic } from './topic-step';
+
+const transcript = [
+  { id: 's1', start: 0, end: 10, text: 'Graphs are made of nodes connected by edges.' },
+  { id: 's2', start: 40, end: 50, text: 'Shortest path algorithms find cheap routes through graphs.' },
+];
+
+/** Echoes the first transcript word as the title, so replies are traceable */
+const respond = (messages: LlmMessage[]) => {
+  const text = messages[messages.length - 1].content.replace('Transcript:\n', '');
+  return { title: text.split(' ')[0], summary: `About ${text.slice(0, 20)}`, keywords: ['graphs'] };
+};
+
+async function runStep(step: TopicStep) {
+  const storage = createMemoryStorage();
+  await storage.write('videos/v1/transcripts/transcript.json', Buffer.from(JSON.stringify(transcript)));
+  const manifest = createEmptyManifest('v1', 'gv1', 'job-1', {} as PipelineConfig);
+  manifest.paths.transcript = 'videos/v1/transcripts/transcript.json';
+
+  await step.execute(manifest, {
+    jobId: 'job-1',
+    videoId: 'v1',
+    userId: 'u1',
+    storage,
+    config: {} as PipelineConfig,
+    logger: createNoopLogger(),
+  } as PipelineContext);
+
+  return JSON.parse((await storage.read('videos/v1/versions/gv1/topics/topics.json')).toString()) as Topic[];
+}
+
+describe('TopicStep (LLM)', () => {
+  it('should summarize topics with the LLM and keep its keywords', async () => {
+    const llm = new MockLlmProvider({ respond });
+
+    const topics = await runStep(new TopicStep({ topicLevels: 1, maxSegmentDuration: 20 }, llm));
+
+    expect(topics.map((t) => t.title)).toEqual(['Graphs', 'Shortest']);
+    expect(topics[0].summary).toBe('About Graphs are made of n');
+    expect(topics[0].keywords).toEqual(['graphs']);
+    expect(llm.calls[0].options).toMatchObject({ json: true, maxTokens: 512, temperature: 0.2 });
+  });
+
+  it('should fall back to frequency keywords when the LLM gives none', async () => {
+    const llm = new MockLlmProvider({
+      respond: () => ({ title: 'Routes', summary: 'Routing through routing networks' }),
+    });
+
+    const topics = await runStep(new TopicStep({ topicLevels: 1 }, llm));
+
+    expect(topics[0].keywords).toEqual(['routing', 'through', 'networks']);
+  });
+
+  it('should trim long transcripts to the context window', async () => {
+    const llm = new MockLlmProvider({ respond });
+    const step = new TopicStep({ topicLevels: 1, llmContextWindow: 300, llmMaxTokens: 100 }, llm);
+    transcript[0].text = 'word '.repeat(2000);
+
+    try {
+      await runStep(step);
+    } finally {
+      transcript[0].text = 'Graphs are made of nodes connected by edges.';
+    }
+
+    const prompt = llm.calls[0].messages[1].content;
+    expect(prompt.length).toBeLessThan(300 * 4);
+    expect(prompt).toContain('[...]');
+  });
+
+  it('should fail the step when the LLM keeps returning malformed output', async () => {
+    const llm = new MockLlmProvider({ respond: () => 'not json' });
+
+    await expect(runStep(new TopicStep({ topicLevels: 1, llmMaxAttempts: 2 }, llm))).rejects.toThrow(
+      'LLM output failed validation after 2 attempts'
+    );
+  });
+});
@@ -8,20 +8,44 @@
  * - Keyword extraction
  */
 
+import { z } from 'zod';
 import { BasePipelineStep } from '../core';
+import { getGraphVersionDir } from '../checkpoint';
+import { detectBoundaries, groupSegments } from '../segmentation';
+import { createLlmProvider } from '../llm/factory';
+import { completeJson } from '../llm/structured';
+import { estimateTokens, fitToTokenBudget } from '../llm/tokens';
+import type { LlmMessage, LlmProvider } from '../llm/types';
 import type {
   ArtifactManifest,
+  PipelineConfig,
   PipelineContext,
   ArtifactPaths,
 } from '@video-graph/shared-types';
 
 export interface TopicStepConfig {
   /** LLM provider for summarization */
-  llmProvider: 'llama-cpp' | 'vllm' | 'ollama' | 'transformers';
+  llmProvider: 'llama-cpp' | 'vllm' | 'ollama' | 'openai-compatible' | 'transformers';
   /** LLM model name */
   llmModel: string;
+  /** LLM server URL (Ollama host, or OpenAI-compatible base URL including `/v1`) */
+  llmBaseUrl?: string;
+  /** API key for OpenAI-compatible servers */
+  llmApiKey?: string;
+  /** Model context window in tokens; transcripts are trimmed to fit */
+  llmContextWindow: number;
+  /** Maximum tokens generated per summary */
+  llmMaxTokens: number;
+  /** Sampling temperature for summaries */
+  llmTemperature: number;
+  /** Attempts per topic before malformed LLM output fails the step */
+  llmMaxAttempts: number;
   /** Embedding model for segmentation */
   embeddingModel: string;
+  /** Boundary detection: lexical TextTiling or sentence-embedding change points */
+  segmentationMethod: 'texttiling' | 'embedding';
+  /** Transcript segments compared on each side of a candidate boundary */
+  segmentationWindow: number;
   /** Number of hierarchy levels */
   topicLevels: number;
   /** Similarity threshold for merging (0-1) */
@@ -45,7 +69,13 @@ export interface TopicStepConfig {
 export const defaultTopicStepConfig: TopicStepConfig = {
   llmProvider: 'ollama',
   llmModel: 'mistral',
+  llmContextWindow: 4096,
+  llmMaxTokens: 512,
+  llmTemperature: 0.2,
+  llmMaxAttempts: 3,
   embeddingModel: 'all-MiniLM-L6-v2',
+  segmentationMethod: 'texttiling',
+  segmentationWindow: 4,
   topicLevels: 3,
   mergeThreshold: 0.85,
   minSegmentDuration: 5,
@@ -59,6 +89,40 @@ export const defaultTopicStepConfig: TopicStepConfig = {
   },
 };
 
+/**
+ * Topic step settings taken from a job's pipeline config; settings the
+ * config leaves out keep the step defaults
+ */
+export function topicStepConfigFromPipeline(
+  config: Partial<PipelineConfig>
+): Partial<TopicStepConfig> {
+  const settings: Partial<TopicStepConfig> = {};
+  if (config.llm_model !== undefined) settings.llmModel = config.llm_model;
+  if (config.topic_levels !== undefined) settings.topicLevels = config.topic_levels;
+  if (config.topic_merge_threshold !== undefined) {
+    settings.mergeThreshold = config.topic_merge_threshold;
+  }
+  if (config.min_segment_duration_s !== undefined) {
+    settings.minSegmentDuration = config.min_segment_duration_s;
+  }
+  if (config.max_segment_duration_s !== undefined) {
+    settings.maxSegmentDuration = config.max_segment_duration_s;
+  }
+  if (
+    config.importance_centrality_weight !== undefined ||
+    config.importance_duration_weight !== undefined ||
+    config.importance_novelty_weight !== undefined
+  ) {
+    const weights = defaultTopicStepConfig.importanceWeights;
+    settings.importanceWeights = {
+      centrality: config.importance_centrality_weight ?? weights.centrality,
+      duration: config.importance_duration_weight ?? weights.duration,
+      novelty: config.importance_novelty_weight ?? weights.novelty,
+    };
+  }
+  return settings;
+}
+
 /**
  * Topic node structure
  */
@@ -85,22 +149,46 @@ export interface MicroSegment {
   start: number;
   end: number;
   text: string;
+  /** Mean embedding of the grouped transcript segments */
   embedding: number[];
   pauseAfter: number;
+  transcriptSegmentIds: string[];
 }
 
+/**
+ * Shape of the LLM reply for a topic summary
+ */
+const topicSummarySchema = z.object({
+  title: z.string().trim().min(1).max(120),
+  summary: z.string().trim().min(1),
+  keywords: z.array(z.string().trim().min(1)).max(10).default([]),
+});
+
+const SUMMARY_SYSTEM_PROMPT =
+  'You summarize sections of a video transcript. Reply with a JSON object ' +
+  'with keys "title" (at most 8 words), "summary" (2-3 sentences) and ' +
+  '"keywords" (up to 5 short key phrases), and nothing else.';
+
+/** Tokens reserved for chat formatting around the prompt */
+const PROMPT_OVERHEAD_TOKENS = 64;
+
 /**
  * Topic segmentation pipeline step
  */
 export class TopicStep extends BasePipelineStep {
   readonly name = 'topic';
-  readonly version = '1.0.0';
+  readonly version = '1.2.0';
 
   private config: TopicStepConfig;
+  private llm?: LlmProvider;
 
-  constructor(config: Partial<TopicStepConfig> = {}) {
+  /**
+   * @param llm - Overrides the provider selected by `config.llmProvider`
+   */
+  constructor(config: Partial<TopicStepConfig> = {}, llm?: LlmProvider) {
     super();
     this.config = { ...defaultTopicStepConfig, ...config };
+    this.llm = llm;
   }
 
   getRequiredInputs(): (keyof ArtifactPaths)[] {
@@ -161,12 +249,12 @@ export class TopicStep extends BasePipelineStep {
     context.onProgress?.(95, 'Computing importance scores');
 
     // Compute importance scores
-    const finalTopics = this.computeImportance(topicsWithKeywords);
+    const finalTopics = this.computeImportance(topicsWithKeywords, context);
 
     context.onProgress?.(100, 'Topic segmentation complete');
 
     // Save topics
-    const outputDir = `videos/${manifest.video_id}/topics`;
+    const outputDir = `${getGraphVersionDir(manifest.video_id, manifest.graph_version_id)}/topics`;
     const topicsPath = `${outputDir}/topics.json`;
     await context.storage.write(
       topicsPath,
@@ -186,57 +274,48 @@ export class TopicStep extends BasePipelineStep {
     return this.markStepCompleted(updatedManifest, this.name);
   }
 
+  /**
+   * Group adjacent transcript segments into micro-topics at detected
+   * topic boundaries
+   */
   private async createMicroSegments(
     segments: Array<{ id: string; start: number; end: number; text: string }>,
     context: PipelineContext
   ): Promise<MicroSegment[]> {
-    context.logger.info('Creating micro-segments');
+    context.logger.info(`Creating micro-segments (${this.config.segmentationMethod})`);
 
-    // Step 1: Compute embeddings for each segment
     const embeddings = await this.computeEmbeddings(
       segments.map((s) => s.text),
       context
     );
+    const inputs = segments.map((segment, i) => ({ ...segment, embedding: embeddings[i] }));
 
-    // Step 2: Detect boundaries using embedding similarity and pauses
-    const microSegments: MicroSegment[] = [];
-
-    for (let i = 0; i < segments.length; i++) {
-      const segment = segments[i];
-      const nextSegment = segments[i + 1];
-
-      // Calculate pause after this segment
-      const pauseAfter = nextSegment
-        ? nextSegment.start - segment.end
-        : 0;
-
-      // Calculate similarity with next segment
-      let similarity = 0;
-      if (nextSegment && embeddings[i] && embeddings[i + 1]) {
-        similarity = this.cosineSimilarity(embeddings[i], embeddings[i + 1]);
-      }
-
-      // Determine if this is a boundary
-      const isBoundary =
-        pauseAfter > 2 || // Pause > 2 seconds
-        similarity < 0.7 || // Low similarity
-        !nextSegment; // Last segment
-
-      microSegments.push({
-        id: segment.id,
-        start: segment.start,
-        end: segment.end,
-        text: segment.text,
-        embedding: embeddings[i],
-        pauseAfter,
-      });
+    const boundaries = detectBoundaries(inputs, {
+      method: this.config.segmentationMethod,
+      windowSize: this.config.segmentationWindow,
+      minDuration: this.config.minSegmentDuration,
+      maxDuration: this.config.maxSegmentDuration,
+    });
+    const groups = groupSegments(inputs, boundaries);
 
-      if (isBoundary && nextSegment) {
-        // Start a new micro-segment group
-      }
-    }
+    context.logger.info(
+      `Grouped ${segments.length} transcript segments into ${groups.length} micro-segments`
+    );
 
-    return microSegments;
+    return groups.map((group, i) => {
+      const next = groups[i + 1];
+      const last = group[group.length - 1];
+
+      return {
+        id: `micro-${i + 1}`,
+        start: group[0].start,
+        end: last.end,
+        text: group.map((s) => s.text).join(' '),
+        embedding: meanVector(group.map((s) => s.embedding)),
+        pauseAfter: next ? Math.max(0, next[0].start - last.end) : 0,
+        transcriptSegmentIds: group.map((s) => s.id),
+      };
+    });
   }
 
   private async generateHierarchicalTopics(
@@ -261,7 +340,7 @@ export class TopicStep extends BasePipelineStep {
         keywords: [],
         parentIds: [],
         childIds: [],
-        transcriptSegmentIds: [seg.id],
+        transcriptSegmentIds: seg.transcriptSegmentIds,
         importanceScore: 0.5,
       });
     }
@@ -350,7 +429,8 @@ export class TopicStep extends BasePipelineStep {
     topics: Topic[],
     context: PipelineContext
   ): Promise<Topic[]> {
-    context.logger.info('Summarizing topics with LLM');
+    const llm = this.getLlm();
+    context.logger.info(`Summarizing topics with ${llm.name} model: ${llm.model}`);
 
     // Process in batches to avoid overwhelming the LLM
     const batchSize = 5;
@@ -359,7 +439,7 @@ export class TopicStep extends BasePipelineStep {
     for (let i = 0; i < topics.length; i += batchSize) {
       const batch = topics.slice(i, i + batchSize);
       const batchResults = await Promise.all(
-        batch.map((topic) => this.summarizeSingleTopic(topic, context))
+        batch.map((topic) => this.summarizeSingleTopic(llm, topic, context))
       );
       summarized.push(...batchResults);
       context.onProgress?.(
@@ -371,20 +451,51 @@ export class TopicStep extends BasePipelineStep {
     return summarized;
   }
 
+  private getLlm(): LlmProvider {
+    this.llm ??= createLlmProvider({
+      provider: this.config.llmProvider,
+      model: this.config.llmModel,
+      device: 'auto',
+      baseUrl: this.config.llmBaseUrl,
+      apiKey: this.config.llmApiKey,
+      contextWindow: this.config.llmContextWindow,
+    });
+    return this.llm;
+  }
+
+  /**
+   * Until summarized, a topic's summary holds its transcript text. Long
+   * transcripts are trimmed so prompt and reply fit the context window.
+   */
   private async summarizeSingleTopic(
+    llm: LlmProvider,
     topic: Topic,
     context: PipelineContext
   ): Promise<Topic> {
-    // Implementation would call LLM for summarization
-    // const prompt = `Summarize the following content in a title and brief summary:
-    // Content: ${topic.summary}
-    // Output format: {"title": "...", "summary": "..."}`;
+    const budget =
+      this.config.llmContextWindow -
+      this.config.llmMaxTokens -
+      estimateTokens(SUMMARY_SYSTEM_PROMPT) -
+      PROMPT_OVERHEAD_TOKENS;
+    const transcript = fitToTokenBudget(topic.summary, Math.max(budget, 0));
+
+    const messages: LlmMessage[] = [
+      { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+      { role: 'user', content: `Transcript:\n${transcript}` },
+    ];
+
+    const result = await completeJson(llm, messages, topicSummarySchema, {
+      maxTokens: this.config.llmMaxTokens,
+      temperature: this.config.llmTemperature,
+      maxAttempts: this.config.llmMaxAttempts,
+      abortSignal: context.abortSignal,
+    });
 
-    // Placeholder
     return {
       ...topic,
-      title: `Topic: ${topic.summary.slice(0, 30)}...`,
-      summary: topic.summary.slice(0, 200),
+      title: result.title,
+      summary: result.summary,
+      keywords: result.keywords.slice(0, 5),
     };
   }
 
@@ -395,7 +506,11 @@ export class TopicStep extends BasePipelineStep {
     context.logger.info('Extracting keywords');
 
     return topics.map((topic) => {
-      // Simple keyword extraction (TF-IDF or RAKE would be better)
+      if (topic.keywords.length > 0) {
+        return topic;
+      }
+
+      // Fall back to frequency counting when the LLM returned no keywords
       const words = topic.summary
         .toLowerCase()
         .split(/\s+/)
@@ -416,7 +531,7 @@ export class TopicStep extends BasePipelineStep {
     });
   }
 
-  private computeImportance(topics: Topic[]): Topic[] {
+  private computeImportance(topics: Topic[], context: PipelineContext): Topic[] {
     context.logger.info('Computing importance scores');
 
     return topics.map((topic) => {
@@ -502,18 +617,23 @@ export class TopicStep extends BasePipelineStep {
   }
 }
 
+function meanVector(vectors: number[][]): number[] {
+  const mean = new Array<number>(vectors[0]?.length ?? 0).fill(0);
+  for (const vector of vectors) {
+    vector.forEach((value, d) => (mean[d] += value / vectors.length));
+  }
+  return mean;
+}
+
 // Register the step
 import { stepRegistry } from '../registry';
 
-// Need to import context for logging
-import { context } from '../utils';
-
 stepRegistry.register(
   'topic',
-  () => new TopicStep(),
+  (config) => new TopicStep(config && topicStepConfigFromPipeline(config)),
   {
     description: 'Hierarchical topic segmentation and summarization',
-    version: '1.0.0',
+    version: '1.2.0',
     author: 'Video Topic Graph Platform',
     tags: ['topic', 'segmentation', 'llm', 'summarization', 'hierarchy'],
     inputs: ['transcript'],
@@ -0,0 +1,372 @@
+/**
+ * Unit Tests - Video Step ffmpeg Integration
+ *
+ * Runs VideoStep against fake ffmpeg/ffprobe scripts, and against the
+ * real binaries with tiny generated test-pattern clips when ffmpeg is
+ * installed.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type {
+  ArtifactManifest,
+  PipelineConfig,
+  PipelineContext,
+  StorageService,
+  VideoStepOutput,
+} from '@video-graph/shared-types';
+import { createEmptyManifest } from '../core';
+import { discardCheckpoint, saveManifestCheckpoint } from '../checkpoint';
+import { createMemoryStorage, createNoopLogger } from '../utils';
+import {
+  VideoStep,
+  buildNormalizeArgs,
+  buildAudioArgs,
+  buildYtDlpArgs,
+  parseYtDlpProgress,
+  defaultVideoStepConfig,
+} from './video-step';
+
+/**
+ * Fake ffmpeg: reports progress and writes the last argument as output
+ */
+const FAKE_FFMPEG = `#!/usr/bin/env node
+process.stdout.write('out_time_us=6000000\\nprogress=continue\\n');
+require('fs').writeFileSync(process.argv[process.argv.length - 1], 'encoded');
+process.stdout.write('out_time_us=12000000\\nprogress=end\\n');
+`;
+
+/**
+ * Fake ffprobe: omits the audio stream when FAKE_NO_AUDIO is set
+ */
+const FAKE_FFPROBE = `#!/usr/bin/env node
+const streams = [{ codec_type: 'video', width: 1280, height: 720, avg_frame_rate: '25/1' }];
+if (!process.env.FAKE_NO_AUDIO) streams.push({ codec_type: 'audio' });
+process.stdout.write(JSON.stringify({
+  streams,
+  format: { duration: '12.000000', format_name: 'mov,mp4,m4a,3gp,3g2,mj2' },
+}));
+`;
+
+/**
+ * Fake yt-dlp: reports progress and writes the URL to the `-o` path
+ */
+const FAKE_YT_DLP = `#!/usr/bin/env node
+const args = process.argv.slice(2);
+process.stdout.write('[download]  50.0% of 1.00MiB at 1.00MiB/s ETA 00:01\\n');
+require('fs').writeFileSync(args[args.indexOf('-o') + 1], args[args.length - 1]);
+process.stdout.write('[download] 100% of 1.00MiB in 00:01\\n');
+`;
+
+const hasFfmpeg = (() => {
+  try {
+    execFileSync('ffmpeg', ['-version'], { stdio: 'ignore' });
+    execFileSync('ffprobe', ['-version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+function createContext(
+  storage: StorageService,
+  payload: Record<string, unknown>,
+  progress: number[] = []
+): PipelineContext {
+  return {
+    jobId: 'job-1',
+    videoId: 'v1',
+    userId: 'u1',
+    storage,
+    config: {} as PipelineConfig,
+    logger: createNoopLogger(),
+    onProgress: (value) => progress.push(value),
+    payload,
+  } as PipelineContext;
+}
+
+const emptyManifest = (): ArtifactManifest =>
+  createEmptyManifest('v1', 'gv1', 'job-1', {} as PipelineConfig);
+
+describe('VideoStep', () => {
+  let dir: string;
+  let ffmpegPath: string;
+  let ffprobePath: string;
+  let ytDlpPath: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'video-step-'));
+    ffmpegPath = join(dir, 'ffmpeg');
+    ffprobePath = join(dir, 'ffprobe');
+    ytDlpPath = join(dir, 'yt-dlp');
+    await fs.writeFile(ffmpegPath, FAKE_FFMPEG, { mode: 0o755 });
+    await fs.writeFile(ffprobePath, FAKE_FFPROBE, { mode: 0o755 });
+    await fs.writeFile(ytDlpPath, FAKE_YT_DLP, { mode: 0o755 });
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should normalize an uploaded file and record its metadata', async () => {
+    const storage = createMemoryStorage();
+    await storage.write('uploads/u1/lecture.mov', Buffer.from('source'));
+    const progress: number[] = [];
+    const step = new VideoStep({ ffmpegPath, ffprobePath, workDir: dir });
+
+    const manifest = await step.execute(
+      emptyManifest(),
+      createContext(storage, { source_url: 'uploads/u1/lecture.mov', source_type: 'file' }, progress)
+    );
+
+    expect(manifest.paths).toEqual({
+      video_original: 'uploads/u1/lecture.mov',
+      video_normalized: 'videos/v1/processed/normalized.mp4',
+      audio_wav: 'videos/v1/audio/audio.wav',
+    });
+    expect(manifest.metrics.duration_s).toBe(12);
+    expect((await storage.read('videos/v1/processed/normalized.mp4')).toString()).toBe('encoded');
+    expect((await storage.read('videos/v1/audio/audio.wav')).toString()).toBe('encoded');
+
+    const metadata = JSON.parse(
+      (await storage.read('videos/v1/processed/metadata.json')).toString()
+    ) as VideoStepOutput;
+    expect(metadata).toEqual({
+      videoPath: 'videos/v1/processed/normalized.mp4',
+      audioPath: 'videos/v1/audio/audio.wav',
+      duration: 12,
+      format: 'mov,mp4,m4a,3gp,3g2,mj2',
+      resolution: { width: 1280, height: 720 },
+      fps: 25,
+    });
+
+    expect(progress).toContain(55);
+    expect(progress).toContain(80);
+    expect(progress[progress.length - 1]).toBe(100);
+    expect([...progress].sort((a, b) => a - b)).toEqual(progress);
+  });
+
+  it('should keep the uploaded file when a cancelled run is discarded', async () => {
+    const storage = createMemoryStorage();
+    await storage.write('uploads/u1/source', Buffer.from('source'));
+    const step = new VideoStep({ ffmpegPath, ffprobePath, workDir: dir });
+
+    const manifest = await step.execute(
+      emptyManifest(),
+      createContext(storage, { source_url: 'uploads/u1/source', source_type: 'file' })
+    );
+    await saveManifestCheckpoint(storage, manifest);
+    await discardCheckpoint(storage, 'v1', 'gv1');
+
+    expect(await storage.exists('videos/v1/processed/normalized.mp4')).toBe(false);
+    expect(await storage.exists('videos/v1/audio/audio.wav')).toBe(false);
+    expect((await storage.read('uploads/u1/source')).toString()).toBe('source');
+  });
+
+  it('should remove its scratch directory', async () => {
+    const storage = createMemoryStorage();
+    await storage.write('uploads/a.mp4', Buffer.from('source'));
+    const workDir = await fs.mkdtemp(join(dir, 'scratch-'));
+    const step = new VideoStep({ ffmpegPath, ffprobePath, workDir });
+
+    await step.execute(
+      emptyManifest(),
+      createContext(storage, { source_url: 'uploads/a.mp4', source_type: 'file' })
+    );
+
+    expect(await fs.readdir(workDir)).toEqual([]);
+  });
+
+  it('should reject sources without audio', async () => {
+    const storage = createMemoryStorage();
+    await storage.write('uploads/silent.mp4', Buffer.from('source'));
+    const step = new VideoStep({ ffmpegPath, ffprobePath, workDir: dir });
+
+    process.env.FAKE_NO_AUDIO = '1';
+    try {
+      await expect(
+        step.execute(
+          emptyManifest(),
+          createContext(storage, { source_url: 'uploads/silent.mp4', source_type: 'file' })
+        )
+      ).rejects.toThrow('Source has no audio stream');
+    } finally {
+      delete process.env.FAKE_NO_AUDIO;
+    }
+  });
+
+  it('should reject sources longer than the quota allows', async () => {
+    const storage = createMemoryStorage();
+    await storage.write('uploads/long.mp4', Buffer.from('source'));
+    const step = new VideoStep({ ffmpegPath, ffprobePath, workDir: dir });
+
+    await expect(
+      step.execute(
+        emptyManifest(),
+        createContext(storage, {
+          source_url: 'uploads/long.mp4',
+          source_type: 'file',
+          max_duration_s: 10,
+        })
+      )
+    ).rejects.toThrow('Video is 12s long, exceeding the 10s limit');
+    expect(await storage.exists('videos/v1/processed/normalized.mp4')).toBe(false);
+  });
+
+  it('should download YouTube sources with yt-dlp', async () => {
+    const storage = createMemoryStorage();
+    const progress: number[] = [];
+    const step = new VideoStep({ ffmpegPath, ffprobePath, ytDlpPath, workDir: dir });
+
+    const manifest = await step.execute(
+      emptyManifest(),
+      createContext(
+        storage,
+        { source_url: 'https://youtube.com/watch?v=x', source_type: 'youtube' },
+        progress
+      )
+    );
+
+    expect(manifest.paths.video_original).toBe('videos/v1/raw/original');
+    expect((await storage.read('videos/v1/raw/original')).toString()).toBe(
+      'https://youtube.com/watch?v=x'
+    );
+    expect(progress).toContain(25);
+  });
+});
+
+describe('buildNormalizeArgs', () => {
+  it('should scale down without upscaling and keep mp4 streamable', () => {
+    expect(buildNormalizeArgs(defaultVideoStepConfig, 'in', 'out.mp4')).toEqual([
+      '-y',
+      '-i', 'in',
+      '-vf', "scale=-2:'min(720,ih)'",
+      '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac', '-b:a', '128k',
+      '-movflags', '+faststart',
+      'out.mp4',
+    ]);
+  });
+
+  it('should apply frame rate and codec settings', () => {
+    const args = buildNormalizeArgs(
+      {
+        ...defaultVideoStepConfig,
+        outputFormat: 'webm',
+        videoCodec: 'vp9',
+        audioCodec: 'opus',
+        resolution: 'original',
+        fps: 30,
+      },
+      'in',
+      'out.webm'
+    );
+
+    expect(args).toEqual([
+      '-y',
+      '-i', 'in',
+      '-r', '30',
+      '-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0',
+      '-c:a', 'libopus', '-b:a', '96k',
+      'out.webm',
+    ]);
+  });
+});
+
+describe('buildYtDlpArgs', () => {
+  it('should download a single pre-merged file to the given path', () => {
+    expect(buildYtDlpArgs('https://vimeo.com/1', '/tmp/original')).toEqual([
+      '--no-playlist',
+      '--no-part',
+      '--newline',
+      '-f', 'best[height<=1080]/best',
+      '-o', '/tmp/original',
+      'https://vimeo.com/1',
+    ]);
+  });
+});
+
+describe('parseYtDlpProgress', () => {
+  it('should read the last download percentage', () => {
+    expect(parseYtDlpProgress('[download]  12.5% of 3MiB\n[download]  40.0% of 3MiB\n')).toBe(0.4);
+    expect(parseYtDlpProgress('[youtube] x: Downloading webpage\n')).toBeNull();
+  });
+});
+
+describe('buildAudioArgs', () => {
+  it('should extract mono PCM at the configured sample rate', () => {
+    expect(buildAudioArgs(defaultVideoStepConfig, 'in.mp4', 'out.wav')).toEqual([
+      '-y',
+      '-i', 'in.mp4',
+      '-vn',
+      '-acodec', 'pcm_s16le',
+      '-ar', '16000',
+      '-ac', '1',
+      'out.wav',
+    ]);
+  });
+});
+
+describe.skipIf(!hasFfmpeg)('VideoStep (ffmpeg)', () => {
+  let dir: string;
+  let storage: StorageService;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'video-step-real-'));
+    const clip = join(dir, 'clip.mp4');
+    execFileSync('ffmpeg', [
+      '-v', 'error',
+      '-f', 'lavfi', '-i', 'testsrc=size=320x240:rate=25:duration=1',
+      '-f', 'lavfi', '-i', 'sine=frequency=440:duration=1',
+      '-shortest', '-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-c:a', 'aac',
+      clip,
+    ]);
+    storage = createMemoryStorage();
+    await storage.write('uploads/clip.mp4', await fs.readFile(clip));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should normalize a test-pattern clip and extract 16 kHz mono audio', async () => {
+    const step = new VideoStep({ workDir: dir });
+
+    const manifest = await step.execute(
+      emptyManifest(),
+      createContext(storage, { source_url: 'uploads/clip.mp4', source_type: 'file' })
+    );
+
+    expect(manifest.metrics.duration_s).toBeCloseTo(1, 0);
+
+    const metadata = JSON.parse(
+      (await storage.read('videos/v1/processed/metadata.json')).toString()
+    ) as VideoStepOutput;
+    expect(metadata.resolution).toEqual({ width: 320, height: 240 });
+    expect(metadata.fps).toBe(25);
+    expect(metadata.format).toContain('mp4');
+
+    const wav = await storage.read('videos/v1/audio/audio.wav');
+    expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(wav.readUInt16LE(22)).toBe(1);
+    expect(wav.readUInt32LE(24)).toBe(16000);
+  });
+
+  it('should stop ffmpeg when aborted', async () => {
+    const controller = new AbortController();
+    const step = new VideoStep({ workDir: dir });
+    const context = createContext(storage, {
+      source_url: 'uploads/clip.mp4',
+      source_type: 'file',
+    });
+    context.abortSignal = controller.signal;
+    context.onProgress = (value) => {
+      if (value >= 40) controller.abort();
+    };
+
+    await expect(step.execute(emptyManifest(), context)).rejects.toThrow('aborted');
+  });
+});
@@ -1,6 +1,6 @@
 /**
  * Video Download and Normalization Step
- * 
+ *
  * Handles:
  * - Downloading videos from various sources (YouTube, Vimeo, direct URL)
  * - Normalizing to H.264/AAC format
@@ -9,11 +9,20 @@
  * - Optional scene detection
  */
 
+import { promises as fs, createWriteStream } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { BasePipelineStep } from '../core';
+import { runFfmpeg, probeMedia, type MediaProbe } from '../ffmpeg';
+import { runProcess } from '../process';
+import { copyToLocalFile, copyFromLocalFile } from '../utils';
 import type {
   ArtifactManifest,
   PipelineContext,
   ArtifactPaths,
+  VideoStepOutput,
 } from '@video-graph/shared-types';
 
 export interface VideoStepConfig {
@@ -33,6 +42,14 @@ export interface VideoStepConfig {
   enableSceneDetection: boolean;
   /** Scene detection threshold */
   sceneThreshold: number;
+  /** Directory for intermediate files (defaults to the OS temp directory) */
+  workDir?: string;
+  /** ffmpeg binary (defaults to FFMPEG_PATH or `ffmpeg`) */
+  ffmpegPath?: string;
+  /** ffprobe binary (defaults to FFPROBE_PATH or `ffprobe`) */
+  ffprobePath?: string;
+  /** yt-dlp binary for YouTube and Vimeo sources (defaults to YT_DLP_PATH or `yt-dlp`) */
+  ytDlpPath?: string;
 }
 
 export const defaultVideoStepConfig: VideoStepConfig = {
@@ -46,12 +63,101 @@ export const defaultVideoStepConfig: VideoStepConfig = {
   sceneThreshold: 0.3,
 };
 
+const RESOLUTION_HEIGHTS: Record<Exclude<VideoStepConfig['resolution'], 'original'>, number> = {
+  '480p': 480,
+  '720p': 720,
+  '1080p': 1080,
+};
+
+const VIDEO_CODEC_ARGS: Record<VideoStepConfig['videoCodec'], string[]> = {
+  libx264: ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p'],
+  libx265: ['-c:v', 'libx265', '-preset', 'fast', '-crf', '28', '-pix_fmt', 'yuv420p'],
+  vp9: ['-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0'],
+};
+
+const AUDIO_CODEC_ARGS: Record<VideoStepConfig['audioCodec'], string[]> = {
+  aac: ['-c:a', 'aac', '-b:a', '128k'],
+  opus: ['-c:a', 'libopus', '-b:a', '96k'],
+  mp3: ['-c:a', 'libmp3lame', '-b:a', '128k'],
+};
+
+/**
+ * Build ffmpeg arguments for normalizing a video
+ */
+export function buildNormalizeArgs(
+  config: VideoStepConfig,
+  inputFile: string,
+  outputFile: string
+): string[] {
+  const filters: string[] = [];
+  if (config.resolution !== 'original') {
+    // Never upscale; -2 keeps the width even, as the encoders require
+    filters.push(`scale=-2:'min(${RESOLUTION_HEIGHTS[config.resolution]},ih)'`);
+  }
+
+  return [
+    '-y',
+    '-i', inputFile,
+    ...(filters.length > 0 ? ['-vf', filters.join(',')] : []),
+    ...(config.fps !== 'original' ? ['-r', String(config.fps)] : []),
+    ...VIDEO_CODEC_ARGS[config.videoCodec],
+    ...AUDIO_CODEC_ARGS[config.audioCodec],
+    ...(config.outputFormat === 'mp4' ? ['-movflags', '+faststart'] : []),
+    outputFile,
+  ];
+}
+
+/**
+ * Build yt-dlp arguments for downloading a single video to `outputFile`.
+ * Pre-merged formats are preferred, so yt-dlp writes one file at exactly
+ * that path without needing ffmpeg to mux streams.
+ */
+export function buildYtDlpArgs(sourceUrl: string, outputFile: string): string[] {
+  return [
+    '--no-playlist',
+    '--no-part',
+    '--newline',
+    '-f', 'best[height<=1080]/best',
+    '-o', outputFile,
+    sourceUrl,
+  ];
+}
+
+/**
+ * Parse the last download percentage from yt-dlp's progress lines
+ * (`[download]  42.3% of ...`), as a fraction in [0, 1]
+ */
+export function parseYtDlpProgress(output: string): number | null {
+  const matches = [...output.matchAll(/\[download\]\s+(\d+(?:\.\d+)?)%/g)];
+  if (matches.length === 0) return null;
+  return Math.min(1, Number(matches[matches.length - 1][1]) / 100);
+}
+
+/**
+ * Build ffmpeg arguments for extracting mono 16-bit PCM audio
+ */
+export function buildAudioArgs(
+  config: VideoStepConfig,
+  inputFile: string,
+  outputFile: string
+): string[] {
+  return [
+    '-y',
+    '-i', inputFile,
+    '-vn',
+    '-acodec', 'pcm_s16le',
+    '-ar', String(config.audioSampleRate),
+    '-ac', '1',
+    outputFile,
+  ];
+}
+
 /**
  * Video download and normalization step
  */
 export class VideoStep extends BasePipelineStep {
   readonly name = 'video';
-  readonly version = '1.0.0';
+  readonly version = '1.1.0';
 
   private config: VideoStepConfig;
 
@@ -81,105 +187,172 @@ export class VideoStep extends BasePipelineStep {
     manifest: ArtifactManifest,
     context: PipelineContext
   ): Promise<ArtifactManifest> {
-    const { source_url, source_type } = context.payload as {
+    const { source_url, source_type, max_duration_s } = context.payload as {
       source_url: string;
       source_type: string;
+      max_duration_s?: number;
     };
 
     context.logger.info(`Processing video from ${source_type}: ${source_url}`);
     context.onProgress?.(10, 'Downloading video');
 
-    // Step 1: Download video
-    const videoOriginalPath = await this.downloadVideo(
-      source_url,
-      source_type,
-      manifest,
-      context
+    // ffmpeg works on local files, so artifacts are staged in a scratch directory
+    const workDir = await fs.mkdtemp(
+      join(this.config.workDir ?? tmpdir(), `video-${manifest.video_id}-`)
     );
 
-    context.onProgress?.(40, 'Normalizing video');
-
-    // Step 2: Normalize video
-    const videoNormalizedPath = await this.normalizeVideo(
-      videoOriginalPath,
-      manifest,
-      context
-    );
-
-    context.onProgress?.(70, 'Extracting audio');
-
-    // Step 3: Extract audio
-    const audioWavPath = await this.extractAudio(
-      videoNormalizedPath,
-      manifest,
-      context
-    );
-
-    // Step 4: Optional scene detection
-    let scenesPath: string | undefined;
-    if (this.config.enableSceneDetection) {
-      context.onProgress?.(90, 'Detecting scenes');
-      scenesPath = await this.detectScenes(videoNormalizedPath, manifest, context);
-    }
+    try {
+      const originalFile = join(workDir, 'original');
+
+      // Step 1: Download video
+      const videoOriginalPath = await this.downloadVideo(
+        source_url,
+        source_type,
+        manifest,
+        context,
+        originalFile
+      );
+
+      const source = await this.probeVideo(originalFile, context);
+      if (!source.hasVideo) {
+        throw new Error('Source has no video stream');
+      }
+      if (!source.hasAudio) {
+        throw new Error('Source has no audio stream');
+      }
+      // Quotas can only be checked against the real duration once probed
+      if (max_duration_s && source.duration > max_duration_s) {
+        throw new Error(
+          `Video is ${Math.round(source.duration)}s long, exceeding the ${max_duration_s}s limit`
+        );
+      }
+
+      context.onProgress?.(40, 'Normalizing video');
+
+      // Step 2: Normalize video
+      const normalizedFile = join(workDir, `normalized.${this.config.outputFormat}`);
+      const videoNormalizedPath = await this.normalizeVideo(
+        originalFile,
+        normalizedFile,
+        source.duration,
+        manifest,
+        context
+      );
+
+      context.onProgress?.(70, 'Extracting audio');
+
+      // Step 3: Extract audio
+      const audioWavPath = await this.extractAudio(
+        normalizedFile,
+        join(workDir, 'audio.wav'),
+        source.duration,
+        manifest,
+        context
+      );
+
+      // Step 4: Optional scene detection
+      let scenesPath: string | undefined;
+      if (this.config.enableSceneDetection) {
+        context.onProgress?.(90, 'Detecting scenes');
+        scenesPath = await this.detectScenes(videoNormalizedPath, manifest, context);
+      }
+
+      // Step 5: Record metadata of the normalized video
+      const probe = await this.probeVideo(normalizedFile, context);
+      const output: VideoStepOutput = {
+        videoPath: videoNormalizedPath,
+        audioPath: audioWavPath,
+        duration: probe.duration,
+        format: probe.format,
+        resolution: probe.resolution,
+        fps: probe.fps,
+      };
+      await context.storage.write(
+        `videos/${manifest.video_id}/processed/metadata.json`,
+        Buffer.from(JSON.stringify(output, null, 2))
+      );
+
+      context.onProgress?.(100, 'Video processing complete');
+
+      // Update manifest
+      let updatedManifest = this.updateManifest(manifest, {
+        video_original: videoOriginalPath,
+        video_normalized: videoNormalizedPath,
+        audio_wav: audioWavPath,
+      });
 
-    context.onProgress?.(100, 'Video processing complete');
+      if (scenesPath) {
+        updatedManifest = this.updateManifest(updatedManifest, {
+          scenes: scenesPath,
+        });
+      }
 
-    // Update manifest
-    let updatedManifest = this.updateManifest(manifest, {
-      video_original: videoOriginalPath,
-      video_normalized: videoNormalizedPath,
-      audio_wav: audioWavPath,
-    });
+      updatedManifest = this.updateMetrics(updatedManifest, { duration_s: probe.duration });
 
-    if (scenesPath) {
-      updatedManifest = this.updateManifest(updatedManifest, {
-        scenes: scenesPath,
-      });
+      return this.markStepCompleted(updatedManifest, this.name);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
     }
-
-    // Get video duration
-    const duration = await this.getVideoDuration(videoNormalizedPath, context);
-    updatedManifest = this.updateMetrics(updatedManifest, { duration_s: duration });
-
-    return this.markStepCompleted(updatedManifest, this.name);
   }
 
+  /**
+   * Fetch the source into `localFile` and return its storage path
+   */
   private async downloadVideo(
     sourceUrl: string,
     sourceType: string,
     manifest: ArtifactManifest,
-    context: PipelineContext
+    context: PipelineContext,
+    localFile: string
   ): Promise<string> {
     const outputDir = `videos/${manifest.video_id}/raw`;
     const outputPath = `${outputDir}/original`;
 
     context.logger.info(`Downloading from ${sourceType}: ${sourceUrl}`);
 
-    // Implementation would use yt-dlp for YouTube, direct download for others
-    // This is a placeholder for the actual implementation
     switch (sourceType) {
       case 'youtube':
-        // await downloadWithYtDlp(sourceUrl, outputPath);
-        break;
       case 'vimeo':
-        // await downloadWithYtDlp(sourceUrl, outputPath);
-        break;
-      case 'direct':
+        await runProcess(
+          this.config.ytDlpPath ?? process.env.YT_DLP_PATH ?? 'yt-dlp',
+          buildYtDlpArgs(sourceUrl, localFile),
+          {
+            abortSignal: context.abortSignal,
+            onStdout: (chunk) => {
+              const fraction = parseYtDlpProgress(chunk);
+              if (fraction !== null) {
+                context.onProgress?.(10 + Math.floor(fraction * 30), 'Downloading video');
+              }
+            },
+          }
+        );
+        await copyFromLocalFile(context.storage, localFile, outputPath);
+        return outputPath;
+      case 'direct': {
+        const response = await fetch(sourceUrl, { signal: context.abortSignal });
+        if (!response.ok || !response.body) {
+          throw new Error(`Download failed with HTTP ${response.status}: ${sourceUrl}`);
+        }
+        await pipeline(
+          Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]),
+          createWriteStream(localFile)
+        );
+        await copyFromLocalFile(context.storage, localFile, outputPath);
+        return outputPath;
+      }
       case 'file':
-        // await downloadWithHttp(sourceUrl, outputPath);
-        break;
+        // Uploaded files already live in storage; the source URL is their path
+        await copyToLocalFile(context.storage, sourceUrl, localFile);
+        return sourceUrl;
       default:
         throw new Error(`Unsupported source type: ${sourceType}`);
     }
-
-    // Placeholder: In real implementation, write to storage
-    await context.storage.write(outputPath, Buffer.from(''));
-
-    return outputPath;
   }
 
   private async normalizeVideo(
-    inputPath: string,
+    inputFile: string,
+    outputFile: string,
+    durationS: number,
     manifest: ArtifactManifest,
     context: PipelineContext
   ): Promise<string> {
@@ -188,17 +361,23 @@ export class VideoStep extends BasePipelineStep {
 
     context.logger.info(`Normalizing video to ${this.config.resolution}`);
 
-    // Implementation would use ffmpeg
-    // ffmpeg -i input -c:v libx264 -c:a aac -movflags +faststart output.mp4
+    await runFfmpeg(buildNormalizeArgs(this.config, inputFile, outputFile), {
+      ffmpegPath: this.config.ffmpegPath,
+      durationS,
+      abortSignal: context.abortSignal,
+      onProgress: (fraction) =>
+        context.onProgress?.(40 + Math.floor(fraction * 30), 'Normalizing video'),
+    });
 
-    // Placeholder
-    await context.storage.write(outputPath, Buffer.from(''));
+    await copyFromLocalFile(context.storage, outputFile, outputPath);
 
     return outputPath;
   }
 
   private async extractAudio(
-    videoPath: string,
+    inputFile: string,
+    outputFile: string,
+    durationS: number,
     manifest: ArtifactManifest,
     context: PipelineContext
   ): Promise<string> {
@@ -207,11 +386,15 @@ export class VideoStep extends BasePipelineStep {
 
     context.logger.info('Extracting audio to WAV');
 
-    // Implementation would use ffmpeg
-    // ffmpeg -i input -vn -acodec pcm_s16le -ar 16000 -ac 1 output.wav
+    await runFfmpeg(buildAudioArgs(this.config, inputFile, outputFile), {
+      ffmpegPath: this.config.ffmpegPath,
+      durationS,
+      abortSignal: context.abortSignal,
+      onProgress: (fraction) =>
+        context.onProgress?.(70 + Math.floor(fraction * 20), 'Extracting audio'),
+    });
 
-    // Placeholder
-    await context.storage.write(outputPath, Buffer.from(''));
+    await copyFromLocalFile(context.storage, outputFile, outputPath);
 
     return outputPath;
   }
@@ -243,15 +426,14 @@ export class VideoStep extends BasePipelineStep {
     return outputPath;
   }
 
-  private async getVideoDuration(
-    videoPath: string,
+  private async probeVideo(
+    localFile: string,
     context: PipelineContext
-  ): Promise<number> {
-    // Implementation would use ffprobe
-    // ffprobe -v error -show_entries format=duration -of json input
-
-    // Placeholder
-    return 300; // 5 minutes
+  ): Promise<MediaProbe> {
+    return probeMedia(localFile, {
+      ffprobePath: this.config.ffprobePath,
+      abortSignal: context.abortSignal,
+    });
   }
 }
 
@@ -263,7 +445,7 @@ stepRegistry.register(
   () => new VideoStep(),
   {
     description: 'Download and normalize video files',
-    version: '1.0.0',
+    version: '1.1.0',
     author: 'Video Topic Graph Platform',
     tags: ['video', 'download', 'normalize', 'ffmpeg'],
     inputs: ['source_url'],
@@ -0,0 +1,25 @@
+/**
+ * Storage Service Factory
+ */
+
+import type { StorageConfig, StreamingStorageService } from '@video-graph/shared-types';
+import { ObjectStorageService, type ObjectStorageOptions } from './object-storage';
+import { createFilesystemStorage } from './filesystem-storage';
+
+/**
+ * Create a storage service for the configured provider
+ */
+export function createStorageService(
+  config: StorageConfig,
+  options: ObjectStorageOptions = {}
+): StreamingStorageService {
+  switch (config.provider) {
+    case 'minio':
+    case 's3':
+      return new ObjectStorageService(config, options);
+    case 'filesystem':
+      return createFilesystemStorage(config);
+    default:
+      throw new Error(`Unsupported storage provider: ${config.provider}`);
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Unit Tests - Filesystem Storage Service
+ *
+ * Tests for content-addressed storage, the path index and garbage collection.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { createHash } from 'crypto';
+import type { ArtifactManifest } from '@video-graph/shared-types';
+import { FilesystemStorageService, manifestArtifactPaths } from './filesystem-storage';
+import { createStorageService } from './factory';
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+
+async function countBlobs(root: string): Promise<number> {
+  let count = 0;
+  const shards = await fs.readdir(join(root, 'blobs')).catch(() => [] as string[]);
+  for (const shard of shards) {
+    count += (await fs.readdir(join(root, 'blobs', shard))).length;
+  }
+  return count;
+}
+
+function createManifest(videoId: string, paths: ArtifactManifest['paths']): ArtifactManifest {
+  const now = new Date().toISOString();
+  return {
+    video_id: videoId,
+    graph_version_id: 'gv-1',
+    job_id: 'job-1',
+    paths,
+    metrics: {},
+    config_snapshot: {} as ArtifactManifest['config_snapshot'],
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+describe('FilesystemStorageService', () => {
+  let root: string;
+  let storage: FilesystemStorageService;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(join(tmpdir(), 'fs-storage-'));
+    storage = new FilesystemStorageService(root);
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should round-trip buffers', async () => {
+    await storage.write('videos/v1/transcript.json', Buffer.from('{"segments":[]}'));
+
+    expect((await storage.read('videos/v1/transcript.json')).toString()).toBe(
+      '{"segments":[]}'
+    );
+    expect(await storage.hashOf('videos/v1/transcript.json')).toBe(sha256('{"segments":[]}'));
+  });
+
+  it('should store identical content once', async () => {
+    await storage.write('videos/v1/original.mp4', Buffer.from('video bytes'));
+    await storage.write('videos/v1/normalized.mp4', Buffer.from('video bytes'));
+    await storage.writeStream(
+      'videos/v2/original.mp4',
+      Readable.from([Buffer.from('video '), Buffer.from('bytes')])
+    );
+
+    expect(await countBlobs(root)).toBe(1);
+    expect((await storage.read('videos/v2/original.mp4')).toString()).toBe('video bytes');
+  });
+
+  it('should not store new bytes when a step is re-run on the same source', async () => {
+    await storage.write('videos/v1/snippets/t1.mp4', Buffer.from('clip'));
+    await storage.write('videos/v1/snippets/t1.mp4', Buffer.from('clip'));
+
+    expect(await countBlobs(root)).toBe(1);
+    expect(await fs.readdir(join(root, 'tmp'))).toEqual([]);
+  });
+
+  it('should stream reads', async () => {
+    await storage.write('videos/v1/audio.wav', Buffer.from('wav data'));
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.readStream('videos/v1/audio.wav')) {
+      chunks.push(chunk as Buffer);
+    }
+    expect(Buffer.concat(chunks).toString()).toBe('wav data');
+  });
+
+  it('should report existence and delete index entries', async () => {
+    await storage.write('videos/v1/topics.json', Buffer.from('[]'));
+    expect(await storage.exists('videos/v1/topics.json')).toBe(true);
+
+    await storage.delete('videos/v1/topics.json');
+    expect(await storage.exists('videos/v1/topics.json')).toBe(false);
+    await expect(storage.read('videos/v1/topics.json')).rejects.toThrow(
+      'File not found: videos/v1/topics.json'
+    );
+  });
+
+  it('should list paths under a prefix', async () => {
+    await storage.write('videos/v1/a.json', Buffer.from('a'));
+    await storage.write('videos/v1/snippets/b.mp4', Buffer.from('b'));
+    await storage.write('videos/v2/c.json', Buffer.from('c'));
+
+    expect(await storage.list('videos/v1/')).toEqual([
+      'videos/v1/a.json',
+      'videos/v1/snippets/b.mp4',
+    ]);
+  });
+
+  it('should return file URLs pointing at the blob', async () => {
+    await storage.write('videos/v1/a.json', Buffer.from('a'));
+
+    const url = await storage.getUrl('videos/v1/a.json');
+    expect(url.startsWith('file://')).toBe(true);
+    expect(url.endsWith(sha256('a'))).toBe(true);
+  });
+
+  it('should reject paths that escape the root', async () => {
+    await expect(storage.write('../outside.txt', Buffer.from('x'))).rejects.toThrow(
+      'Invalid storage path'
+    );
+  });
+
+  describe('collectGarbage', () => {
+    it('should remove blobs no path references', async () => {
+      await storage.write('videos/v1/a.json', Buffer.from('old'));
+      await storage.write('videos/v1/a.json', Buffer.from('new'));
+      await storage.write('videos/v1/b.json', Buffer.from('gone'));
+      await storage.delete('videos/v1/b.json');
+
+      const result = await storage.collectGarbage();
+
+      expect(result.removedPaths).toEqual([]);
+      expect(result.removedBlobs.sort()).toEqual([sha256('gone'), sha256('old')].sort());
+      expect(result.freedBytes).toBe(7);
+      expect(await countBlobs(root)).toBe(1);
+      expect((await storage.read('videos/v1/a.json')).toString()).toBe('new');
+    });
+
+    it('should keep only artifacts referenced by manifests', async () => {
+      await storage.write('videos/v1/transcript.json', Buffer.from('transcript'));
+      await storage.write('videos/v1/snippets/t1.mp4', Buffer.from('clip'));
+      await storage.write('videos/v1/snippets/snippets.json', Buffer.from('meta'));
+      await storage.write('videos/v2/transcript.json', Buffer.from('orphan'));
+
+      const manifest = createManifest('v1', {
+        transcript: 'videos/v1/transcript.json',
+        snippets: ['videos/v1/snippets/t1.mp4'],
+      });
+
+      const result = await storage.collectGarbage({
+        manifests: [manifest],
+        retainPrefixes: ['videos/v1/snippets/snippets.json'],
+      });
+
+      expect(result.removedPaths).toEqual(['videos/v2/transcript.json']);
+      expect(result.removedBlobs).toEqual([sha256('orphan')]);
+      expect(await storage.list('')).toEqual([
+        'videos/v1/snippets/snippets.json',
+        'videos/v1/snippets/t1.mp4',
+        'videos/v1/transcript.json',
+      ]);
+    });
+
+    it('should keep shared blobs while any path references them', async () => {
+      await storage.write('videos/v1/original.mp4', Buffer.from('same'));
+      await storage.write('videos/v2/original.mp4', Buffer.from('same'));
+
+      const result = await storage.collectGarbage({
+        manifests: [createManifest('v2', { video_original: 'videos/v2/original.mp4' })],
+      });
+
+      expect(result.removedPaths).toEqual(['videos/v1/original.mp4']);
+      expect(result.removedBlobs).toEqual([]);
+      expect((await storage.read('videos/v2/original.mp4')).toString()).toBe('same');
+    });
+
+    it('should keep manifest checkpoints', async () => {
+      await storage.write('videos/v1/manifests/gv-1.json', Buffer.from('{}'));
+      await storage.write('videos/v1/transcript.json', Buffer.from('transcript'));
+
+      const result = await storage.collectGarbage({ manifests: [createManifest('v1', {})] });
+
+      expect(result.removedPaths).toEqual(['videos/v1/transcript.json']);
+      expect(await storage.list('')).toEqual(['videos/v1/manifests/gv-1.json']);
+    });
+
+    it('should wait for writes in flight and hold back new ones', async () => {
+      let finish!: () => void;
+      const pending = storage.writeStream(
+        'videos/v1/original.mp4',
+        Readable.from(
+          (async function* () {
+            yield Buffer.from('video ');
+            await new Promise<void>((resolve) => (finish = resolve));
+            yield Buffer.from('bytes');
+          })()
+        )
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const collecting = storage.collectGarbage({ manifests: [] });
+      const held = storage.write('videos/v1/audio.wav', Buffer.from('wav'));
+      finish();
+      await pending;
+      const result = await collecting;
+      await held;
+
+      expect(result.removedPaths).toEqual(['videos/v1/original.mp4']);
+      expect(await storage.list('')).toEqual(['videos/v1/audio.wav']);
+      expect((await storage.read('videos/v1/audio.wav')).toString()).toBe('wav');
+    });
+
+    it('should keep blobs written since the pass started', async () => {
+      await storage.write('videos/v1/a.json', Buffer.from('a'));
+      await storage.delete('videos/v1/a.json');
+      // As if another process wrote the blob while collection runs
+      const later = new Date(Date.now() + 60_000);
+      await fs.utimes(join(root, 'blobs', sha256('a').slice(0, 2), sha256('a')), later, later);
+
+      const result = await storage.collectGarbage();
+
+      expect(result.removedBlobs).toEqual([]);
+      expect(await countBlobs(root)).toBe(1);
+    });
+
+    it('should not remove anything on a dry run', async () => {
+      await storage.write('videos/v1/a.json', Buffer.from('a'));
+      await storage.delete('videos/v1/a.json');
+
+      const result = await storage.collectGarbage({ dryRun: true });
+
+      expect(result.removedBlobs).toEqual([sha256('a')]);
+      expect(await countBlobs(root)).toBe(1);
+    });
+  });
+});
+
+describe('manifestArtifactPaths', () => {
+  it('should flatten single and multi-valued paths', () => {
+    const manifest = createManifest('v1', {
+      transcript: 'videos/v1/transcript.json',
+      exports: ['videos/v1/exports/a.pdf', 'videos/v1/exports/b.html'],
+    });
+
+    expect(manifestArtifactPaths(manifest)).toEqual([
+      'videos/v1/transcript.json',
+      'videos/v1/exports/a.pdf',
+      'videos/v1/exports/b.html',
+    ]);
+  });
+});
+
+describe('createStorageService (filesystem)', () => {
+  it('should require a local path', () => {
+    expect(() =>
+      createStorageService({
+        provider: 'filesystem',
+        accessKey: '',
+        secretKey: '',
+        bucket: '',
+        useSsl: false,
+        presignedUrlExpirySeconds: 3600,
+      })
+    ).toThrow('localPath is required');
+  });
+
+  it('should create a filesystem storage service', () => {
+    const storage = createStorageService({
+      provider: 'filesystem',
+      accessKey: '',
+      secretKey: '',
+      bucket: '',
+      useSsl: false,
+      presignedUrlExpirySeconds: 3600,
+      localPath: tmpdir(),
+    });
+    expect(storage).toBeInstanceOf(FilesystemStorageService);
+  });
+});
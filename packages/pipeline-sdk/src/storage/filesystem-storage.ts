@@ -0,0 +1,389 @@
+/**
+ * Filesystem Storage Service
+ *
+ * Local-disk StorageService for single-node deployments and offline
+ * development. Blobs are stored once by their SHA-256 digest and a
+ * path→hash index maps artifact paths onto them, so writing the same
+ * bytes under any number of paths never stores them twice.
+ *
+ * Layout under the root directory:
+ *   blobs/<first two hex chars>/<sha256>   content
+ *   index/<artifact path>                  hex digest of the content
+ *   tmp/                                   in-flight writes
+ *
+ * Garbage collection holds back writes made through the same service
+ * while it runs, and never sweeps blobs written or reused after it
+ * started, so writes from other processes survive a concurrent pass.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { join, dirname, sep } from 'path';
+import { pathToFileURL } from 'url';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type {
+  ArtifactManifest,
+  StorageConfig,
+  StreamingStorageService,
+} from '@video-graph/shared-types';
+
+/** Manifest checkpoints (`videos/<id>/manifests/<version>.json`), always kept */
+const MANIFEST_CHECKPOINT = /^videos\/[^/]+\/manifests\//;
+
+export interface GarbageCollectionOptions {
+  /**
+   * Manifests whose artifacts must be kept. When given, only paths
+   * referenced by these manifests, manifest checkpoints and paths
+   * under `retainPrefixes` stay alive; every other index entry is
+   * removed along with its blob.
+   * When omitted, every indexed path is kept and only blobs no longer
+   * referenced by any path are removed.
+   */
+  manifests?: ArtifactManifest[];
+  /** Path prefixes that are always kept (e.g. metadata files) */
+  retainPrefixes?: string[];
+  /** Report what would be removed without removing it */
+  dryRun?: boolean;
+}
+
+export interface GarbageCollectionResult {
+  /** Index paths that were removed */
+  removedPaths: string[];
+  /** Blob digests that were removed */
+  removedBlobs: string[];
+  /** Bytes reclaimed from removed blobs */
+  freedBytes: number;
+}
+
+/**
+ * Collect every artifact path referenced by a manifest
+ */
+export function manifestArtifactPaths(manifest: ArtifactManifest): string[] {
+  const paths: string[] = [];
+  for (const value of Object.values(manifest.paths)) {
+    if (typeof value === 'string') {
+      paths.push(value);
+    } else if (Array.isArray(value)) {
+      paths.push(...value);
+    }
+  }
+  return paths;
+}
+
+export class FilesystemStorageService implements StreamingStorageService {
+  private blobDir: string;
+  private indexDir: string;
+  private tmpDir: string;
+  /** Running garbage collection, which writes wait for */
+  private collecting: Promise<unknown> | null = null;
+  /** Writes in flight, which garbage collection waits for */
+  private writing = new Set<Promise<unknown>>();
+
+  constructor(private root: string) {
+    this.blobDir = join(root, 'blobs');
+    this.indexDir = join(root, 'index');
+    this.tmpDir = join(root, 'tmp');
+  }
+
+  async read(path: string): Promise<Buffer> {
+    const hash = await this.resolve(path);
+    return fs.readFile(this.blobPath(hash));
+  }
+
+  async readStream(path: string): Promise<Readable> {
+    const hash = await this.resolve(path);
+    return createReadStream(this.blobPath(hash));
+  }
+
+  async write(path: string, data: Buffer): Promise<void> {
+    return this.track(async () => {
+      const hash = createHash('sha256').update(data).digest('hex');
+
+      if (!(await this.touchBlob(hash))) {
+        const tmp = await this.tmpFile();
+        await fs.writeFile(tmp, data);
+        await this.commitBlob(tmp, hash);
+      }
+
+      await this.writeIndex(path, hash);
+    });
+  }
+
+  async writeStream(path: string, stream: Readable, _size?: number): Promise<void> {
+    return this.track(async () => {
+      const digest = createHash('sha256');
+      const hasher = new Transform({
+        transform(chunk, _encoding, callback) {
+          digest.update(chunk);
+          callback(null, chunk);
+        },
+      });
+
+      const tmp = await this.tmpFile();
+      try {
+        await pipeline(stream, hasher, createWriteStream(tmp));
+      } catch (error) {
+        await fs.rm(tmp, { force: true });
+        throw error;
+      }
+
+      const hash = digest.digest('hex');
+      await this.commitBlob(tmp, hash);
+      await this.writeIndex(path, hash);
+    });
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return fileExists(this.indexPath(path));
+  }
+
+  /**
+   * Remove the path from the index. The blob is left in place until
+   * the next garbage collection, since other paths may share it.
+   */
+  async delete(path: string): Promise<void> {
+    await fs.rm(this.indexPath(path), { force: true });
+  }
+
+  async getUrl(path: string, _expiresInSeconds?: number): Promise<string> {
+    const hash = await this.resolve(path);
+    return pathToFileURL(this.blobPath(hash)).toString();
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const paths: string[] = [];
+    for await (const file of walk(this.indexDir)) {
+      const path = file.slice(this.indexDir.length + 1).split(sep).join('/');
+      if (path.startsWith(prefix)) {
+        paths.push(path);
+      }
+    }
+    return paths.sort();
+  }
+
+  /**
+   * Get the content digest stored for a path
+   */
+  async hashOf(path: string): Promise<string | null> {
+    try {
+      return (await fs.readFile(this.indexPath(path), 'utf8')).trim();
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Remove blobs that are no longer referenced (mark and sweep). Waits
+   * for writes in flight and holds back new ones until it is done.
+   */
+  async collectGarbage(
+    options: GarbageCollectionOptions = {}
+  ): Promise<GarbageCollectionResult> {
+    while (this.collecting) {
+      await this.collecting.catch(() => {});
+    }
+
+    const run = (async () => {
+      await Promise.allSettled([...this.writing]);
+      return this.markAndSweep(options);
+    })();
+    this.collecting = run;
+    try {
+      return await run;
+    } finally {
+      this.collecting = null;
+    }
+  }
+
+  private async markAndSweep(
+    options: GarbageCollectionOptions
+  ): Promise<GarbageCollectionResult> {
+    const result: GarbageCollectionResult = {
+      removedPaths: [],
+      removedBlobs: [],
+      freedBytes: 0,
+    };
+
+    const rootPaths = options.manifests
+      ? new Set(options.manifests.flatMap(manifestArtifactPaths))
+      : null;
+    const retainPrefixes = options.retainPrefixes ?? [];
+    const startedAt = await this.fileClock();
+
+    // Mark
+    const liveHashes = new Set<string>();
+    for (const path of await this.list('')) {
+      const isLive =
+        !rootPaths ||
+        rootPaths.has(path) ||
+        MANIFEST_CHECKPOINT.test(path) ||
+        retainPrefixes.some((prefix) => path.startsWith(prefix)) ||
+        (await modifiedAfter(this.indexPath(path), startedAt));
+
+      if (isLive) {
+        const hash = await this.hashOf(path);
+        if (hash) liveHashes.add(hash);
+      } else {
+        result.removedPaths.push(path);
+        if (!options.dryRun) {
+          await this.delete(path);
+        }
+      }
+    }
+
+    // Sweep
+    for await (const file of walk(this.blobDir)) {
+      const hash = file.slice(file.lastIndexOf(sep) + 1);
+      if (liveHashes.has(hash)) continue;
+
+      // Written or reused by another process since the pass started
+      const { size, mtimeMs } = await fs.stat(file);
+      if (mtimeMs > startedAt) continue;
+
+      result.removedBlobs.push(hash);
+      result.freedBytes += size;
+      if (!options.dryRun) {
+        await fs.rm(file, { force: true });
+      }
+    }
+
+    return result;
+  }
+
+  private async resolve(path: string): Promise<string> {
+    const hash = await this.hashOf(path);
+    if (!hash) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return hash;
+  }
+
+  private async track<T>(write: () => Promise<T>): Promise<T> {
+    while (this.collecting) {
+      await this.collecting.catch(() => {});
+    }
+    const pending = write();
+    this.writing.add(pending);
+    try {
+      return await pending;
+    } finally {
+      this.writing.delete(pending);
+    }
+  }
+
+  private async commitBlob(tmp: string, hash: string): Promise<void> {
+    if (await this.touchBlob(hash)) {
+      await fs.rm(tmp, { force: true });
+      return;
+    }
+    const target = this.blobPath(hash);
+    await fs.mkdir(dirname(target), { recursive: true });
+    await fs.rename(tmp, target);
+  }
+
+  /**
+   * Mark an existing blob as just written, so a garbage collection
+   * running in another process keeps it. False when there is no blob.
+   */
+  private async touchBlob(hash: string): Promise<boolean> {
+    const now = new Date();
+    try {
+      await fs.utimes(this.blobPath(hash), now, now);
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Current time on the filesystem's clock, which file times use
+   */
+  private async fileClock(): Promise<number> {
+    const marker = await this.tmpFile();
+    await fs.writeFile(marker, '');
+    try {
+      return (await fs.stat(marker)).mtimeMs;
+    } finally {
+      await fs.rm(marker, { force: true });
+    }
+  }
+
+  private async writeIndex(path: string, hash: string): Promise<void> {
+    const target = this.indexPath(path);
+    const tmp = await this.tmpFile();
+    await fs.writeFile(tmp, hash);
+    await fs.mkdir(dirname(target), { recursive: true });
+    await fs.rename(tmp, target);
+  }
+
+  private async tmpFile(): Promise<string> {
+    await fs.mkdir(this.tmpDir, { recursive: true });
+    return join(this.tmpDir, randomUUID());
+  }
+
+  private blobPath(hash: string): string {
+    return join(this.blobDir, hash.slice(0, 2), hash);
+  }
+
+  private indexPath(path: string): string {
+    const segments = path.split('/').filter(Boolean);
+    if (segments.length === 0 || segments.some((s) => s === '.' || s === '..')) {
+      throw new Error(`Invalid storage path: ${path}`);
+    }
+    return join(this.indexDir, ...segments);
+  }
+}
+
+/**
+ * Create a filesystem storage service from a StorageConfig
+ */
+export function createFilesystemStorage(config: StorageConfig): FilesystemStorageService {
+  if (!config.localPath) {
+    throw new Error('localPath is required for the filesystem storage provider');
+  }
+  const root = config.pathPrefix ? join(config.localPath, config.pathPrefix) : config.localPath;
+  return new FilesystemStorageService(root);
+}
+
+async function* walk(dir: string): AsyncGenerator<string> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if (isNotFound(error)) return;
+    throw error;
+  }
+  for (const entry of entries) {
+    const full = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      yield* walk(full);
+    } else {
+      yield full;
+    }
+  }
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function modifiedAfter(path: string, time: number): Promise<boolean> {
+  try {
+    return (await fs.stat(path)).mtimeMs > time;
+  } catch (error) {
+    if (isNotFound(error)) return false;
+    throw error;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | null)?.code === 'ENOENT';
+}
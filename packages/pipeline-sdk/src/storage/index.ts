@@ -0,0 +1,9 @@
+/**
+ * Storage Services
+ * 
+ * StorageService implementations used by pipeline workers.
+ */
+
+export * from './object-storage';
+export * from './filesystem-storage';
+export * from './factory';
@@ -0,0 +1,223 @@
+/**
+ * Unit Tests - Object Storage Service
+ *
+ * Runs against a filesystem-backed stand-in for the MinIO client, and
+ * against a real MinIO server when TEST_MINIO_ENDPOINT is set.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs, createReadStream, createWriteStream } from 'fs';
+import { tmpdir } from 'os';
+import { join, dirname, relative } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { StorageConfig } from '@video-graph/shared-types';
+import { ObjectStorageService, type ObjectStorageClient } from './object-storage';
+import { createStorageService } from './factory';
+
+/**
+ * Stores each bucket as a directory and each object as a file
+ */
+function createFilesystemClient(root: string): ObjectStorageClient {
+  const objectPath = (bucket: string, key: string) => join(root, bucket, key);
+  const notFound = () => Object.assign(new Error('Not Found'), { code: 'NotFound' });
+
+  async function* walk(dir: string): AsyncGenerator<string> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const full = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        yield* walk(full);
+      } else {
+        yield full;
+      }
+    }
+  }
+
+  return {
+    bucketExists: async (bucket) =>
+      fs.stat(join(root, bucket)).then(() => true, () => false),
+    makeBucket: async (bucket) => {
+      await fs.mkdir(join(root, bucket), { recursive: true });
+    },
+    putObject: async (bucket, key, data) => {
+      const target = objectPath(bucket, key);
+      await fs.mkdir(dirname(target), { recursive: true });
+      if (Buffer.isBuffer(data)) {
+        await fs.writeFile(target, data);
+      } else {
+        await pipeline(data, createWriteStream(target));
+      }
+    },
+    getObject: async (bucket, key) => {
+      const target = objectPath(bucket, key);
+      await fs.access(target).catch(() => {
+        throw notFound();
+      });
+      return createReadStream(target);
+    },
+    statObject: async (bucket, key) => {
+      const stat = await fs.stat(objectPath(bucket, key)).catch(() => {
+        throw notFound();
+      });
+      return { size: stat.size };
+    },
+    removeObject: async (bucket, key) => {
+      await fs.rm(objectPath(bucket, key), { force: true });
+    },
+    presignedGetObject: async (bucket, key, expiry) =>
+      `file://${objectPath(bucket, key)}?expires=${expiry}`,
+    listObjectsV2: (bucket, prefix) => ({
+      async *[Symbol.asyncIterator]() {
+        for await (const file of walk(join(root, bucket))) {
+          const name = relative(join(root, bucket), file);
+          if (name.startsWith(prefix)) yield { name };
+        }
+      },
+    }),
+  };
+}
+
+const baseConfig: StorageConfig = {
+  provider: 'minio',
+  endpoint: 'http://localhost:9000',
+  accessKey: 'minioadmin',
+  secretKey: 'minioadmin',
+  bucket: 'test-bucket',
+  useSsl: false,
+  presignedUrlExpirySeconds: 900,
+};
+
+describe('ObjectStorageService', () => {
+  let root: string;
+  let client: ObjectStorageClient;
+  let storage: ObjectStorageService;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(join(tmpdir(), 'object-storage-'));
+    client = createFilesystemClient(root);
+    storage = new ObjectStorageService(baseConfig, { client, createBucket: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should round-trip buffers', async () => {
+    await storage.write('videos/v1/transcript.json', Buffer.from('{"segments":[]}'));
+
+    const data = await storage.read('videos/v1/transcript.json');
+    expect(data.toString()).toBe('{"segments":[]}');
+  });
+
+  it('should create the bucket on first use', async () => {
+    await storage.write('a.txt', Buffer.from('a'));
+
+    expect(await client.bucketExists('test-bucket')).toBe(true);
+  });
+
+  it('should write and read streams', async () => {
+    const chunks = [Buffer.alloc(1024, 1), Buffer.alloc(2048, 2)];
+    await storage.writeStream('videos/v1/original.mp4', Readable.from(chunks), 3072);
+
+    const stream = await storage.readStream('videos/v1/original.mp4');
+    const received: Buffer[] = [];
+    for await (const chunk of stream) received.push(chunk as Buffer);
+
+    expect(Buffer.concat(received)).toEqual(Buffer.concat(chunks));
+  });
+
+  it('should report existence', async () => {
+    await storage.write('videos/v1/audio.wav', Buffer.from('wav'));
+
+    expect(await storage.exists('videos/v1/audio.wav')).toBe(true);
+    expect(await storage.exists('videos/v1/missing.wav')).toBe(false);
+  });
+
+  it('should throw a not found error when reading a missing file', async () => {
+    await expect(storage.read('videos/v1/missing.json')).rejects.toThrow(
+      'File not found: videos/v1/missing.json'
+    );
+  });
+
+  it('should delete files', async () => {
+    await storage.write('videos/v1/topics.json', Buffer.from('[]'));
+    await storage.delete('videos/v1/topics.json');
+
+    expect(await storage.exists('videos/v1/topics.json')).toBe(false);
+  });
+
+  it('should list files under a prefix', async () => {
+    await storage.write('videos/v1/a.json', Buffer.from('a'));
+    await storage.write('videos/v1/snippets/b.mp4', Buffer.from('b'));
+    await storage.write('videos/v2/c.json', Buffer.from('c'));
+
+    const paths = await storage.list('videos/v1/');
+    expect(paths.sort()).toEqual(['videos/v1/a.json', 'videos/v1/snippets/b.mp4']);
+  });
+
+  it('should apply the path prefix to keys and strip it from listings', async () => {
+    const prefixed = new ObjectStorageService(
+      { ...baseConfig, pathPrefix: '/tenant-a/' },
+      { client, createBucket: true }
+    );
+    await prefixed.write('videos/v1/a.json', Buffer.from('a'));
+
+    await expect(fs.readFile(join(root, 'test-bucket', 'tenant-a/videos/v1/a.json'), 'utf8'))
+      .resolves.toBe('a');
+    expect(await prefixed.list('videos/')).toEqual(['videos/v1/a.json']);
+  });
+
+  it('should presign URLs with the configured default expiry', async () => {
+    await storage.write('videos/v1/a.json', Buffer.from('a'));
+
+    expect(await storage.getUrl('videos/v1/a.json')).toContain('expires=900');
+    expect(await storage.getUrl('videos/v1/a.json', 60)).toContain('expires=60');
+  });
+});
+
+describe('createStorageService', () => {
+  it('should create an object storage service for minio and s3', () => {
+    expect(createStorageService(baseConfig)).toBeInstanceOf(ObjectStorageService);
+    expect(createStorageService({ ...baseConfig, provider: 's3' })).toBeInstanceOf(
+      ObjectStorageService
+    );
+  });
+
+  it('should reject unsupported providers', () => {
+    expect(() => createStorageService({ ...baseConfig, provider: 'gcs' })).toThrow(
+      'Unsupported storage provider: gcs'
+    );
+  });
+});
+
+describe.skipIf(!process.env.TEST_MINIO_ENDPOINT)('ObjectStorageService (MinIO)', () => {
+  const storage = new ObjectStorageService(
+    {
+      ...baseConfig,
+      endpoint: process.env.TEST_MINIO_ENDPOINT,
+      accessKey: process.env.TEST_MINIO_ACCESS_KEY || 'minioadmin',
+      secretKey: process.env.TEST_MINIO_SECRET_KEY || 'minioadmin',
+      bucket: process.env.TEST_MINIO_BUCKET || 'videograph-test',
+      pathPrefix: `test-${Date.now()}`,
+    },
+    { createBucket: true, partSizeBytes: 5 * 1024 * 1024 }
+  );
+
+  it('should upload large streams in multiple parts', async () => {
+    const size = 12 * 1024 * 1024;
+    await storage.writeStream('large.bin', Readable.from([Buffer.alloc(size, 7)]), size);
+
+    const data = await storage.read('large.bin');
+    expect(data.length).toBe(size);
+    expect(await storage.list('')).toEqual(['large.bin']);
+
+    await storage.delete('large.bin');
+    expect(await storage.exists('large.bin')).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Object Storage Service
+ *
+ * StorageService backed by MinIO or any S3-compatible object store.
+ * Large objects are uploaded with multipart uploads and can be read
+ * back as streams.
+ */
+
+import { Readable } from 'stream';
+import { Client } from 'minio';
+import type { StorageConfig, StreamingStorageService } from '@video-graph/shared-types';
+
+/** Default multipart part size (64 MiB) */
+export const DEFAULT_PART_SIZE_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Subset of the MinIO client used by ObjectStorageService.
+ * Tests can supply a filesystem-backed stand-in.
+ */
+export interface ObjectStorageClient {
+  bucketExists(bucket: string): Promise<boolean>;
+  makeBucket(bucket: string, region?: string): Promise<void>;
+  putObject(
+    bucket: string,
+    key: string,
+    data: Readable | Buffer,
+    size?: number
+  ): Promise<unknown>;
+  getObject(bucket: string, key: string): Promise<Readable>;
+  statObject(bucket: string, key: string): Promise<{ size: number }>;
+  removeObject(bucket: string, key: string): Promise<void>;
+  presignedGetObject(bucket: string, key: string, expirySeconds: number): Promise<string>;
+  listObjectsV2(bucket: string, prefix: string, recursive: boolean): AsyncIterable<{ name?: string }>;
+}
+
+export interface ObjectStorageOptions {
+  /** Multipart part size in bytes */
+  partSizeBytes?: number;
+  /** Create the bucket on first use if it does not exist */
+  createBucket?: boolean;
+  /** Client override (for testing) */
+  client?: ObjectStorageClient;
+}
+
+/**
+ * Build a MinIO client from a StorageConfig
+ */
+export function createMinioClient(
+  config: StorageConfig,
+  partSizeBytes: number = DEFAULT_PART_SIZE_BYTES
+): ObjectStorageClient {
+  const url = new URL(config.endpoint || 'http://localhost:9000');
+  const useSSL = url.protocol === 'https:' || config.useSsl;
+
+  return new Client({
+    endPoint: url.hostname,
+    port: url.port ? parseInt(url.port, 10) : undefined,
+    useSSL,
+    accessKey: config.accessKey,
+    secretKey: config.secretKey,
+    region: config.region,
+    partSize: partSizeBytes,
+  }) as unknown as ObjectStorageClient;
+}
+
+export class ObjectStorageService implements StreamingStorageService {
+  private client: ObjectStorageClient;
+  private bucket: string;
+  private prefix: string;
+  private region?: string;
+  private defaultExpirySeconds: number;
+  private shouldCreateBucket: boolean;
+  private bucketReady: Promise<void> | null = null;
+
+  constructor(config: StorageConfig, options: ObjectStorageOptions = {}) {
+    this.client = options.client ?? createMinioClient(config, options.partSizeBytes);
+    this.bucket = config.bucket;
+    this.prefix = normalizePrefix(config.pathPrefix);
+    this.region = config.region;
+    this.defaultExpirySeconds = config.presignedUrlExpirySeconds;
+    this.shouldCreateBucket = options.createBucket ?? false;
+  }
+
+  async read(path: string): Promise<Buffer> {
+    const stream = await this.readStream(path);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async readStream(path: string): Promise<Readable> {
+    await this.ensureBucket();
+    try {
+      return await this.client.getObject(this.bucket, this.key(path));
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw error;
+    }
+  }
+
+  async write(path: string, data: Buffer): Promise<void> {
+    await this.ensureBucket();
+    await this.client.putObject(this.bucket, this.key(path), data, data.length);
+  }
+
+  async writeStream(path: string, stream: Readable, size?: number): Promise<void> {
+    await this.ensureBucket();
+    // The client splits the stream into parts of the configured size and
+    // uses a multipart upload once it exceeds a single part
+    await this.client.putObject(this.bucket, this.key(path), stream, size);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    await this.ensureBucket();
+    try {
+      await this.client.statObject(this.bucket, this.key(path));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async delete(path: string): Promise<void> {
+    await this.ensureBucket();
+    await this.client.removeObject(this.bucket, this.key(path));
+  }
+
+  async getUrl(path: string, expiresInSeconds?: number): Promise<string> {
+    await this.ensureBucket();
+    return this.client.presignedGetObject(
+      this.bucket,
+      this.key(path),
+      expiresInSeconds ?? this.defaultExpirySeconds
+    );
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    await this.ensureBucket();
+    const paths: string[] = [];
+    for await (const item of this.client.listObjectsV2(this.bucket, this.key(prefix), true)) {
+      if (item.name) {
+        paths.push(item.name.slice(this.prefix.length));
+      }
+    }
+    return paths;
+  }
+
+  private key(path: string): string {
+    return this.prefix + path.replace(/^\/+/, '');
+  }
+
+  private ensureBucket(): Promise<void> {
+    if (!this.shouldCreateBucket) return Promise.resolve();
+    if (!this.bucketReady) {
+      this.bucketReady = (async () => {
+        if (!(await this.client.bucketExists(this.bucket))) {
+          await this.client.makeBucket(this.bucket, this.region);
+        }
+      })().catch((error) => {
+        this.bucketReady = null;
+        throw error;
+      });
+    }
+    return this.bucketReady;
+  }
+}
+
+function normalizePrefix(prefix?: string): string {
+  const trimmed = (prefix ?? '').replace(/^\/+|\/+$/g, '');
+  return trimmed ? `${trimmed}/` : '';
+}
+
+function isNotFound(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return code === 'NotFound' || code === 'NoSuchKey' || code === 'ENOENT';
+}
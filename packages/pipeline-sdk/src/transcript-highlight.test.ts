@@ -0,0 +1,77 @@
+/**
+ * Unit Tests - Transcript Highlighting
+ *
+ * Query terms, snippet windows, match ranges and jump targets.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { highlightTranscript, queryTerms, type AlignedWord } from './transcript-highlight';
+
+function align(text: string, start: number, step = 0.5): AlignedWord[] {
+  return text.split(' ').map((word, i) => ({
+    word: ` ${word}`,
+    start: start + i * step,
+    end: start + (i + 1) * step,
+  }));
+}
+
+function marked(result: { snippet: string; highlights: Array<{ start: number; end: number }> }): string[] {
+  return result.highlights.map((h) => result.snippet.slice(h.start, h.end));
+}
+
+describe('queryTerms', () => {
+  it('drops stopwords, operators and excluded words', () => {
+    expect(queryTerms('What is "RLHF" or reward models -ppo')).toEqual(['rlhf', 'reward', 'models']);
+  });
+});
+
+describe('highlightTranscript', () => {
+  it('jumps to the matched word using word alignment', () => {
+    const text = 'so today we fine-tune the model with RLHF, which uses reward models';
+    const result = highlightTranscript(
+      { text, startSeconds: 40, words: align(text, 40) },
+      queryTerms('rlhf reward model')
+    );
+
+    expect(result.aligned).toBe(true);
+    expect(result.jumpToSeconds).toBe(42.5);
+    expect(marked(result)).toEqual(['model', 'RLHF', 'reward', 'models']);
+  });
+
+  it('falls back to the segment start without alignment', () => {
+    const result = highlightTranscript(
+      { text: 'Gradient descent updates the weights.', startSeconds: 12.5 },
+      ['weight']
+    );
+
+    expect(result.aligned).toBe(false);
+    expect(result.jumpToSeconds).toBe(12.5);
+    expect(result.snippet).toBe('Gradient descent updates the weights.');
+    expect(marked(result)).toEqual(['weights']);
+  });
+
+  it('keeps a window of context around the first match', () => {
+    const words = Array.from({ length: 30 }, (_, i) => `w${i}`);
+    words[15] = 'tokenizer';
+    const result = highlightTranscript(
+      { text: words.join(' '), startSeconds: 0 },
+      ['tokenizers'],
+      { contextWords: 3 }
+    );
+
+    expect(result.snippet).toBe('…w12 w13 w14 tokenizer w16 w17 w18…');
+    expect(marked(result)).toEqual(['tokenizer']);
+  });
+
+  it('returns the start of the segment when nothing matches', () => {
+    const text = 'an unrelated sentence';
+    const result = highlightTranscript({ text, startSeconds: 3, words: align(text, 3) }, ['attention']);
+
+    expect(result).toEqual({
+      snippet: 'an unrelated sentence',
+      highlights: [],
+      jumpToSeconds: 3,
+      aligned: false,
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Transcript Highlighting
+ *
+ * Builds search snippets from transcript segments: a window of words
+ * around the first query match, character ranges of every matched word
+ * in the snippet, and the time to jump to. With word alignment the jump
+ * target is the start of the matched word itself; without it, the start
+ * of the segment.
+ */
+
+export interface AlignedWord {
+  word: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  startSeconds: number;
+  /** Word-level alignment, when the ASR provider produced it */
+  words?: AlignedWord[] | null;
+}
+
+export interface HighlightRange {
+  /** Character offset of the match in the snippet */
+  start: number;
+  /** Character offset just past the match */
+  end: number;
+}
+
+export interface TranscriptHighlight {
+  snippet: string;
+  highlights: HighlightRange[];
+  /** Seconds to seek to for the first match */
+  jumpToSeconds: number;
+  /** Whether the jump target comes from word alignment */
+  aligned: boolean;
+}
+
+export interface HighlightOptions {
+  /** Words of context kept on each side of the first match (default 12) */
+  contextWords?: number;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which',
+  'who', 'why', 'with',
+]);
+
+const ELLIPSIS = '…';
+
+/** Word of a segment, with its start time when aligned */
+interface Token {
+  text: string;
+  /** Start time, for aligned words */
+  start?: number;
+}
+
+/**
+ * Search terms of a query: lowercased words without stopwords, search
+ * operators or excluded (`-term`) words
+ */
+export function queryTerms(query: string): string[] {
+  const terms = query
+    .split(/\s+/)
+    .filter((word) => word && !word.startsWith('-'))
+    .map(normalize)
+    .filter((word) => word && word !== 'or' && !STOPWORDS.has(word));
+
+  return [...new Set(terms)];
+}
+
+/**
+ * Snippet of a segment around the first word matching one of `terms`
+ */
+export function highlightTranscript(
+  segment: HighlightSegment,
+  terms: string[],
+  options: HighlightOptions = {}
+): TranscriptHighlight {
+  const contextWords = options.contextWords ?? 12;
+  const aligned = Boolean(segment.words && segment.words.length > 0);
+
+  const tokens: Token[] = aligned
+    ? segment.words!.map((w) => ({ text: w.word.trim(), start: w.start })).filter((t) => t.text)
+    : segment.text.split(/\s+/).filter(Boolean).map((text) => ({ text }));
+
+  const stems = new Set(terms.map(stem));
+  const matched = tokens.map((token) => {
+    const word = normalize(token.text);
+    return word !== '' && stems.has(stem(word));
+  });
+
+  const first = matched.indexOf(true);
+  const from = first === -1 ? 0 : Math.max(0, first - contextWords);
+  const to = Math.min(tokens.length, (first === -1 ? 0 : first) + contextWords + 1);
+
+  let snippet = from > 0 ? ELLIPSIS : '';
+  const highlights: HighlightRange[] = [];
+
+  for (let i = from; i < to; i++) {
+    if (i > from) snippet += ' ';
+    if (matched[i]) {
+      const core = coreRange(tokens[i].text);
+      highlights.push({ start: snippet.length + core.start, end: snippet.length + core.end });
+    }
+    snippet += tokens[i].text;
+  }
+  if (to < tokens.length) snippet += ELLIPSIS;
+
+  const jumpToSeconds = first !== -1 && tokens[first].start !== undefined
+    ? tokens[first].start!
+    : segment.startSeconds;
+
+  return { snippet, highlights, jumpToSeconds, aligned: aligned && first !== -1 };
+}
+
+/** Lowercase a word and strip surrounding punctuation */
+function normalize(word: string): string {
+  return word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+}
+
+/** Light suffix stripping so that plurals and verb forms match */
+function stem(word: string): string {
+  if (word.length <= 4 || word.endsWith('ss')) return word;
+  if (/(ing|ed)$/.test(word)) return word.replace(/(ing|ed)$/, '');
+  if (/([sxz]|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  return word.replace(/s$/, '');
+}
+
+/** Range of a token without surrounding punctuation */
+function coreRange(token: string): { start: number; end: number } {
+  const start = token.search(/[\p{L}\p{N}]/u);
+  const trailing = token.match(/[^\p{L}\p{N}]*$/u)![0].length;
+  return { start: Math.max(start, 0), end: token.length - trailing };
+}
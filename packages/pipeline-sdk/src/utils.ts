@@ -4,7 +4,13 @@
  * Helper functions and utilities for pipeline operations.
  */
 
-import type { Logger, StorageService } from '@video-graph/shared-types';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { pipeline } from 'stream/promises';
+import type {
+  Logger,
+  StorageService,
+  StreamingStorageService,
+} from '@video-graph/shared-types';
 
 /**
  * Create a console-based logger
@@ -58,6 +64,47 @@ export function createMemoryStorage(): StorageService {
   };
 }
 
+/**
+ * Check whether a storage service supports streaming reads and writes
+ */
+export function isStreamingStorage(
+  storage: StorageService
+): storage is StreamingStorageService {
+  const candidate = storage as Partial<StreamingStorageService>;
+  return typeof candidate.readStream === 'function' && typeof candidate.writeStream === 'function';
+}
+
+/**
+ * Copy a stored file to the local filesystem (for tools like ffmpeg)
+ */
+export async function copyToLocalFile(
+  storage: StorageService,
+  path: string,
+  localPath: string
+): Promise<void> {
+  if (isStreamingStorage(storage)) {
+    await pipeline(await storage.readStream(path), createWriteStream(localPath));
+  } else {
+    await fs.writeFile(localPath, await storage.read(path));
+  }
+}
+
+/**
+ * Copy a local file into storage
+ */
+export async function copyFromLocalFile(
+  storage: StorageService,
+  localPath: string,
+  path: string
+): Promise<void> {
+  if (isStreamingStorage(storage)) {
+    const { size } = await fs.stat(localPath);
+    await storage.writeStream(path, createReadStream(localPath), size);
+  } else {
+    await storage.write(path, await fs.readFile(localPath));
+  }
+}
+
 /**
  * Sleep for a given number of milliseconds
  */
@@ -74,6 +121,7 @@ export async function withRetry<T>(
     maxAttempts: number;
     delayMs: number;
     backoff: 'fixed' | 'exponential';
+    shouldRetry?: (error: Error) => boolean;
     onRetry?: (attempt: number, error: Error) => void;
   }
 ): Promise<T> {
@@ -85,7 +133,10 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
-      if (attempt === options.maxAttempts) {
+      if (
+        attempt === options.maxAttempts ||
+        (options.shouldRetry && !options.shouldRetry(lastError))
+      ) {
         throw lastError;
       }
 
@@ -65,7 +65,7 @@ export interface DiarizationConfig {
  */
 export interface EmbeddingModelConfig {
   /** Model provider */
-  provider: 'sentence-transformers' | 'ollama' | 'openai' | 'custom';
+  provider: 'sentence-transformers' | 'ollama' | 'openai' | 'openai-compatible' | 'custom';
   /** Model name */
   model: string;
   /** Device for inference */
@@ -78,6 +78,10 @@ export interface EmbeddingModelConfig {
   dimension?: number;
   /** Ollama-specific: host URL */
   ollamaHost?: string;
+  /** OpenAI-compatible servers: base URL including `/v1` */
+  baseUrl?: string;
+  /** OpenAI-compatible servers: API key, if the server requires one */
+  apiKey?: string;
   /** Custom model path */
   modelPath?: string;
 }
@@ -87,7 +91,7 @@ export interface EmbeddingModelConfig {
  */
 export interface LlmModelConfig {
   /** Model provider */
-  provider: 'llama-cpp' | 'vllm' | 'ollama' | 'transformers' | 'custom';
+  provider: 'llama-cpp' | 'vllm' | 'ollama' | 'openai-compatible' | 'transformers' | 'custom';
   /** Model name or path */
   model: string;
   /** Device for inference */
@@ -114,6 +118,10 @@ export interface LlmModelConfig {
   tensorParallelSize?: number;
   /** Ollama-specific: host URL */
   ollamaHost?: string;
+  /** OpenAI-compatible servers (llama.cpp, vLLM): base URL including `/v1` */
+  baseUrl?: string;
+  /** OpenAI-compatible servers: API key, if the server requires one */
+  apiKey?: string;
   /** Custom model path */
   modelPath?: string;
 }
@@ -5,6 +5,7 @@
  * Every pipeline step consumes and produces ArtifactManifests.
  */
 
+import type { Readable } from 'stream';
 import type { PipelineConfig } from './schemas';
 
 // ==================== Artifact Manifest ====================
@@ -31,6 +32,8 @@ export interface ArtifactPaths {
   topics?: string;
   /** Topic embeddings file */
   embeddings?: string;
+  /** Transcript segment embeddings file */
+  segment_embeddings?: string;
   /** Graph edges and metrics */
   graph?: string;
   /** Generated snippet files */
@@ -57,6 +60,8 @@ export interface ArtifactMetrics {
   topic_count?: number;
   /** Number of edges in the graph */
   edge_count?: number;
+  /** Number of topic clusters */
+  cluster_count?: number;
   /** Number of hierarchy levels */
   hierarchy_levels?: number;
   /** Number of generated snippets */
@@ -85,6 +90,8 @@ export interface ArtifactManifest {
   metrics: ArtifactMetrics;
   /** Snapshot of pipeline configuration used */
   config_snapshot: PipelineConfig;
+  /** Graph version this one was reprocessed from, whose artifacts it reuses */
+  parent_graph_version_id?: string;
   /** Manifest creation timestamp */
   created_at: string;
   /** Last update timestamp */
@@ -93,6 +100,8 @@ export interface ArtifactManifest {
   current_step?: string;
   /** Completed steps */
   completed_steps?: string[];
+  /** Version of each completed step that produced its outputs */
+  step_versions?: Record<string, string>;
   /** Step errors (if any) */
   step_errors?: Record<string, string>;
 }
@@ -163,8 +172,8 @@ export interface PipelineContext {
   config: PipelineConfig;
   /** Logger instance */
   logger: Logger;
-  /** Progress callback */
-  onProgress?: (progress: number, message?: string) => void;
+  /** Progress callback (percent 0-100); `step` names the reporting step when known */
+  onProgress?: (progress: number, message?: string, step?: string) => void;
   /** Abort signal for cancellation */
   abortSignal?: AbortSignal;
 }
@@ -187,6 +196,17 @@ export interface StorageService {
   list(prefix: string): Promise<string[]>;
 }
 
+/**
+ * Storage service that can also move data as streams, so large
+ * videos never have to be held in memory
+ */
+export interface StreamingStorageService extends StorageService {
+  /** Open a read stream for a file */
+  readStream(path: string): Promise<Readable>;
+  /** Write a stream to storage (size enables multipart part sizing) */
+  writeStream(path: string, stream: Readable, size?: number): Promise<void>;
+}
+
 /**
  * Logger interface
  */
@@ -243,7 +263,62 @@ export interface StepResult {
   stepName: string;
   success: boolean;
   durationMs: number;
+  /** Number of times the step was executed (0 if it never ran) */
+  attempts: number;
   error?: string;
+  /** Step was skipped because a checkpoint already had its outputs */
+  skipped?: boolean;
+  /** Step failed but the pipeline continued (continueOnFailure) */
+  tolerated?: boolean;
+}
+
+// ==================== Job Progress Events ====================
+
+/**
+ * State of one pipeline step within a job progress event
+ */
+export interface StepProgress {
+  name: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  /** Percent complete (0-100) */
+  progress: number;
+  message: string | null;
+  /** Estimated seconds until the step finishes; null until it can be estimated */
+  eta_seconds: number | null;
+}
+
+/**
+ * Progress of a job, published by workers and streamed to clients
+ */
+export interface JobProgressEvent {
+  job_id: string;
+  job_type: string;
+  /** Video the job processes, if any */
+  video_id: string | null;
+  /** Owner of a job without a video (library graphs) */
+  user_id: string | null;
+  status: 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  /** Step that reported most recently */
+  step: string | null;
+  message: string | null;
+  /** Overall percent complete (0-100) */
+  progress: number;
+  /** Estimated seconds until the job finishes; null until it can be estimated */
+  eta_seconds: number | null;
+  steps: StepProgress[];
+  error: string | null;
+  emitted_at: string;
+}
+
+// ==================== Job Control ====================
+
+/**
+ * Request to interrupt a running job, published by the API to workers
+ */
+export interface JobControlMessage {
+  job_id: string;
+  /** `cancel` discards what the run produced; `pause` keeps it for a resume */
+  action: 'cancel' | 'pause';
 }
 
 // ==================== Step-Specific Input/Output Types ====================
@@ -46,15 +46,17 @@ export const ExportTypeEnum = z.enum(['pptx', 'html', 'pdf']);
 
 export const ExportStatusEnum = z.enum(['pending', 'processing', 'complete', 'error']);
 
-export const JobTypeEnum = z.enum(['video_analysis', 'export', 'snippet_generation']);
+export const JobTypeEnum = z.enum(['video_analysis', 'export', 'snippet_generation', 'library_graph']);
 
 export const JobStatusEnum = z.enum(['pending', 'running', 'paused', 'completed', 'failed', 'cancelled']);
 
 export const ShareScopeEnum = z.enum(['view', 'comment', 'edit']);
 
+export const AclRoleEnum = z.enum(['owner', 'editor', 'viewer']);
+
 export const ResourceTypeEnum = z.enum(['video', 'graph', 'topic']);
 
-export const GraphStatusEnum = z.enum(['processing', 'complete', 'error']);
+export const GraphStatusEnum = z.enum(['processing', 'complete', 'error', 'cancelled']);
 
 // ==================== Pipeline Config Schema ====================
 
@@ -129,6 +131,7 @@ export const TopicNodeSchema = z.object({
   embedding: z.array(z.number()).nullable().optional(),
   importance_score: z.number().min(0).max(1).default(0.5),
   cluster_id: z.string().nullable(),
+  cluster_label: z.string().max(200).nullable().optional(),
   transcript_segment_ids: z.array(UuidSchema).default([]),
   created_at: DateTimeSchema,
   updated_at: DateTimeSchema,
@@ -261,7 +264,7 @@ export const AclEntrySchema = z.object({
   resource_type: ResourceTypeEnum,
   resource_id: UuidSchema,
   user_id: z.string(),
-  role: z.enum(['owner', 'editor', 'viewer']),
+  role: AclRoleEnum,
   created_by: z.string(),
   created_at: DateTimeSchema,
 });
@@ -278,11 +281,27 @@ export const SearchQuerySchema = z.object({
     min_importance: z.number().min(0).max(1).optional(),
     date_from: DateTimeSchema.optional(),
     date_to: DateTimeSchema.optional(),
+    speakers: z.array(z.string()).optional(),
+    cluster_ids: z.array(z.string()).optional(),
+    edge_types: z.array(EdgeTypeEnum).optional(),
+    source_types: z.array(SourceTypeEnum).optional(),
+    metadata: z.record(z.unknown()).optional(),
   }).optional(),
   options: z.object({
     include_transcripts: z.boolean().default(false),
     include_edges: z.boolean().default(false),
     top_k: z.number().int().min(1).max(100).default(10),
+    mode: z.enum(['topics', 'segments']).default('topics'),
+    fusion: z.object({
+      k: z.number().positive().optional(),
+      weights: z.object({
+        vector: z.number().min(0).optional(),
+        title: z.number().min(0).optional(),
+        summary: z.number().min(0).optional(),
+        keywords: z.number().min(0).optional(),
+        transcript: z.number().min(0).optional(),
+      }).optional(),
+    }).optional(),
   }).optional(),
 });
 
@@ -299,6 +318,18 @@ export const VideoAnalyzeRequestSchema = z.object({
 
 export type VideoAnalyzeRequest = z.infer<typeof VideoAnalyzeRequestSchema>;
 
+export const CreateUploadRequestSchema = z.object({
+  filename: z.string().min(1).max(255),
+  size_bytes: z.number().int().positive(),
+  checksum_sha256: z.string().regex(/^[a-f0-9]{64}$/i),
+  duration_s: z.number().positive(),
+  content_type: z.string().max(100).optional(),
+  config: PipelineConfigSchema.optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export type CreateUploadRequest = z.infer<typeof CreateUploadRequestSchema>;
+
 export const CreateExportRequestSchema = z.object({
   video_id: UuidSchema,
   graph_version_id: UuidSchema.optional(),
@@ -323,3 +354,40 @@ export const CreateShareRequestSchema = z.object({
 });
 
 export type CreateShareRequest = z.infer<typeof CreateShareRequestSchema>;
+
+export const AddCollaboratorRequestSchema = z.object({
+  user_id: z.string().min(1).max(255),
+  role: AclRoleEnum,
+});
+
+export type AddCollaboratorRequest = z.infer<typeof AddCollaboratorRequestSchema>;
+
+export const UpdateCollaboratorRequestSchema = z.object({
+  role: AclRoleEnum,
+});
+
+export type UpdateCollaboratorRequest = z.infer<typeof UpdateCollaboratorRequestSchema>;
+
+export const ReprocessGraphRequestSchema = z.object({
+  // Only settings applied after transcription; the rest are kept from the parent version
+  config: PipelineConfigSchema.pick({
+    topic_levels: true,
+    topic_merge_threshold: true,
+    min_segment_duration_s: true,
+    max_segment_duration_s: true,
+    importance_centrality_weight: true,
+    importance_duration_weight: true,
+    importance_novelty_weight: true,
+    llm_model: true,
+    edge_similarity_threshold: true,
+  }).partial().strict(),
+  notes: z.string().max(1000).optional(),
+});
+
+export type ReprocessGraphRequest = z.infer<typeof ReprocessGraphRequestSchema>;
+
+export const RevertTopicEditsRequestSchema = z.object({
+  count: z.number().int().min(1).max(50).default(1),
+});
+
+export type RevertTopicEditsRequest = z.infer<typeof RevertTopicEditsRequestSchema>;
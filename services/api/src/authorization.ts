@@ -0,0 +1,212 @@
+/**
+ * Video Authorization
+ *
+ * Resolves what a user may do with a video. Access comes from owning the
+ * video, an ACL entry on it, or a redeemed share link for it that has
+ * not expired. Graphs, topics, jobs and exports inherit the access of
+ * their video.
+ */
+
+import { eq, and, or, inArray, sql, type SQL } from 'drizzle-orm';
+import { db, schema } from './db/index.js';
+
+export type AccessRole = 'viewer' | 'editor' | 'owner';
+
+const ROLE_RANK: Record<AccessRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+/** Role granted by a redeemed share of each scope; shares never grant ownership */
+const SHARE_SCOPE_ROLE: Record<string, AccessRole> = {
+  view: 'viewer',
+  comment: 'viewer',
+  edit: 'editor',
+};
+
+/**
+ * The user's strongest role on a video, or null without access. Roles
+ * from redeemed share links are left out when `viaShares` is false.
+ */
+export async function videoRole(
+  videoId: string,
+  userId: string,
+  options: { viaShares?: boolean } = {}
+): Promise<AccessRole | null> {
+  const video = await db.query.videos.findFirst({
+    where: eq(schema.videos.id, videoId),
+    columns: { createdBy: true },
+  });
+
+  if (!video) {
+    return null;
+  }
+  if (video.createdBy === userId) {
+    return 'owner';
+  }
+
+  const roles: AccessRole[] = [];
+
+  const aclEntry = await db.query.acl.findFirst({
+    where: and(
+      eq(schema.acl.resourceType, 'video'),
+      eq(schema.acl.resourceId, videoId),
+      eq(schema.acl.userId, userId)
+    ),
+  });
+  if (aclEntry && aclEntry.role in ROLE_RANK) {
+    roles.push(aclEntry.role as AccessRole);
+  }
+
+  if (options.viaShares !== false) {
+    const redeemed = await db
+      .select({ scope: schema.shares.scope })
+      .from(schema.shareRedemptions)
+      .innerJoin(schema.shares, eq(schema.shares.token, schema.shareRedemptions.token))
+      .where(
+        and(
+          eq(schema.shareRedemptions.userId, userId),
+          eq(schema.shares.resourceType, 'video'),
+          eq(schema.shares.resourceId, videoId),
+          activeShare()
+        )
+      );
+    for (const { scope } of redeemed) {
+      if (SHARE_SCOPE_ROLE[scope]) roles.push(SHARE_SCOPE_ROLE[scope]);
+    }
+  }
+
+  if (roles.length === 0) {
+    return null;
+  }
+  return roles.reduce((best, role) => (ROLE_RANK[role] > ROLE_RANK[best] ? role : best));
+}
+
+/**
+ * Whether the user holds at least `requiredRole` on a video
+ */
+export async function canAccessVideo(
+  videoId: string,
+  userId: string,
+  requiredRole: AccessRole
+): Promise<boolean> {
+  return hasRole(await videoRole(videoId, userId), requiredRole);
+}
+
+/**
+ * Whether `role` is at least `requiredRole`
+ */
+export function hasRole(role: AccessRole | null, requiredRole: AccessRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[requiredRole];
+}
+
+/**
+ * Condition on the videos table matching every video the user holds at
+ * least `requiredRole` on, for use in list and search queries
+ */
+export function accessibleVideoCondition(userId: string, requiredRole: AccessRole = 'viewer'): SQL {
+  const aclRoles = rolesAtLeast(requiredRole);
+  const shareScopes = Object.keys(SHARE_SCOPE_ROLE).filter((scope) =>
+    aclRoles.includes(SHARE_SCOPE_ROLE[scope])
+  );
+
+  const conditions: SQL[] = [
+    eq(schema.videos.createdBy, userId),
+    sql`EXISTS (
+      SELECT 1 FROM ${schema.acl}
+      WHERE ${schema.acl.resourceType} = 'video'
+        AND ${schema.acl.resourceId} = ${schema.videos.id}
+        AND ${schema.acl.userId} = ${userId}
+        AND ${inArray(schema.acl.role, aclRoles)}
+    )`,
+  ];
+
+  if (shareScopes.length > 0) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM ${schema.shareRedemptions}
+      JOIN ${schema.shares} ON ${schema.shares.token} = ${schema.shareRedemptions.token}
+      WHERE ${schema.shareRedemptions.userId} = ${userId}
+        AND ${schema.shares.resourceType} = 'video'
+        AND ${schema.shares.resourceId} = ${schema.videos.id}
+        AND ${inArray(schema.shares.scope, shareScopes)}
+        AND ${activeShare()}
+    )`);
+  }
+
+  return or(...conditions)!;
+}
+
+/**
+ * IDs of every video the user holds at least `requiredRole` on
+ */
+export async function accessibleVideoIds(
+  userId: string,
+  requiredRole: AccessRole = 'viewer'
+): Promise<string[]> {
+  const videos = await db
+    .select({ id: schema.videos.id })
+    .from(schema.videos)
+    .where(accessibleVideoCondition(userId, requiredRole));
+
+  return videos.map((v) => v.id);
+}
+
+/**
+ * The subset of `videoIds` the user holds at least `requiredRole` on
+ */
+export async function filterAccessibleVideoIds(
+  videoIds: string[],
+  userId: string,
+  requiredRole: AccessRole = 'viewer'
+): Promise<string[]> {
+  if (videoIds.length === 0) {
+    return [];
+  }
+
+  const videos = await db
+    .select({ id: schema.videos.id })
+    .from(schema.videos)
+    .where(and(inArray(schema.videos.id, videoIds), accessibleVideoCondition(userId, requiredRole)));
+
+  return videos.map((v) => v.id);
+}
+
+/**
+ * Video a graph version or topic belongs to, whose access it inherits;
+ * null when the resource does not exist
+ */
+export async function resourceVideoId(
+  resourceType: 'video' | 'graph' | 'topic',
+  resourceId: string
+): Promise<string | null> {
+  switch (resourceType) {
+    case 'video': {
+      const video = await db.query.videos.findFirst({
+        where: eq(schema.videos.id, resourceId),
+        columns: { id: true },
+      });
+      return video?.id ?? null;
+    }
+    case 'graph': {
+      const graph = await db.query.graphVersions.findFirst({
+        where: eq(schema.graphVersions.id, resourceId),
+        columns: { videoId: true },
+      });
+      return graph?.videoId ?? null;
+    }
+    case 'topic': {
+      const topic = await db.query.topicNodes.findFirst({
+        where: eq(schema.topicNodes.id, resourceId),
+        columns: { videoId: true },
+      });
+      return topic?.videoId ?? null;
+    }
+  }
+}
+
+function rolesAtLeast(requiredRole: AccessRole): AccessRole[] {
+  return (Object.keys(ROLE_RANK) as AccessRole[]).filter(
+    (role) => ROLE_RANK[role] >= ROLE_RANK[requiredRole]
+  );
+}
+
+function activeShare(): SQL {
+  return sql`(${schema.shares.expiresAt} IS NULL OR ${schema.shares.expiresAt} > now())`;
+}
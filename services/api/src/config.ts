@@ -5,6 +5,7 @@
  */
 
 import { config as dotenvConfig } from 'dotenv';
+import type { EmbeddingModelConfig, LlmModelConfig } from '@video-graph/shared-types';
 
 dotenvConfig();
 
@@ -27,6 +28,11 @@ function getEnvInt(name: string, defaultValue?: number): number {
   return parseInt(value, 10);
 }
 
+function getEnvFloat(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  return value === undefined ? defaultValue : parseFloat(value);
+}
+
 function getEnvBool(name: string, defaultValue = false): boolean {
   const value = process.env[name];
   if (value === undefined) {
@@ -62,6 +68,7 @@ export const config = {
   // Upload
   upload: {
     maxFileSize: getEnvInt('UPLOAD_MAX_FILE_SIZE', 100 * 1024 * 1024), // 100MB
+    chunkSize: getEnvInt('UPLOAD_CHUNK_SIZE', 8 * 1024 * 1024), // 8MB
   },
 
   // Database
@@ -80,9 +87,9 @@ export const config = {
     url: getEnv('REDIS_URL', 'redis://localhost:6379'),
   },
 
-  // Storage (MinIO/S3)
+  // Storage (MinIO/S3/filesystem)
   storage: {
-    provider: getEnv('STORAGE_PROVIDER', 'minio') as 'minio' | 's3',
+    provider: getEnv('STORAGE_PROVIDER', 'minio') as 'minio' | 's3' | 'filesystem',
     endpoint: getEnv('STORAGE_ENDPOINT', 'http://localhost:9000'),
     region: getEnv('STORAGE_REGION', 'us-east-1'),
     accessKey: getEnv('STORAGE_ACCESS_KEY', 'minioadmin'),
@@ -90,6 +97,8 @@ export const config = {
     bucket: getEnv('STORAGE_BUCKET', 'videograph'),
     useSsl: getEnvBool('STORAGE_USE_SSL', false),
     presignedUrlExpirySeconds: getEnvInt('STORAGE_PRESIGNED_URL_EXPIRY', 3600),
+    localPath: getEnv('STORAGE_LOCAL_PATH', './data/storage'),
+    partSizeMb: getEnvInt('STORAGE_PART_SIZE_MB', 64),
   },
 
   // Auth (Keycloak)
@@ -109,6 +118,53 @@ export const config = {
     redisUrl: getEnv('WORKER_REDIS_URL', 'redis://localhost:6379'),
   },
 
+  // Hybrid search (reciprocal rank fusion of vector and full-text rankings)
+  search: {
+    fusionK: getEnvInt('SEARCH_FUSION_K', 60),
+    candidatesPerSignal: getEnvInt('SEARCH_CANDIDATES_PER_SIGNAL', 50),
+    weights: {
+      vector: getEnvFloat('SEARCH_WEIGHT_VECTOR', 1),
+      title: getEnvFloat('SEARCH_WEIGHT_TITLE', 0.6),
+      summary: getEnvFloat('SEARCH_WEIGHT_SUMMARY', 0.4),
+      keywords: getEnvFloat('SEARCH_WEIGHT_KEYWORDS', 0.6),
+      transcript: getEnvFloat('SEARCH_WEIGHT_TRANSCRIPT', 0.4),
+    },
+  },
+
+  // Embedding model for search queries; must match the worker's EMBEDDING_* settings
+  embedding: {
+    provider: getEnv('EMBEDDING_PROVIDER', 'ollama') as EmbeddingModelConfig['provider'],
+    model: getEnv('EMBEDDING_MODEL', 'all-minilm'),
+    baseUrl: process.env.EMBEDDING_BASE_URL,
+    ollamaHost: process.env.OLLAMA_HOST,
+    apiKey: process.env.EMBEDDING_API_KEY,
+  },
+
+  // Chat model for deep search answers
+  llm: {
+    provider: getEnv('LLM_PROVIDER', 'ollama') as LlmModelConfig['provider'],
+    model: getEnv('LLM_MODEL', 'mistral'),
+    baseUrl: process.env.LLM_BASE_URL,
+    ollamaHost: process.env.OLLAMA_HOST,
+    apiKey: process.env.LLM_API_KEY,
+    contextWindow: getEnvInt('LLM_CONTEXT_WINDOW', 4096),
+    maxTokens: getEnvInt('LLM_MAX_TOKENS', 512),
+    temperature: getEnvFloat('LLM_TEMPERATURE', 0.2),
+  },
+
+  // Deep search (retrieval-augmented answers)
+  deepSearch: {
+    segmentsPerTopic: getEnvInt('DEEP_SEARCH_SEGMENTS_PER_TOPIC', 3),
+    claimCheck: getEnv('DEEP_SEARCH_CLAIM_CHECK', 'llm') as 'llm' | 'lexical' | 'none',
+  },
+
+  // Live job progress (Server-Sent Events)
+  realtime: {
+    replayLimit: getEnvInt('REALTIME_REPLAY_LIMIT', 1000),
+    heartbeatMs: getEnvInt('REALTIME_HEARTBEAT_MS', 15000),
+    accessCacheMs: getEnvInt('REALTIME_ACCESS_CACHE_MS', 30000),
+  },
+
   // Feature flags
   features: {
     sceneDetection: getEnvBool('FEATURE_SCENE_DETECTION', false),
@@ -10,6 +10,7 @@ import {
   varchar,
   text,
   integer,
+  bigint,
   real,
   boolean,
   timestamp,
@@ -19,7 +20,7 @@ import {
   primaryKey,
   foreignKey,
 } from 'drizzle-orm/pg-core';
-import { vector } from 'pgvector/drizzle';
+import { vector } from 'pgvector/drizzle-orm';
 import { sql } from 'drizzle-orm';
 
 // ==================== Videos Table ====================
@@ -66,6 +67,10 @@ export const transcriptSegments = pgTable(
     videoIdIdx: index('transcript_video_id_idx').on(table.videoId),
     startIdx: index('transcript_start_idx').on(table.startSeconds),
     speakerIdx: index('transcript_speaker_idx').on(table.speakerId),
+    textSearchIdx: index('transcript_text_search_idx').using(
+      'gin',
+      sql`to_tsvector('english', ${table.text})`
+    ),
   })
 );
 
@@ -88,7 +93,7 @@ export const graphVersions = pgTable(
   },
   (table) => ({
     videoIdIdx: index('graph_video_id_idx').on(table.videoId),
-    versionIdx: index('graph_version_idx').on(table.videoId, table.version),
+    versionIdx: uniqueIndex('graph_version_idx').on(table.videoId, table.version),
     parentIdx: index('graph_parent_idx').on(table.parentVersionId),
   })
 );
@@ -116,6 +121,7 @@ export const topicNodes = pgTable(
     embedding: vector('embedding', { dimensions: 384 }),
     importanceScore: real('importance_score').notNull().default(0.5),
     clusterId: varchar('cluster_id', { length: 100 }),
+    clusterLabel: varchar('cluster_label', { length: 200 }),
     transcriptSegmentIds: jsonb('transcript_segment_ids').notNull().default([]),
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
@@ -129,6 +135,19 @@ export const topicNodes = pgTable(
       'hnsw',
       table.embedding.op('vector_cosine_ops')
     ),
+    // Full-text indexes for hybrid search; queries must use the same expressions
+    titleSearchIdx: index('topic_title_search_idx').using(
+      'gin',
+      sql`to_tsvector('english', ${table.title})`
+    ),
+    summarySearchIdx: index('topic_summary_search_idx').using(
+      'gin',
+      sql`to_tsvector('english', ${table.summary})`
+    ),
+    keywordsSearchIdx: index('topic_keywords_search_idx').using(
+      'gin',
+      sql`jsonb_to_tsvector('english', ${table.keywords}, '["string"]')`
+    ),
   })
 );
 
@@ -165,6 +184,95 @@ export const topicEdges = pgTable(
   })
 );
 
+// ==================== Graph Analytics Table ====================
+
+export const graphAnalytics = pgTable('graph_analytics', {
+  graphVersionId: uuid('graph_version_id')
+    .primaryKey()
+    .references(() => graphVersions.id, { onDelete: 'cascade' }),
+  result: jsonb('result').notNull(),
+  computedAt: timestamp('computed_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// ==================== Topic Edits Table ====================
+
+// Append-only log of manual topic edits on a graph version. Each entry
+// holds the affected rows before and after the operation; undo and redo
+// are logged as entries of their own pointing at the edit they revert.
+export const topicEdits = pgTable(
+  'topic_edits',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    graphVersionId: uuid('graph_version_id')
+      .notNull()
+      .references(() => graphVersions.id, { onDelete: 'cascade' }),
+    sequence: integer('sequence').notNull(),
+    operation: varchar('operation', { length: 20 }).notNull(), // update, merge, split, undo, redo
+    targetEditId: uuid('target_edit_id'),
+    topicIds: jsonb('topic_ids').notNull().default([]),
+    before: jsonb('before').notNull(),
+    after: jsonb('after').notNull(),
+    userId: varchar('user_id', { length: 255 }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    sequenceIdx: uniqueIndex('topic_edit_sequence_idx').on(table.graphVersionId, table.sequence),
+  })
+);
+
+// ==================== Library Graphs Table ====================
+
+export const libraryGraphs = pgTable(
+  'library_graphs',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: varchar('user_id', { length: 255 }).notNull(),
+    status: varchar('status', { length: 50 }).notNull().default('processing'),
+    jobId: uuid('job_id'),
+    videoIds: jsonb('video_ids').notNull().default([]),
+    clusters: jsonb('clusters').notNull().default([]),
+    nodeCount: integer('node_count').notNull().default(0),
+    edgeCount: integer('edge_count').notNull().default(0),
+    error: text('error'),
+    computedAt: timestamp('computed_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdx: uniqueIndex('library_graph_user_idx').on(table.userId),
+  })
+);
+
+// ==================== Library Edges Table ====================
+
+export const libraryEdges = pgTable(
+  'library_edges',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    libraryGraphId: uuid('library_graph_id')
+      .notNull()
+      .references(() => libraryGraphs.id, { onDelete: 'cascade' }),
+    srcTopicId: uuid('src_topic_id')
+      .notNull()
+      .references(() => topicNodes.id, { onDelete: 'cascade' }),
+    dstTopicId: uuid('dst_topic_id')
+      .notNull()
+      .references(() => topicNodes.id, { onDelete: 'cascade' }),
+    srcVideoId: uuid('src_video_id').notNull(),
+    dstVideoId: uuid('dst_video_id').notNull(),
+    edgeType: varchar('edge_type', { length: 50 }).notNull(),
+    distance: real('distance').notNull(),
+    weight: real('weight').notNull(),
+    metadata: jsonb('metadata').default({}),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    libraryGraphIdx: index('library_edge_graph_idx').on(table.libraryGraphId),
+    srcIdx: index('library_edge_src_idx').on(table.srcTopicId),
+    dstIdx: index('library_edge_dst_idx').on(table.dstTopicId),
+  })
+);
+
 // ==================== Snippets Table ====================
 
 export const snippets = pgTable(
@@ -240,6 +348,26 @@ export const shares = pgTable(
   })
 );
 
+// ==================== Share Redemptions Table ====================
+
+// Signed-in users who opened a share link; a redeemed video share grants
+// access to the video until the share expires or is revoked
+export const shareRedemptions = pgTable(
+  'share_redemptions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    token: varchar('token', { length: 255 })
+      .notNull()
+      .references(() => shares.token, { onDelete: 'cascade' }),
+    userId: varchar('user_id', { length: 255 }).notNull(),
+    redeemedAt: timestamp('redeemed_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdx: index('share_redemption_user_idx').on(table.userId),
+    uniqueRedemption: uniqueIndex('share_redemption_unique_idx').on(table.token, table.userId),
+  })
+);
+
 // ==================== ACL Table ====================
 
 export const acl = pgTable(
@@ -264,6 +392,32 @@ export const acl = pgTable(
   })
 );
 
+// ==================== ACL Audit Table ====================
+
+// Append-only record of collaborator changes: who granted, changed or
+// revoked which role for whom
+export const aclAudit = pgTable(
+  'acl_audit',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    resourceType: varchar('resource_type', { length: 50 }).notNull(),
+    resourceId: uuid('resource_id').notNull(),
+    userId: varchar('user_id', { length: 255 }).notNull(),
+    action: varchar('action', { length: 50 }).notNull(), // grant, update, revoke
+    previousRole: varchar('previous_role', { length: 50 }),
+    role: varchar('role', { length: 50 }),
+    actorId: varchar('actor_id', { length: 255 }).notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    resourceIdx: index('acl_audit_resource_idx').on(
+      table.resourceType,
+      table.resourceId,
+      table.createdAt
+    ),
+  })
+);
+
 // ==================== Quota Policies Table ====================
 
 export const quotaPolicies = pgTable('quota_policies', {
@@ -324,6 +478,32 @@ export const jobs = pgTable(
   })
 );
 
+// ==================== Uploads Table ====================
+
+export const uploads = pgTable(
+  'uploads',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: varchar('user_id', { length: 255 }).notNull(),
+    filename: varchar('filename', { length: 255 }).notNull(),
+    contentType: varchar('content_type', { length: 100 }),
+    sizeBytes: bigint('size_bytes', { mode: 'number' }).notNull(),
+    receivedBytes: bigint('received_bytes', { mode: 'number' }).notNull().default(0),
+    checksumSha256: varchar('checksum_sha256', { length: 64 }).notNull(),
+    durationSeconds: real('duration_seconds').notNull(),
+    status: varchar('status', { length: 50 }).notNull().default('uploading'),
+    config: jsonb('config').default({}),
+    metadata: jsonb('metadata').default({}),
+    videoId: uuid('video_id').references(() => videos.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdx: index('upload_user_idx').on(table.userId),
+    statusIdx: index('upload_status_idx').on(table.status),
+  })
+);
+
 // ==================== Type Exports ====================
 
 export type Video = typeof videos.$inferSelect;
@@ -341,6 +521,18 @@ export type NewTopicNode = typeof topicNodes.$inferInsert;
 export type TopicEdge = typeof topicEdges.$inferSelect;
 export type NewTopicEdge = typeof topicEdges.$inferInsert;
 
+export type GraphAnalytics = typeof graphAnalytics.$inferSelect;
+export type NewGraphAnalytics = typeof graphAnalytics.$inferInsert;
+
+export type TopicEdit = typeof topicEdits.$inferSelect;
+export type NewTopicEdit = typeof topicEdits.$inferInsert;
+
+export type LibraryGraph = typeof libraryGraphs.$inferSelect;
+export type NewLibraryGraph = typeof libraryGraphs.$inferInsert;
+
+export type LibraryEdge = typeof libraryEdges.$inferSelect;
+export type NewLibraryEdge = typeof libraryEdges.$inferInsert;
+
 export type Snippet = typeof snippets.$inferSelect;
 export type NewSnippet = typeof snippets.$inferInsert;
 
@@ -350,9 +542,15 @@ export type NewExport = typeof exports.$inferInsert;
 export type Share = typeof shares.$inferSelect;
 export type NewShare = typeof shares.$inferInsert;
 
+export type ShareRedemption = typeof shareRedemptions.$inferSelect;
+export type NewShareRedemption = typeof shareRedemptions.$inferInsert;
+
 export type AclEntry = typeof acl.$inferSelect;
 export type NewAclEntry = typeof acl.$inferInsert;
 
+export type AclAuditEntry = typeof aclAudit.$inferSelect;
+export type NewAclAuditEntry = typeof aclAudit.$inferInsert;
+
 export type QuotaPolicy = typeof quotaPolicies.$inferSelect;
 export type NewQuotaPolicy = typeof quotaPolicies.$inferInsert;
 
@@ -361,3 +559,6 @@ export type NewUserQuota = typeof userQuotas.$inferInsert;
 
 export type Job = typeof jobs.$inferSelect;
 export type NewJob = typeof jobs.$inferInsert;
+
+export type Upload = typeof uploads.$inferSelect;
+export type NewUpload = typeof uploads.$inferInsert;
@@ -4,10 +4,13 @@
  * Fastify-based REST API with:
  * - OIDC authentication via Keycloak
  * - CRUD operations for videos, graphs, topics
+ * - Graph analytics (centrality, communities, paths)
+ * - Cross-video library graphs
  * - Semantic and deep search
  * - Export generation
  * - Quota management
  * - Sharing
+ * - Live job progress (Server-Sent Events)
  */
 
 import Fastify from 'fastify';
@@ -32,6 +35,11 @@ import { exportRoutes } from './routes/exports.js';
 import { quotaRoutes } from './routes/quota.js';
 import { shareRoutes } from './routes/shares.js';
 import { jobRoutes } from './routes/jobs.js';
+import { uploadRoutes } from './routes/uploads.js';
+import { analyticsRoutes } from './routes/analytics.js';
+import { libraryRoutes } from './routes/library.js';
+import { collaboratorRoutes } from './routes/collaborators.js';
+import { eventRoutes } from './routes/events.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -122,6 +130,11 @@ async function buildServer() {
   await app.register(quotaRoutes, { prefix: '/api/v1' });
   await app.register(shareRoutes, { prefix: '/api/v1' });
   await app.register(jobRoutes, { prefix: '/api/v1' });
+  await app.register(uploadRoutes, { prefix: '/api/v1' });
+  await app.register(analyticsRoutes, { prefix: '/api/v1' });
+  await app.register(libraryRoutes, { prefix: '/api/v1' });
+  await app.register(collaboratorRoutes, { prefix: '/api/v1' });
+  await app.register(eventRoutes, { prefix: '/api/v1' });
 
   return app;
 }
@@ -0,0 +1,31 @@
+/**
+ * Job Control
+ *
+ * Asks workers to interrupt a running job. Every worker subscribes to the
+ * control channel and the one running the job aborts it; the jobs row,
+ * which the API updates first, covers jobs no worker has picked up yet.
+ */
+
+import Redis from 'ioredis';
+import { JOB_CONTROL_CHANNEL, type JobControlAction } from '@video-graph/pipeline-sdk';
+import type { JobControlMessage } from '@video-graph/shared-types';
+import { config } from './config.js';
+
+let client: Redis | null = null;
+
+/**
+ * Publish a cancel or pause request for a job
+ */
+export async function publishJobControl(jobId: string, action: JobControlAction): Promise<void> {
+  client ??= new Redis(config.redis.url);
+  const message: JobControlMessage = { job_id: jobId, action };
+  await client.publish(JOB_CONTROL_CHANNEL, JSON.stringify(message));
+}
+
+/**
+ * Close the Redis connection
+ */
+export async function closeJobControl(): Promise<void> {
+  await client?.quit();
+  client = null;
+}
@@ -0,0 +1,131 @@
+/**
+ * Job Progress Events
+ *
+ * Relays job progress published by workers to connected clients. One
+ * Redis subscription per API process fans messages out to listeners; the
+ * capped event stream serves replays after a reconnect, and each job's
+ * latest message gives new clients a starting point.
+ */
+
+import Redis from 'ioredis';
+import {
+  JOB_PROGRESS_CHANNEL,
+  JOB_PROGRESS_STREAM,
+  jobProgressKey,
+} from '@video-graph/pipeline-sdk';
+import type { JobProgressEvent } from '@video-graph/shared-types';
+import { config } from './config.js';
+
+export interface ProgressMessage {
+  /** Stream entry ID, used as the event ID */
+  id: string;
+  event: JobProgressEvent;
+}
+
+type ProgressListener = (message: ProgressMessage) => void;
+
+/** Redis stream entry IDs (`<ms>-<seq>`) */
+export const EVENT_ID_PATTERN = /^\d+-\d+$/;
+
+const listeners = new Set<ProgressListener>();
+let subscriber: Redis | null = null;
+let subscribed: Promise<unknown> | null = null;
+let client: Redis | null = null;
+
+/**
+ * Receive every progress message published from now on. Resolves once
+ * the subscription is active, with a function that ends it.
+ */
+export async function subscribeProgress(listener: ProgressListener): Promise<() => void> {
+  if (!subscriber) {
+    subscriber = new Redis(config.redis.url);
+    subscriber.on('message', (_channel: string, data: string) => {
+      const message = parseMessage(data);
+      if (!message) return;
+      for (const notify of listeners) notify(message);
+    });
+    subscribed = subscriber.subscribe(JOB_PROGRESS_CHANNEL);
+  }
+
+  await subscribed;
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Messages published after `lastEventId`, oldest first, as far back as
+ * the stream still holds them
+ */
+export async function progressSince(lastEventId: string): Promise<ProgressMessage[]> {
+  const entries = await commands().xrange(
+    JOB_PROGRESS_STREAM,
+    `(${lastEventId}`,
+    '+',
+    'COUNT',
+    config.realtime.replayLimit
+  );
+
+  return entries
+    .map(([id, fields]: [string, string[]]): ProgressMessage | null => {
+      const index = fields.indexOf('event');
+      if (index === -1) return null;
+      try {
+        return { id, event: JSON.parse(fields[index + 1]) as JobProgressEvent };
+      } catch {
+        return null;
+      }
+    })
+    .filter((message): message is ProgressMessage => message !== null);
+}
+
+/**
+ * Latest message of each job that has published one, oldest first
+ */
+export async function latestProgress(jobIds: string[]): Promise<ProgressMessage[]> {
+  if (jobIds.length === 0) {
+    return [];
+  }
+
+  const values = await commands().mget(jobIds.map(jobProgressKey));
+
+  return values
+    .map((value) => (value ? parseMessage(value) : null))
+    .filter((message): message is ProgressMessage => message !== null)
+    .sort((a, b) => compareEventIds(a.id, b.id));
+}
+
+/**
+ * Order two event IDs by time, then sequence
+ */
+export function compareEventIds(a: string, b: string): number {
+  const [aMs, aSeq] = a.split('-').map(Number);
+  const [bMs, bSeq] = b.split('-').map(Number);
+  return aMs - bMs || aSeq - bSeq;
+}
+
+/**
+ * Close the Redis connections
+ */
+export async function closeProgressEvents(): Promise<void> {
+  listeners.clear();
+  await Promise.all([subscriber?.quit(), client?.quit()]);
+  subscriber = null;
+  subscribed = null;
+  client = null;
+}
+
+function commands(): Redis {
+  client ??= new Redis(config.redis.url);
+  return client;
+}
+
+function parseMessage(data: string): ProgressMessage | null {
+  try {
+    const message = JSON.parse(data) as ProgressMessage;
+    return typeof message.id === 'string' && message.event ? message : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Graph Analytics Routes
+ *
+ * Centrality, communities, bridge topics and shortest paths for a graph
+ * version. Analytics are computed on first request and cached per graph
+ * version until its topics change.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { eq } from 'drizzle-orm';
+import {
+  analyzeGraph,
+  shortestPath,
+  type AnalyticsGraph,
+  type GraphAnalytics,
+} from '@video-graph/pipeline-sdk';
+import { db, schema } from '../db/index.js';
+import { canAccessVideo } from '../authorization.js';
+
+export async function analyticsRoutes(fastify: FastifyInstance) {
+  // GET /graphs/:id/analytics - Centrality, communities and bridges
+  fastify.get<{
+    Params: { id: string };
+    Querystring: { limit?: number; refresh?: boolean };
+  }>('/graphs/:id/analytics', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    const userId = request.user!.sub;
+    const graphId = request.params.id;
+    const limit = Math.min(Math.max(Number(request.query.limit ?? 20), 1), 200);
+    const refresh = String(request.query.refresh) === 'true';
+
+    const graphVersion = await db.query.graphVersions.findFirst({
+      where: eq(schema.graphVersions.id, graphId),
+    });
+
+    if (!graphVersion) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'Graph not found',
+      });
+    }
+
+    // Check access
+    const hasAccess = await canAccessVideo(graphVersion.videoId, userId, 'viewer');
+    if (!hasAccess) {
+      return reply.status(403).send({
+        code: 'FORBIDDEN',
+        message: 'Access denied',
+      });
+    }
+
+    const topics = await db.query.topicNodes.findMany({
+      where: eq(schema.topicNodes.graphVersionId, graphId),
+    });
+
+    const cached = refresh
+      ? undefined
+      : await db.query.graphAnalytics.findFirst({
+          where: eq(schema.graphAnalytics.graphVersionId, graphId),
+        });
+
+    let analytics: GraphAnalytics;
+    let computedAt: Date;
+    if (cached) {
+      analytics = cached.result as GraphAnalytics;
+      computedAt = cached.computedAt;
+    } else {
+      const graph = await loadAnalyticsGraph(graphId, topics);
+      analytics = analyzeGraph(graph, {
+        groups: Object.fromEntries(topics.map((t) => [t.id, t.clusterId])),
+      });
+
+      const [row] = await db
+        .insert(schema.graphAnalytics)
+        .values({ graphVersionId: graphId, result: analytics })
+        .onConflictDoUpdate({
+          target: schema.graphAnalytics.graphVersionId,
+          set: { result: analytics, computedAt: new Date() },
+        })
+        .returning();
+      computedAt = row.computedAt;
+    }
+
+    const topicsById = new Map(topics.map((t) => [t.id, t]));
+    const ranked = topics
+      .filter((t) => analytics.pageRank[t.id] !== undefined)
+      .sort((a, b) => analytics.pageRank[b.id] - analytics.pageRank[a.id]);
+
+    const communities = new Map<number, string[]>();
+    for (const topic of ranked) {
+      const community = analytics.communities[topic.id];
+      communities.set(community, [...(communities.get(community) ?? []), topic.id]);
+    }
+
+    return reply.send({
+      graph_version_id: graphId,
+      computed_at: computedAt.toISOString(),
+      cached: Boolean(cached),
+      modularity: analytics.modularity,
+      community_count: analytics.communityCount,
+      topics: ranked.slice(0, limit).map((t) => ({
+        topic_id: t.id,
+        title: t.title,
+        level: t.level,
+        cluster_id: t.clusterId,
+        pagerank: analytics.pageRank[t.id],
+        betweenness: analytics.betweenness[t.id] ?? 0,
+        community: analytics.communities[t.id],
+      })),
+      communities: [...communities.entries()]
+        .sort((a, b) => a[0] - b[0])
+        .map(([id, topicIds]) => ({
+          id,
+          size: topicIds.length,
+          central_topic_id: topicIds[0],
+          topic_ids: topicIds,
+        })),
+      bridges: analytics.bridges
+        .filter((b) => topicsById.has(b.id))
+        .map((b) => ({
+          topic_id: b.id,
+          title: topicsById.get(b.id)!.title,
+          group: b.group,
+          connected_groups: b.connectedGroups,
+          participation: b.participation,
+          betweenness: b.betweenness,
+        })),
+    });
+  });
+
+  // GET /graphs/:id/paths - Weighted shortest path between two topics
+  fastify.get<{
+    Params: { id: string };
+    Querystring: { from: string; to: string };
+  }>('/graphs/:id/paths', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    const userId = request.user!.sub;
+    const graphId = request.params.id;
+    const { from, to } = request.query;
+
+    if (!from || !to) {
+      return reply.status(400).send({
+        code: 'VALIDATION_ERROR',
+        message: 'Both from and to topic IDs are required',
+      });
+    }
+
+    const graphVersion = await db.query.graphVersions.findFirst({
+      where: eq(schema.graphVersions.id, graphId),
+    });
+
+    if (!graphVersion) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'Graph not found',
+      });
+    }
+
+    // Check access
+    const hasAccess = await canAccessVideo(graphVersion.videoId, userId, 'viewer');
+    if (!hasAccess) {
+      return reply.status(403).send({
+        code: 'FORBIDDEN',
+        message: 'Access denied',
+      });
+    }
+
+    const topics = await db.query.topicNodes.findMany({
+      where: eq(schema.topicNodes.graphVersionId, graphId),
+    });
+    const topicsById = new Map(topics.map((t) => [t.id, t]));
+
+    if (!topicsById.has(from) || !topicsById.has(to)) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'Topic not found in this graph',
+      });
+    }
+
+    const edges = await db.query.topicEdges.findMany({
+      where: eq(schema.topicEdges.graphVersionId, graphId),
+    });
+    const result = shortestPath(toAnalyticsGraph(topics, edges), from, to);
+
+    if (!result) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'No path between these topics',
+      });
+    }
+
+    // Strongest stored edge for each hop, in either direction
+    const hops = result.path.slice(1).map((dst, i) => {
+      const src = result.path[i];
+      const edge = edges
+        .filter(
+          (e) =>
+            (e.srcTopicId === src && e.dstTopicId === dst) ||
+            (e.srcTopicId === dst && e.dstTopicId === src)
+        )
+        .sort((a, b) => b.weight - a.weight)[0];
+      return {
+        id: edge.id,
+        src_topic_id: src,
+        dst_topic_id: dst,
+        edge_type: edge.edgeType,
+        weight: edge.weight,
+      };
+    });
+
+    return reply.send({
+      graph_version_id: graphId,
+      from,
+      to,
+      cost: result.cost,
+      topics: result.path.map((id) => {
+        const topic = topicsById.get(id)!;
+        return {
+          id: topic.id,
+          title: topic.title,
+          level: topic.level,
+          start_ts: topic.startSeconds,
+          end_ts: topic.endSeconds,
+        };
+      }),
+      edges: hops,
+    });
+  });
+}
+
+/**
+ * Drop cached analytics for a graph version after its topics or edges change
+ */
+export async function invalidateGraphAnalytics(graphVersionId: string): Promise<void> {
+  await db
+    .delete(schema.graphAnalytics)
+    .where(eq(schema.graphAnalytics.graphVersionId, graphVersionId));
+}
+
+async function loadAnalyticsGraph(
+  graphVersionId: string,
+  topics: schema.TopicNode[]
+): Promise<AnalyticsGraph> {
+  const edges = await db.query.topicEdges.findMany({
+    where: eq(schema.topicEdges.graphVersionId, graphVersionId),
+  });
+  return toAnalyticsGraph(topics, edges);
+}
+
+function toAnalyticsGraph(topics: schema.TopicNode[], edges: schema.TopicEdge[]): AnalyticsGraph {
+  return {
+    nodes: topics.map((t) => t.id),
+    edges: edges.map((e) => ({ source: e.srcTopicId, target: e.dstTopicId, weight: e.weight })),
+  };
+}
+
@@ -0,0 +1,401 @@
+/**
+ * Collaborator Routes
+ *
+ * Manages ACL entries on videos. Graph versions and topics have no
+ * entries of their own; they inherit the collaborators of their video.
+ * Editors may add, change and remove viewers and editors; only owners
+ * may grant, change or revoke ownership. These rights come from owning
+ * the video or an ACL entry on it, never from a redeemed share link.
+ * Every change is recorded in the ACL audit log.
+ */
+
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { eq, and, asc, desc, sql } from 'drizzle-orm';
+import {
+  AddCollaboratorRequestSchema,
+  UpdateCollaboratorRequestSchema,
+} from '@video-graph/shared-types';
+import { db, schema } from '../db/index.js';
+import { videoRole, hasRole, resourceVideoId, type AccessRole } from '../authorization.js';
+
+type AuditAction = 'grant' | 'update' | 'revoke';
+
+export async function collaboratorRoutes(fastify: FastifyInstance) {
+  // GET /videos/:id/collaborators - List collaborators
+  fastify.get<{ Params: { id: string } }>(
+    '/videos/:id/collaborators',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      return sendCollaborators('video', request.params.id, request.user!.sub, reply);
+    }
+  );
+
+  // GET /graphs/:id/collaborators - Collaborators inherited from the video
+  fastify.get<{ Params: { id: string } }>(
+    '/graphs/:id/collaborators',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      return sendCollaborators('graph', request.params.id, request.user!.sub, reply);
+    }
+  );
+
+  // GET /topics/:id/collaborators - Collaborators inherited from the video
+  fastify.get<{ Params: { id: string } }>(
+    '/topics/:id/collaborators',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      return sendCollaborators('topic', request.params.id, request.user!.sub, reply);
+    }
+  );
+
+  // POST /videos/:id/collaborators - Add a collaborator
+  fastify.post<{
+    Params: { id: string };
+    Body: { user_id: string; role: AccessRole };
+  }>('/videos/:id/collaborators', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    const userId = request.user!.sub;
+    const videoId = request.params.id;
+
+    const validation = AddCollaboratorRequestSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request body',
+        details: validation.error.format(),
+      });
+    }
+
+    const { user_id: collaboratorId, role } = validation.data;
+
+    const video = await db.query.videos.findFirst({
+      where: eq(schema.videos.id, videoId),
+    });
+
+    const actorRole = video ? await videoRole(videoId, userId) : null;
+    if (!video || !actorRole) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'Video not found',
+      });
+    }
+
+    if (collaboratorId === video.createdBy) {
+      return reply.status(400).send({
+        code: 'VALIDATION_ERROR',
+        message: 'The video creator is always an owner',
+      });
+    }
+
+    const denied = manageDenied(await managerRole(videoId, userId), null, role);
+    if (denied) {
+      return reply.status(403).send({ code: 'FORBIDDEN', message: denied });
+    }
+
+    const existing = await findEntry(videoId, collaboratorId);
+    if (existing) {
+      return reply.status(409).send({
+        code: 'CONFLICT',
+        message: 'User is already a collaborator',
+      });
+    }
+
+    // A concurrent grant may have added the entry since the check above
+    const entry = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(schema.acl)
+        .values({
+          resourceType: 'video',
+          resourceId: videoId,
+          userId: collaboratorId,
+          role,
+          createdBy: userId,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!created) {
+        return null;
+      }
+
+      await tx
+        .insert(schema.aclAudit)
+        .values(auditEntry(videoId, collaboratorId, 'grant', null, role, userId));
+
+      return created;
+    });
+
+    if (!entry) {
+      return reply.status(409).send({
+        code: 'CONFLICT',
+        message: 'User is already a collaborator',
+      });
+    }
+
+    return reply.status(201).send(formatCollaborator(entry));
+  });
+
+  // PATCH /videos/:id/collaborators/:userId - Change a collaborator's role
+  fastify.patch<{
+    Params: { id: string; userId: string };
+    Body: { role: AccessRole };
+  }>(
+    '/videos/:id/collaborators/:userId',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      const userId = request.user!.sub;
+      const { id: videoId, userId: collaboratorId } = request.params;
+
+      const validation = UpdateCollaboratorRequestSchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.status(400).send({
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request body',
+          details: validation.error.format(),
+        });
+      }
+
+      const { role } = validation.data;
+
+      const actorRole = await videoRole(videoId, userId);
+      const existing = actorRole ? await findEntry(videoId, collaboratorId) : undefined;
+      if (!actorRole || !existing) {
+        return reply.status(404).send({
+          code: 'NOT_FOUND',
+          message: 'Collaborator not found',
+        });
+      }
+
+      const denied = manageDenied(
+        await managerRole(videoId, userId),
+        existing.role as AccessRole,
+        role
+      );
+      if (denied) {
+        return reply.status(403).send({ code: 'FORBIDDEN', message: denied });
+      }
+
+      if (existing.role === role) {
+        return reply.send(formatCollaborator(existing));
+      }
+
+      const entry = await db.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(schema.acl)
+          .set({ role })
+          .where(eq(schema.acl.id, existing.id))
+          .returning();
+
+        await tx
+          .insert(schema.aclAudit)
+          .values(auditEntry(videoId, collaboratorId, 'update', existing.role, role, userId));
+
+        return updated;
+      });
+
+      return reply.send(formatCollaborator(entry));
+    }
+  );
+
+  // DELETE /videos/:id/collaborators/:userId - Remove a collaborator
+  fastify.delete<{ Params: { id: string; userId: string } }>(
+    '/videos/:id/collaborators/:userId',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      const userId = request.user!.sub;
+      const { id: videoId, userId: collaboratorId } = request.params;
+
+      const actorRole = await videoRole(videoId, userId);
+      const existing = actorRole ? await findEntry(videoId, collaboratorId) : undefined;
+      if (!actorRole || !existing) {
+        return reply.status(404).send({
+          code: 'NOT_FOUND',
+          message: 'Collaborator not found',
+        });
+      }
+
+      // Collaborators may always leave a video themselves
+      const denied = collaboratorId === userId
+        ? null
+        : manageDenied(await managerRole(videoId, userId), existing.role as AccessRole, null);
+      if (denied) {
+        return reply.status(403).send({ code: 'FORBIDDEN', message: denied });
+      }
+
+      await db.transaction(async (tx) => {
+        await tx.delete(schema.acl).where(eq(schema.acl.id, existing.id));
+        await tx
+          .insert(schema.aclAudit)
+          .values(auditEntry(videoId, collaboratorId, 'revoke', existing.role, null, userId));
+      });
+
+      return reply.status(204).send();
+    }
+  );
+
+  // GET /videos/:id/collaborators/audit - Who granted what
+  fastify.get<{
+    Params: { id: string };
+    Querystring: { page?: number; limit?: number };
+  }>(
+    '/videos/:id/collaborators/audit',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      const userId = request.user!.sub;
+      const videoId = request.params.id;
+      const page = Math.max(Number(request.query.page ?? 1), 1);
+      const limit = Math.min(Math.max(Number(request.query.limit ?? 50), 1), 200);
+
+      const actorRole = await videoRole(videoId, userId);
+      if (!actorRole) {
+        return reply.status(404).send({
+          code: 'NOT_FOUND',
+          message: 'Video not found',
+        });
+      }
+
+      if (!hasRole(await managerRole(videoId, userId), 'editor')) {
+        return reply.status(403).send({
+          code: 'FORBIDDEN',
+          message: 'Only editors and owners can view the audit log',
+        });
+      }
+
+      const where = and(
+        eq(schema.aclAudit.resourceType, 'video'),
+        eq(schema.aclAudit.resourceId, videoId)
+      );
+
+      const entries = await db.query.aclAudit.findMany({
+        where,
+        orderBy: desc(schema.aclAudit.createdAt),
+        limit,
+        offset: (page - 1) * limit,
+      });
+
+      const countResult = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(schema.aclAudit)
+        .where(where);
+      const total = Number(countResult[0]?.count ?? 0);
+
+      return reply.send({
+        items: entries.map((e) => ({
+          id: e.id,
+          user_id: e.userId,
+          action: e.action,
+          previous_role: e.previousRole,
+          role: e.role,
+          actor_id: e.actorId,
+          created_at: e.createdAt.toISOString(),
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          total_pages: Math.ceil(total / limit),
+        },
+      });
+    }
+  );
+}
+
+async function sendCollaborators(
+  resourceType: 'video' | 'graph' | 'topic',
+  resourceId: string,
+  userId: string,
+  reply: FastifyReply
+) {
+  const videoId = await resourceVideoId(resourceType, resourceId);
+  const role = videoId ? await videoRole(videoId, userId) : null;
+
+  if (!videoId || !role) {
+    return reply.status(404).send({
+      code: 'NOT_FOUND',
+      message: 'Resource not found',
+    });
+  }
+
+  const video = await db.query.videos.findFirst({
+    where: eq(schema.videos.id, videoId),
+    columns: { createdBy: true },
+  });
+
+  const entries = await db.query.acl.findMany({
+    where: and(eq(schema.acl.resourceType, 'video'), eq(schema.acl.resourceId, videoId)),
+    orderBy: asc(schema.acl.createdAt),
+  });
+
+  return reply.send({
+    resource_type: resourceType,
+    resource_id: resourceId,
+    video_id: videoId,
+    inherited: resourceType !== 'video',
+    owner_id: video!.createdBy,
+    your_role: role,
+    can_manage: hasRole(await managerRole(videoId, userId), 'editor'),
+    collaborators: entries.map(formatCollaborator),
+  });
+}
+
+/**
+ * The user's role for managing collaborators, ignoring redeemed shares
+ */
+function managerRole(videoId: string, userId: string): Promise<AccessRole | null> {
+  return videoRole(videoId, userId, { viaShares: false });
+}
+
+/**
+ * Reason an actor may not move a collaborator from `currentRole` to
+ * `newRole` (null for a new or removed entry), or null when allowed
+ */
+function manageDenied(
+  actorRole: AccessRole | null,
+  currentRole: AccessRole | null,
+  newRole: AccessRole | null
+): string | null {
+  if (!hasRole(actorRole, 'editor')) {
+    return 'Only editors and owners can manage collaborators';
+  }
+  if ((currentRole === 'owner' || newRole === 'owner') && actorRole !== 'owner') {
+    return 'Only owners can manage owners';
+  }
+  return null;
+}
+
+async function findEntry(videoId: string, userId: string) {
+  return db.query.acl.findFirst({
+    where: and(
+      eq(schema.acl.resourceType, 'video'),
+      eq(schema.acl.resourceId, videoId),
+      eq(schema.acl.userId, userId)
+    ),
+  });
+}
+
+function auditEntry(
+  videoId: string,
+  userId: string,
+  action: AuditAction,
+  previousRole: string | null,
+  role: string | null,
+  actorId: string
+): schema.NewAclAuditEntry {
+  return {
+    resourceType: 'video',
+    resourceId: videoId,
+    userId,
+    action,
+    previousRole,
+    role,
+    actorId,
+  };
+}
+
+function formatCollaborator(entry: schema.AclEntry) {
+  return {
+    user_id: entry.userId,
+    role: entry.role,
+    granted_by: entry.createdBy,
+    granted_at: entry.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Event Routes
+ *
+ * Streams live job progress as Server-Sent Events (`progress` events
+ * carrying a JobProgressEvent). A client that reconnects sends the last
+ * event ID it received in `Last-Event-ID` and gets the events it missed;
+ * a new client starts from the latest event of each active job.
+ */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { and, or, inArray, sql, type SQL } from 'drizzle-orm';
+import type { JobProgressEvent } from '@video-graph/shared-types';
+import { db, schema } from '../db/index.js';
+import { canAccessVideo, accessibleVideoIds } from '../authorization.js';
+import { config } from '../config.js';
+import {
+  EVENT_ID_PATTERN,
+  closeProgressEvents,
+  compareEventIds,
+  latestProgress,
+  progressSince,
+  subscribeProgress,
+  type ProgressMessage,
+} from '../progress-events.js';
+
+interface ProgressSource {
+  /** Whether the client may receive the event */
+  matches: (event: JobProgressEvent) => Promise<boolean>;
+  /** Jobs whose latest event a new client starts from */
+  activeJobIds: () => Promise<string[]>;
+}
+
+export async function eventRoutes(fastify: FastifyInstance) {
+  fastify.addHook('onClose', closeProgressEvents);
+
+  // GET /videos/:id/events - Progress of the video's jobs
+  fastify.get<{ Params: { id: string } }>(
+    '/videos/:id/events',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      if (!config.features.realtimeUpdates) {
+        return reply.status(503).send({
+          code: 'FEATURE_DISABLED',
+          message: 'Realtime updates are disabled',
+        });
+      }
+
+      const userId = request.user!.sub;
+      const videoId = request.params.id;
+
+      const hasAccess = await canAccessVideo(videoId, userId, 'viewer');
+      if (!hasAccess) {
+        return reply.status(404).send({
+          code: 'NOT_FOUND',
+          message: 'Video not found',
+        });
+      }
+
+      const canView = videoAccessChecker(userId);
+      await streamProgress(request, reply, {
+        matches: async (event) => event.video_id === videoId && canView(videoId),
+        activeJobIds: () => activeJobIds(sql`${schema.jobs.payload}->>'videoId' = ${videoId}`),
+      });
+    }
+  );
+
+  // GET /events - Progress of every job the user can see
+  fastify.get('/events', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    if (!config.features.realtimeUpdates) {
+      return reply.status(503).send({
+        code: 'FEATURE_DISABLED',
+        message: 'Realtime updates are disabled',
+      });
+    }
+
+    const userId = request.user!.sub;
+
+    const canView = videoAccessChecker(userId);
+    await streamProgress(request, reply, {
+      matches: (event) => {
+        if (!event.video_id) {
+          return Promise.resolve(event.user_id === userId);
+        }
+        return canView(event.video_id);
+      },
+      activeJobIds: async () => {
+        const videoIds = await accessibleVideoIds(userId, 'viewer');
+        const conditions: SQL[] = [sql`${schema.jobs.payload}->>'userId' = ${userId}`];
+        if (videoIds.length > 0) {
+          conditions.push(inArray(sql`${schema.jobs.payload}->>'videoId'`, videoIds));
+        }
+        return activeJobIds(or(...conditions)!);
+      },
+    });
+  });
+}
+
+/**
+ * Check a user's viewer access to videos, reusing each answer for
+ * REALTIME_ACCESS_CACHE_MS so that revoked access stops the events of a
+ * long-lived stream without querying on every event
+ */
+function videoAccessChecker(userId: string): (videoId: string) => Promise<boolean> {
+  const cache = new Map<string, { allowed: Promise<boolean>; expiresAt: number }>();
+  return (videoId) => {
+    const now = Date.now();
+    let entry = cache.get(videoId);
+    if (!entry || entry.expiresAt <= now) {
+      entry = {
+        allowed: canAccessVideo(videoId, userId, 'viewer'),
+        expiresAt: now + config.realtime.accessCacheMs,
+      };
+      cache.set(videoId, entry);
+    }
+    return entry.allowed;
+  };
+}
+
+/**
+ * Send missed or current progress, then live progress until the client
+ * disconnects. The subscription starts before history is read so that
+ * nothing published in between is lost; duplicates are dropped by ID.
+ */
+async function streamProgress(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  source: ProgressSource
+): Promise<void> {
+  const header = request.headers['last-event-id'];
+  const lastEventId = typeof header === 'string' && EVENT_ID_PATTERN.test(header) ? header : null;
+
+  let unsubscribe: (() => void) | undefined;
+  let heartbeat: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  // Listen before the first await, so a client gone during setup is noticed
+  const cleanup = () => {
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe?.();
+  };
+  reply.raw.on('close', cleanup);
+
+  const buffered: ProgressMessage[] = [];
+  let live = false;
+  unsubscribe = await subscribeProgress((message) => {
+    if (live) send(message);
+    else buffered.push(message);
+  });
+
+  let history: ProgressMessage[];
+  try {
+    history = lastEventId
+      ? await progressSince(lastEventId)
+      : await latestProgress(await source.activeJobIds());
+  } catch (error) {
+    cleanup();
+    throw error;
+  }
+
+  reply.hijack();
+  if (closed || request.raw.destroyed) {
+    cleanup();
+    return;
+  }
+
+  // Headers set by hooks (CORS) are not sent for hijacked replies
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) reply.raw.setHeader(name, value);
+  }
+  reply.raw.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  reply.raw.write(': connected\n\n');
+
+  // Access checks are asynchronous; chain writes so events keep their order
+  let sentId = lastEventId ?? '0-0';
+  let writes = Promise.resolve();
+
+  function send(message: ProgressMessage) {
+    writes = writes
+      .then(async () => {
+        if (closed || compareEventIds(message.id, sentId) <= 0) return;
+        if (!(await source.matches(message.event)) || closed) return;
+        sentId = message.id;
+        reply.raw.write(`id: ${message.id}\nevent: progress\ndata: ${JSON.stringify(message.event)}\n\n`);
+      })
+      .catch((error) => {
+        request.log.warn({ error }, 'Failed to send progress event');
+      });
+  }
+
+  for (const message of history) send(message);
+  live = true;
+  for (const message of buffered) send(message);
+
+  heartbeat = setInterval(() => reply.raw.write(': keepalive\n\n'), config.realtime.heartbeatMs);
+}
+
+async function activeJobIds(condition: SQL): Promise<string[]> {
+  const rows = await db
+    .select({ id: schema.jobs.id })
+    .from(schema.jobs)
+    .where(and(condition, inArray(schema.jobs.status, ['pending', 'running', 'paused'])));
+
+  return rows.map((row) => row.id);
+}
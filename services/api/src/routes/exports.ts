@@ -8,6 +8,7 @@ import type { FastifyInstance } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
 import { eq, desc } from 'drizzle-orm';
 import { db, schema } from '../db/index.js';
+import { canAccessVideo } from '../authorization.js';
 import { CreateExportRequestSchema } from '@video-graph/shared-types';
 
 export async function exportRoutes(fastify: FastifyInstance) {
@@ -52,7 +53,7 @@ export async function exportRoutes(fastify: FastifyInstance) {
       });
     }
 
-    if (video.createdBy !== userId) {
+    if (!(await canAccessVideo(video.id, userId, 'viewer'))) {
       return reply.status(403).send({
         code: 'FORBIDDEN',
         message: 'Access denied',
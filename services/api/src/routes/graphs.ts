@@ -1,13 +1,24 @@
 /**
  * Graph Routes
  * 
- * Handles graph operations including forking and versioning.
+ * Handles graph operations including forking, reprocessing, versioning
+ * and comparing versions.
  */
 
 import type { FastifyInstance } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
 import { eq, desc, and } from 'drizzle-orm';
 import { db, schema } from '../db/index.js';
+import {
+  changedReprocessSettings,
+  diffGraphs,
+  loadManifestCheckpoint,
+  type DiffEdge,
+  type DiffGraph,
+} from '@video-graph/pipeline-sdk';
+import { ReprocessGraphRequestSchema, type PipelineConfig } from '@video-graph/shared-types';
+import { canAccessVideo } from '../authorization.js';
+import { storage } from '../storage.js';
 
 export async function graphRoutes(fastify: FastifyInstance) {
   // GET /videos/:id/graph - Get video graph
@@ -21,7 +32,7 @@ export async function graphRoutes(fastify: FastifyInstance) {
     const level = request.query.level;
 
     // Check access
-    const hasAccess = await checkAccess(videoId, userId, 'viewer');
+    const hasAccess = await canAccessVideo(videoId, userId, 'viewer');
     if (!hasAccess) {
       return reply.status(403).send({
         code: 'FORBIDDEN',
@@ -100,6 +111,7 @@ export async function graphRoutes(fastify: FastifyInstance) {
         child_ids: t.childIds,
         importance_score: t.importanceScore,
         cluster_id: t.clusterId,
+        cluster_label: t.clusterLabel,
       })),
       edges: edges.map((e) => ({
         id: e.id,
@@ -136,7 +148,7 @@ export async function graphRoutes(fastify: FastifyInstance) {
       }
 
       // Check access
-      const hasAccess = await checkAccess(graphVersion.videoId, userId, 'viewer');
+      const hasAccess = await canAccessVideo(graphVersion.videoId, userId, 'viewer');
       if (!hasAccess) {
         return reply.status(403).send({
           code: 'FORBIDDEN',
@@ -180,6 +192,7 @@ export async function graphRoutes(fastify: FastifyInstance) {
           child_ids: t.childIds,
           importance_score: t.importanceScore,
           cluster_id: t.clusterId,
+          cluster_label: t.clusterLabel,
         })),
         edges: edges.map((e) => ({
           id: e.id,
@@ -255,7 +268,7 @@ export async function graphRoutes(fastify: FastifyInstance) {
     }
 
     // Check access
-    const hasAccess = await checkAccess(graphVersion.videoId, userId, 'editor');
+    const hasAccess = await canAccessVideo(graphVersion.videoId, userId, 'editor');
     if (!hasAccess) {
       return reply.status(403).send({
         code: 'FORBIDDEN',
@@ -321,6 +334,7 @@ export async function graphRoutes(fastify: FastifyInstance) {
         childIds: [],
         importanceScore: modification?.updates?.importance_score || topic.importanceScore,
         clusterId: topic.clusterId,
+        clusterLabel: topic.clusterLabel,
         transcriptSegmentIds: topic.transcriptSegmentIds,
       });
     }
@@ -398,6 +412,262 @@ export async function graphRoutes(fastify: FastifyInstance) {
     });
   });
 
+  // POST /graphs/:id/reprocess - Re-run part of the pipeline with different settings
+  fastify.post<{
+    Params: { id: string };
+    Body: { config: Partial<PipelineConfig>; notes?: string };
+  }>('/graphs/:id/reprocess', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    const userId = request.user!.sub;
+    const graphId = request.params.id;
+
+    const validation = ReprocessGraphRequestSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request body',
+        details: validation.error.format(),
+      });
+    }
+
+    const graphVersion = await db.query.graphVersions.findFirst({
+      where: eq(schema.graphVersions.id, graphId),
+    });
+
+    if (!graphVersion) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'Graph not found',
+      });
+    }
+
+    // Check access
+    const hasAccess = await canAccessVideo(graphVersion.videoId, userId, 'editor');
+    if (!hasAccess) {
+      return reply.status(403).send({
+        code: 'FORBIDDEN',
+        message: 'Access denied',
+      });
+    }
+
+    // The child reuses the parent's transcript, so the parent has to be finished
+    if (graphVersion.status !== 'complete') {
+      return reply.status(409).send({
+        code: 'INVALID_STATE',
+        message: `Cannot reprocess graph in ${graphVersion.status} state`,
+      });
+    }
+
+    // The child's checkpoint is seeded from the parent's
+    if (!(await loadManifestCheckpoint(storage, graphVersion.videoId, graphId))) {
+      return reply.status(409).send({
+        code: 'INVALID_STATE',
+        message: 'Graph version has no checkpoint to reprocess from',
+      });
+    }
+
+    const parentConfig = graphVersion.configSnapshot as PipelineConfig;
+    const configSnapshot = { ...parentConfig, ...validation.data.config };
+    if (changedReprocessSettings(parentConfig, configSnapshot).length === 0) {
+      return reply.status(400).send({
+        code: 'VALIDATION_ERROR',
+        message: 'No settings differ from the graph version',
+      });
+    }
+
+    const video = await db.query.videos.findFirst({
+      where: eq(schema.videos.id, graphVersion.videoId),
+    });
+
+    if (!video) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'Video not found',
+      });
+    }
+
+    const newGraphId = uuidv4();
+    const jobId = uuidv4();
+    const newGraph = await db.transaction(async (tx) => {
+      // Lock the video so concurrent reprocesses number their versions in turn
+      await tx
+        .select({ id: schema.videos.id })
+        .from(schema.videos)
+        .where(eq(schema.videos.id, video.id))
+        .for('update');
+
+      const latest = await tx.query.graphVersions.findFirst({
+        where: eq(schema.graphVersions.videoId, video.id),
+        orderBy: desc(schema.graphVersions.version),
+      });
+      const nextVersion = (latest?.version || 0) + 1;
+
+      const [row] = await tx
+        .insert(schema.graphVersions)
+        .values({
+          id: newGraphId,
+          videoId: graphVersion.videoId,
+          version: nextVersion,
+          parentVersionId: graphId,
+          createdBy: userId,
+          status: 'processing',
+          notes: validation.data.notes,
+          configSnapshot,
+        })
+        .returning();
+
+      await tx.insert(schema.jobs).values({
+        id: jobId,
+        type: 'video_analysis',
+        status: 'pending',
+        payload: {
+          videoId: video.id,
+          graphVersionId: newGraphId,
+          parentGraphVersionId: graphId,
+          sourceUrl: video.sourceUrl,
+          sourceType: video.sourceType,
+          config: configSnapshot,
+        },
+        priority: 5,
+      });
+
+      return row;
+    });
+
+    return reply.status(202).send({
+      id: newGraph.id,
+      video_id: newGraph.videoId,
+      version: newGraph.version,
+      parent_version_id: newGraph.parentVersionId,
+      status: newGraph.status,
+      config_snapshot: configSnapshot,
+      job_id: jobId,
+      created_at: newGraph.createdAt.toISOString(),
+    });
+  });
+
+  // GET /graphs/:id/diff - Compare a graph version with another version of the video
+  fastify.get<{
+    Params: { id: string };
+    Querystring: { base?: string };
+  }>('/graphs/:id/diff', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    const userId = request.user!.sub;
+    const graphId = request.params.id;
+
+    const graphVersion = await db.query.graphVersions.findFirst({
+      where: eq(schema.graphVersions.id, graphId),
+    });
+
+    if (!graphVersion) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'Graph not found',
+      });
+    }
+
+    // Check access
+    const hasAccess = await canAccessVideo(graphVersion.videoId, userId, 'viewer');
+    if (!hasAccess) {
+      return reply.status(403).send({
+        code: 'FORBIDDEN',
+        message: 'Access denied',
+      });
+    }
+
+    // Compare with the parent version unless another one is given
+    const baseId = request.query.base ?? graphVersion.parentVersionId;
+    if (!baseId) {
+      return reply.status(400).send({
+        code: 'VALIDATION_ERROR',
+        message: 'Graph has no parent version; choose a base version to compare with',
+      });
+    }
+
+    const baseVersion = await db.query.graphVersions.findFirst({
+      where: eq(schema.graphVersions.id, baseId),
+    });
+
+    if (!baseVersion || baseVersion.videoId !== graphVersion.videoId) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'Base graph not found for this video',
+      });
+    }
+
+    const [baseTopics, baseEdges, topics, edges] = await Promise.all([
+      db.query.topicNodes.findMany({ where: eq(schema.topicNodes.graphVersionId, baseId) }),
+      db.query.topicEdges.findMany({ where: eq(schema.topicEdges.graphVersionId, baseId) }),
+      db.query.topicNodes.findMany({ where: eq(schema.topicNodes.graphVersionId, graphId) }),
+      db.query.topicEdges.findMany({ where: eq(schema.topicEdges.graphVersionId, graphId) }),
+    ]);
+
+    const diff = diffGraphs(toDiffGraph(baseTopics, baseEdges), toDiffGraph(topics, edges));
+
+    const baseTopicsById = new Map(baseTopics.map((t) => [t.id, t]));
+    const topicsById = new Map(topics.map((t) => [t.id, t]));
+    const topicSummary = (topic: schema.TopicNode) => ({
+      topic_id: topic.id,
+      title: topic.title,
+      level: topic.level,
+      start_ts: topic.startSeconds,
+      end_ts: topic.endSeconds,
+    });
+    const edgeSummary = (edge: DiffEdge) => ({
+      src_topic_id: edge.srcTopicId,
+      dst_topic_id: edge.dstTopicId,
+      edge_type: edge.edgeType,
+      weight: edge.weight,
+    });
+    const retitled = diff.matched.filter((m) => m.retitled);
+
+    return reply.send({
+      base: { id: baseVersion.id, version: baseVersion.version },
+      target: { id: graphVersion.id, version: graphVersion.version },
+      summary: {
+        matched: diff.matched.length,
+        added: diff.added.length,
+        removed: diff.removed.length,
+        retitled: retitled.length,
+        split: diff.splits.length,
+        merged: diff.merges.length,
+        edges_added: diff.edges.added.length,
+        edges_removed: diff.edges.removed.length,
+        edges_reweighted: diff.edges.reweighted.length,
+      },
+      topics: {
+        matched: diff.matched.map((m) => ({
+          base_topic_id: m.fromId,
+          target_topic_id: m.toId,
+          score: m.score,
+          retitled: m.retitled,
+        })),
+        added: diff.added.map((id) => topicSummary(topicsById.get(id)!)),
+        removed: diff.removed.map((id) => topicSummary(baseTopicsById.get(id)!)),
+        retitled: retitled.map((m) => ({
+          base_topic_id: m.fromId,
+          target_topic_id: m.toId,
+          base_title: baseTopicsById.get(m.fromId)!.title,
+          target_title: topicsById.get(m.toId)!.title,
+        })),
+        split: diff.splits.map((s) => ({
+          base_topic_id: s.fromId,
+          target_topic_ids: s.toIds,
+        })),
+        merged: diff.merges.map((m) => ({
+          base_topic_ids: m.fromIds,
+          target_topic_id: m.toId,
+        })),
+      },
+      edges: {
+        added: diff.edges.added.map(edgeSummary),
+        removed: diff.edges.removed.map(edgeSummary),
+        reweighted: diff.edges.reweighted.map((e) => ({
+          ...edgeSummary(e.to),
+          base_weight: e.from.weight,
+        })),
+      },
+    });
+  });
+
   // GET /graphs/:id/versions - List graph versions
   fastify.get<{ Params: { id: string } }>(
     '/graphs/:id/versions',
@@ -418,7 +688,7 @@ export async function graphRoutes(fastify: FastifyInstance) {
       }
 
       // Check access
-      const hasAccess = await checkAccess(graphVersion.videoId, userId, 'viewer');
+      const hasAccess = await canAccessVideo(graphVersion.videoId, userId, 'viewer');
       if (!hasAccess) {
         return reply.status(403).send({
           code: 'FORBIDDEN',
@@ -448,35 +718,6 @@ export async function graphRoutes(fastify: FastifyInstance) {
 }
 
 // Helper functions
-async function checkAccess(
-  resourceId: string,
-  userId: string,
-  requiredRole: 'viewer' | 'editor' | 'owner'
-): Promise<boolean> {
-  const video = await db.query.videos.findFirst({
-    where: eq(schema.videos.id, resourceId),
-  });
-
-  if (video?.createdBy === userId) {
-    return true;
-  }
-
-  const aclEntry = await db.query.acl.findFirst({
-    where: and(
-      eq(schema.acl.resourceType, 'video'),
-      eq(schema.acl.resourceId, resourceId),
-      eq(schema.acl.userId, userId)
-    ),
-  });
-
-  if (!aclEntry) {
-    return false;
-  }
-
-  const roleHierarchy = { viewer: 0, editor: 1, owner: 2 };
-  return roleHierarchy[aclEntry.role] >= roleHierarchy[requiredRole];
-}
-
 function calculateLevelMetrics(topics: Array<{ level: number }>): Array<{
   level: number;
   node_count: number;
@@ -489,3 +730,22 @@ function calculateLevelMetrics(topics: Array<{ level: number }>): Array<{
     .sort((a, b) => a[0] - b[0])
     .map(([level, count]) => ({ level, node_count: count }));
 }
+
+function toDiffGraph(topics: schema.TopicNode[], edges: schema.TopicEdge[]): DiffGraph {
+  return {
+    topics: topics.map((t) => ({
+      id: t.id,
+      level: t.level,
+      start: t.startSeconds,
+      end: t.endSeconds,
+      title: t.title,
+      embedding: t.embedding,
+    })),
+    edges: edges.map((e) => ({
+      srcTopicId: e.srcTopicId,
+      dstTopicId: e.dstTopicId,
+      edgeType: e.edgeType,
+      weight: e.weight,
+    })),
+  };
+}
@@ -1,14 +1,22 @@
 /**
  * Job Routes
  * 
- * Handles job status and management.
+ * Handles job status and management: cancelling, pausing and resuming.
  */
 
-import type { FastifyInstance } from 'fastify';
-import { eq, and } from 'drizzle-orm';
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { eq, and, inArray } from 'drizzle-orm';
+import { discardCheckpoint } from '@video-graph/pipeline-sdk';
 import { db, schema } from '../db/index.js';
+import { canAccessVideo } from '../authorization.js';
+import { storage } from '../storage.js';
+import { closeJobControl, publishJobControl } from '../job-control.js';
+
+type JobControlRequest = 'cancel' | 'pause' | 'resume';
 
 export async function jobRoutes(fastify: FastifyInstance) {
+  fastify.addHook('onClose', closeJobControl);
+
   // GET /jobs/:id - Get job status
   fastify.get<{ Params: { id: string } }>(
     '/jobs/:id',
@@ -31,13 +39,18 @@ export async function jobRoutes(fastify: FastifyInstance) {
       // Check access based on job type
       const payload = job.payload as { videoId?: string; userId?: string };
       if (payload.videoId) {
-        const hasAccess = await checkAccess(payload.videoId, userId, 'viewer');
+        const hasAccess = await canAccessVideo(payload.videoId, userId, 'viewer');
         if (!hasAccess) {
           return reply.status(403).send({
             code: 'FORBIDDEN',
             message: 'Access denied',
           });
         }
+      } else if (payload.userId && payload.userId !== userId) {
+        return reply.status(403).send({
+          code: 'FORBIDDEN',
+          message: 'Access denied',
+        });
       }
 
       // Build steps from job status
@@ -103,109 +116,171 @@ export async function jobRoutes(fastify: FastifyInstance) {
     '/jobs/:id/cancel',
     { onRequest: [fastify.authenticate] },
     async (request, reply) => {
-      const userId = request.user!.sub;
-      const jobId = request.params.id;
+      return controlJob('cancel', request.params.id, request.user!.sub, reply);
+    }
+  );
 
-      const job = await db.query.jobs.findFirst({
-        where: eq(schema.jobs.id, jobId),
-      });
+  // POST /jobs/:id/pause - Pause job
+  fastify.post<{ Params: { id: string } }>(
+    '/jobs/:id/pause',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      return controlJob('pause', request.params.id, request.user!.sub, reply);
+    }
+  );
 
-      if (!job) {
-        return reply.status(404).send({
-          code: 'NOT_FOUND',
-          message: 'Job not found',
-        });
-      }
+  // POST /jobs/:id/resume - Resume paused job
+  fastify.post<{ Params: { id: string } }>(
+    '/jobs/:id/resume',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      return controlJob('resume', request.params.id, request.user!.sub, reply);
+    }
+  );
+}
 
-      // Check access
-      const payload = job.payload as { videoId?: string };
-      if (payload.videoId) {
-        const video = await db.query.videos.findFirst({
-          where: eq(schema.videos.id, payload.videoId),
-        });
-        if (video?.createdBy !== userId) {
-          return reply.status(403).send({
-            code: 'FORBIDDEN',
-            message: 'Only the owner can cancel this job',
-          });
-        }
-      }
+/**
+ * Job statuses each control action applies to
+ */
+const CONTROLLABLE_STATUSES: Record<JobControlRequest, string[]> = {
+  cancel: ['pending', 'running', 'paused'],
+  pause: ['pending', 'running'],
+  resume: ['paused'],
+};
 
-      // Can only cancel pending or running jobs
-      if (job.status !== 'pending' && job.status !== 'running') {
-        return reply.status(409).send({
-          code: 'INVALID_STATE',
-          message: `Cannot cancel job in ${job.status} state`,
-        });
-      }
+/**
+ * Cancel, pause or resume a job for its owner.
+ *
+ * The jobs row is updated first, so the dispatcher and workers that pick
+ * the job up later see it; workers already running it are then asked to
+ * stop. Cancelling an analysis job also cancels its video and graph
+ * version. A resumed job goes back to `pending` and is dispatched again,
+ * skipping the steps its paused run completed.
+ */
+async function controlJob(
+  action: JobControlRequest,
+  jobId: string,
+  userId: string,
+  reply: FastifyReply
+) {
+  const job = await db.query.jobs.findFirst({
+    where: eq(schema.jobs.id, jobId),
+  });
 
-      // Update job status
-      await db
-        .update(schema.jobs)
-        .set({
-          status: 'cancelled',
-          completedAt: new Date(),
-        })
-        .where(eq(schema.jobs.id, jobId));
+  if (!job) {
+    return reply.status(404).send({
+      code: 'NOT_FOUND',
+      message: 'Job not found',
+    });
+  }
 
-      // Update video status if applicable
-      if (payload.videoId) {
-        await db
+  // Check access
+  const payload = job.payload as {
+    videoId?: string;
+    graphVersionId?: string;
+    parentGraphVersionId?: string;
+    userId?: string;
+  };
+  if (payload.videoId) {
+    const isOwner = await canAccessVideo(payload.videoId, userId, 'owner');
+    if (!isOwner) {
+      return reply.status(403).send({
+        code: 'FORBIDDEN',
+        message: `Only the owner can ${action} this job`,
+      });
+    }
+  } else if (payload.userId && payload.userId !== userId) {
+    return reply.status(403).send({
+      code: 'FORBIDDEN',
+      message: `Only the owner can ${action} this job`,
+    });
+  }
+
+  const now = new Date();
+  const updates: Partial<typeof schema.jobs.$inferInsert> =
+    action === 'cancel'
+      ? { status: 'cancelled', completedAt: now }
+      : action === 'pause'
+        ? { status: 'paused' }
+        : { status: 'pending', error: null };
+
+  // The status condition guards against a worker finishing the job meanwhile
+  const updated = await db.transaction(async (tx) => {
+    const [row] = await tx
+      .update(schema.jobs)
+      .set({ ...updates, updatedAt: now })
+      .where(
+        and(eq(schema.jobs.id, jobId), inArray(schema.jobs.status, CONTROLLABLE_STATUSES[action]))
+      )
+      .returning();
+
+    // Exports, snippets and reprocessing do not own the video's processing state
+    if (row && action === 'cancel' && job.type === 'video_analysis' && payload.videoId) {
+      if (!payload.parentGraphVersionId) {
+        await tx
           .update(schema.videos)
-          .set({
-            status: 'cancelled',
-            updatedAt: new Date(),
-          })
+          .set({ status: 'cancelled', updatedAt: now })
           .where(eq(schema.videos.id, payload.videoId));
       }
 
-      return reply.send({
-        id: job.id,
-        type: job.type,
-        status: 'cancelled',
-        progress: 0,
-        current_step: null,
-        steps: [],
-        created_at: job.createdAt.toISOString(),
-        started_at: job.startedAt?.toISOString() || null,
-        completed_at: new Date().toISOString(),
-        error: null,
-        manifest: null,
-      });
+      if (payload.graphVersionId) {
+        await tx
+          .update(schema.graphVersions)
+          .set({ status: 'cancelled' })
+          .where(eq(schema.graphVersions.id, payload.graphVersionId));
+      }
     }
-  );
-}
 
-// Helper functions
-async function checkAccess(
-  resourceId: string,
-  userId: string,
-  requiredRole: 'viewer' | 'editor' | 'owner'
-): Promise<boolean> {
-  const video = await db.query.videos.findFirst({
-    where: eq(schema.videos.id, resourceId),
+    return row;
   });
 
-  if (video?.createdBy === userId) {
-    return true;
+  if (!updated) {
+    return reply.status(409).send({
+      code: 'INVALID_STATE',
+      message: `Cannot ${action} job in ${job.status} state`,
+    });
   }
 
-  const aclEntry = await db.query.acl.findFirst({
-    where: and(
-      eq(schema.acl.resourceType, 'video'),
-      eq(schema.acl.resourceId, resourceId),
-      eq(schema.acl.userId, userId)
-    ),
-  });
+  if (action !== 'resume') {
+    try {
+      await publishJobControl(jobId, action);
+    } catch (error) {
+      // The row is already updated; a run that is not stopped has its result ignored
+      reply.log.error({ jobId, error }, 'Failed to publish job control request');
+    }
+  }
 
-  if (!aclEntry) {
-    return false;
+  // No worker holds a paused job, so its kept artifacts are discarded here
+  if (
+    action === 'cancel' &&
+    job.status === 'paused' &&
+    job.type === 'video_analysis' &&
+    payload.videoId &&
+    payload.graphVersionId
+  ) {
+    try {
+      await discardCheckpoint(storage, payload.videoId, payload.graphVersionId);
+    } catch (error) {
+      reply.log.warn({ jobId, error }, 'Failed to discard artifacts of cancelled job');
+    }
   }
 
-  const roleHierarchy = { viewer: 0, editor: 1, owner: 2 };
-  return roleHierarchy[aclEntry.role] >= roleHierarchy[requiredRole];
+  return reply.send({
+    id: updated.id,
+    type: updated.type,
+    status: updated.status,
+    progress: 0,
+    current_step: null,
+    steps: [],
+    created_at: updated.createdAt.toISOString(),
+    started_at: updated.startedAt?.toISOString() || null,
+    completed_at: updated.completedAt?.toISOString() || null,
+    error: updated.error,
+    manifest: null,
+  });
 }
 
+// Helper functions
 function getStepStatus(
   jobStatus: string,
   stepIndex: number
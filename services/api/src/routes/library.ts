@@ -0,0 +1,217 @@
+/**
+ * Library Graph Routes
+ *
+ * Cross-video knowledge graph over every video a user can access. A
+ * library_graph job links topics across videos and clusters them; the
+ * graph is then read one page of clusters at a time.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { v4 as uuidv4 } from 'uuid';
+import { eq, inArray } from 'drizzle-orm';
+import type { LibraryCluster } from '@video-graph/pipeline-sdk';
+import { db, schema } from '../db/index.js';
+import { accessibleVideoIds } from '../authorization.js';
+import { config } from '../config.js';
+
+export async function libraryRoutes(fastify: FastifyInstance) {
+  // POST /library/graph - Build or rebuild the user's library graph
+  fastify.post('/library/graph', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    if (!config.features.multiVideoGraphs) {
+      return reply.status(503).send({
+        code: 'FEATURE_DISABLED',
+        message: 'Multi-video graphs are disabled',
+      });
+    }
+
+    const userId = request.user!.sub;
+
+    const existing = await db.query.libraryGraphs.findFirst({
+      where: eq(schema.libraryGraphs.userId, userId),
+    });
+
+    if (existing?.status === 'processing' && existing.jobId) {
+      const job = await db.query.jobs.findFirst({
+        where: eq(schema.jobs.id, existing.jobId),
+      });
+      if (job && (job.status === 'pending' || job.status === 'running')) {
+        return reply.status(409).send({
+          code: 'INVALID_STATE',
+          message: 'Library graph is already being built',
+        });
+      }
+    }
+
+    const jobId = uuidv4();
+    const [libraryGraph] = await db
+      .insert(schema.libraryGraphs)
+      .values({ userId, status: 'processing', jobId })
+      .onConflictDoUpdate({
+        target: schema.libraryGraphs.userId,
+        set: { status: 'processing', jobId, error: null, updatedAt: new Date() },
+      })
+      .returning();
+
+    // Create job for worker
+    await db.insert(schema.jobs).values({
+      id: jobId,
+      type: 'library_graph',
+      status: 'pending',
+      payload: {
+        userId,
+        libraryGraphId: libraryGraph.id,
+      },
+      priority: 3,
+    });
+
+    return reply.status(202).send({
+      id: libraryGraph.id,
+      status: libraryGraph.status,
+      job_id: jobId,
+    });
+  });
+
+  // GET /library/graph - Library graph, paged by cluster
+  fastify.get<{
+    Querystring: { page?: number; limit?: number; cluster?: string };
+  }>('/library/graph', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    if (!config.features.multiVideoGraphs) {
+      return reply.status(503).send({
+        code: 'FEATURE_DISABLED',
+        message: 'Multi-video graphs are disabled',
+      });
+    }
+
+    const userId = request.user!.sub;
+    const page = Math.max(Number(request.query.page ?? 1), 1);
+    const limit = Math.min(Math.max(Number(request.query.limit ?? 5), 1), 20);
+    const clusterId = request.query.cluster;
+
+    const libraryGraph = await db.query.libraryGraphs.findFirst({
+      where: eq(schema.libraryGraphs.userId, userId),
+    });
+
+    if (!libraryGraph) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'Library graph not found',
+      });
+    }
+
+    // Access may have been revoked since the graph was built
+    const accessible = new Set(await accessibleVideoIds(userId));
+    const clusters = (libraryGraph.clusters as LibraryCluster[])
+      .map((cluster) => ({
+        ...cluster,
+        videoIds: cluster.videoIds.filter((id) => accessible.has(id)),
+      }))
+      .filter((cluster) => cluster.videoIds.length > 0);
+
+    if (clusterId && !clusters.some((c) => c.id === clusterId)) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'Cluster not found',
+      });
+    }
+
+    const pageClusters = clusterId
+      ? clusters.filter((c) => c.id === clusterId)
+      : clusters.slice((page - 1) * limit, page * limit);
+
+    const clusterOf = new Map<string, string>();
+    for (const cluster of clusters) {
+      for (const topicId of cluster.topicIds) clusterOf.set(topicId, cluster.id);
+    }
+
+    const pageTopicIds = pageClusters.flatMap((c) => c.topicIds);
+    const topics = pageTopicIds.length > 0
+      ? await db.query.topicNodes.findMany({
+          where: inArray(schema.topicNodes.id, pageTopicIds),
+        })
+      : [];
+    const visibleTopics = topics.filter((t) => accessible.has(t.videoId));
+    const visibleIds = new Set(visibleTopics.map((t) => t.id));
+
+    const videoIds = [...new Set(visibleTopics.map((t) => t.videoId))];
+    const videos = videoIds.length > 0
+      ? await db.query.videos.findMany({ where: inArray(schema.videos.id, videoIds) })
+      : [];
+    const videoTitles = new Map(
+      videos.map((v) => [v.id, (v.metadata as { title?: string } | null)?.title ?? v.sourceUrl])
+    );
+
+    const allEdges = (
+      await db.query.libraryEdges.findMany({
+        where: eq(schema.libraryEdges.libraryGraphId, libraryGraph.id),
+      })
+    ).filter((e) => accessible.has(e.srcVideoId) && accessible.has(e.dstVideoId));
+
+    // Edges leaving each page cluster, counted per target cluster
+    const links = new Map<string, Map<string, number>>();
+    for (const edge of allEdges) {
+      const src = clusterOf.get(edge.srcTopicId);
+      const dst = clusterOf.get(edge.dstTopicId);
+      if (!src || !dst || src === dst) continue;
+      for (const [from, to] of [[src, dst], [dst, src]]) {
+        const counts = links.get(from) ?? new Map<string, number>();
+        counts.set(to, (counts.get(to) ?? 0) + 1);
+        links.set(from, counts);
+      }
+    }
+
+    const total = clusterId ? 1 : clusters.length;
+
+    return reply.send({
+      id: libraryGraph.id,
+      status: libraryGraph.status,
+      job_id: libraryGraph.jobId,
+      error: libraryGraph.error,
+      computed_at: libraryGraph.computedAt?.toISOString() ?? null,
+      video_count: (libraryGraph.videoIds as string[]).filter((id) => accessible.has(id)).length,
+      node_count: libraryGraph.nodeCount,
+      edge_count: allEdges.length,
+      cluster_count: clusters.length,
+      clusters: pageClusters.map((c) => ({
+        id: c.id,
+        label: c.label,
+        keywords: c.keywords,
+        size: c.size,
+        video_ids: c.videoIds,
+        links: [...(links.get(c.id) ?? new Map<string, number>()).entries()]
+          .sort((a, b) => b[1] - a[1])
+          .map(([id, edgeCount]) => ({ cluster_id: id, edge_count: edgeCount })),
+      })),
+      nodes: visibleTopics.map((t) => ({
+        id: t.id,
+        video_id: t.videoId,
+        video_title: videoTitles.get(t.videoId) ?? null,
+        library_cluster_id: clusterOf.get(t.id) ?? null,
+        level: t.level,
+        start_ts: t.startSeconds,
+        end_ts: t.endSeconds,
+        title: t.title,
+        keywords: t.keywords,
+        importance_score: t.importanceScore,
+      })),
+      edges: allEdges
+        .filter((e) => visibleIds.has(e.srcTopicId) && visibleIds.has(e.dstTopicId))
+        .map((e) => ({
+          id: e.id,
+          src_topic_id: e.srcTopicId,
+          dst_topic_id: e.dstTopicId,
+          src_video_id: e.srcVideoId,
+          dst_video_id: e.dstVideoId,
+          edge_type: e.edgeType,
+          distance: e.distance,
+          weight: e.weight,
+          metadata: e.metadata,
+        })),
+      pagination: {
+        page: clusterId ? 1 : page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    });
+  });
+}
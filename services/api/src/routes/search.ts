@@ -1,129 +1,258 @@
 /**
  * Search Routes
  * 
- * Handles semantic search and deep search with LLM reasoning.
+ * Handles hybrid search and deep search with LLM reasoning. Hybrid search
+ * fuses a pgvector similarity ranking with full-text rankings of topic
+ * titles, summaries, keywords and transcript text using reciprocal rank
+ * fusion, and reports which signals matched each result. In `segments`
+ * mode individual transcript segments are ranked instead and grouped by
+ * the topic that contains them, with timestamp deep links. Deep search
+ * answers a question with the configured LLM from the best matching
+ * topic summaries and transcript segments; the answer cites them inline
+ * and claims their cited passages do not support are flagged.
  */
 
 import type { FastifyInstance } from 'fastify';
-import { eq, and, sql, inArray } from 'drizzle-orm';
+import { eq, and, gte, lte, sql, inArray, type SQL } from 'drizzle-orm';
+import {
+  answerWithCitations,
+  createEmbeddingProvider,
+  createLlmProvider,
+  highlightTranscript,
+  queryTerms,
+  reciprocalRankFusion,
+  type AlignedWord,
+  type EmbeddingProvider,
+  type HighlightRange,
+  type LlmProvider,
+  type RagAnswer,
+  type RagPassage,
+} from '@video-graph/pipeline-sdk';
 import { db, schema } from '../db/index.js';
+import { accessibleVideoIds, filterAccessibleVideoIds } from '../authorization.js';
 import { config } from '../config.js';
 
+type SearchSignal = 'vector' | 'title' | 'summary' | 'keywords' | 'transcript';
+
+const SEARCH_SIGNALS: SearchSignal[] = ['vector', 'title', 'summary', 'keywords', 'transcript'];
+
+type FusionWeights = Record<SearchSignal, number>;
+
+type SearchMode = 'topics' | 'segments';
+
+/** Segment hits returned under each topic in `segments` mode */
+const MAX_SEGMENTS_PER_TOPIC = 5;
+
+interface SearchFilters {
+  level?: number;
+  min_importance?: number;
+  /** Video creation time range */
+  date_from?: string;
+  date_to?: string;
+  speakers?: string[];
+  cluster_ids?: string[];
+  /** Topics with at least one edge of these types */
+  edge_types?: string[];
+  source_types?: string[];
+  /** Key/value pairs the video metadata must contain */
+  metadata?: Record<string, unknown>;
+}
+
+interface FacetCount {
+  value: string | number;
+  label?: string;
+  count: number;
+}
+
+interface SearchFacets {
+  videos: FacetCount[];
+  levels: FacetCount[];
+  speakers: FacetCount[];
+  clusters: FacetCount[];
+}
+
+interface FusionOptions {
+  k?: number;
+  weights?: Partial<FusionWeights>;
+}
+
+type TopicRow = {
+  id: string;
+  video_id: string;
+  level: number;
+  start_seconds: number;
+  end_seconds: number;
+  title: string;
+  summary: string;
+  keywords: string[];
+  parent_ids: string[];
+  child_ids: string[];
+  importance_score: number;
+  cluster_id: string | null;
+  cluster_label: string | null;
+};
+
+type LexicalField = 'title' | 'summary' | 'keywords';
+
+type LexicalRow = TopicRow &
+  Record<`${LexicalField}_match`, boolean> &
+  Record<`${LexicalField}_rank`, number>;
+
+interface SignalMatch {
+  rank: number;
+  /** Raw signal score: cosine similarity or full-text rank */
+  score: number;
+  contribution: number;
+}
+
+interface HybridSearchResult {
+  topic: TopicRow;
+  score: number;
+  signals: Partial<Record<SearchSignal, SignalMatch>>;
+}
+
+type SegmentRow = TopicRow & {
+  segment_id: string;
+  segment_start: number;
+  segment_end: number;
+  speaker_id: string | null;
+  text: string;
+  words: AlignedWord[] | null;
+};
+
+interface SegmentHit {
+  id: string;
+  video_id: string;
+  start_ts: number;
+  end_ts: number;
+  speaker_id: string | null;
+  score: number;
+  matched_signals: SearchSignal[];
+  signals: Partial<Record<SearchSignal, SignalMatch>>;
+  snippet: string;
+  highlights: HighlightRange[];
+  /** Start of the first matched word, or of the segment without word alignment */
+  jump_to_ts: number;
+  deep_link: string | null;
+}
+
+interface SegmentSearchResult extends HybridSearchResult {
+  segments: SegmentHit[];
+}
+
+// Full-text vectors; these must match the GIN index expressions in the schema
+const titleVector = sql`to_tsvector('english', ${schema.topicNodes.title})`;
+const summaryVector = sql`to_tsvector('english', ${schema.topicNodes.summary})`;
+const keywordsVector = sql`jsonb_to_tsvector('english', ${schema.topicNodes.keywords}, '["string"]')`;
+const transcriptVector = sql`to_tsvector('english', ${schema.transcriptSegments.text})`;
+
+const TOPIC_COLUMNS = sql`
+  topic_nodes.id,
+  topic_nodes.video_id,
+  topic_nodes.level,
+  topic_nodes.start_seconds,
+  topic_nodes.end_seconds,
+  topic_nodes.title,
+  topic_nodes.summary,
+  topic_nodes.keywords,
+  topic_nodes.parent_ids,
+  topic_nodes.child_ids,
+  topic_nodes.importance_score,
+  topic_nodes.cluster_id,
+  topic_nodes.cluster_label
+`;
+
+let llmProvider: LlmProvider | undefined;
+let embeddingProvider: EmbeddingProvider | undefined;
+
+/**
+ * Chat model for deep search answers, created on first use
+ */
+function answerModel(): LlmProvider {
+  llmProvider ??= createLlmProvider({ device: 'auto', ...config.llm });
+  return llmProvider;
+}
+
 export async function searchRoutes(fastify: FastifyInstance) {
-  // POST /search - Semantic search
+  // POST /search - Hybrid search
   fastify.post<{
     Body: {
       query: string;
       video_ids?: string[];
-      filters?: { level?: number; min_importance?: number; date_from?: string; date_to?: string };
-      options?: { include_transcripts?: boolean; include_edges?: boolean; top_k?: number };
+      filters?: SearchFilters;
+      options?: {
+        include_transcripts?: boolean;
+        include_edges?: boolean;
+        top_k?: number;
+        mode?: SearchMode;
+        fusion?: FusionOptions;
+      };
     };
   }>('/search', { onRequest: [fastify.authenticate] }, async (request, reply) => {
     const userId = request.user!.sub;
     const { query, video_ids, filters, options } = request.body;
     const topK = options?.top_k || 10;
+    const mode = options?.mode ?? 'topics';
 
-    // Get accessible video IDs
-    let accessibleVideoIds: string[] = [];
-    if (video_ids && video_ids.length > 0) {
-      // Check access for each video
-      for (const videoId of video_ids) {
-        const hasAccess = await checkAccess(videoId, userId, 'viewer');
-        if (hasAccess) {
-          accessibleVideoIds.push(videoId);
-        }
-      }
-    } else {
-      // Get all accessible videos
-      const videos = await db.query.videos.findMany({
-        where: eq(schema.videos.createdBy, userId),
+    if (mode !== 'topics' && mode !== 'segments') {
+      return reply.status(400).send({
+        code: 'VALIDATION_ERROR',
+        message: "Search mode must be 'topics' or 'segments'",
       });
-      accessibleVideoIds = videos.map((v) => v.id);
     }
 
-    if (accessibleVideoIds.length === 0) {
-      return reply.send({
-        query,
-        results: [],
-        total: 0,
-        took_ms: 0,
+    const fusion = resolveFusion(options?.fusion);
+    if (!fusion) {
+      return reply.status(400).send({
+        code: 'VALIDATION_ERROR',
+        message: 'Fusion weights must be non-negative numbers and k must be positive',
       });
     }
 
-    const startTime = Date.now();
+    if ([filters?.date_from, filters?.date_to].some((d) => d !== undefined && Number.isNaN(Date.parse(d)))) {
+      return reply.status(400).send({
+        code: 'VALIDATION_ERROR',
+        message: 'date_from and date_to must be ISO 8601 date-times',
+      });
+    }
 
-    // Generate query embedding
-    const queryEmbedding = await generateEmbedding(query);
+    const startTime = Date.now();
 
-    // Build search query
-    let whereClause = inArray(schema.topicNodes.videoId, accessibleVideoIds);
+    const searchableVideoIds = await filterVideos(await resolveVideoIds(video_ids, userId), filters);
 
-    if (filters?.level !== undefined) {
-      whereClause = and(whereClause, eq(schema.topicNodes.level, filters.level))!;
+    if (searchableVideoIds.length === 0) {
+      return reply.send({
+        query,
+        results: [],
+        total: 0,
+        took_ms: Date.now() - startTime,
+        fusion: { k: fusion.k, weights: fusion.weights },
+        facets: { videos: [], levels: [], speakers: [], clusters: [] },
+      });
     }
 
-    if (filters?.min_importance !== undefined) {
-      whereClause = and(
-        whereClause,
-        sql`${schema.topicNodes.importanceScore} >= ${filters.min_importance}`
-      )!;
+    let embedding: number[] | null;
+    try {
+      embedding = await embedQuery(query, fusion.weights);
+    } catch (error) {
+      request.log.error({ err: error }, 'Query embedding failed');
+      return reply.status(502).send({
+        code: 'EMBEDDING_ERROR',
+        message: 'The embedding model is unavailable',
+      });
     }
 
-    // Perform vector search
-    const searchResults = await db.execute(sql`
-      SELECT 
-        id,
-        video_id,
-        level,
-        start_seconds,
-        end_seconds,
-        title,
-        summary,
-        keywords,
-        parent_ids,
-        child_ids,
-        importance_score,
-        cluster_id,
-        1 - (embedding <=> ${sql.array(queryEmbedding)}::vector) as similarity
-      FROM topic_nodes
-      WHERE ${whereClause}
-      ORDER BY embedding <=> ${sql.array(queryEmbedding)}::vector
-      LIMIT ${topK}
-    `);
-
-    const topics = searchResults as Array<{
-      id: string;
-      video_id: string;
-      level: number;
-      start_seconds: number;
-      end_seconds: number;
-      title: string;
-      summary: string;
-      keywords: string[];
-      parent_ids: string[];
-      child_ids: string[];
-      importance_score: number;
-      cluster_id: string | null;
-      similarity: number;
-    }>;
+    const matches: Array<HybridSearchResult & { segments?: SegmentHit[] }> = mode === 'segments'
+      ? await segmentSearch(query, embedding, searchableVideoIds, filters, topK, fusion)
+      : await hybridSearch(query, embedding, searchableVideoIds, filters, topK, fusion);
+    const facets = await searchFacets(matches.map((r) => r.topic));
+    const results = matches.slice(0, topK);
+    const topics = results.map((r) => r.topic);
 
     // Get matched transcripts if requested
-    let matchedTranscripts: Map<string, string> = new Map();
-    if (options?.include_transcripts) {
-      for (const topic of topics) {
-        const segments = await db.query.transcriptSegments.findMany({
-          where: and(
-            eq(schema.transcriptSegments.videoId, topic.video_id),
-            sql`${schema.transcriptSegments.startSeconds} >= ${topic.start_seconds}`,
-            sql`${schema.transcriptSegments.endSeconds} <= ${topic.end_seconds}`
-          ),
-        });
-        matchedTranscripts.set(
-          topic.id,
-          segments.map((s) => s.text).join(' ')
-        );
-      }
-    }
+    const matchedTranscripts = options?.include_transcripts
+      ? await topicTranscripts(topics.map((t) => t.id))
+      : new Map<string, string>();
 
     // Get edges if requested
     let topicEdges: Map<string, Array<{ id: string; type: string; weight: number }>> = new Map();
@@ -142,34 +271,28 @@ export async function searchRoutes(fastify: FastifyInstance) {
       }
     }
 
+    const terms = queryTerms(query);
     const tookMs = Date.now() - startTime;
 
     return reply.send({
       query,
-      results: topics.map((t) => ({
-        topic: {
-          id: t.id,
-          level: t.level,
-          start_ts: t.start_seconds,
-          end_ts: t.end_seconds,
-          title: t.title,
-          summary: t.summary,
-          keywords: t.keywords,
-          parent_ids: t.parent_ids,
-          child_ids: t.child_ids,
-          importance_score: t.importance_score,
-          cluster_id: t.cluster_id,
-        },
-        score: t.similarity,
+      results: results.map(({ topic: t, score, signals, segments }) => ({
+        topic: formatTopic(t),
+        score,
         matched_transcript: matchedTranscripts.get(t.id) || null,
-        highlight: generateHighlight(t.title, t.summary, query),
+        highlight: segments ? segments[0].snippet : topicHighlight(t, terms),
+        matched_signals: SEARCH_SIGNALS.filter((signal) => signals[signal]),
+        signals,
+        ...(segments && { segments }),
       })),
-      total: topics.length,
+      total: matches.length,
       took_ms: tookMs,
+      fusion: { k: fusion.k, weights: fusion.weights },
+      facets,
     });
   });
 
-  // POST /search/deep - Deep search with LLM reasoning
+  // POST /search/deep - Answer a question from retrieved topics and transcript segments
   fastify.post<{
     Body: {
       query: string;
@@ -188,18 +311,44 @@ export async function searchRoutes(fastify: FastifyInstance) {
     const { query, video_ids, context } = request.body;
     const maxTopics = context?.max_topics_to_analyze || 20;
 
-    // First, perform semantic search to get relevant topics
-    const semanticResults = await performSemanticSearch(
+    const startTime = Date.now();
+
+    let embedding: number[] | null;
+    try {
+      embedding = await embedQuery(query, config.search.weights);
+    } catch (error) {
+      request.log.error({ err: error }, 'Query embedding failed');
+      return reply.status(502).send({
+        code: 'EMBEDDING_ERROR',
+        message: 'The embedding model is unavailable',
+      });
+    }
+
+    const { topics, passages, videosById } = await retrievePassages(
       query,
+      embedding,
       video_ids,
       userId,
       maxTopics
     );
 
-    const startTime = Date.now();
+    let rag: RagAnswer;
+    try {
+      rag = await answerWithCitations(answerModel(), query, passages, {
+        contextWindow: config.llm.contextWindow,
+        maxAnswerTokens: config.llm.maxTokens,
+        temperature: config.llm.temperature,
+        claimCheck: config.deepSearch.claimCheck,
+      });
+    } catch (error) {
+      request.log.error({ err: error }, 'Deep search answer failed');
+      return reply.status(502).send({
+        code: 'LLM_ERROR',
+        message: 'The answer model is unavailable',
+      });
+    }
 
-    // Use LLM to synthesize answer
-    const answer = await synthesizeAnswer(query, semanticResults);
+    const sources = topics.map((r) => ({ topic: formatTopic(r.topic), score: r.score }));
 
     // Generate cross-references if requested
     let crossReferences: Array<{
@@ -208,22 +357,56 @@ export async function searchRoutes(fastify: FastifyInstance) {
       relationship: string;
     }> = [];
 
-    if (context?.include_cross_references !== false && semanticResults.length > 1) {
-      crossReferences = await generateCrossReferences(semanticResults);
+    if (context?.include_cross_references !== false && sources.length > 1) {
+      crossReferences = await generateCrossReferences(sources);
     }
 
+    const cited = new Set(rag.claims.flatMap((c) => c.citations));
+    const numbered: Array<{ number: number; passage: RagPassage }> = rag.passages.map(
+      (passage, i) => ({ number: i + 1, passage })
+    );
+    const terms = queryTerms(query);
+
     const tookMs = Date.now() - startTime;
 
     return reply.send({
       query,
-      answer,
-      sources: semanticResults.map((r) => ({
-        topic: r.topic,
-        score: r.score,
+      answer: rag.answer || 'No content matching the question was found in the searched videos.',
+      citations: numbered
+        .filter(({ number }) => cited.has(number))
+        .map(({ number, passage }) => {
+          const video = videosById.get(passage.videoId);
+          return {
+            number,
+            kind: passage.kind,
+            topic_id: passage.topicId,
+            segment_id: passage.kind === 'segment' ? passage.id : null,
+            video_id: passage.videoId,
+            title: passage.title,
+            start_ts: passage.startSeconds,
+            end_ts: passage.endSeconds,
+            deep_link: video ? timestampLink(video.sourceUrl, video.sourceType, passage.startSeconds) : null,
+          };
+        }),
+      claims: rag.claims.map((c) => ({
+        text: c.text,
+        start: c.start,
+        end: c.end,
+        citations: c.citations,
+        status: c.status,
+        supported_by: c.supportedBy,
+        unsupported_citations: c.unsupportedCitations,
+      })),
+      claim_check: rag.claimCheck,
+      unsupported_claims: rag.claims.filter((c) => c.status === 'unsupported').length,
+      sources: sources.map((r, i) => ({
+        ...r,
         matched_transcript: null,
-        highlight: null,
+        highlight: topicHighlight(topics[i].topic, terms),
       })),
-      synthesis: context?.include_synthesis !== false ? generateSynthesis(semanticResults) : null,
+      synthesis: context?.include_synthesis !== false
+        ? rag.claims.filter((c) => c.status === 'supported').map((c) => c.text).join(' ') || null
+        : null,
       cross_references: crossReferences,
       took_ms: tookMs,
     });
@@ -231,155 +414,623 @@ export async function searchRoutes(fastify: FastifyInstance) {
 }
 
 // Helper functions
-async function checkAccess(
-  resourceId: string,
-  userId: string,
-  requiredRole: 'viewer' | 'editor' | 'owner'
-): Promise<boolean> {
-  const video = await db.query.videos.findFirst({
-    where: eq(schema.videos.id, resourceId),
-  });
+/**
+ * Embed a query with the model topics and segments are embedded with, or
+ * null when the vector signal is disabled
+ */
+async function embedQuery(query: string, weights: FusionWeights): Promise<number[] | null> {
+  if (weights.vector === 0) return null;
+  embeddingProvider ??= createEmbeddingProvider({ device: 'cpu', ...config.embedding });
+  const [embedding] = await embeddingProvider.embed([query]);
+  return embedding;
+}
 
-  if (video?.createdBy === userId) {
-    return true;
+/**
+ * Requested videos the user can view, or every video the user can view
+ */
+async function resolveVideoIds(videoIds: string[] | undefined, userId: string): Promise<string[]> {
+  if (videoIds && videoIds.length > 0) {
+    return filterAccessibleVideoIds(videoIds, userId, 'viewer');
   }
 
-  const aclEntry = await db.query.acl.findFirst({
-    where: and(
-      eq(schema.acl.resourceType, 'video'),
-      eq(schema.acl.resourceId, resourceId),
-      eq(schema.acl.userId, userId)
-    ),
+  return accessibleVideoIds(userId, 'viewer');
+}
+
+/**
+ * Merge request fusion options over the configured defaults; null if invalid
+ */
+function resolveFusion(
+  options: FusionOptions | undefined
+): { k: number; weights: FusionWeights } | null {
+  const k = options?.k ?? config.search.fusionK;
+  const weights: FusionWeights = { ...config.search.weights };
+
+  for (const [signal, weight] of Object.entries(options?.weights ?? {})) {
+    if (!SEARCH_SIGNALS.includes(signal as SearchSignal)) continue;
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      return null;
+    }
+    weights[signal as SearchSignal] = weight;
+  }
+
+  if (typeof k !== 'number' || !Number.isFinite(k) || k <= 0) {
+    return null;
+  }
+
+  return { k, weights };
+}
+
+/**
+ * Narrow videos by creation date, source type and metadata
+ */
+async function filterVideos(videoIds: string[], filters: SearchFilters | undefined): Promise<string[]> {
+  const conditions: SQL[] = [];
+
+  if (filters?.date_from) {
+    conditions.push(gte(schema.videos.createdAt, new Date(filters.date_from)));
+  }
+  if (filters?.date_to) {
+    conditions.push(lte(schema.videos.createdAt, new Date(filters.date_to)));
+  }
+  if (filters?.source_types && filters.source_types.length > 0) {
+    conditions.push(inArray(schema.videos.sourceType, filters.source_types));
+  }
+  if (filters?.metadata && Object.keys(filters.metadata).length > 0) {
+    conditions.push(sql`${schema.videos.metadata} @> ${JSON.stringify(filters.metadata)}::jsonb`);
+  }
+
+  if (conditions.length === 0 || videoIds.length === 0) {
+    return videoIds;
+  }
+
+  const videos = await db.query.videos.findMany({
+    where: and(inArray(schema.videos.id, videoIds), ...conditions),
+    columns: { id: true },
   });
+  return videos.map((v) => v.id);
+}
+
+/**
+ * Rank topics by each enabled signal and fuse the rankings. All fused
+ * matches are returned so that facets count more than the first page.
+ */
+async function hybridSearch(
+  query: string,
+  embedding: number[] | null,
+  videoIds: string[],
+  filters: SearchFilters | undefined,
+  topK: number,
+  fusion: { k: number; weights: FusionWeights }
+): Promise<HybridSearchResult[]> {
+  const { weights } = fusion;
+  const candidates = Math.max(topK, config.search.candidatesPerSignal);
+  const whereClause = topicFilter(videoIds, filters);
 
-  if (!aclEntry) {
-    return false;
+  const topicsById = new Map<string, TopicRow>();
+  const rankings: Array<{ signal: SearchSignal; rows: Array<{ id: string; score: number }> }> = [];
+
+  if (embedding) {
+    const queryEmbedding = JSON.stringify(embedding);
+    const result = await db.execute<TopicRow & { similarity: number }>(sql`
+      SELECT ${TOPIC_COLUMNS},
+        1 - (topic_nodes.embedding <=> ${queryEmbedding}::vector) AS similarity
+      FROM topic_nodes
+      WHERE ${whereClause} AND topic_nodes.embedding IS NOT NULL
+      ORDER BY topic_nodes.embedding <=> ${queryEmbedding}::vector
+      LIMIT ${candidates}
+    `);
+    for (const row of result.rows) topicsById.set(row.id, row);
+    rankings.push({
+      signal: 'vector',
+      rows: result.rows.map((row) => ({ id: row.id, score: Number(row.similarity) })),
+    });
   }
 
-  const roleHierarchy = { viewer: 0, editor: 1, owner: 2 };
-  return roleHierarchy[aclEntry.role] >= roleHierarchy[requiredRole];
+  const lexicalFields = (['title', 'summary', 'keywords'] as LexicalField[]).filter((f) => weights[f] > 0);
+  if (lexicalFields.length > 0) {
+    const vectors = { title: titleVector, summary: summaryVector, keywords: keywordsVector };
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const result = await db.execute<LexicalRow>(sql`
+      SELECT * FROM (
+        SELECT ${TOPIC_COLUMNS},
+          ${titleVector} @@ ${tsQuery} AS title_match,
+          ${summaryVector} @@ ${tsQuery} AS summary_match,
+          ${keywordsVector} @@ ${tsQuery} AS keywords_match,
+          ts_rank_cd(${titleVector}, ${tsQuery}) AS title_rank,
+          ts_rank_cd(${summaryVector}, ${tsQuery}) AS summary_rank,
+          ts_rank_cd(${keywordsVector}, ${tsQuery}) AS keywords_rank
+        FROM topic_nodes
+        WHERE ${whereClause}
+          AND (${sql.join(lexicalFields.map((f) => sql`${vectors[f]} @@ ${tsQuery}`), sql` OR `)})
+      ) matches
+      ORDER BY title_rank + summary_rank + keywords_rank DESC
+      LIMIT ${candidates * lexicalFields.length}
+    `);
+    for (const row of result.rows) topicsById.set(row.id, row);
+
+    for (const field of lexicalFields) {
+      rankings.push({
+        signal: field,
+        rows: result.rows
+          .filter((row) => row[`${field}_match`])
+          .map((row) => ({ id: row.id, score: Number(row[`${field}_rank`]) }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, candidates),
+      });
+    }
+  }
+
+  if (weights.transcript > 0) {
+    // Segments are attributed to every topic whose time range contains them
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const result = await db.execute<TopicRow & { transcript_rank: number }>(sql`
+      SELECT ${TOPIC_COLUMNS},
+        max(ts_rank_cd(${transcriptVector}, ${tsQuery})) AS transcript_rank
+      FROM transcript_segments
+      JOIN topic_nodes
+        ON topic_nodes.video_id = transcript_segments.video_id
+        AND transcript_segments.start_seconds >= topic_nodes.start_seconds
+        AND transcript_segments.start_seconds < topic_nodes.end_seconds
+      WHERE ${whereClause} AND ${transcriptVector} @@ ${tsQuery}
+      GROUP BY topic_nodes.id
+      ORDER BY transcript_rank DESC
+      LIMIT ${candidates}
+    `);
+    for (const row of result.rows) topicsById.set(row.id, row);
+    rankings.push({
+      signal: 'transcript',
+      rows: result.rows.map((row) => ({ id: row.id, score: Number(row.transcript_rank) })),
+    });
+  }
+
+  const rawScores = new Map(
+    rankings.map(({ signal, rows }) => [signal, new Map(rows.map((r) => [r.id, r.score]))])
+  );
+
+  const fused = reciprocalRankFusion(
+    rankings.map(({ signal, rows }) => ({
+      signal,
+      ids: rows.map((r) => r.id),
+      weight: weights[signal],
+    })),
+    { k: fusion.k }
+  );
+
+  return fused.map((result) => ({
+    topic: topicsById.get(result.id)!,
+    score: result.score,
+    signals: signalMatches(result.signals, (signal) => rawScores.get(signal)!.get(result.id)!),
+  }));
 }
 
-async function generateEmbedding(text: string): Promise<number[]> {
-  // Implementation would use sentence-transformers or similar
-  // Placeholder: return random normalized embedding
-  const vec = Array.from({ length: 384 }, () => Math.random() * 2 - 1);
-  const norm = Math.sqrt(vec.reduce((sum, x) => sum + x * x, 0));
-  return vec.map((x) => x / norm);
+/**
+ * Rank transcript segments by embedding similarity and full-text match,
+ * then group them under the most specific topic of the latest graph
+ * version that contains them. Groups are ordered by their best segment.
+ */
+async function segmentSearch(
+  query: string,
+  embedding: number[] | null,
+  videoIds: string[],
+  filters: SearchFilters | undefined,
+  topK: number,
+  fusion: { k: number; weights: FusionWeights }
+): Promise<SegmentSearchResult[]> {
+  const { weights } = fusion;
+  const candidates = Math.max(topK * MAX_SEGMENTS_PER_TOPIC, config.search.candidatesPerSignal);
+  let segmentClause: SQL = inArray(schema.transcriptSegments.videoId, videoIds);
+  if (filters?.speakers && filters.speakers.length > 0) {
+    segmentClause = and(segmentClause, inArray(schema.transcriptSegments.speakerId, filters.speakers))!;
+  }
+  const rankings: Array<{ signal: SearchSignal; rows: Array<{ id: string; score: number }> }> = [];
+
+  if (embedding) {
+    const queryEmbedding = JSON.stringify(embedding);
+    const result = await db.execute<{ id: string; similarity: number }>(sql`
+      SELECT transcript_segments.id,
+        1 - (transcript_segments.embedding <=> ${queryEmbedding}::vector) AS similarity
+      FROM transcript_segments
+      WHERE ${segmentClause} AND transcript_segments.embedding IS NOT NULL
+      ORDER BY transcript_segments.embedding <=> ${queryEmbedding}::vector
+      LIMIT ${candidates}
+    `);
+    rankings.push({
+      signal: 'vector',
+      rows: result.rows.map((row) => ({ id: row.id, score: Number(row.similarity) })),
+    });
+  }
+
+  if (weights.transcript > 0) {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const result = await db.execute<{ id: string; rank: number }>(sql`
+      SELECT transcript_segments.id, ts_rank_cd(${transcriptVector}, ${tsQuery}) AS rank
+      FROM transcript_segments
+      WHERE ${segmentClause} AND ${transcriptVector} @@ ${tsQuery}
+      ORDER BY rank DESC
+      LIMIT ${candidates}
+    `);
+    rankings.push({
+      signal: 'transcript',
+      rows: result.rows.map((row) => ({ id: row.id, score: Number(row.rank) })),
+    });
+  }
+
+  const fused = reciprocalRankFusion(
+    rankings.map(({ signal, rows }) => ({ signal, ids: rows.map((r) => r.id), weight: weights[signal] })),
+    { k: fusion.k }
+  );
+
+  if (fused.length === 0) {
+    return [];
+  }
+
+  const segments = await db.execute<SegmentRow>(sql`
+    SELECT DISTINCT ON (transcript_segments.id) ${TOPIC_COLUMNS},
+      transcript_segments.id AS segment_id,
+      transcript_segments.start_seconds AS segment_start,
+      transcript_segments.end_seconds AS segment_end,
+      transcript_segments.speaker_id,
+      transcript_segments.text,
+      transcript_segments.words
+    FROM transcript_segments
+    JOIN topic_nodes
+      ON topic_nodes.video_id = transcript_segments.video_id
+      AND transcript_segments.start_seconds >= topic_nodes.start_seconds
+      AND transcript_segments.start_seconds < topic_nodes.end_seconds
+    JOIN graph_versions ON graph_versions.id = topic_nodes.graph_version_id
+    WHERE ${inArray(schema.transcriptSegments.id, fused.map((r) => r.id))}
+      AND ${topicFilter(videoIds, filters)}
+    ORDER BY transcript_segments.id,
+      graph_versions.version DESC,
+      topic_nodes.end_seconds - topic_nodes.start_seconds
+  `);
+  if (segments.rows.length === 0) {
+    return [];
+  }
+  const segmentsById = new Map(segments.rows.map((row) => [row.segment_id, row]));
+
+  const videos = await db.query.videos.findMany({
+    where: inArray(schema.videos.id, [...new Set(segments.rows.map((row) => row.video_id))]),
+  });
+  const videosById = new Map(videos.map((v) => [v.id, v]));
+
+  const rawScores = new Map(
+    rankings.map(({ signal, rows }) => [signal, new Map(rows.map((r) => [r.id, r.score]))])
+  );
+  const terms = queryTerms(query);
+  const groups = new Map<string, SegmentSearchResult>();
+
+  // Fused results are best first, so each group's first hit is its best
+  for (const result of fused) {
+    const row = segmentsById.get(result.id);
+    if (!row) continue;
+
+    const group = groups.get(row.id);
+    if (group && group.segments.length === MAX_SEGMENTS_PER_TOPIC) continue;
+
+    const signals = signalMatches(result.signals, (signal) => rawScores.get(signal)!.get(result.id)!);
+    const highlight = highlightTranscript(
+      { text: row.text, startSeconds: row.segment_start, words: row.words },
+      terms
+    );
+    const video = videosById.get(row.video_id);
+
+    const hit: SegmentHit = {
+      id: row.segment_id,
+      video_id: row.video_id,
+      start_ts: row.segment_start,
+      end_ts: row.segment_end,
+      speaker_id: row.speaker_id,
+      score: result.score,
+      matched_signals: SEARCH_SIGNALS.filter((signal) => signals[signal]),
+      signals,
+      snippet: highlight.snippet,
+      highlights: highlight.highlights,
+      jump_to_ts: highlight.jumpToSeconds,
+      deep_link: video ? timestampLink(video.sourceUrl, video.sourceType, highlight.jumpToSeconds) : null,
+    };
+
+    if (group) {
+      group.segments.push(hit);
+    } else {
+      groups.set(row.id, { topic: row, score: result.score, signals, segments: [hit] });
+    }
+  }
+
+  return [...groups.values()];
 }
 
-async function performSemanticSearch(
+/**
+ * Passages for a deep search answer, best topics first: each topic's
+ * summary followed by its best matching transcript segments. Topics are
+ * taken from the topic ranking, then from the segment ranking.
+ */
+async function retrievePassages(
   query: string,
+  embedding: number[] | null,
   videoIds: string[] | undefined,
   userId: string,
-  topK: number
-): Promise<
-  Array<{
-    topic: {
-      id: string;
-      level: number;
-      start_ts: number;
-      end_ts: number;
-      title: string;
-      summary: string;
-      keywords: string[];
-      parent_ids: string[];
-      child_ids: string[];
-      importance_score: number;
-      cluster_id: string | null;
-    };
-    score: number;
-  }>
-> {
-  // Get accessible videos
-  let accessibleVideoIds: string[] = [];
-  if (videoIds && videoIds.length > 0) {
-    for (const videoId of videoIds) {
-      const hasAccess = await checkAccess(videoId, userId, 'viewer');
-      if (hasAccess) {
-        accessibleVideoIds.push(videoId);
-      }
+  maxTopics: number
+): Promise<{
+  topics: HybridSearchResult[];
+  passages: RagPassage[];
+  videosById: Map<string, schema.Video>;
+}> {
+  const searchableVideoIds = await resolveVideoIds(videoIds, userId);
+
+  if (searchableVideoIds.length === 0) {
+    return { topics: [], passages: [], videosById: new Map() };
+  }
+
+  const fusion = { k: config.search.fusionK, weights: config.search.weights };
+  const topicResults = await hybridSearch(query, embedding, searchableVideoIds, undefined, maxTopics, fusion);
+  const segmentResults = await segmentSearch(
+    query,
+    embedding,
+    searchableVideoIds,
+    undefined,
+    maxTopics,
+    fusion
+  );
+
+  const ranked = new Map<string, SegmentSearchResult>();
+  for (const result of topicResults.slice(0, maxTopics)) {
+    ranked.set(result.topic.id, { ...result, segments: [] });
+  }
+  for (const result of segmentResults) {
+    const entry = ranked.get(result.topic.id);
+    if (entry) {
+      entry.segments = result.segments;
+    } else if (ranked.size < maxTopics) {
+      ranked.set(result.topic.id, result);
     }
-  } else {
-    const videos = await db.query.videos.findMany({
-      where: eq(schema.videos.createdBy, userId),
+  }
+
+  const topics = [...ranked.values()];
+  if (topics.length === 0) {
+    return { topics: [], passages: [], videosById: new Map() };
+  }
+
+  const hits = topics.flatMap((r) => r.segments.slice(0, config.deepSearch.segmentsPerTopic));
+
+  // Hits carry snippets; the model gets the full segment text
+  const segmentTexts = new Map<string, string>();
+  if (hits.length > 0) {
+    const segments = await db.query.transcriptSegments.findMany({
+      where: inArray(schema.transcriptSegments.id, hits.map((h) => h.id)),
+      columns: { id: true, text: true },
     });
-    accessibleVideoIds = videos.map((v) => v.id);
+    for (const segment of segments) segmentTexts.set(segment.id, segment.text);
   }
 
-  if (accessibleVideoIds.length === 0) {
-    return [];
+  const passages = topics.flatMap(({ topic, segments }): RagPassage[] => [
+    {
+      id: topic.id,
+      kind: 'topic',
+      topicId: topic.id,
+      videoId: topic.video_id,
+      startSeconds: topic.start_seconds,
+      endSeconds: topic.end_seconds,
+      title: topic.title,
+      text: topic.summary,
+    },
+    ...segments
+      .slice(0, config.deepSearch.segmentsPerTopic)
+      .filter((hit) => segmentTexts.has(hit.id))
+      .map((hit): RagPassage => ({
+        id: hit.id,
+        kind: 'segment',
+        topicId: topic.id,
+        videoId: hit.video_id,
+        startSeconds: hit.start_ts,
+        endSeconds: hit.end_ts,
+        title: topic.title,
+        text: segmentTexts.get(hit.id)!,
+      })),
+  ]);
+
+  const videos = await db.query.videos.findMany({
+    where: inArray(schema.videos.id, [...new Set(topics.map((r) => r.topic.video_id))]),
+  });
+
+  return { topics, passages, videosById: new Map(videos.map((v) => [v.id, v])) };
+}
+
+/**
+ * Topic filters shared by every ranking query
+ */
+function topicFilter(videoIds: string[], filters: SearchFilters | undefined): SQL {
+  let whereClause: SQL = inArray(schema.topicNodes.videoId, videoIds);
+
+  if (filters?.level !== undefined) {
+    whereClause = and(whereClause, eq(schema.topicNodes.level, filters.level))!;
+  }
+
+  if (filters?.min_importance !== undefined) {
+    whereClause = and(
+      whereClause,
+      sql`${schema.topicNodes.importanceScore} >= ${filters.min_importance}`
+    )!;
+  }
+
+  if (filters?.cluster_ids && filters.cluster_ids.length > 0) {
+    whereClause = and(whereClause, inArray(schema.topicNodes.clusterId, filters.cluster_ids))!;
+  }
+
+  if (filters?.edge_types && filters.edge_types.length > 0) {
+    whereClause = and(
+      whereClause,
+      sql`EXISTS (
+        SELECT 1 FROM topic_edges
+        WHERE (topic_edges.src_topic_id = topic_nodes.id OR topic_edges.dst_topic_id = topic_nodes.id)
+          AND ${inArray(schema.topicEdges.edgeType, filters.edge_types)}
+      )`
+    )!;
+  }
+
+  if (filters?.speakers && filters.speakers.length > 0) {
+    whereClause = and(
+      whereClause,
+      sql`EXISTS (
+        SELECT 1 FROM transcript_segments
+        WHERE transcript_segments.video_id = topic_nodes.video_id
+          AND transcript_segments.start_seconds >= topic_nodes.start_seconds
+          AND transcript_segments.start_seconds < topic_nodes.end_seconds
+          AND ${inArray(schema.transcriptSegments.speakerId, filters.speakers)}
+      )`
+    )!;
+  }
+
+  return whereClause;
+}
+
+/**
+ * Matching topics counted per video, level, speaker and cluster
+ */
+async function searchFacets(topics: TopicRow[]): Promise<SearchFacets> {
+  if (topics.length === 0) {
+    return { videos: [], levels: [], speakers: [], clusters: [] };
   }
 
-  // Generate query embedding
-  const queryEmbedding = await generateEmbedding(query);
-
-  // Perform vector search
-  const searchResults = await db.execute(sql`
-    SELECT 
-      id,
-      video_id,
-      level,
-      start_seconds,
-      end_seconds,
-      title,
-      summary,
-      keywords,
-      parent_ids,
-      child_ids,
-      importance_score,
-      cluster_id,
-      1 - (embedding <=> ${sql.array(queryEmbedding)}::vector) as similarity
+  const speakerRows = await db.execute<{ id: string; speaker_id: string }>(sql`
+    SELECT DISTINCT topic_nodes.id, transcript_segments.speaker_id
     FROM topic_nodes
-    WHERE ${inArray(schema.topicNodes.videoId, accessibleVideoIds)}
-    ORDER BY embedding <=> ${sql.array(queryEmbedding)}::vector
-    LIMIT ${topK}
+    JOIN transcript_segments
+      ON transcript_segments.video_id = topic_nodes.video_id
+      AND transcript_segments.start_seconds >= topic_nodes.start_seconds
+      AND transcript_segments.start_seconds < topic_nodes.end_seconds
+    WHERE ${inArray(schema.topicNodes.id, topics.map((t) => t.id))}
+      AND transcript_segments.speaker_id IS NOT NULL
   `);
 
-  return (searchResults as Array<{
-    id: string;
-    video_id: string;
-    level: number;
-    start_seconds: number;
-    end_seconds: number;
-    title: string;
-    summary: string;
-    keywords: string[];
-    parent_ids: string[];
-    child_ids: string[];
-    importance_score: number;
-    cluster_id: string | null;
-    similarity: number;
-  }>).map((t) => ({
-    topic: {
-      id: t.id,
-      level: t.level,
-      start_ts: t.start_seconds,
-      end_ts: t.end_seconds,
-      title: t.title,
-      summary: t.summary,
-      keywords: t.keywords,
-      parent_ids: t.parent_ids,
-      child_ids: t.child_ids,
-      importance_score: t.importance_score,
-      cluster_id: t.cluster_id,
-    },
-    score: t.similarity,
-  }));
+  const videoIds = [...new Set(topics.map((t) => t.video_id))];
+  const videos = await db.query.videos.findMany({
+    where: inArray(schema.videos.id, videoIds),
+  });
+  const videoTitles = new Map(
+    videos.map((v) => [v.id, (v.metadata as { title?: string } | null)?.title ?? v.sourceUrl])
+  );
+  const clusterLabels = new Map(
+    topics.filter((t) => t.cluster_id && t.cluster_label).map((t) => [t.cluster_id!, t.cluster_label!])
+  );
+
+  return {
+    videos: countFacet(topics.map((t) => t.video_id), videoTitles),
+    levels: countFacet(topics.map((t) => t.level)),
+    speakers: countFacet(speakerRows.rows.map((row) => row.speaker_id)),
+    clusters: countFacet(
+      topics.flatMap((t) => (t.cluster_id ? [t.cluster_id] : [])),
+      clusterLabels
+    ),
+  };
 }
 
-async function synthesizeAnswer(
-  query: string,
-  topics: Array<{ topic: { title: string; summary: string }; score: number }>
-): Promise<string> {
-  // Implementation would use LLM
-  // Placeholder
-  const context = topics
-    .slice(0, 5)
-    .map((t) => `${t.topic.title}: ${t.topic.summary}`)
-    .join('\n\n');
-
-  return `Based on the video content, here's what I found:\n\n${context}\n\nThis information addresses your query: "${query}"`;
+function countFacet<T extends string | number>(values: T[], labels?: Map<T, string>): FacetCount[] {
+  const counts = new Map<T, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || String(a[0]).localeCompare(String(b[0])))
+    .map(([value, count]) => ({
+      value,
+      ...(labels?.has(value) && { label: labels.get(value) }),
+      count,
+    }));
+}
+
+/**
+ * Per-signal rank, raw score and fused contribution of one result
+ */
+function signalMatches(
+  fused: Record<string, { rank: number; contribution: number }>,
+  rawScore: (signal: SearchSignal) => number
+): Partial<Record<SearchSignal, SignalMatch>> {
+  return Object.fromEntries(
+    Object.entries(fused).map(([signal, match]) => [
+      signal,
+      {
+        rank: match.rank,
+        score: rawScore(signal as SearchSignal),
+        contribution: match.contribution,
+      },
+    ])
+  );
+}
+
+/**
+ * Transcript text within each topic's time range, in one query
+ */
+async function topicTranscripts(topicIds: string[]): Promise<Map<string, string>> {
+  if (topicIds.length === 0) {
+    return new Map();
+  }
+
+  const result = await db.execute<{ id: string; text: string }>(sql`
+    SELECT topic_nodes.id,
+      string_agg(transcript_segments.text, ' ' ORDER BY transcript_segments.start_seconds) AS text
+    FROM topic_nodes
+    JOIN transcript_segments
+      ON transcript_segments.video_id = topic_nodes.video_id
+      AND transcript_segments.start_seconds >= topic_nodes.start_seconds
+      AND transcript_segments.end_seconds <= topic_nodes.end_seconds
+    WHERE ${inArray(schema.topicNodes.id, topicIds)}
+    GROUP BY topic_nodes.id
+  `);
+
+  return new Map(result.rows.map((row) => [row.id, row.text]));
+}
+
+/**
+ * Link to the source video at a timestamp: start-time parameters for
+ * YouTube and Vimeo, a media fragment for direct URLs, none for uploads
+ */
+function timestampLink(sourceUrl: string, sourceType: string, seconds: number): string | null {
+  let url: URL;
+  try {
+    url = new URL(sourceUrl);
+  } catch {
+    return null;
+  }
+
+  const whole = Math.floor(seconds);
+  switch (sourceType) {
+    case 'youtube':
+      url.searchParams.set('t', `${whole}s`);
+      return url.toString();
+    case 'vimeo':
+      url.hash = `t=${whole}s`;
+      return url.toString();
+    case 'direct':
+      url.hash = `t=${Math.round(seconds * 100) / 100}`;
+      return url.toString();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Passage of a topic's summary around the query terms
+ */
+function topicHighlight(t: TopicRow, terms: string[]): string {
+  return highlightTranscript({ text: t.summary, startSeconds: t.start_seconds }, terms).snippet;
+}
+
+function formatTopic(t: TopicRow) {
+  return {
+    id: t.id,
+    level: t.level,
+    start_ts: t.start_seconds,
+    end_ts: t.end_seconds,
+    title: t.title,
+    summary: t.summary,
+    keywords: t.keywords,
+    parent_ids: t.parent_ids,
+    child_ids: t.child_ids,
+    importance_score: t.importance_score,
+    cluster_id: t.cluster_id,
+  };
 }
 
 async function generateCrossReferences(
@@ -413,28 +1064,3 @@ async function generateCrossReferences(
 
   return crossReferences;
 }
-
-function generateSynthesis(
-  topics: Array<{ topic: { title: string; summary: string } }>
-): string {
-  // Generate a synthesis of the search results
-  const mainThemes = topics.slice(0, 3).map((t) => t.topic.title);
-  return `The main themes in these results are: ${mainThemes.join(', ')}.`;
-}
-
-function generateHighlight(title: string, summary: string, query: string): string {
-  // Simple highlighting - in production, use more sophisticated approach
-  const queryWords = query.toLowerCase().split(/\s+/);
-  const text = `${title} ${summary}`;
-
-  // Find sentences containing query words
-  const sentences = text.split(/[.!?]+/);
-  for (const sentence of sentences) {
-    const lowerSentence = sentence.toLowerCase();
-    if (queryWords.some((word) => lowerSentence.includes(word))) {
-      return sentence.trim();
-    }
-  }
-
-  return title;
-}
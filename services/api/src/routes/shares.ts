@@ -8,8 +8,11 @@ import type { FastifyInstance } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
 import { eq, and, sql, gt } from 'drizzle-orm';
 import { db, schema } from '../db/index.js';
+import { canAccessVideo, videoRole } from '../authorization.js';
 import { CreateShareRequestSchema } from '@video-graph/shared-types';
-import { createHash } from 'crypto';
+import { createHash, timingSafeEqual } from 'crypto';
+
+type Share = typeof schema.shares.$inferSelect;
 
 export async function shareRoutes(fastify: FastifyInstance) {
   // POST /shares - Create share link
@@ -40,20 +43,14 @@ export async function shareRoutes(fastify: FastifyInstance) {
     let resourceExists = false;
     switch (resource_type) {
       case 'video':
-        const video = await db.query.videos.findFirst({
-          where: eq(schema.videos.id, resource_id),
-        });
-        resourceExists = !!video && video.createdBy === userId;
+        resourceExists = await canAccessVideo(resource_id, userId, 'owner');
         break;
       case 'graph':
         const graph = await db.query.graphVersions.findFirst({
           where: eq(schema.graphVersions.id, resource_id),
         });
         if (graph) {
-          const video = await db.query.videos.findFirst({
-            where: eq(schema.videos.id, graph.videoId),
-          });
-          resourceExists = video?.createdBy === userId;
+          resourceExists = await canAccessVideo(graph.videoId, userId, 'owner');
         }
         break;
       case 'topic':
@@ -61,10 +58,7 @@ export async function shareRoutes(fastify: FastifyInstance) {
           where: eq(schema.topicNodes.id, resource_id),
         });
         if (topic) {
-          const video = await db.query.videos.findFirst({
-            where: eq(schema.videos.id, topic.videoId),
-          });
-          resourceExists = video?.createdBy === userId;
+          resourceExists = await canAccessVideo(topic.videoId, userId, 'owner');
         }
         break;
     }
@@ -153,30 +147,9 @@ export async function shareRoutes(fastify: FastifyInstance) {
         });
       }
 
-      // Check expiration
-      if (share.expiresAt && share.expiresAt < new Date()) {
-        return reply.status(410).send({
-          code: 'GONE',
-          message: 'Share link has expired',
-        });
-      }
-
-      // Verify password if required
-      if (share.passwordHash) {
-        if (!password) {
-          return reply.status(401).send({
-            code: 'PASSWORD_REQUIRED',
-            message: 'Password is required to access this resource',
-          });
-        }
-
-        const providedHash = createHash('sha256').update(password).digest('hex');
-        if (providedHash !== share.passwordHash) {
-          return reply.status(401).send({
-            code: 'INVALID_PASSWORD',
-            message: 'Invalid password',
-          });
-        }
+      const denied = verifyShareAccess(share, password);
+      if (denied) {
+        return reply.status(denied.status).send({ code: denied.code, message: denied.message });
       }
 
       // Increment access count
@@ -275,6 +248,68 @@ export async function shareRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // POST /shares/:token/redeem - Add a shared video to the caller's library
+  fastify.post<{ Params: { token: string }; Body: { password?: string } }>(
+    '/shares/:token/redeem',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      const userId = request.user!.sub;
+      const { token } = request.params;
+      const password = request.body?.password;
+
+      const share = await db.query.shares.findFirst({
+        where: eq(schema.shares.token, token),
+      });
+
+      if (!share) {
+        return reply.status(404).send({
+          code: 'NOT_FOUND',
+          message: 'Share link not found',
+        });
+      }
+
+      const denied = verifyShareAccess(share, password);
+      if (denied) {
+        return reply.status(denied.status).send({ code: denied.code, message: denied.message });
+      }
+
+      // Only video shares grant lasting access
+      if (share.resourceType !== 'video') {
+        return reply.status(400).send({
+          code: 'VALIDATION_ERROR',
+          message: 'Only video share links can be redeemed',
+        });
+      }
+
+      await db
+        .insert(schema.shareRedemptions)
+        .values({ token, userId })
+        .onConflictDoNothing();
+
+      await db
+        .update(schema.shares)
+        .set({
+          accessCount: sql`${schema.shares.accessCount} + 1`,
+        })
+        .where(eq(schema.shares.token, token));
+
+      const redemption = await db.query.shareRedemptions.findFirst({
+        where: and(
+          eq(schema.shareRedemptions.token, token),
+          eq(schema.shareRedemptions.userId, userId)
+        ),
+      });
+
+      return reply.send({
+        resource_type: share.resourceType,
+        resource_id: share.resourceId,
+        scope: share.scope,
+        role: await videoRole(share.resourceId, userId),
+        redeemed_at: redemption?.redeemedAt.toISOString() ?? new Date().toISOString(),
+      });
+    }
+  );
+
   // DELETE /shares/:token - Revoke share link
   fastify.delete<{ Params: { token: string } }>(
     '/shares/:token',
@@ -318,6 +353,43 @@ export async function shareRoutes(fastify: FastifyInstance) {
   );
 }
 
+/**
+ * Check that a share link has not expired and that the password matches
+ * when it has one; returns the error to respond with, or null
+ */
+function verifyShareAccess(
+  share: Share,
+  password: string | undefined
+): { status: number; code: string; message: string } | null {
+  if (share.expiresAt && share.expiresAt < new Date()) {
+    return { status: 410, code: 'GONE', message: 'Share link has expired' };
+  }
+
+  if (share.passwordHash) {
+    if (!password) {
+      return {
+        status: 401,
+        code: 'PASSWORD_REQUIRED',
+        message: 'Password is required to access this resource',
+      };
+    }
+    if (!checkSharePassword(password, share.passwordHash)) {
+      return { status: 401, code: 'INVALID_PASSWORD', message: 'Invalid password' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compare a password with the stored SHA-256 hex digest in constant time
+ */
+function checkSharePassword(password: string, stored: string): boolean {
+  const expected = Buffer.from(stored, 'hex');
+  const actual = createHash('sha256').update(password).digest();
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
 function generateShareToken(): string {
   // Generate a URL-safe random token
   const bytes = Buffer.from(uuidv4().replace(/-/g, ''), 'hex');
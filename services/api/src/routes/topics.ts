@@ -1,13 +1,26 @@
 /**
  * Topic Routes
  * 
- * Handles topic CRUD operations, merging, and splitting.
+ * Handles topic CRUD operations, merging, and splitting. Edits are
+ * recorded in the graph version's edit log and can be undone and redone.
  */
 
-import type { FastifyInstance } from 'fastify';
+import type { FastifyInstance, FastifyReply } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
-import { eq, and, inArray } from 'drizzle-orm';
+import { eq, desc, inArray, sql } from 'drizzle-orm';
+import { RevertTopicEditsRequestSchema } from '@video-graph/shared-types';
 import { db, schema } from '../db/index.js';
+import { canAccessVideo } from '../authorization.js';
+import {
+  lockTopicsForEdit,
+  recordTopicEdit,
+  revertTopicEdits,
+  snapshotTopics,
+  topicEditStacks,
+  TopicEditConflictError,
+  type TopicEditSnapshot,
+} from '../topic-edits.js';
+import { invalidateGraphAnalytics } from './analytics.js';
 
 export async function topicRoutes(fastify: FastifyInstance) {
   // GET /topics/:id - Get topic details
@@ -33,7 +46,7 @@ export async function topicRoutes(fastify: FastifyInstance) {
       }
 
       // Check access
-      const hasAccess = await checkAccess(topic.videoId, userId, 'viewer');
+      const hasAccess = await canAccessVideo(topic.videoId, userId, 'viewer');
       if (!hasAccess) {
         return reply.status(403).send({
           code: 'FORBIDDEN',
@@ -54,6 +67,7 @@ export async function topicRoutes(fastify: FastifyInstance) {
         child_ids: topic.childIds,
         importance_score: topic.importanceScore,
         cluster_id: topic.clusterId,
+        cluster_label: topic.clusterLabel,
         snippets: topic.snippets.map((s) => ({
           id: s.id,
           topic_id: s.topicId,
@@ -92,7 +106,7 @@ export async function topicRoutes(fastify: FastifyInstance) {
     }
 
     // Check access
-    const hasAccess = await checkAccess(topic.videoId, userId, 'editor');
+    const hasAccess = await canAccessVideo(topic.videoId, userId, 'editor');
     if (!hasAccess) {
       return reply.status(403).send({
         code: 'FORBIDDEN',
@@ -101,17 +115,37 @@ export async function topicRoutes(fastify: FastifyInstance) {
     }
 
     // Update topic
-    const [updated] = await db
-      .update(schema.topicNodes)
-      .set({
-        title: updates.title ?? topic.title,
-        summary: updates.summary ?? topic.summary,
-        keywords: updates.keywords ?? topic.keywords,
-        importanceScore: updates.importance_score ?? topic.importanceScore,
-        updatedAt: new Date(),
-      })
-      .where(eq(schema.topicNodes.id, topicId))
-      .returning();
+    let updated: schema.TopicNode;
+    try {
+      updated = await db.transaction(async (tx) => {
+        const [current] = await lockTopicsForEdit(tx, topic.graphVersionId, [topicId]);
+
+        const [row] = await tx
+          .update(schema.topicNodes)
+          .set({
+            title: updates.title ?? current.title,
+            summary: updates.summary ?? current.summary,
+            keywords: updates.keywords ?? current.keywords,
+            importanceScore: updates.importance_score ?? current.importanceScore,
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.topicNodes.id, topicId))
+          .returning();
+
+        await recordTopicEdit(tx, {
+          graphVersionId: topic.graphVersionId,
+          operation: 'update',
+          topicIds: [topicId],
+          before: { topics: [current], edges: [], snippets: [] },
+          after: { topics: [row], edges: [], snippets: [] },
+          userId,
+        });
+
+        return row;
+      });
+    } catch (error) {
+      return sendEditConflict(error, reply);
+    }
 
     return reply.send({
       id: updated.id,
@@ -126,6 +160,7 @@ export async function topicRoutes(fastify: FastifyInstance) {
       child_ids: updated.childIds,
       importance_score: updated.importanceScore,
       cluster_id: updated.clusterId,
+      cluster_label: updated.clusterLabel,
       created_at: updated.createdAt.toISOString(),
       updated_at: updated.updatedAt.toISOString(),
     });
@@ -151,7 +186,7 @@ export async function topicRoutes(fastify: FastifyInstance) {
       }
 
       // Check access
-      const hasAccess = await checkAccess(topic.videoId, userId, 'viewer');
+      const hasAccess = await canAccessVideo(topic.videoId, userId, 'viewer');
       if (!hasAccess) {
         return reply.status(403).send({
           code: 'FORBIDDEN',
@@ -215,7 +250,7 @@ export async function topicRoutes(fastify: FastifyInstance) {
     }
 
     // Check access
-    const hasAccess = await checkAccess(videoId, userId, 'editor');
+    const hasAccess = await canAccessVideo(videoId, userId, 'editor');
     if (!hasAccess) {
       return reply.status(403).send({
         code: 'FORBIDDEN',
@@ -225,42 +260,65 @@ export async function topicRoutes(fastify: FastifyInstance) {
 
     // Create merged topic
     const mergedId = uuidv4();
-    const startTime = Math.min(...topics.map((t) => t.startSeconds));
-    const endTime = Math.max(...topics.map((t) => t.endSeconds));
-    const allKeywords = Array.from(new Set(topics.flatMap((t) => t.keywords)));
-
-    const [merged] = await db
-      .insert(schema.topicNodes)
-      .values({
-        id: mergedId,
-        videoId,
-        graphVersionId: topics[0].graphVersionId,
-        level: Math.min(...topics.map((t) => t.level)),
-        startSeconds: startTime,
-        endSeconds: endTime,
-        title: new_title || `Merged: ${topics[0].title}`,
-        summary: topics.map((t) => t.summary).join(' '), // Could use LLM for better summary
-        keywords: allKeywords.slice(0, 20),
-        parentIds: [],
-        childIds: topic_ids,
-        importanceScore: Math.max(...topics.map((t) => t.importanceScore)),
-        transcriptSegmentIds: Array.from(
-          new Set(topics.flatMap((t) => t.transcriptSegmentIds))
-        ),
-      })
-      .returning();
-
-    // Update child topics to point to merged parent
-    for (const topic of topics) {
-      await db
-        .update(schema.topicNodes)
-        .set({
-          parentIds: [...topic.parentIds, mergedId],
-          updatedAt: new Date(),
-        })
-        .where(eq(schema.topicNodes.id, topic.id));
+
+    let merged: schema.TopicNode;
+    try {
+      merged = await db.transaction(async (tx) => {
+        const current = await lockTopicsForEdit(tx, topics[0].graphVersionId, topic_ids);
+        const allKeywords = Array.from(new Set(current.flatMap((t) => t.keywords)));
+
+        const [row] = await tx
+          .insert(schema.topicNodes)
+          .values({
+            id: mergedId,
+            videoId,
+            graphVersionId: topics[0].graphVersionId,
+            level: Math.min(...current.map((t) => t.level)),
+            startSeconds: Math.min(...current.map((t) => t.startSeconds)),
+            endSeconds: Math.max(...current.map((t) => t.endSeconds)),
+            title: new_title || `Merged: ${current[0].title}`,
+            summary: current.map((t) => t.summary).join(' '), // Could use LLM for better summary
+            keywords: allKeywords.slice(0, 20),
+            parentIds: [],
+            childIds: topic_ids,
+            importanceScore: Math.max(...current.map((t) => t.importanceScore)),
+            transcriptSegmentIds: Array.from(
+              new Set(current.flatMap((t) => t.transcriptSegmentIds))
+            ),
+          })
+          .returning();
+
+        // Update child topics to point to merged parent
+        const sources: schema.TopicNode[] = [];
+        for (const topic of current) {
+          const [source] = await tx
+            .update(schema.topicNodes)
+            .set({
+              parentIds: [...topic.parentIds, mergedId],
+              updatedAt: new Date(),
+            })
+            .where(eq(schema.topicNodes.id, topic.id))
+            .returning();
+          sources.push(source);
+        }
+
+        await recordTopicEdit(tx, {
+          graphVersionId: row.graphVersionId,
+          operation: 'merge',
+          topicIds: topic_ids,
+          before: { topics: current, edges: [], snippets: [] },
+          after: { topics: [row, ...sources], edges: [], snippets: [] },
+          userId,
+        });
+
+        return row;
+      });
+    } catch (error) {
+      return sendEditConflict(error, reply);
     }
 
+    await invalidateGraphAnalytics(merged.graphVersionId);
+
     return reply.send({
       id: merged.id,
       video_id: merged.videoId,
@@ -274,6 +332,7 @@ export async function topicRoutes(fastify: FastifyInstance) {
       child_ids: merged.childIds,
       importance_score: merged.importanceScore,
       cluster_id: merged.clusterId,
+      cluster_label: merged.clusterLabel,
       created_at: merged.createdAt.toISOString(),
       updated_at: merged.updatedAt.toISOString(),
     });
@@ -308,7 +367,7 @@ export async function topicRoutes(fastify: FastifyInstance) {
     }
 
     // Check access
-    const hasAccess = await checkAccess(topic.videoId, userId, 'editor');
+    const hasAccess = await canAccessVideo(topic.videoId, userId, 'editor');
     if (!hasAccess) {
       return reply.status(403).send({
         code: 'FORBIDDEN',
@@ -320,65 +379,93 @@ export async function topicRoutes(fastify: FastifyInstance) {
     const topic1Id = uuidv4();
     const topic2Id = uuidv4();
 
-    const [topic1] = await db
-      .insert(schema.topicNodes)
-      .values({
-        id: topic1Id,
-        videoId: topic.videoId,
-        graphVersionId: topic.graphVersionId,
-        level: topic.level,
-        startSeconds: topic.startSeconds,
-        endSeconds: split_at_ts,
-        title: new_titles?.[0] || `${topic.title} (Part 1)`,
-        summary: topic.summary.slice(0, topic.summary.length / 2),
-        keywords: topic.keywords.slice(0, 10),
-        parentIds: topic.parentIds,
-        childIds: [],
-        importanceScore: topic.importanceScore,
-        transcriptSegmentIds: topic.transcriptSegmentIds,
-      })
-      .returning();
-
-    const [topic2] = await db
-      .insert(schema.topicNodes)
-      .values({
-        id: topic2Id,
-        videoId: topic.videoId,
-        graphVersionId: topic.graphVersionId,
-        level: topic.level,
-        startSeconds: split_at_ts,
-        endSeconds: topic.endSeconds,
-        title: new_titles?.[1] || `${topic.title} (Part 2)`,
-        summary: topic.summary.slice(topic.summary.length / 2),
-        keywords: topic.keywords.slice(10),
-        parentIds: topic.parentIds,
-        childIds: [],
-        importanceScore: topic.importanceScore,
-        transcriptSegmentIds: topic.transcriptSegmentIds,
-      })
-      .returning();
-
-    // Update original topic's children to point to new topics
-    for (const childId of topic.childIds) {
-      const child = await db.query.topicNodes.findFirst({
-        where: eq(schema.topicNodes.id, childId),
-      });
-      if (child) {
-        const newParents = child.parentIds.filter((id) => id !== topicId);
-        if (child.startSeconds < split_at_ts) {
-          newParents.push(topic1Id);
-        } else {
-          newParents.push(topic2Id);
+    let topic1: schema.TopicNode;
+    let topic2: schema.TopicNode;
+    try {
+      [topic1, topic2] = await db.transaction(async (tx) => {
+        const [current] = await lockTopicsForEdit(tx, topic.graphVersionId, [topicId]);
+
+        // The original topic's edges and snippets are deleted with it
+        const original = await snapshotTopics(tx, [topicId], { withEdges: true });
+        const { topics: originalChildren } = await snapshotTopics(
+          tx,
+          current.childIds as string[]
+        );
+
+        const [first] = await tx
+          .insert(schema.topicNodes)
+          .values({
+            id: topic1Id,
+            videoId: current.videoId,
+            graphVersionId: current.graphVersionId,
+            level: current.level,
+            startSeconds: current.startSeconds,
+            endSeconds: split_at_ts,
+            title: new_titles?.[0] || `${current.title} (Part 1)`,
+            summary: current.summary.slice(0, current.summary.length / 2),
+            keywords: current.keywords.slice(0, 10),
+            parentIds: current.parentIds,
+            childIds: [],
+            importanceScore: current.importanceScore,
+            transcriptSegmentIds: current.transcriptSegmentIds,
+          })
+          .returning();
+
+        const [second] = await tx
+          .insert(schema.topicNodes)
+          .values({
+            id: topic2Id,
+            videoId: current.videoId,
+            graphVersionId: current.graphVersionId,
+            level: current.level,
+            startSeconds: split_at_ts,
+            endSeconds: current.endSeconds,
+            title: new_titles?.[1] || `${current.title} (Part 2)`,
+            summary: current.summary.slice(current.summary.length / 2),
+            keywords: current.keywords.slice(10),
+            parentIds: current.parentIds,
+            childIds: [],
+            importanceScore: current.importanceScore,
+            transcriptSegmentIds: current.transcriptSegmentIds,
+          })
+          .returning();
+
+        // Update original topic's children to point to new topics
+        const children: schema.TopicNode[] = [];
+        for (const child of originalChildren) {
+          const newParents = child.parentIds.filter((id) => id !== topicId);
+          if (child.startSeconds < split_at_ts) {
+            newParents.push(topic1Id);
+          } else {
+            newParents.push(topic2Id);
+          }
+          const [updated] = await tx
+            .update(schema.topicNodes)
+            .set({ parentIds: newParents, updatedAt: new Date() })
+            .where(eq(schema.topicNodes.id, child.id))
+            .returning();
+          children.push(updated);
         }
-        await db
-          .update(schema.topicNodes)
-          .set({ parentIds: newParents })
-          .where(eq(schema.topicNodes.id, childId));
-      }
+
+        // Mark original topic as split (or delete it)
+        await tx.delete(schema.topicNodes).where(eq(schema.topicNodes.id, topicId));
+
+        await recordTopicEdit(tx, {
+          graphVersionId: current.graphVersionId,
+          operation: 'split',
+          topicIds: [topicId],
+          before: { ...original, topics: [...original.topics, ...originalChildren] },
+          after: { topics: [first, second, ...children], edges: [], snippets: [] },
+          userId,
+        });
+
+        return [first, second];
+      });
+    } catch (error) {
+      return sendEditConflict(error, reply);
     }
 
-    // Mark original topic as split (or delete it)
-    await db.delete(schema.topicNodes).where(eq(schema.topicNodes.id, topicId));
+    await invalidateGraphAnalytics(topic.graphVersionId);
 
     return reply.send([
       {
@@ -394,6 +481,7 @@ export async function topicRoutes(fastify: FastifyInstance) {
         child_ids: topic1.childIds,
         importance_score: topic1.importanceScore,
         cluster_id: topic1.clusterId,
+        cluster_label: topic1.clusterLabel,
         created_at: topic1.createdAt.toISOString(),
         updated_at: topic1.updatedAt.toISOString(),
       },
@@ -410,39 +498,184 @@ export async function topicRoutes(fastify: FastifyInstance) {
         child_ids: topic2.childIds,
         importance_score: topic2.importanceScore,
         cluster_id: topic2.clusterId,
+        cluster_label: topic2.clusterLabel,
         created_at: topic2.createdAt.toISOString(),
         updated_at: topic2.updatedAt.toISOString(),
       },
     ]);
   });
+
+  // GET /graphs/:id/edits - Edit history of a graph version
+  fastify.get<{
+    Params: { id: string };
+    Querystring: { page?: number; limit?: number };
+  }>('/graphs/:id/edits', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    const userId = request.user!.sub;
+    const graphId = request.params.id;
+    const page = Math.max(Number(request.query.page ?? 1), 1);
+    const limit = Math.min(Math.max(Number(request.query.limit ?? 50), 1), 200);
+
+    const graphVersion = await db.query.graphVersions.findFirst({
+      where: eq(schema.graphVersions.id, graphId),
+    });
+
+    if (!graphVersion) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'Graph not found',
+      });
+    }
+
+    // Check access
+    const hasAccess = await canAccessVideo(graphVersion.videoId, userId, 'viewer');
+    if (!hasAccess) {
+      return reply.status(403).send({
+        code: 'FORBIDDEN',
+        message: 'Access denied',
+      });
+    }
+
+    const entries = await db.query.topicEdits.findMany({
+      where: eq(schema.topicEdits.graphVersionId, graphId),
+      orderBy: desc(schema.topicEdits.sequence),
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    const countResult = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(schema.topicEdits)
+      .where(eq(schema.topicEdits.graphVersionId, graphId));
+    const total = Number(countResult[0]?.count ?? 0);
+
+    const stacks = await topicEditStacks(graphId);
+    const undone = new Set(stacks.redo);
+
+    return reply.send({
+      items: entries.map((e) => formatTopicEdit(e, undone.has(e.id))),
+      undo_available: stacks.undo.length,
+      redo_available: stacks.redo.length,
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    });
+  });
+
+  // POST /graphs/:id/edits/undo - Undo the last edits
+  fastify.post<{ Params: { id: string }; Body: { count?: number } }>(
+    '/graphs/:id/edits/undo',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      return sendRevert('undo', request.params.id, request.body, request.user!.sub, reply);
+    }
+  );
+
+  // POST /graphs/:id/edits/redo - Redo the last undone edits
+  fastify.post<{ Params: { id: string }; Body: { count?: number } }>(
+    '/graphs/:id/edits/redo',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      return sendRevert('redo', request.params.id, request.body, request.user!.sub, reply);
+    }
+  );
 }
 
-// Helper functions
-async function checkAccess(
-  resourceId: string,
+async function sendRevert(
+  direction: 'undo' | 'redo',
+  graphId: string,
+  body: unknown,
   userId: string,
-  requiredRole: 'viewer' | 'editor' | 'owner'
-): Promise<boolean> {
-  const video = await db.query.videos.findFirst({
-    where: eq(schema.videos.id, resourceId),
+  reply: FastifyReply
+) {
+  const validation = RevertTopicEditsRequestSchema.safeParse(body ?? {});
+  if (!validation.success) {
+    return reply.status(400).send({
+      code: 'VALIDATION_ERROR',
+      message: 'Invalid request body',
+      details: validation.error.format(),
+    });
+  }
+
+  const graphVersion = await db.query.graphVersions.findFirst({
+    where: eq(schema.graphVersions.id, graphId),
   });
 
-  if (video?.createdBy === userId) {
-    return true;
+  if (!graphVersion) {
+    return reply.status(404).send({
+      code: 'NOT_FOUND',
+      message: 'Graph not found',
+    });
   }
 
-  const aclEntry = await db.query.acl.findFirst({
-    where: and(
-      eq(schema.acl.resourceType, 'video'),
-      eq(schema.acl.resourceId, resourceId),
-      eq(schema.acl.userId, userId)
-    ),
+  // Check access
+  const hasAccess = await canAccessVideo(graphVersion.videoId, userId, 'editor');
+  if (!hasAccess) {
+    return reply.status(403).send({
+      code: 'FORBIDDEN',
+      message: 'Access denied',
+    });
+  }
+
+  let entries: schema.TopicEdit[];
+  try {
+    entries = await revertTopicEdits(graphId, direction, validation.data.count, userId);
+  } catch (error) {
+    return sendEditConflict(error, reply);
+  }
+
+  await invalidateGraphAnalytics(graphId);
+
+  const stacks = await topicEditStacks(graphId);
+  return reply.send({
+    items: entries.map((e) => formatTopicEdit(e, false)),
+    undo_available: stacks.undo.length,
+    redo_available: stacks.redo.length,
   });
+}
 
-  if (!aclEntry) {
-    return false;
+/**
+ * Answer 409 for an edit that lost to a concurrent one or no longer
+ * applies; other errors are rethrown
+ */
+function sendEditConflict(error: unknown, reply: FastifyReply) {
+  if (error instanceof TopicEditConflictError) {
+    return reply.status(409).send({
+      code: 'INVALID_STATE',
+      message: error.message,
+    });
   }
+  throw error;
+}
+
+function formatTopicEdit(edit: schema.TopicEdit, undone: boolean) {
+  return {
+    id: edit.id,
+    sequence: edit.sequence,
+    operation: edit.operation,
+    target_edit_id: edit.targetEditId,
+    topic_ids: edit.topicIds,
+    user_id: edit.userId,
+    undone,
+    before: formatSnapshot(edit.before as TopicEditSnapshot),
+    after: formatSnapshot(edit.after as TopicEditSnapshot),
+    created_at: edit.createdAt.toISOString(),
+  };
+}
 
-  const roleHierarchy = { viewer: 0, editor: 1, owner: 2 };
-  return roleHierarchy[aclEntry.role] >= roleHierarchy[requiredRole];
+// Snapshots keep full rows for restoring; history only lists the topics
+function formatSnapshot(snapshot: TopicEditSnapshot) {
+  return {
+    topics: snapshot.topics.map((t) => ({
+      id: t.id,
+      level: t.level,
+      start_ts: t.startSeconds,
+      end_ts: t.endSeconds,
+      title: t.title,
+    })),
+    edge_count: snapshot.edges.length,
+    snippet_count: snapshot.snippets.length,
+  };
 }
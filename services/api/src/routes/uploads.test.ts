@@ -0,0 +1,282 @@
+/**
+ * Unit Tests - Upload Routes
+ *
+ * Runs the routes against an in-process Postgres (PGlite) and local file
+ * storage; video creation and ffprobe are faked.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import Fastify, { type FastifyInstance, type FastifyRequest } from 'fastify';
+import multipart from '@fastify/multipart';
+import { createHash } from 'crypto';
+import { mkdtempSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { uploadRoutes } from './uploads.js';
+import { createVideoAnalysis } from './videos.js';
+import { db } from '../db/index.js';
+import { storage } from '../storage.js';
+import { sql } from 'drizzle-orm';
+
+vi.mock('../db/index.js', async () => {
+  const { PGlite } = await import('@electric-sql/pglite');
+  const { drizzle } = await import('drizzle-orm/pglite');
+  const schema = await import('../db/schema.js');
+  // Only the tables these routes touch are created below
+  const { uploads, userQuotas, quotaPolicies } = schema;
+  return { db: drizzle(new PGlite(), { schema: { uploads, userQuotas, quotaPolicies } }), schema };
+});
+
+vi.mock('../storage.js', async () => {
+  const { createFilesystemStorage } = await import('@video-graph/pipeline-sdk');
+  const localPath = mkdtempSync(join(tmpdir(), 'upload-routes-'));
+  return { storage: createFilesystemStorage({ provider: 'local', localPath } as never) };
+});
+
+vi.mock('../config.js', () => ({
+  config: {
+    upload: { chunkSize: 1024 },
+    features: { quotaEnforcement: true },
+  },
+}));
+
+vi.mock('./videos.js', () => ({
+  createVideoAnalysis: vi.fn(),
+}));
+
+const file = Buffer.alloc(3 * 1024, 7);
+const checksum = createHash('sha256').update(file).digest('hex');
+
+describe('Upload routes', () => {
+  let app: FastifyInstance;
+  let probeDir: string;
+
+  beforeAll(async () => {
+    await db.execute(sql`
+      CREATE TABLE quota_policies (
+        id varchar(100) PRIMARY KEY,
+        name varchar(100) NOT NULL,
+        max_videos_per_month integer NOT NULL,
+        max_storage_gb real NOT NULL,
+        max_public_links integer NOT NULL,
+        max_versions_per_video integer NOT NULL,
+        max_video_duration_minutes integer NOT NULL DEFAULT 120,
+        allowed_models jsonb NOT NULL DEFAULT '[]',
+        created_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await db.execute(sql`
+      CREATE TABLE user_quotas (
+        user_id varchar(255) PRIMARY KEY,
+        policy_id varchar(100) NOT NULL REFERENCES quota_policies(id),
+        videos_this_month integer NOT NULL DEFAULT 0,
+        storage_bytes integer NOT NULL DEFAULT 0,
+        public_links integer NOT NULL DEFAULT 0,
+        month_reset_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await db.execute(sql`
+      CREATE TABLE uploads (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id varchar(255) NOT NULL,
+        filename varchar(255) NOT NULL,
+        content_type varchar(100),
+        size_bytes bigint NOT NULL,
+        received_bytes bigint NOT NULL DEFAULT 0,
+        checksum_sha256 varchar(64) NOT NULL,
+        duration_seconds real NOT NULL,
+        status varchar(50) NOT NULL DEFAULT 'uploading',
+        config jsonb DEFAULT '{}',
+        metadata jsonb DEFAULT '{}',
+        video_id uuid,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+    await db.execute(sql`
+      INSERT INTO quota_policies (id, name, max_videos_per_month, max_storage_gb, max_public_links, max_versions_per_video)
+      VALUES ('default', 'Default', 10, 1, 5, 5)
+    `);
+
+    // Fake ffprobe reporting FAKE_DURATION seconds (90 by default)
+    probeDir = await fs.mkdtemp(join(tmpdir(), 'api-ffprobe-'));
+    const ffprobePath = join(probeDir, 'ffprobe');
+    await fs.writeFile(
+      ffprobePath,
+      `#!/usr/bin/env node
+process.stdout.write(JSON.stringify({
+  streams: [{ codec_type: 'video', width: 1280, height: 720, avg_frame_rate: '25/1' }],
+  format: { duration: process.env.FAKE_DURATION ?? '90', format_name: 'mov,mp4,m4a,3gp,3g2,mj2' },
+}));
+`,
+      { mode: 0o755 }
+    );
+    process.env.FFPROBE_PATH = ffprobePath;
+
+    app = Fastify();
+    await app.register(multipart);
+    app.decorate('authenticate', async (request: FastifyRequest) => {
+      request.user = { sub: 'test-user' };
+    });
+    await app.register(uploadRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    delete process.env.FFPROBE_PATH;
+    delete process.env.FAKE_DURATION;
+    await fs.rm(probeDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await db.execute(sql`TRUNCATE uploads`);
+    vi.mocked(createVideoAnalysis).mockReset();
+    vi.mocked(createVideoAnalysis).mockImplementation(async (input) => ({
+      video: {
+        id: '00000000-0000-0000-0000-000000000001',
+        sourceUrl: input.sourceUrl,
+        sourceType: input.sourceType,
+        status: 'pending',
+        durationSeconds: input.durationSeconds,
+        createdAt: new Date(),
+      },
+      jobId: 'job-1',
+    }) as Awaited<ReturnType<typeof createVideoAnalysis>>);
+  });
+
+  async function createUpload(overrides: Record<string, unknown> = {}) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/uploads',
+      payload: {
+        filename: 'lecture.mp4',
+        size_bytes: file.length,
+        checksum_sha256: checksum,
+        duration_s: 90,
+        ...overrides,
+      },
+    });
+  }
+
+  async function sendChunk(uploadId: string, offset: number, chunk: Buffer) {
+    const { body, contentType } = multipartChunk(chunk);
+    return app.inject({
+      method: 'PUT',
+      url: `/api/v1/uploads/${uploadId}/chunks?offset=${offset}`,
+      headers: { 'Content-Type': contentType },
+      payload: body,
+    });
+  }
+
+  async function sendFile(uploadId: string) {
+    for (let offset = 0; offset < file.length; offset += 1024) {
+      await sendChunk(uploadId, offset, file.subarray(offset, offset + 1024));
+    }
+  }
+
+  async function complete(uploadId: string) {
+    return app.inject({ method: 'POST', url: `/api/v1/uploads/${uploadId}/complete` });
+  }
+
+  async function uploadStatus(uploadId: string) {
+    const response = await app.inject({ method: 'GET', url: `/api/v1/uploads/${uploadId}` });
+    return JSON.parse(response.body).status as string;
+  }
+
+  it('should upload in chunks and queue a file video', async () => {
+    const upload = JSON.parse((await createUpload()).body);
+    expect(upload.received_bytes).toBe(0);
+
+    for (let offset = 0; offset < file.length; offset += 1024) {
+      const response = await sendChunk(upload.id, offset, file.subarray(offset, offset + 1024));
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).received_bytes).toBe(offset + 1024);
+    }
+
+    const response = await complete(upload.id);
+
+    expect(response.statusCode).toBe(202);
+    const video = JSON.parse(response.body);
+    expect(video.source_type).toBe('file');
+    expect(video.source_url).toBe(`uploads/${upload.id}/source`);
+    expect(video.duration_s).toBe(90);
+    expect(video.job_id).toBe('job-1');
+    expect(await storage.read(`uploads/${upload.id}/source`)).toEqual(file);
+    expect(await storage.list(`uploads/${upload.id}/chunks/`)).toEqual([]);
+    expect(await uploadStatus(upload.id)).toBe('completed');
+  });
+
+  it('should resume from received_bytes after an out-of-order chunk', async () => {
+    const upload = JSON.parse((await createUpload()).body);
+    await sendChunk(upload.id, 0, file.subarray(0, 1024));
+
+    const response = await sendChunk(upload.id, 2048, file.subarray(2048));
+
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.body)).toMatchObject({
+      code: 'OFFSET_MISMATCH',
+      received_bytes: 1024,
+    });
+  });
+
+  it('should reject a file that does not match its checksum', async () => {
+    const upload = JSON.parse((await createUpload({ checksum_sha256: 'a'.repeat(64) })).body);
+    await sendFile(upload.id);
+
+    const response = await complete(upload.id);
+
+    expect(response.statusCode).toBe(422);
+    expect(JSON.parse(response.body).code).toBe('CHECKSUM_MISMATCH');
+    expect(await uploadStatus(upload.id)).toBe('failed');
+    expect(await storage.exists(`uploads/${upload.id}/source`)).toBe(false);
+  });
+
+  it('should reject videos longer than the quota allows', async () => {
+    const response = await createUpload({ duration_s: 24 * 60 * 60 });
+
+    expect(response.statusCode).toBe(429);
+    expect(JSON.parse(response.body).code).toBe('QUOTA_EXCEEDED');
+  });
+
+  it('should enforce the probed duration rather than the declared one', async () => {
+    const upload = JSON.parse((await createUpload({ duration_s: 60 })).body);
+    await sendFile(upload.id);
+
+    process.env.FAKE_DURATION = String(24 * 60 * 60);
+    const response = await complete(upload.id);
+    delete process.env.FAKE_DURATION;
+
+    expect(response.statusCode).toBe(429);
+    expect(JSON.parse(response.body).code).toBe('QUOTA_EXCEEDED');
+    expect(await uploadStatus(upload.id)).toBe('failed');
+    expect(createVideoAnalysis).not.toHaveBeenCalled();
+  });
+
+  it('should fail the upload when queueing the video fails after its chunks are gone', async () => {
+    vi.mocked(createVideoAnalysis).mockRejectedValue(new Error('queue unavailable'));
+    const upload = JSON.parse((await createUpload()).body);
+    await sendFile(upload.id);
+
+    const response = await complete(upload.id);
+
+    expect(response.statusCode).toBe(500);
+    expect(await uploadStatus(upload.id)).toBe('failed');
+    expect(await storage.exists(`uploads/${upload.id}/source`)).toBe(false);
+  });
+});
+
+function multipartChunk(chunk: Buffer): { body: Buffer; contentType: string } {
+  const boundary = '----upload-test-boundary';
+  const body = Buffer.concat([
+    Buffer.from(
+      `--${boundary}\r\n` +
+        'Content-Disposition: form-data; name="chunk"; filename="chunk"\r\n' +
+        'Content-Type: application/octet-stream\r\n\r\n'
+    ),
+    chunk,
+    Buffer.from(`\r\n--${boundary}--\r\n`),
+  ]);
+  return { body, contentType: `multipart/form-data; boundary=${boundary}` };
+}
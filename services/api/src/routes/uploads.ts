@@ -0,0 +1,518 @@
+/**
+ * Upload Routes
+ *
+ * Resumable, chunked uploads of local video files. Chunks are stored
+ * individually, then concatenated into a single source object whose
+ * SHA-256 must match the checksum declared when the upload was created.
+ * The assembled file is probed with ffprobe, and its real duration is
+ * stored and checked against the quota instead of the declared one.
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { createHash, type Hash } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { eq, and, sql } from 'drizzle-orm';
+import { db, schema } from '../db/index.js';
+import { config } from '../config.js';
+import { storage } from '../storage.js';
+import { createVideoAnalysis } from './videos.js';
+import { CreateUploadRequestSchema } from '@video-graph/shared-types';
+import { copyToLocalFile, probeMedia, type MediaProbe } from '@video-graph/pipeline-sdk';
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+export async function uploadRoutes(fastify: FastifyInstance) {
+  // POST /uploads - Start a resumable upload
+  fastify.post('/uploads', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    const userId = request.user!.sub;
+
+    const validation = CreateUploadRequestSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request body',
+        details: validation.error.format(),
+      });
+    }
+
+    const body = validation.data;
+
+    // Check quota before accepting any bytes
+    if (config.features.quotaEnforcement) {
+      const quotaError = await checkUploadQuota(userId, body.size_bytes, body.duration_s);
+      if (quotaError) {
+        return reply.status(429).send({
+          code: 'QUOTA_EXCEEDED',
+          message: quotaError,
+        });
+      }
+    }
+
+    const [upload] = await db
+      .insert(schema.uploads)
+      .values({
+        userId,
+        filename: body.filename,
+        contentType: body.content_type,
+        sizeBytes: body.size_bytes,
+        checksumSha256: body.checksum_sha256.toLowerCase(),
+        durationSeconds: body.duration_s,
+        config: body.config ?? {},
+        metadata: body.metadata ?? {},
+      })
+      .returning();
+
+    return reply.status(201).send(formatUpload(upload));
+  });
+
+  // GET /uploads/:id - Get upload progress (used to resume)
+  fastify.get<{ Params: { id: string } }>(
+    '/uploads/:id',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      const userId = request.user!.sub;
+
+      const upload = await db.query.uploads.findFirst({
+        where: eq(schema.uploads.id, request.params.id),
+      });
+
+      if (!upload) {
+        return reply.status(404).send({
+          code: 'NOT_FOUND',
+          message: 'Upload not found',
+        });
+      }
+
+      if (upload.userId !== userId) {
+        return reply.status(403).send({
+          code: 'FORBIDDEN',
+          message: 'Access denied',
+        });
+      }
+
+      return reply.send(formatUpload(upload));
+    }
+  );
+
+  // PUT /uploads/:id/chunks - Append a chunk at the given offset
+  fastify.put<{
+    Params: { id: string };
+    Querystring: { offset: number };
+  }>('/uploads/:id/chunks', { onRequest: [fastify.authenticate] }, async (request, reply) => {
+    const userId = request.user!.sub;
+    const offset = Number(request.query.offset);
+    const expectedChecksum = request.headers['x-chunk-sha256'];
+
+    const upload = await db.query.uploads.findFirst({
+      where: eq(schema.uploads.id, request.params.id),
+    });
+
+    if (!upload) {
+      return reply.status(404).send({
+        code: 'NOT_FOUND',
+        message: 'Upload not found',
+      });
+    }
+
+    if (upload.userId !== userId) {
+      return reply.status(403).send({
+        code: 'FORBIDDEN',
+        message: 'Access denied',
+      });
+    }
+
+    if (upload.status !== 'uploading') {
+      return reply.status(409).send({
+        code: 'INVALID_STATE',
+        message: `Upload is ${upload.status}`,
+      });
+    }
+
+    // Chunks are appended in order; a client resumes from received_bytes
+    if (!Number.isInteger(offset) || offset !== upload.receivedBytes) {
+      return reply.status(409).send({
+        code: 'OFFSET_MISMATCH',
+        message: `Expected offset ${upload.receivedBytes}`,
+        received_bytes: upload.receivedBytes,
+      });
+    }
+
+    // Chunks larger than chunk_size fail with 413
+    const file = await request.file({ limits: { fileSize: config.upload.chunkSize } });
+    if (!file) {
+      return reply.status(400).send({
+        code: 'VALIDATION_ERROR',
+        message: 'Missing chunk data',
+      });
+    }
+
+    const path = chunkPath(upload.id, offset);
+    const hash = createHash('sha256');
+    let bytes = 0;
+    try {
+      await storage.writeStream(
+        path,
+        Readable.from(hashStream(file.file, hash, (n) => (bytes += n)))
+      );
+    } catch (err) {
+      await storage.delete(path).catch(() => {});
+      throw err;
+    }
+
+    const checksum = hash.digest('hex');
+    let error: { code: string; message: string } | undefined;
+    if (bytes === 0) {
+      error = { code: 'VALIDATION_ERROR', message: 'Chunk is empty' };
+    } else if (offset + bytes > upload.sizeBytes) {
+      error = { code: 'VALIDATION_ERROR', message: 'Chunk extends past the declared file size' };
+    } else if (typeof expectedChecksum === 'string' && expectedChecksum.toLowerCase() !== checksum) {
+      error = { code: 'CHECKSUM_MISMATCH', message: 'Chunk checksum does not match' };
+    }
+
+    if (error) {
+      await storage.delete(path);
+      return reply.status(400).send(error);
+    }
+
+    // Only advance if no concurrent request moved the offset meanwhile
+    const [updated] = await db
+      .update(schema.uploads)
+      .set({
+        receivedBytes: offset + bytes,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(schema.uploads.id, upload.id), eq(schema.uploads.receivedBytes, offset)))
+      .returning();
+
+    if (!updated) {
+      return reply.status(409).send({
+        code: 'OFFSET_MISMATCH',
+        message: 'Upload offset changed while the chunk was being written',
+      });
+    }
+
+    return reply.send(formatUpload(updated));
+  });
+
+  // POST /uploads/:id/complete - Verify the file and queue it for analysis
+  fastify.post<{ Params: { id: string } }>(
+    '/uploads/:id/complete',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      const userId = request.user!.sub;
+
+      const upload = await db.query.uploads.findFirst({
+        where: eq(schema.uploads.id, request.params.id),
+      });
+
+      if (!upload) {
+        return reply.status(404).send({
+          code: 'NOT_FOUND',
+          message: 'Upload not found',
+        });
+      }
+
+      if (upload.userId !== userId) {
+        return reply.status(403).send({
+          code: 'FORBIDDEN',
+          message: 'Access denied',
+        });
+      }
+
+      if (upload.receivedBytes !== upload.sizeBytes) {
+        return reply.status(409).send({
+          code: 'INCOMPLETE_UPLOAD',
+          message: `Received ${upload.receivedBytes} of ${upload.sizeBytes} bytes`,
+        });
+      }
+
+      // Claim the upload so a repeated request cannot queue it twice
+      const [claimed] = await db
+        .update(schema.uploads)
+        .set({ status: 'assembling', updatedAt: new Date() })
+        .where(and(eq(schema.uploads.id, upload.id), eq(schema.uploads.status, 'uploading')))
+        .returning();
+
+      if (!claimed) {
+        return reply.status(409).send({
+          code: 'INVALID_STATE',
+          message: `Upload is ${upload.status}`,
+        });
+      }
+
+      const sourcePath = `uploads/${upload.id}/source`;
+      let checksum: string;
+      try {
+        checksum = await assembleChunks(upload.id, sourcePath, upload.sizeBytes);
+      } catch (err) {
+        // Chunks are intact, so completing can be retried
+        await db
+          .update(schema.uploads)
+          .set({ status: 'uploading', updatedAt: new Date() })
+          .where(eq(schema.uploads.id, upload.id));
+        throw err;
+      }
+
+      if (checksum !== upload.checksumSha256) {
+        await storage.delete(sourcePath);
+        await deleteChunks(upload.id);
+        await db
+          .update(schema.uploads)
+          .set({ status: 'failed', updatedAt: new Date() })
+          .where(eq(schema.uploads.id, upload.id));
+
+        return reply.status(422).send({
+          code: 'CHECKSUM_MISMATCH',
+          message: 'Uploaded file does not match the declared checksum',
+        });
+      }
+
+      // Past this point the chunks are gone, so an error cannot be retried:
+      // fail the upload rather than leave it assembling
+      let created: Awaited<ReturnType<typeof createVideoAnalysis>>;
+      try {
+        await deleteChunks(upload.id);
+
+        // The declared duration is only a hint; the quota applies to the real one
+        const probe = await probeSource(sourcePath).catch(() => null);
+        if (!probe || (!probe.hasVideo && !probe.hasAudio)) {
+          await rejectSource(upload.id, sourcePath);
+          return reply.status(422).send({
+            code: 'INVALID_MEDIA',
+            message: 'Uploaded file is not a readable video',
+          });
+        }
+
+        const policy = config.features.quotaEnforcement
+          ? (await findQuotaPolicy(userId)).policy
+          : undefined;
+
+        if (policy && probe.duration > policy.maxVideoDurationMinutes * 60) {
+          await rejectSource(upload.id, sourcePath, probe.duration);
+          return reply.status(429).send({
+            code: 'QUOTA_EXCEEDED',
+            message: `Video exceeds the maximum duration of ${policy.maxVideoDurationMinutes} minutes`,
+          });
+        }
+
+        created = await createVideoAnalysis({
+          userId,
+          sourceUrl: sourcePath,
+          sourceType: 'file',
+          pipelineConfig: upload.config as Record<string, unknown>,
+          metadata: { filename: upload.filename, ...(upload.metadata as Record<string, unknown>) },
+          durationSeconds: probe.duration,
+          maxDurationSeconds: policy ? policy.maxVideoDurationMinutes * 60 : undefined,
+        });
+
+        await db
+          .update(schema.uploads)
+          .set({
+            status: 'completed',
+            videoId: created.video.id,
+            durationSeconds: probe.duration,
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.uploads.id, upload.id));
+      } catch (err) {
+        await rejectSource(upload.id, sourcePath).catch(() => {});
+        throw err;
+      }
+      const { video, jobId } = created;
+
+      // Update quota
+      if (config.features.quotaEnforcement) {
+        await db
+          .update(schema.userQuotas)
+          .set({
+            videosThisMonth: sql`${schema.userQuotas.videosThisMonth} + 1`,
+            storageBytes: sql`${schema.userQuotas.storageBytes} + ${upload.sizeBytes}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(schema.userQuotas.userId, userId));
+      }
+
+      return reply.status(202).send({
+        id: video.id,
+        source_url: video.sourceUrl,
+        source_type: video.sourceType,
+        status: video.status,
+        duration_s: video.durationSeconds,
+        created_at: video.createdAt.toISOString(),
+        job_id: jobId,
+      });
+    }
+  );
+
+  // DELETE /uploads/:id - Abort an upload and discard its chunks
+  fastify.delete<{ Params: { id: string } }>(
+    '/uploads/:id',
+    { onRequest: [fastify.authenticate] },
+    async (request, reply) => {
+      const userId = request.user!.sub;
+
+      const upload = await db.query.uploads.findFirst({
+        where: eq(schema.uploads.id, request.params.id),
+      });
+
+      if (!upload) {
+        return reply.status(404).send({
+          code: 'NOT_FOUND',
+          message: 'Upload not found',
+        });
+      }
+
+      if (upload.userId !== userId) {
+        return reply.status(403).send({
+          code: 'FORBIDDEN',
+          message: 'Access denied',
+        });
+      }
+
+      if (upload.status === 'completed' || upload.status === 'assembling') {
+        return reply.status(409).send({
+          code: 'INVALID_STATE',
+          message: `Upload is ${upload.status}`,
+        });
+      }
+
+      await deleteChunks(upload.id);
+      await db
+        .update(schema.uploads)
+        .set({ status: 'aborted', updatedAt: new Date() })
+        .where(eq(schema.uploads.id, upload.id));
+
+      return reply.status(204).send();
+    }
+  );
+}
+
+// Helper functions
+async function findQuotaPolicy(userId: string) {
+  const quota = await db.query.userQuotas.findFirst({
+    where: eq(schema.userQuotas.userId, userId),
+  });
+
+  // Users without a quota row get the default policy
+  const policy = await db.query.quotaPolicies.findFirst({
+    where: eq(schema.quotaPolicies.id, quota?.policyId ?? 'default'),
+  });
+
+  return { quota, policy };
+}
+
+async function checkUploadQuota(
+  userId: string,
+  sizeBytes: number,
+  durationS: number
+): Promise<string | null> {
+  const { quota, policy } = await findQuotaPolicy(userId);
+  if (!policy) {
+    return null;
+  }
+
+  if (quota && quota.videosThisMonth >= policy.maxVideosPerMonth) {
+    return 'Monthly video quota exceeded';
+  }
+
+  if (durationS > policy.maxVideoDurationMinutes * 60) {
+    return `Video exceeds the maximum duration of ${policy.maxVideoDurationMinutes} minutes`;
+  }
+
+  // Space for uploads still in progress is already spoken for
+  const pending = await db
+    .select({ total: sql<string>`coalesce(sum(${schema.uploads.sizeBytes}), 0)` })
+    .from(schema.uploads)
+    .where(and(eq(schema.uploads.userId, userId), eq(schema.uploads.status, 'uploading')));
+
+  const usedBytes = (quota?.storageBytes ?? 0) + Number(pending[0]?.total ?? 0);
+  if (usedBytes + sizeBytes > policy.maxStorageGb * BYTES_PER_GB) {
+    return `Upload exceeds the storage quota of ${policy.maxStorageGb} GB`;
+  }
+
+  return null;
+}
+
+function chunkPath(uploadId: string, offset: number): string {
+  // Zero-padded so chunks list in offset order
+  return `uploads/${uploadId}/chunks/${String(offset).padStart(16, '0')}`;
+}
+
+async function* hashStream(
+  source: AsyncIterable<Buffer>,
+  hash: Hash,
+  onBytes: (bytes: number) => void
+): AsyncGenerator<Buffer> {
+  for await (const data of source) {
+    hash.update(data);
+    onBytes(data.length);
+    yield data;
+  }
+}
+
+/**
+ * Concatenate an upload's chunks into one object, returning its SHA-256
+ */
+async function assembleChunks(uploadId: string, path: string, size: number): Promise<string> {
+  const chunks = (await storage.list(`uploads/${uploadId}/chunks/`)).sort();
+  const hash = createHash('sha256');
+
+  async function* concat(): AsyncGenerator<Buffer> {
+    for (const chunk of chunks) {
+      yield* hashStream(await storage.readStream(chunk), hash, () => {});
+    }
+  }
+
+  await storage.writeStream(path, Readable.from(concat()), size);
+  return hash.digest('hex');
+}
+
+/**
+ * Probe a stored file with ffprobe, which needs a local copy
+ */
+async function probeSource(path: string): Promise<MediaProbe> {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'upload-probe-'));
+  try {
+    const localFile = join(dir, 'source');
+    await copyToLocalFile(storage, path, localFile);
+    return await probeMedia(localFile);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Discard an assembled file that cannot be analyzed and fail its upload
+ */
+async function rejectSource(
+  uploadId: string,
+  sourcePath: string,
+  durationSeconds?: number
+): Promise<void> {
+  await storage.delete(sourcePath);
+  await db
+    .update(schema.uploads)
+    .set({ status: 'failed', durationSeconds, updatedAt: new Date() })
+    .where(eq(schema.uploads.id, uploadId));
+}
+
+async function deleteChunks(uploadId: string): Promise<void> {
+  const chunks = await storage.list(`uploads/${uploadId}/chunks/`);
+  await Promise.all(chunks.map((chunk) => storage.delete(chunk)));
+}
+
+function formatUpload(upload: typeof schema.uploads.$inferSelect) {
+  return {
+    id: upload.id,
+    filename: upload.filename,
+    status: upload.status,
+    size_bytes: upload.sizeBytes,
+    received_bytes: upload.receivedBytes,
+    chunk_size: config.upload.chunkSize,
+    video_id: upload.videoId,
+    created_at: upload.createdAt.toISOString(),
+  };
+}
@@ -8,6 +8,7 @@ import type { FastifyInstance } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
 import { eq, desc, and, sql } from 'drizzle-orm';
 import { db, schema } from '../db/index.js';
+import { canAccessVideo, accessibleVideoCondition } from '../authorization.js';
 import { config } from '../config.js';
 import { VideoAnalyzeRequestSchema } from '@video-graph/shared-types';
 
@@ -32,6 +33,7 @@ export async function videoRoutes(fastify: FastifyInstance) {
       const { source_url, source_type = 'direct', config: pipelineConfig, metadata = {} } = validation.data;
 
       // Check quota
+      let maxDurationSeconds: number | undefined;
       if (config.features.quotaEnforcement) {
         const quota = await db.query.userQuotas.findFirst({
           where: eq(schema.userQuotas.userId, userId),
@@ -48,48 +50,19 @@ export async function videoRoutes(fastify: FastifyInstance) {
               message: 'Monthly video quota exceeded',
             });
           }
+
+          // The duration is only known once the worker probes the source
+          maxDurationSeconds = policy ? policy.maxVideoDurationMinutes * 60 : undefined;
         }
       }
 
-      // Create video record
-      const videoId = uuidv4();
-      const [video] = await db
-        .insert(schema.videos)
-        .values({
-          id: videoId,
-          sourceUrl: source_url,
-          sourceType: source_type,
-          status: 'pending',
-          metadata,
-          createdBy: userId,
-        })
-        .returning();
-
-      // Create initial graph version
-      const graphVersionId = uuidv4();
-      await db.insert(schema.graphVersions).values({
-        id: graphVersionId,
-        videoId,
-        version: 1,
-        createdBy: userId,
-        status: 'processing',
-        configSnapshot: { ...config.defaultPipeline, ...pipelineConfig },
-      });
-
-      // Create job for worker
-      const jobId = uuidv4();
-      await db.insert(schema.jobs).values({
-        id: jobId,
-        type: 'video_analysis',
-        status: 'pending',
-        payload: {
-          videoId,
-          graphVersionId,
-          sourceUrl: source_url,
-          sourceType: source_type,
-          config: { ...config.defaultPipeline, ...pipelineConfig },
-        },
-        priority: 5,
+      const { video, jobId } = await createVideoAnalysis({
+        userId,
+        sourceUrl: source_url,
+        sourceType: source_type,
+        pipelineConfig,
+        metadata,
+        maxDurationSeconds,
       });
 
       // Update quota
@@ -126,8 +99,8 @@ export async function videoRoutes(fastify: FastifyInstance) {
 
     const offset = (page - 1) * limit;
 
-    // Build query
-    let whereClause = eq(schema.videos.createdBy, userId);
+    // Build query: owned, ACL-granted and redeemed shared videos
+    let whereClause = accessibleVideoCondition(userId);
     if (status) {
       whereClause = and(whereClause, eq(schema.videos.status, status))!;
     }
@@ -192,7 +165,7 @@ export async function videoRoutes(fastify: FastifyInstance) {
       }
 
       // Check access
-      const hasAccess = await checkAccess(videoId, userId, 'viewer');
+      const hasAccess = await canAccessVideo(videoId, userId, 'viewer');
       if (!hasAccess) {
         return reply.status(403).send({
           code: 'FORBIDDEN',
@@ -297,7 +270,7 @@ export async function videoRoutes(fastify: FastifyInstance) {
       }
 
       // Check access
-      const hasAccess = await checkAccess(videoId, userId, 'viewer');
+      const hasAccess = await canAccessVideo(videoId, userId, 'viewer');
       if (!hasAccess) {
         return reply.status(403).send({
           code: 'FORBIDDEN',
@@ -364,7 +337,7 @@ export async function videoRoutes(fastify: FastifyInstance) {
     const endTs = request.query.end_ts;
 
     // Check access
-    const hasAccess = await checkAccess(videoId, userId, 'viewer');
+    const hasAccess = await canAccessVideo(videoId, userId, 'viewer');
     if (!hasAccess) {
       return reply.status(403).send({
         code: 'FORBIDDEN',
@@ -402,37 +375,77 @@ export async function videoRoutes(fastify: FastifyInstance) {
 }
 
 // Helper functions
-async function checkAccess(
-  resourceId: string,
-  userId: string,
-  requiredRole: 'viewer' | 'editor' | 'owner'
-): Promise<boolean> {
-  // Check if user is owner
-  const video = await db.query.videos.findFirst({
-    where: eq(schema.videos.id, resourceId),
+/**
+ * Create a video with its first graph version and queue the analysis job
+ */
+export async function createVideoAnalysis(options: {
+  userId: string;
+  sourceUrl: string;
+  sourceType: string;
+  pipelineConfig?: Record<string, unknown>;
+  metadata?: unknown;
+  /** Duration already known from probing the source */
+  durationSeconds?: number;
+  /** Longest video the user's quota allows; the worker rejects longer sources */
+  maxDurationSeconds?: number;
+}): Promise<{ video: typeof schema.videos.$inferSelect; jobId: string }> {
+  const {
+    userId,
+    sourceUrl,
+    sourceType,
+    pipelineConfig,
+    metadata = {},
+    durationSeconds,
+    maxDurationSeconds,
+  } = options;
+
+  // Create video record
+  const videoId = uuidv4();
+  const [video] = await db
+    .insert(schema.videos)
+    .values({
+      id: videoId,
+      sourceUrl,
+      sourceType,
+      status: 'pending',
+      durationSeconds,
+      metadata,
+      createdBy: userId,
+    })
+    .returning();
+
+  // Create initial graph version
+  const graphVersionId = uuidv4();
+  await db.insert(schema.graphVersions).values({
+    id: graphVersionId,
+    videoId,
+    version: 1,
+    createdBy: userId,
+    status: 'processing',
+    configSnapshot: { ...config.defaultPipeline, ...pipelineConfig },
   });
 
-  if (video?.createdBy === userId) {
-    return true;
-  }
-
-  // Check ACL
-  const aclEntry = await db.query.acl.findFirst({
-    where: and(
-      eq(schema.acl.resourceType, 'video'),
-      eq(schema.acl.resourceId, resourceId),
-      eq(schema.acl.userId, userId)
-    ),
+  // Create job for worker
+  const jobId = uuidv4();
+  await db.insert(schema.jobs).values({
+    id: jobId,
+    type: 'video_analysis',
+    status: 'pending',
+    payload: {
+      videoId,
+      graphVersionId,
+      sourceUrl,
+      sourceType,
+      config: { ...config.defaultPipeline, ...pipelineConfig },
+      maxDurationSeconds,
+    },
+    priority: 5,
   });
 
-  if (!aclEntry) {
-    return false;
-  }
-
-  const roleHierarchy = { viewer: 0, editor: 1, owner: 2 };
-  return roleHierarchy[aclEntry.role] >= roleHierarchy[requiredRole];
+  return { video, jobId };
 }
 
+
 function calculateProgress(
   jobStatus: string,
   stages: Array<{ status: string; progress: number }>
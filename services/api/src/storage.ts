@@ -0,0 +1,26 @@
+/**
+ * Artifact Storage
+ *
+ * Same storage backend the worker reads pipeline inputs from.
+ */
+
+import { createStorageService } from '@video-graph/pipeline-sdk';
+import { config } from './config.js';
+
+export const storage = createStorageService(
+  {
+    provider: config.storage.provider,
+    endpoint: config.storage.endpoint,
+    region: config.storage.region,
+    accessKey: config.storage.accessKey,
+    secretKey: config.storage.secretKey,
+    bucket: config.storage.bucket,
+    useSsl: config.storage.useSsl,
+    presignedUrlExpirySeconds: config.storage.presignedUrlExpirySeconds,
+    localPath: config.storage.localPath,
+  },
+  {
+    partSizeBytes: config.storage.partSizeMb * 1024 * 1024,
+    createBucket: true,
+  }
+);
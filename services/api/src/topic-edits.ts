@@ -0,0 +1,276 @@
+/**
+ * Topic Edit Log
+ *
+ * Records manual topic edits with snapshots of the rows they touched, and
+ * undoes or redoes them by moving the graph from one snapshot to the other.
+ * Undo and redo follow a single linear history per graph version: a new
+ * edit after an undo drops the undone edits from the redo stack. Every
+ * edit transaction first locks the graph version row, so edits of one
+ * version are serialized and each sees the rows the previous one wrote.
+ */
+
+import { eq, asc, desc, inArray } from 'drizzle-orm';
+import { db, schema, type Database } from './db/index.js';
+
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+export type TopicEditOperation = 'update' | 'merge' | 'split';
+
+/** Rows affected by an edit, as they were before or after it */
+export interface TopicEditSnapshot {
+  topics: schema.TopicNode[];
+  edges: schema.TopicEdge[];
+  snippets: schema.Snippet[];
+}
+
+export interface TopicEditStacks {
+  /** Edits that can be undone, most recent last */
+  undo: string[];
+  /** Undone edits that can be redone, next to redo last */
+  redo: string[];
+}
+
+/** Topics changed under a concurrent edit or since the edit being undone or redone */
+export class TopicEditConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TopicEditConflictError';
+  }
+}
+
+/**
+ * Lock the graph version for the rest of the transaction and reload the
+ * topics to edit, which a concurrent edit may have changed or deleted
+ */
+export async function lockTopicsForEdit(
+  tx: Transaction,
+  graphVersionId: string,
+  topicIds: string[]
+): Promise<schema.TopicNode[]> {
+  await lockGraphVersion(tx, graphVersionId);
+
+  const topics = await tx.query.topicNodes.findMany({
+    where: inArray(schema.topicNodes.id, topicIds),
+  });
+  const byId = new Map(topics.map((t) => [t.id, t]));
+
+  return topicIds.map((id) => {
+    const topic = byId.get(id);
+    if (!topic || topic.graphVersionId !== graphVersionId) {
+      throw new TopicEditConflictError(`Topic ${id} has changed since it was loaded`);
+    }
+    return topic;
+  });
+}
+
+/**
+ * Snapshot topics along with their edges and snippets, which are removed
+ * with the topic when it is deleted
+ */
+export async function snapshotTopics(
+  tx: Transaction,
+  topicIds: string[],
+  options: { withEdges?: boolean } = {}
+): Promise<TopicEditSnapshot> {
+  if (topicIds.length === 0) return { topics: [], edges: [], snippets: [] };
+
+  const topics = await tx.query.topicNodes.findMany({
+    where: inArray(schema.topicNodes.id, topicIds),
+  });
+  if (!options.withEdges) return { topics, edges: [], snippets: [] };
+
+  const [outgoing, incoming, snippets] = await Promise.all([
+    tx.query.topicEdges.findMany({ where: inArray(schema.topicEdges.srcTopicId, topicIds) }),
+    tx.query.topicEdges.findMany({ where: inArray(schema.topicEdges.dstTopicId, topicIds) }),
+    tx.query.snippets.findMany({ where: inArray(schema.snippets.topicId, topicIds) }),
+  ]);
+  const edges = new Map([...outgoing, ...incoming].map((e) => [e.id, e]));
+
+  return { topics, edges: [...edges.values()], snippets };
+}
+
+/**
+ * Append an edit to the graph version's log
+ */
+export async function recordTopicEdit(
+  tx: Transaction,
+  entry: {
+    graphVersionId: string;
+    operation: TopicEditOperation | 'undo' | 'redo';
+    topicIds: string[];
+    before: TopicEditSnapshot;
+    after: TopicEditSnapshot;
+    userId: string;
+    targetEditId?: string;
+  }
+): Promise<schema.TopicEdit> {
+  const [last] = await tx
+    .select({ sequence: schema.topicEdits.sequence })
+    .from(schema.topicEdits)
+    .where(eq(schema.topicEdits.graphVersionId, entry.graphVersionId))
+    .orderBy(desc(schema.topicEdits.sequence))
+    .limit(1);
+
+  const [edit] = await tx
+    .insert(schema.topicEdits)
+    .values({ ...entry, sequence: (last?.sequence ?? 0) + 1 })
+    .returning();
+  return edit;
+}
+
+/**
+ * Replay the log to find which edits can currently be undone and redone
+ */
+export async function topicEditStacks(
+  graphVersionId: string,
+  executor: Database | Transaction = db
+): Promise<TopicEditStacks> {
+  const entries = await executor
+    .select({
+      id: schema.topicEdits.id,
+      operation: schema.topicEdits.operation,
+      targetEditId: schema.topicEdits.targetEditId,
+    })
+    .from(schema.topicEdits)
+    .where(eq(schema.topicEdits.graphVersionId, graphVersionId))
+    .orderBy(asc(schema.topicEdits.sequence));
+
+  const stacks: TopicEditStacks = { undo: [], redo: [] };
+  for (const entry of entries) {
+    if (entry.operation === 'undo') {
+      stacks.undo.pop();
+      stacks.redo.push(entry.targetEditId!);
+    } else if (entry.operation === 'redo') {
+      stacks.redo.pop();
+      stacks.undo.push(entry.targetEditId!);
+    } else {
+      stacks.undo.push(entry.id);
+      stacks.redo = [];
+    }
+  }
+  return stacks;
+}
+
+/**
+ * Undo or redo the last `count` edits of a graph version, logging each as
+ * an entry of its own. Throws TopicEditConflictError when fewer edits are
+ * available or the topics no longer match the edit's snapshot.
+ */
+export async function revertTopicEdits(
+  graphVersionId: string,
+  direction: 'undo' | 'redo',
+  count: number,
+  userId: string
+): Promise<schema.TopicEdit[]> {
+  return db.transaction(async (tx) => {
+    await lockGraphVersion(tx, graphVersionId);
+    const stack = (await topicEditStacks(graphVersionId, tx))[direction];
+    if (stack.length < count) {
+      throw new TopicEditConflictError(
+        stack.length === 0
+          ? `Nothing to ${direction}`
+          : `Only ${stack.length} edit(s) can be ${direction === 'undo' ? 'undone' : 'redone'}`
+      );
+    }
+
+    const targetIds = stack.slice(-count).reverse();
+    const targets = await tx.query.topicEdits.findMany({
+      where: inArray(schema.topicEdits.id, targetIds),
+    });
+    const byId = new Map(targets.map((t) => [t.id, t]));
+
+    const entries: schema.TopicEdit[] = [];
+    for (const id of targetIds) {
+      const target = byId.get(id)!;
+      const from = (direction === 'undo' ? target.after : target.before) as TopicEditSnapshot;
+      const to = (direction === 'undo' ? target.before : target.after) as TopicEditSnapshot;
+
+      await applySnapshot(tx, from, to);
+      entries.push(
+        await recordTopicEdit(tx, {
+          graphVersionId,
+          operation: direction,
+          topicIds: target.topicIds as string[],
+          before: from,
+          after: to,
+          userId,
+          targetEditId: target.id,
+        })
+      );
+    }
+    return entries;
+  });
+}
+
+async function lockGraphVersion(tx: Transaction, graphVersionId: string): Promise<void> {
+  await tx
+    .select({ id: schema.graphVersions.id })
+    .from(schema.graphVersions)
+    .where(eq(schema.graphVersions.id, graphVersionId))
+    .for('update');
+}
+
+/**
+ * Move the graph from one snapshot to another: topics only in `from` are
+ * deleted, and the topics, edges and snippets of `to` are restored
+ */
+async function applySnapshot(
+  tx: Transaction,
+  from: TopicEditSnapshot,
+  to: TopicEditSnapshot
+): Promise<void> {
+  await assertUnchanged(tx, from);
+
+  const kept = new Set(to.topics.map((t) => t.id));
+  const removed = from.topics.filter((t) => !kept.has(t.id)).map((t) => t.id);
+  if (removed.length > 0) {
+    await tx.delete(schema.topicNodes).where(inArray(schema.topicNodes.id, removed));
+  }
+
+  for (const topic of to.topics) {
+    const row = {
+      ...topic,
+      createdAt: new Date(topic.createdAt),
+      updatedAt: new Date(topic.updatedAt),
+    };
+    await tx
+      .insert(schema.topicNodes)
+      .values(row)
+      .onConflictDoUpdate({ target: schema.topicNodes.id, set: row });
+  }
+
+  if (to.edges.length > 0) {
+    await tx
+      .insert(schema.topicEdges)
+      .values(to.edges.map((e) => ({ ...e, createdAt: new Date(e.createdAt) })))
+      .onConflictDoNothing();
+  }
+  if (to.snippets.length > 0) {
+    await tx
+      .insert(schema.snippets)
+      .values(to.snippets.map((s) => ({ ...s, createdAt: new Date(s.createdAt) })))
+      .onConflictDoNothing();
+  }
+}
+
+/**
+ * Check the snapshot's topics still exist as recorded. Every edit bumps
+ * updated_at on the topics it writes while restores keep the recorded
+ * value, so any other change to a topic shows up here.
+ */
+async function assertUnchanged(tx: Transaction, snapshot: TopicEditSnapshot): Promise<void> {
+  const ids = snapshot.topics.map((t) => t.id);
+  if (ids.length === 0) return;
+
+  const current = await tx.query.topicNodes.findMany({
+    where: inArray(schema.topicNodes.id, ids),
+    columns: { id: true, updatedAt: true },
+  });
+  const updatedAt = new Map(current.map((t) => [t.id, t.updatedAt.getTime()]));
+
+  for (const topic of snapshot.topics) {
+    if (updatedAt.get(topic.id) !== new Date(topic.updatedAt).getTime()) {
+      throw new TopicEditConflictError(`Topic ${topic.id} has changed since this edit`);
+    }
+  }
+}
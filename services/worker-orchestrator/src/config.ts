@@ -18,16 +18,47 @@ export const config = {
   maxRetries: parseInt(process.env.WORKER_MAX_RETRIES || '3', 10),
   retryDelay: parseInt(process.env.WORKER_RETRY_DELAY || '5000', 10),
   
+  // Per-step settings within a pipeline run
+  stepMaxRetries: parseInt(process.env.WORKER_STEP_MAX_RETRIES || '2', 10),
+  stepTimeout: parseInt(process.env.WORKER_STEP_TIMEOUT || '1800000', 10), // 30 minutes
+  stepConcurrency: parseInt(process.env.WORKER_STEP_CONCURRENCY || '2', 10),
+  
   // Database
   dbHost: process.env.DB_HOST || 'localhost',
   dbPort: parseInt(process.env.DB_PORT || '5432', 10),
   dbName: process.env.DB_NAME || 'videograph',
   dbUser: process.env.DB_USER || 'postgres',
   dbPassword: process.env.DB_PASSWORD || 'postgres',
+  dbPoolSize: parseInt(process.env.DB_POOL_SIZE || '5', 10),
+  
+  // Job dispatch (jobs table -> queues)
+  dispatchIntervalMs: parseInt(process.env.WORKER_DISPATCH_INTERVAL_MS || '2000', 10),
+  dispatchBatchSize: parseInt(process.env.WORKER_DISPATCH_BATCH_SIZE || '50', 10),
+  
+  // Live job progress (Redis stream and pub/sub)
+  realtimeUpdates: process.env.FEATURE_REALTIME_UPDATES !== 'false',
+  progressStreamLength: parseInt(process.env.PROGRESS_STREAM_LENGTH || '10000', 10),
+  progressRetentionSeconds: parseInt(process.env.PROGRESS_RETENTION_SECONDS || '86400', 10),
+  
+  // Embedding model for topic graphs; the API embeds search queries with the same one
+  embeddingProvider: (process.env.EMBEDDING_PROVIDER || 'ollama') as 'ollama' | 'openai' | 'openai-compatible',
+  embeddingModel: process.env.EMBEDDING_MODEL || 'all-minilm',
+  embeddingBaseUrl: process.env.EMBEDDING_BASE_URL,
+  
+  // Cross-video library graphs
+  libraryMinSimilarity: parseFloat(process.env.LIBRARY_MIN_SIMILARITY || '0.75'),
+  libraryMaxLinksPerTopic: parseInt(process.env.LIBRARY_MAX_LINKS_PER_TOPIC || '5', 10),
+  libraryMaxClusters: parseInt(process.env.LIBRARY_MAX_CLUSTERS || '50', 10),
   
   // Storage
+  storageProvider: (process.env.STORAGE_PROVIDER || 'minio') as 'minio' | 's3' | 'filesystem',
   storageEndpoint: process.env.STORAGE_ENDPOINT || 'http://localhost:9000',
   storageAccessKey: process.env.STORAGE_ACCESS_KEY || 'minioadmin',
   storageSecretKey: process.env.STORAGE_SECRET_KEY || 'minioadmin',
   storageBucket: process.env.STORAGE_BUCKET || 'videograph',
+  storageRegion: process.env.STORAGE_REGION || 'us-east-1',
+  storageUseSsl: process.env.STORAGE_USE_SSL === 'true',
+  storagePresignedUrlExpiry: parseInt(process.env.STORAGE_PRESIGNED_URL_EXPIRY || '3600', 10),
+  storageLocalPath: process.env.STORAGE_LOCAL_PATH || './data/storage',
+  storagePartSizeMb: parseInt(process.env.STORAGE_PART_SIZE_MB || '64', 10),
 };
@@ -0,0 +1,78 @@
+/**
+ * Job Control
+ *
+ * Interrupts jobs this worker is running when the API cancels or pauses
+ * them. Requests arrive on the `job-control` Redis channel, which every
+ * worker subscribes to; the worker running the job aborts its signal with
+ * a JobInterruption. The jobs row is checked when a run starts, so a job
+ * interrupted before it reached this worker does not run at all.
+ */
+
+import type Redis from 'ioredis';
+import { eq } from 'drizzle-orm';
+import {
+  JOB_CONTROL_CHANNEL,
+  JobInterruption,
+  parseJobControlMessage,
+} from '@video-graph/pipeline-sdk';
+import { db, schema } from './db/index.js';
+import { logger } from './logger.js';
+
+export class JobControl {
+  private controllers = new Map<string, AbortController>();
+
+  constructor(private subscriber: Redis) {}
+
+  /**
+   * Start listening for control requests
+   */
+  async start(): Promise<void> {
+    this.subscriber.on('message', (_channel: string, data: string) => {
+      const message = parseJobControlMessage(data);
+      if (!message) return;
+
+      const controller = this.controllers.get(message.job_id);
+      if (controller && !controller.signal.aborted) {
+        logger.info({ jobId: message.job_id, action: message.action }, 'Interrupting job');
+        controller.abort(new JobInterruption(message.action));
+      }
+    });
+    await this.subscriber.subscribe(JOB_CONTROL_CHANNEL);
+  }
+
+  /**
+   * Abort signal for a run of the job, aborted with a JobInterruption when
+   * the job is cancelled or paused. Call `release` when the run ends.
+   */
+  async register(jobId: string): Promise<AbortSignal> {
+    const controller = new AbortController();
+    // Registered before reading the row so that no request is missed in between
+    this.controllers.set(jobId, controller);
+
+    const row = await db.query.jobs.findFirst({
+      columns: { status: true },
+      where: eq(schema.jobs.id, jobId),
+    });
+    if (row?.status === 'cancelled') {
+      controller.abort(new JobInterruption('cancel'));
+    } else if (row?.status === 'paused') {
+      controller.abort(new JobInterruption('pause'));
+    }
+
+    return controller.signal;
+  }
+
+  /**
+   * Stop tracking a finished run
+   */
+  release(jobId: string): void {
+    this.controllers.delete(jobId);
+  }
+
+  /**
+   * Stop listening for control requests and close the connection
+   */
+  async stop(): Promise<void> {
+    await this.subscriber.quit();
+  }
+}
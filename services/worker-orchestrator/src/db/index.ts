@@ -0,0 +1,33 @@
+/**
+ * Database Connection
+ * 
+ * Uses Drizzle ORM with PostgreSQL.
+ */
+
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { Pool } from 'pg';
+import { config } from '../config.js';
+import * as schema from './schema.js';
+
+// Create connection pool
+const pool = new Pool({
+  host: config.dbHost,
+  port: config.dbPort,
+  database: config.dbName,
+  user: config.dbUser,
+  password: config.dbPassword,
+  max: config.dbPoolSize,
+});
+
+// Create Drizzle instance
+export const db = drizzle(pool, { schema });
+
+// Export schema
+export { schema };
+
+/**
+ * Close the connection pool
+ */
+export async function closeDb(): Promise<void> {
+  await pool.end();
+}
@@ -0,0 +1,107 @@
+/**
+ * Database Schema (worker view)
+ * 
+ * Subset of the tables owned by the API service that the worker
+ * reads and updates. Migrations live in services/api.
+ */
+
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  real,
+  timestamp,
+  jsonb,
+} from 'drizzle-orm/pg-core';
+
+// ==================== Jobs Table ====================
+
+export const jobs = pgTable('jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  type: varchar('type', { length: 100 }).notNull(),
+  status: varchar('status', { length: 50 }).notNull().default('pending'),
+  payload: jsonb('payload').notNull(),
+  priority: integer('priority').notNull().default(5),
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(3),
+  error: text('error'),
+  startedAt: timestamp('started_at', { withTimezone: true }),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// ==================== Library Graph Tables ====================
+
+export const videos = pgTable('videos', {
+  id: uuid('id').primaryKey(),
+  createdBy: varchar('created_by', { length: 255 }).notNull(),
+});
+
+export const acl = pgTable('acl', {
+  id: uuid('id').primaryKey(),
+  resourceType: varchar('resource_type', { length: 50 }).notNull(),
+  resourceId: uuid('resource_id').notNull(),
+  userId: varchar('user_id', { length: 255 }).notNull(),
+});
+
+export const shares = pgTable('shares', {
+  token: varchar('token', { length: 255 }).primaryKey(),
+  resourceType: varchar('resource_type', { length: 50 }).notNull(),
+  resourceId: uuid('resource_id').notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
+});
+
+export const shareRedemptions = pgTable('share_redemptions', {
+  id: uuid('id').primaryKey(),
+  token: varchar('token', { length: 255 }).notNull(),
+  userId: varchar('user_id', { length: 255 }).notNull(),
+});
+
+export const graphVersions = pgTable('graph_versions', {
+  id: uuid('id').primaryKey(),
+  videoId: uuid('video_id').notNull(),
+  version: integer('version').notNull(),
+  status: varchar('status', { length: 50 }).notNull(),
+});
+
+/** Embeddings are read with raw SQL; the worker has no pgvector column type */
+export const topicNodes = pgTable('topic_nodes', {
+  id: uuid('id').primaryKey(),
+  videoId: uuid('video_id').notNull(),
+  graphVersionId: uuid('graph_version_id').notNull(),
+  keywords: jsonb('keywords').notNull(),
+});
+
+export const libraryGraphs = pgTable('library_graphs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: varchar('user_id', { length: 255 }).notNull(),
+  status: varchar('status', { length: 50 }).notNull().default('processing'),
+  jobId: uuid('job_id'),
+  videoIds: jsonb('video_ids').notNull().default([]),
+  clusters: jsonb('clusters').notNull().default([]),
+  nodeCount: integer('node_count').notNull().default(0),
+  edgeCount: integer('edge_count').notNull().default(0),
+  error: text('error'),
+  computedAt: timestamp('computed_at', { withTimezone: true }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const libraryEdges = pgTable('library_edges', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  libraryGraphId: uuid('library_graph_id').notNull(),
+  srcTopicId: uuid('src_topic_id').notNull(),
+  dstTopicId: uuid('dst_topic_id').notNull(),
+  srcVideoId: uuid('src_video_id').notNull(),
+  dstVideoId: uuid('dst_video_id').notNull(),
+  edgeType: varchar('edge_type', { length: 50 }).notNull(),
+  distance: real('distance').notNull(),
+  weight: real('weight').notNull(),
+  metadata: jsonb('metadata').default({}),
+});
+
+// ==================== Type Exports ====================
+
+export type Job = typeof jobs.$inferSelect;
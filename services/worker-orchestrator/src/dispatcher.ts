@@ -0,0 +1,188 @@
+/**
+ * Job Dispatcher
+ *
+ * Relays pending rows of the `jobs` table (written by the API) into the
+ * BullMQ queues, and writes worker state back to the row so that
+ * GET /jobs/:id reflects what the worker is actually doing.
+ */
+
+import { UnrecoverableError, type Queue, type Job as BullJob } from 'bullmq';
+import { eq, and, asc, desc, notInArray } from 'drizzle-orm';
+import { db, schema } from './db/index.js';
+import { config } from './config.js';
+import { logger } from './logger.js';
+
+/**
+ * Queue name for each job type (JobTypeEnum)
+ */
+export const QUEUE_BY_JOB_TYPE: Record<string, string> = {
+  video_analysis: 'video-analysis',
+  export: 'export',
+  snippet_generation: 'snippet-generation',
+  library_graph: 'library-graph',
+};
+
+/**
+ * Data carried by every dispatched BullMQ job
+ */
+export interface DispatchedJobData {
+  /** ID of the originating `jobs` row */
+  jobId: string;
+  [key: string]: unknown;
+}
+
+export class JobDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private dispatching = false;
+
+  constructor(private queues: Map<string, Queue>) {}
+
+  /**
+   * Start polling the jobs table
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.dispatchPending().catch((error) => {
+        logger.error({ error }, 'Job dispatch failed');
+      });
+    }, config.dispatchIntervalMs);
+
+    logger.info({ intervalMs: config.dispatchIntervalMs }, 'Job dispatcher started');
+  }
+
+  /**
+   * Stop polling the jobs table
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Enqueue a batch of pending job rows.
+   *
+   * The row ID is used as the BullMQ job ID, so re-dispatching a row
+   * that is already queued (or waiting for a retry) is a no-op. A row
+   * that is pending again after a pause still has the BullMQ job its
+   * interrupted run ended; that job is removed so the row can be queued.
+   */
+  async dispatchPending(): Promise<number> {
+    if (this.dispatching) return 0;
+    this.dispatching = true;
+
+    try {
+      const rows = await db.query.jobs.findMany({
+        where: eq(schema.jobs.status, 'pending'),
+        orderBy: [desc(schema.jobs.priority), asc(schema.jobs.createdAt)],
+        limit: config.dispatchBatchSize,
+      });
+
+      let dispatched = 0;
+      for (const row of rows) {
+        const queue = this.queues.get(QUEUE_BY_JOB_TYPE[row.type]);
+        if (!queue) {
+          await this.updateRow(row.id, {
+            status: 'failed',
+            error: `Unsupported job type: ${row.type}`,
+            completedAt: new Date(),
+          });
+          continue;
+        }
+
+        const previous = await queue.getJob(row.id);
+        if (previous && ['completed', 'failed'].includes(await previous.getState())) {
+          await previous.remove();
+        }
+
+        const remainingAttempts = Math.max(row.maxAttempts - row.attempts, 1);
+
+        await queue.add(
+          row.type,
+          { ...(row.payload as Record<string, unknown>), jobId: row.id },
+          {
+            jobId: row.id,
+            attempts: remainingAttempts,
+            backoff: { type: 'exponential', delay: config.retryDelay },
+            // BullMQ runs lower numbers first; rows use 0-10 with 10 most urgent
+            priority: 11 - Math.min(Math.max(row.priority, 0), 10),
+          }
+        );
+        dispatched++;
+      }
+
+      if (dispatched > 0) {
+        logger.debug({ dispatched }, 'Dispatched pending jobs');
+      }
+
+      return dispatched;
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  /**
+   * Record that a worker picked up the job
+   */
+  async markRunning(job: BullJob<DispatchedJobData>): Promise<void> {
+    const jobId = job.data.jobId;
+    if (!jobId) return;
+
+    const row = await db.query.jobs.findFirst({
+      where: eq(schema.jobs.id, jobId),
+    });
+    if (!row) return;
+
+    await this.updateRow(jobId, {
+      status: 'running',
+      attempts: row.attempts + 1,
+      startedAt: row.startedAt ?? new Date(),
+    });
+  }
+
+  /**
+   * Record successful completion
+   */
+  async markCompleted(job: BullJob<DispatchedJobData>): Promise<void> {
+    const jobId = job.data.jobId;
+    if (!jobId) return;
+
+    await this.updateRow(jobId, {
+      status: 'completed',
+      error: null,
+      completedAt: new Date(),
+    });
+  }
+
+  /**
+   * Record a failed attempt. The row goes back to `pending` while
+   * BullMQ still has attempts left, and to `failed` once it gives up.
+   * Interrupted jobs are not retried; their row was already updated by
+   * the API.
+   */
+  async markFailed(job: BullJob<DispatchedJobData>, error: Error): Promise<void> {
+    const jobId = job.data.jobId;
+    if (!jobId) return;
+
+    const willRetry =
+      !(error instanceof UnrecoverableError) && job.attemptsMade < (job.opts.attempts ?? 1);
+
+    await this.updateRow(jobId, willRetry
+      ? { status: 'pending', error: error.message }
+      : { status: 'failed', error: error.message, completedAt: new Date() });
+  }
+
+  private async updateRow(
+    jobId: string,
+    updates: Partial<typeof schema.jobs.$inferInsert>
+  ): Promise<void> {
+    // Never overwrite a cancellation or pause made through the API
+    await db
+      .update(schema.jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(schema.jobs.id, jobId), notInArray(schema.jobs.status, ['cancelled', 'paused'])));
+  }
+}
@@ -5,11 +5,15 @@
  * Uses BullMQ with Redis for job distribution.
  */
 
-import { Queue, Worker, Job as BullJob } from 'bullmq';
+import { Queue, Worker, Job as BullJob, UnrecoverableError } from 'bullmq';
 import Redis from 'ioredis';
 import { config } from './config.js';
 import { logger } from './logger.js';
 import { JobProcessor } from './processor.js';
+import { JobDispatcher, type DispatchedJobData } from './dispatcher.js';
+import { ProgressPublisher } from './progress.js';
+import { JobControl } from './control.js';
+import { closeDb } from './db/index.js';
 
 // Redis connection
 const redis = new Redis(config.redisUrl, {
@@ -20,16 +24,49 @@ const redis = new Redis(config.redisUrl, {
 const videoAnalysisQueue = new Queue('video-analysis', { connection: redis });
 const exportQueue = new Queue('export', { connection: redis });
 const snippetQueue = new Queue('snippet-generation', { connection: redis });
+const libraryGraphQueue = new Queue('library-graph', { connection: redis });
+
+// Progress events, on their own connection
+const progressRedis = config.realtimeUpdates ? new Redis(config.redisUrl) : null;
+const progressPublisher = new ProgressPublisher(progressRedis);
+
+// Cancel and pause requests from the API, on a subscriber connection
+const jobControl = new JobControl(new Redis(config.redisUrl));
 
 // Job processor
-const processor = new JobProcessor();
+const processor = new JobProcessor(progressPublisher, jobControl);
+
+// Relay jobs table rows into the queues
+const dispatcher = new JobDispatcher(
+  new Map([
+    ['video-analysis', videoAnalysisQueue],
+    ['export', exportQueue],
+    ['snippet-generation', snippetQueue],
+    ['library-graph', libraryGraphQueue],
+  ])
+);
+
+/**
+ * Surface unsuccessful processor results as job failures so BullMQ
+ * retries them and the jobs row records the error. Cancelled and paused
+ * jobs are not retried; a resume queues them again.
+ */
+function assertSuccess<T extends { success: boolean; error?: string; interrupted?: boolean }>(
+  result: T
+): T {
+  if (!result.success) {
+    const message = result.error || 'Job failed';
+    throw result.interrupted ? new UnrecoverableError(message) : new Error(message);
+  }
+  return result;
+}
 
 // Workers
 const videoAnalysisWorker = new Worker(
   'video-analysis',
   async (job: BullJob) => {
     logger.info({ jobId: job.id }, 'Processing video analysis job');
-    return processor.processVideoAnalysis(job.data);
+    return assertSuccess(await processor.processVideoAnalysis(job.data));
   },
   {
     connection: redis,
@@ -45,7 +82,7 @@ const exportWorker = new Worker(
   'export',
   async (job: BullJob) => {
     logger.info({ jobId: job.id }, 'Processing export job');
-    return processor.processExport(job.data);
+    return assertSuccess(await processor.processExport(job.data));
   },
   {
     connection: redis,
@@ -57,7 +94,7 @@ const snippetWorker = new Worker(
   'snippet-generation',
   async (job: BullJob) => {
     logger.info({ jobId: job.id }, 'Processing snippet generation job');
-    return processor.processSnippetGeneration(job.data);
+    return assertSuccess(await processor.processSnippetGeneration(job.data));
   },
   {
     connection: redis,
@@ -65,7 +102,40 @@ const snippetWorker = new Worker(
   }
 );
 
+const libraryGraphWorker = new Worker(
+  'library-graph',
+  async (job: BullJob) => {
+    logger.info({ jobId: job.id }, 'Processing library graph job');
+    return assertSuccess(await processor.processLibraryGraph(job.data));
+  },
+  {
+    connection: redis,
+    concurrency: 1,
+  }
+);
+
 // Event handlers
+for (const worker of [videoAnalysisWorker, exportWorker, snippetWorker, libraryGraphWorker]) {
+  worker.on('active', (job: BullJob<DispatchedJobData>) => {
+    dispatcher.markRunning(job).catch((error) => {
+      logger.error({ jobId: job.id, error }, 'Failed to record job start');
+    });
+  });
+
+  worker.on('completed', (job: BullJob<DispatchedJobData>) => {
+    dispatcher.markCompleted(job).catch((error) => {
+      logger.error({ jobId: job.id, error }, 'Failed to record job completion');
+    });
+  });
+
+  worker.on('failed', (job: BullJob<DispatchedJobData> | undefined, err: Error) => {
+    if (!job) return;
+    dispatcher.markFailed(job, err).catch((error) => {
+      logger.error({ jobId: job.id, error }, 'Failed to record job failure');
+    });
+  });
+}
+
 videoAnalysisWorker.on('completed', (job) => {
   logger.info({ jobId: job.id }, 'Video analysis job completed');
 });
@@ -90,19 +160,35 @@ snippetWorker.on('failed', (job, err) => {
   logger.error({ jobId: job?.id, error: err }, 'Snippet generation job failed');
 });
 
+libraryGraphWorker.on('completed', (job) => {
+  logger.info({ jobId: job.id }, 'Library graph job completed');
+});
+
+libraryGraphWorker.on('failed', (job, err) => {
+  logger.error({ jobId: job?.id, error: err }, 'Library graph job failed');
+});
+
 // Graceful shutdown
 async function shutdown() {
   logger.info('Shutting down worker orchestrator...');
   
+  dispatcher.stop();
+  
   await videoAnalysisWorker.close();
   await exportWorker.close();
   await snippetWorker.close();
+  await libraryGraphWorker.close();
   
   await videoAnalysisQueue.close();
   await exportQueue.close();
   await snippetQueue.close();
+  await libraryGraphQueue.close();
   
+  await jobControl.stop();
+  await progressPublisher.flush();
+  await progressRedis?.quit();
   await redis.quit();
+  await closeDb();
   
   logger.info('Worker orchestrator shut down');
   process.exit(0);
@@ -111,4 +197,9 @@ async function shutdown() {
 process.on('SIGINT', shutdown);
 process.on('SIGTERM', shutdown);
 
+jobControl.start().catch((error) => {
+  logger.error({ error }, 'Failed to subscribe to job control requests');
+});
+dispatcher.start();
+
 logger.info('Worker orchestrator started');
@@ -0,0 +1,229 @@
+/**
+ * Library Graph Builder
+ *
+ * Computes the cross-video graph of a user's library: every video the
+ * user owns or has been granted access to contributes the topics of its
+ * latest graph version. Nearest neighbours across videos come from the
+ * pgvector index; linking and clustering are done by the Pipeline SDK.
+ */
+
+import { eq, and, desc, inArray, notInArray, sql } from 'drizzle-orm';
+import {
+  buildLibraryGraph,
+  type LibraryCandidate,
+  type LibraryTopic,
+} from '@video-graph/pipeline-sdk';
+import { db, schema } from './db/index.js';
+import { config } from './config.js';
+import { logger } from './logger.js';
+
+/** Rows inserted per statement when replacing library edges */
+const EDGE_BATCH_SIZE = 500;
+
+export interface LibraryGraphJob {
+  /** ID of the originating jobs row (set by the dispatcher) */
+  jobId?: string;
+  userId: string;
+  libraryGraphId: string;
+}
+
+export interface LibraryGraphSummary {
+  videoCount: number;
+  nodeCount: number;
+  edgeCount: number;
+  clusterCount: number;
+}
+
+/**
+ * Rebuild the edges and clusters of a library graph
+ */
+export async function buildUserLibraryGraph(job: LibraryGraphJob): Promise<LibraryGraphSummary> {
+  const { userId, libraryGraphId } = job;
+
+  await db
+    .update(schema.libraryGraphs)
+    .set({ status: 'processing', error: null, updatedAt: new Date() })
+    .where(eq(schema.libraryGraphs.id, libraryGraphId));
+
+  const videoIds = await accessibleVideoIds(userId);
+  const versionIds = await latestGraphVersionIds(videoIds);
+  const topics = await loadTopics(versionIds);
+  const candidates = await nearestNeighbours(versionIds, config.libraryMaxLinksPerTopic * 2);
+
+  logger.info(
+    { libraryGraphId, videos: videoIds.length, topics: topics.length, candidates: candidates.length },
+    'Linking library topics'
+  );
+
+  const { edges, clusters } = buildLibraryGraph(topics, candidates, {
+    minSimilarity: config.libraryMinSimilarity,
+    maxLinksPerTopic: config.libraryMaxLinksPerTopic,
+    maxClusters: config.libraryMaxClusters,
+  });
+
+  const videoOf = new Map(topics.map((t) => [t.id, t.videoId]));
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(schema.libraryEdges)
+      .where(eq(schema.libraryEdges.libraryGraphId, libraryGraphId));
+
+    for (let i = 0; i < edges.length; i += EDGE_BATCH_SIZE) {
+      await tx.insert(schema.libraryEdges).values(
+        edges.slice(i, i + EDGE_BATCH_SIZE).map((edge) => ({
+          libraryGraphId,
+          srcTopicId: edge.srcTopicId,
+          dstTopicId: edge.dstTopicId,
+          srcVideoId: videoOf.get(edge.srcTopicId)!,
+          dstVideoId: videoOf.get(edge.dstTopicId)!,
+          edgeType: edge.edgeType,
+          distance: edge.distance,
+          weight: edge.weight,
+          metadata: edge.metadata,
+        }))
+      );
+    }
+
+    await tx
+      .update(schema.libraryGraphs)
+      .set({
+        status: 'complete',
+        videoIds,
+        clusters,
+        nodeCount: topics.length,
+        edgeCount: edges.length,
+        computedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(schema.libraryGraphs.id, libraryGraphId));
+  });
+
+  return {
+    videoCount: videoIds.length,
+    nodeCount: topics.length,
+    edgeCount: edges.length,
+    clusterCount: clusters.length,
+  };
+}
+
+/**
+ * Record a failed build on the library graph row
+ */
+export async function markLibraryGraphFailed(libraryGraphId: string, error: string): Promise<void> {
+  await db
+    .update(schema.libraryGraphs)
+    .set({ status: 'error', error, updatedAt: new Date() })
+    .where(eq(schema.libraryGraphs.id, libraryGraphId));
+}
+
+/**
+ * Videos the user owns, holds an ACL entry on or has redeemed an active
+ * share link for; mirrors the API authorization service
+ */
+async function accessibleVideoIds(userId: string): Promise<string[]> {
+  const owned = await db
+    .select({ id: schema.videos.id })
+    .from(schema.videos)
+    .where(eq(schema.videos.createdBy, userId));
+
+  const shared = await db
+    .select({ id: schema.acl.resourceId })
+    .from(schema.acl)
+    .where(and(eq(schema.acl.resourceType, 'video'), eq(schema.acl.userId, userId)));
+
+  const redeemed = await db
+    .select({ id: schema.shares.resourceId })
+    .from(schema.shareRedemptions)
+    .innerJoin(schema.shares, eq(schema.shares.token, schema.shareRedemptions.token))
+    .where(
+      and(
+        eq(schema.shareRedemptions.userId, userId),
+        eq(schema.shares.resourceType, 'video'),
+        sql`(${schema.shares.expiresAt} IS NULL OR ${schema.shares.expiresAt} > now())`
+      )
+    );
+
+  return [...new Set([...owned, ...shared, ...redeemed].map((row) => row.id))];
+}
+
+/**
+ * Latest graph version of each video, skipping versions that failed or were cancelled
+ */
+async function latestGraphVersionIds(videoIds: string[]): Promise<string[]> {
+  if (videoIds.length === 0) {
+    return [];
+  }
+
+  const versions = await db
+    .select({ id: schema.graphVersions.id, videoId: schema.graphVersions.videoId })
+    .from(schema.graphVersions)
+    .where(
+      and(
+        inArray(schema.graphVersions.videoId, videoIds),
+        notInArray(schema.graphVersions.status, ['error', 'cancelled'])
+      )
+    )
+    .orderBy(desc(schema.graphVersions.version));
+
+  const latest = new Map<string, string>();
+  for (const version of versions) {
+    if (!latest.has(version.videoId)) latest.set(version.videoId, version.id);
+  }
+  return [...latest.values()];
+}
+
+async function loadTopics(versionIds: string[]): Promise<LibraryTopic[]> {
+  if (versionIds.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select({
+      id: schema.topicNodes.id,
+      videoId: schema.topicNodes.videoId,
+      keywords: schema.topicNodes.keywords,
+      embedding: sql<string | null>`${sql.identifier('embedding')}::text`,
+    })
+    .from(schema.topicNodes)
+    .where(inArray(schema.topicNodes.graphVersionId, versionIds));
+
+  return rows.map((row) => ({
+    id: row.id,
+    videoId: row.videoId,
+    keywords: row.keywords as string[],
+    embedding: row.embedding ? (JSON.parse(row.embedding) as number[]) : null,
+  }));
+}
+
+/**
+ * The `k` nearest topics of other videos for every library topic, using
+ * the HNSW cosine index on topic embeddings
+ */
+async function nearestNeighbours(versionIds: string[], k: number): Promise<LibraryCandidate[]> {
+  if (versionIds.length === 0) {
+    return [];
+  }
+
+  const versions = sql.join(versionIds.map((id) => sql`${id}::uuid`), sql`, `);
+  const result = await db.execute<{ src: string; dst: string; similarity: number }>(sql`
+    SELECT a.id AS src, b.id AS dst, 1 - (a.embedding <=> b.embedding) AS similarity
+    FROM topic_nodes a
+    CROSS JOIN LATERAL (
+      SELECT n.id, n.embedding
+      FROM topic_nodes n
+      WHERE n.graph_version_id IN (${versions})
+        AND n.video_id <> a.video_id
+        AND n.embedding IS NOT NULL
+      ORDER BY n.embedding <=> a.embedding
+      LIMIT ${k}
+    ) b
+    WHERE a.graph_version_id IN (${versions})
+      AND a.embedding IS NOT NULL
+  `);
+
+  return result.rows.map((row) => ({
+    srcTopicId: row.src,
+    dstTopicId: row.dst,
+    similarity: Number(row.similarity),
+  }));
+}
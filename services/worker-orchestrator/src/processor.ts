@@ -9,6 +9,7 @@ import {
   PipelineOrchestrator,
   createPipelineContext,
   createEmptyManifest,
+  definePipeline,
   stepRegistry,
   VideoStep,
   AsrStep,
@@ -16,10 +17,25 @@ import {
   EmbeddingsGraphStep,
   SnippetStep,
   ExportStep,
+  ProgressTracker,
+  createStorageService,
+  discardCheckpoint,
+  seedReprocessCheckpoint,
+  topicStepConfigFromPipeline,
+  embeddingsGraphStepConfigFromPipeline,
+  jobInterruption,
+  type JobInterruption,
 } from '@video-graph/pipeline-sdk';
-import type { PipelineConfig } from '@video-graph/shared-types';
+import type { PipelineConfig, PipelineStepConfig } from '@video-graph/shared-types';
 import { logger } from './logger.js';
 import { config } from './config.js';
+import type { ProgressPublisher } from './progress.js';
+import type { JobControl } from './control.js';
+import {
+  buildUserLibraryGraph,
+  markLibraryGraphFailed,
+  type LibraryGraphJob,
+} from './library-graph.js';
 
 // Register all steps
 stepRegistry.register(
@@ -50,7 +66,7 @@ stepRegistry.register(
 
 stepRegistry.register(
   'topic',
-  () => new TopicStep(),
+  (config) => new TopicStep(config && topicStepConfigFromPipeline(config)),
   {
     description: 'Topic segmentation',
     version: '1.0.0',
@@ -63,7 +79,13 @@ stepRegistry.register(
 
 stepRegistry.register(
   'embeddings-graph',
-  () => new EmbeddingsGraphStep(),
+  (pipelineConfig) =>
+    new EmbeddingsGraphStep({
+      embeddingProvider: config.embeddingProvider,
+      embeddingModel: config.embeddingModel,
+      embeddingBaseUrl: config.embeddingBaseUrl,
+      ...(pipelineConfig && embeddingsGraphStepConfigFromPipeline(pipelineConfig)),
+    }),
   {
     description: 'Generate embeddings and graph',
     version: '1.0.0',
@@ -100,33 +122,54 @@ stepRegistry.register(
   }
 );
 
-// Create pipeline orchestrator
-const orchestrator = new PipelineOrchestrator();
-
-// Register steps with orchestrator
-for (const step of stepRegistry.list()) {
-  orchestrator.registerStep(step.factory());
+/**
+ * Create a pipeline orchestrator whose steps apply a video analysis job's
+ * pipeline settings
+ */
+function createAnalysisOrchestrator(pipelineConfig: PipelineConfig): PipelineOrchestrator {
+  const analysis = new PipelineOrchestrator();
+  for (const step of stepRegistry.list()) {
+    analysis.registerStep(step.factory(pipelineConfig));
+  }
+  return analysis;
 }
 
-// Create storage service (placeholder - would use MinIO client)
-const storageService = {
-  read: async (path: string) => Buffer.from(''),
-  write: async (path: string, data: Buffer) => {},
-  exists: async (path: string) => false,
-  delete: async (path: string) => {},
-  getUrl: async (path: string) => `http://localhost:9000/${config.storageBucket}/${path}`,
-  list: async (prefix: string) => [],
-};
+// Create storage service
+const storageService = createStorageService(
+  {
+    provider: config.storageProvider,
+    endpoint: config.storageEndpoint,
+    region: config.storageRegion,
+    accessKey: config.storageAccessKey,
+    secretKey: config.storageSecretKey,
+    bucket: config.storageBucket,
+    useSsl: config.storageUseSsl,
+    presignedUrlExpirySeconds: config.storagePresignedUrlExpiry,
+    localPath: config.storageLocalPath,
+  },
+  {
+    partSizeBytes: config.storagePartSizeMb * 1024 * 1024,
+    createBucket: true,
+  }
+);
 
 export interface VideoAnalysisJob {
+  /** ID of the originating jobs row (set by the dispatcher) */
+  jobId?: string;
   videoId: string;
   graphVersionId: string;
   sourceUrl: string;
   sourceType: string;
   config: PipelineConfig;
+  /** Longest source the user's quota allows */
+  maxDurationSeconds?: number;
+  /** Set when reprocessing: the version whose artifacts this one reuses */
+  parentGraphVersionId?: string;
 }
 
 export interface ExportJob {
+  /** ID of the originating jobs row (set by the dispatcher) */
+  jobId?: string;
   exportId: string;
   videoId: string;
   graphVersionId: string;
@@ -141,10 +184,17 @@ export interface SnippetGenerationJob {
 }
 
 export class JobProcessor {
+  constructor(
+    private progress: ProgressPublisher,
+    private control: JobControl
+  ) {}
+
   async processVideoAnalysis(job: VideoAnalysisJob): Promise<{
     success: boolean;
     manifest?: unknown;
     error?: string;
+    /** Set when the job was cancelled or paused */
+    interrupted?: boolean;
   }> {
     const {
       videoId,
@@ -152,15 +202,65 @@ export class JobProcessor {
       sourceUrl,
       sourceType,
       config: pipelineConfig,
+      maxDurationSeconds,
+      parentGraphVersionId,
     } = job;
 
-    const jobId = uuidv4();
+    const jobId = job.jobId ?? uuidv4();
 
     logger.info({ videoId, jobId }, 'Starting video analysis pipeline');
 
     // Create manifest
     const manifest = createEmptyManifest(videoId, graphVersionId, jobId, pipelineConfig);
 
+    // Define pipeline steps
+    const stepDefaults = {
+      maxRetries: config.stepMaxRetries,
+      timeoutMs: config.stepTimeout,
+    };
+    const steps: PipelineStepConfig[] = [
+      { name: 'video', ...stepDefaults },
+      { name: 'asr', ...stepDefaults },
+      { name: 'topic', ...stepDefaults },
+      { name: 'embeddings-graph', ...stepDefaults },
+    ];
+    
+    // Add snippet generation if configured; the graph is usable without snippets
+    if (pipelineConfig.snippet_quality !== 'none') {
+      steps.push({ name: 'snippet', ...stepDefaults, continueOnFailure: true });
+    }
+
+    const progress = new ProgressTracker({
+      jobId,
+      jobType: 'video_analysis',
+      videoId,
+      steps: steps.map((step) => step.name),
+      onEvent: (event) => this.progress.publish(event),
+    });
+
+    const abortSignal = await this.control.register(jobId);
+
+    if (parentGraphVersionId) {
+      try {
+        const rerun = await seedReprocessCheckpoint(storageService, {
+          videoId,
+          parentGraphVersionId,
+          graphVersionId,
+          jobId,
+          config: pipelineConfig,
+        });
+        if (rerun) {
+          logger.info({ videoId, jobId, parentGraphVersionId, rerun }, 'Reprocessing graph version');
+        }
+      } catch (error) {
+        this.control.release(jobId);
+        const message = error instanceof Error ? error.message : String(error);
+        progress.fail(message);
+        logger.error({ videoId, jobId, error: message }, 'Video reprocessing failed');
+        return { success: false, error: message };
+      }
+    }
+
     // Create pipeline context
     const context = createPipelineContext({
       jobId,
@@ -168,37 +268,49 @@ export class JobProcessor {
       userId: 'system',
       storage: storageService,
       config: pipelineConfig,
+      onProgress: progress.onProgress,
+      abortSignal,
       payload: {
         source_url: sourceUrl,
         source_type: sourceType,
+        max_duration_s: maxDurationSeconds,
       },
     });
 
-    // Define pipeline steps
-    const steps = ['video', 'asr', 'topic', 'embeddings-graph'];
-    
-    // Add snippet generation if configured
-    if (pipelineConfig.snippet_quality !== 'none') {
-      steps.push('snippet');
-    }
-
     // Execute pipeline
-    const result = await orchestrator.executePipeline(manifest, context, steps);
+    const result = await createAnalysisOrchestrator(pipelineConfig)
+      .executePipeline(
+        manifest,
+        context,
+        definePipeline('video-analysis', steps),
+        { maxConcurrency: config.stepConcurrency }
+      )
+      .finally(() => this.control.release(jobId));
+
+    const interruption = jobInterruption(abortSignal);
+    if (interruption) {
+      // A paused run keeps its checkpoint so that the resumed job skips completed steps
+      return this.interrupted(jobId, interruption, progress, () =>
+        discardCheckpoint(storageService, videoId, graphVersionId)
+      );
+    }
 
     if (result.success) {
+      progress.complete();
       logger.info({ videoId, jobId }, 'Video analysis pipeline completed');
       return {
         success: true,
         manifest: result.manifest,
       };
     } else {
+      progress.fail(result.error ?? 'Pipeline failed');
       logger.error(
-        { videoId, jobId, error: result.results.find((r) => !r.success)?.error },
+        { videoId, jobId, error: result.error, steps: result.stepResults },
         'Video analysis pipeline failed'
       );
       return {
         success: false,
-        error: result.results.find((r) => !r.success)?.error,
+        error: result.error,
       };
     }
   }
@@ -207,11 +319,24 @@ export class JobProcessor {
     success: boolean;
     path?: string;
     error?: string;
+    interrupted?: boolean;
   }> {
     const { exportId, videoId, graphVersionId, type, options } = job;
+    const jobId = job.jobId ?? exportId;
 
     logger.info({ exportId, videoId, type }, 'Starting export generation');
 
+    const progress = new ProgressTracker({
+      jobId,
+      jobType: 'export',
+      videoId,
+      steps: ['export'],
+      onEvent: (event) => this.progress.publish(event),
+    });
+    progress.onProgress(0, `Generating ${type} export`, 'export');
+
+    const abortSignal = await this.control.register(jobId);
+
     // Create context
     const context = createPipelineContext({
       jobId: exportId,
@@ -219,6 +344,8 @@ export class JobProcessor {
       userId: 'system',
       storage: storageService,
       config: {} as PipelineConfig,
+      onProgress: progress.onProgress,
+      abortSignal,
       payload: {
         export_type: type,
         options,
@@ -231,18 +358,39 @@ export class JobProcessor {
     // Execute export step
     const step = new ExportStep();
     try {
+      abortSignal.throwIfAborted();
       const result = await step.execute(manifest, context);
+
+      const interruption = jobInterruption(abortSignal);
+      if (interruption) {
+        return this.interrupted(jobId, interruption, progress, async () => {
+          for (const path of result.paths.exports ?? []) {
+            await storageService.delete(path);
+          }
+        });
+      }
+
+      progress.complete();
       logger.info({ exportId }, 'Export generation completed');
       return {
         success: true,
         path: result.paths.exports?.[0],
       };
     } catch (error) {
+      const interruption = jobInterruption(abortSignal);
+      if (interruption) {
+        return this.interrupted(jobId, interruption, progress);
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      progress.fail(message);
       logger.error({ exportId, error }, 'Export generation failed');
       return {
         success: false,
-        error: error instanceof Error ? error.message : String(error),
+        error: message,
       };
+    } finally {
+      this.control.release(jobId);
     }
   }
 
@@ -263,4 +411,81 @@ export class JobProcessor {
       snippetCount: topicIds.length,
     };
   }
+
+  async processLibraryGraph(job: LibraryGraphJob): Promise<{
+    success: boolean;
+    edgeCount?: number;
+    clusterCount?: number;
+    error?: string;
+    interrupted?: boolean;
+  }> {
+    const { userId, libraryGraphId } = job;
+    const jobId = job.jobId ?? libraryGraphId;
+
+    logger.info({ userId, libraryGraphId }, 'Starting library graph build');
+
+    const progress = new ProgressTracker({
+      jobId,
+      jobType: 'library_graph',
+      userId,
+      steps: ['library-graph'],
+      onEvent: (event) => this.progress.publish(event),
+    });
+    progress.onProgress(0, 'Linking topics across videos', 'library-graph');
+
+    // The build runs in a few large queries, so it is only interrupted before it starts
+    const interruption = jobInterruption(await this.control.register(jobId));
+    this.control.release(jobId);
+    if (interruption) {
+      return this.interrupted(jobId, interruption, progress, () =>
+        markLibraryGraphFailed(libraryGraphId, interruption.message)
+      );
+    }
+
+    try {
+      const summary = await buildUserLibraryGraph(job);
+      progress.complete();
+      logger.info({ libraryGraphId, ...summary }, 'Library graph build completed');
+      return {
+        success: true,
+        edgeCount: summary.edgeCount,
+        clusterCount: summary.clusterCount,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      progress.fail(message);
+      logger.error({ libraryGraphId, error }, 'Library graph build failed');
+      await markLibraryGraphFailed(libraryGraphId, message);
+      return {
+        success: false,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * End a run that was cancelled or paused through the API. `discard`
+   * cleans up after a cancelled run; a failed cleanup is logged rather
+   * than failing the job.
+   */
+  private async interrupted(
+    jobId: string,
+    interruption: JobInterruption,
+    progress: ProgressTracker,
+    discard?: () => Promise<void>
+  ): Promise<{ success: false; error: string; interrupted: true }> {
+    if (interruption.action === 'cancel') {
+      try {
+        await discard?.();
+      } catch (error) {
+        logger.warn({ jobId, error }, 'Failed to discard artifacts of cancelled job');
+      }
+      progress.interrupt('cancelled', interruption.message);
+    } else {
+      progress.interrupt('paused', interruption.message);
+    }
+
+    logger.info({ jobId, action: interruption.action }, 'Job interrupted');
+    return { success: false, error: interruption.message, interrupted: true };
+  }
 }
@@ -0,0 +1,64 @@
+/**
+ * Progress Publisher
+ *
+ * Publishes job progress events for the API to fan out to clients. Each
+ * event is appended to a capped Redis stream, whose entry ID becomes the
+ * event ID clients resume from, stored as the job's latest event, and
+ * published on the progress channel.
+ */
+
+import type Redis from 'ioredis';
+import {
+  JOB_PROGRESS_CHANNEL,
+  JOB_PROGRESS_STREAM,
+  jobProgressKey,
+} from '@video-graph/pipeline-sdk';
+import type { JobProgressEvent } from '@video-graph/shared-types';
+import { config } from './config.js';
+import { logger } from './logger.js';
+
+export class ProgressPublisher {
+  // Events are published one at a time so that stream order matches emit order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private redis: Redis | null) {}
+
+  /**
+   * Publish an event without waiting; failures only cost live updates
+   */
+  publish(event: JobProgressEvent): void {
+    const redis = this.redis;
+    if (!redis) return;
+
+    this.queue = this.queue
+      .then(async () => {
+        const data = JSON.stringify(event);
+        const id = await redis.xadd(
+          JOB_PROGRESS_STREAM,
+          'MAXLEN',
+          '~',
+          config.progressStreamLength,
+          '*',
+          'event',
+          data
+        );
+        const message = JSON.stringify({ id, event });
+
+        await redis
+          .multi()
+          .set(jobProgressKey(event.job_id), message, 'EX', config.progressRetentionSeconds)
+          .publish(JOB_PROGRESS_CHANNEL, message)
+          .exec();
+      })
+      .catch((error) => {
+        logger.warn({ jobId: event.job_id, error }, 'Failed to publish job progress');
+      });
+  }
+
+  /**
+   * Wait for pending events to be published
+   */
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+}
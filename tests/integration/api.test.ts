@@ -9,6 +9,8 @@ import { build } from '../../services/api/src/app';
 import { setupTestDb, teardownTestDb, resetTestDb } from './helpers/database';
 import { setupTestStorage, teardownTestStorage } from './helpers/storage';
 import type { FastifyInstance } from 'fastify';
+import { getManifestPath } from '@video-graph/pipeline-sdk';
+import { storage } from '../../services/api/src/storage';
 
 describe('API Integration Tests', () => {
   let app: FastifyInstance;
@@ -292,6 +294,76 @@ describe('API Integration Tests', () => {
       });
 
       expect(cancelResponse.statusCode).toBe(200);
+      expect(JSON.parse(cancelResponse.body).status).toBe('cancelled');
+
+      const cancelAgain = await app.inject({
+        method: 'POST',
+        url: `/api/v1/jobs/${jobId}/cancel`,
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+        },
+      });
+
+      expect(cancelAgain.statusCode).toBe(409);
+    });
+
+    it('POST /api/v1/jobs/:id/pause and /resume should hold and requeue job', async () => {
+      const processResponse = await app.inject({
+        method: 'POST',
+        url: `/api/v1/videos/${videoId}/process`,
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+        },
+        payload: { stages: ['video'] },
+      });
+
+      const { jobId } = JSON.parse(processResponse.body);
+
+      const pauseResponse = await app.inject({
+        method: 'POST',
+        url: `/api/v1/jobs/${jobId}/pause`,
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+        },
+      });
+
+      expect(pauseResponse.statusCode).toBe(200);
+      expect(JSON.parse(pauseResponse.body).status).toBe('paused');
+
+      const resumeResponse = await app.inject({
+        method: 'POST',
+        url: `/api/v1/jobs/${jobId}/resume`,
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+        },
+      });
+
+      expect(resumeResponse.statusCode).toBe(200);
+      expect(JSON.parse(resumeResponse.body).status).toBe('pending');
+
+      const resumeAgain = await app.inject({
+        method: 'POST',
+        url: `/api/v1/jobs/${jobId}/resume`,
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+        },
+      });
+
+      expect(resumeAgain.statusCode).toBe(409);
+    });
+
+    it('GET /api/v1/videos/:id/events should 404 without access', async () => {
+      const otherToken = await getTestAuthToken(app, 'other-user');
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/events`,
+        headers: {
+          Authorization: `Bearer ${otherToken}`,
+        },
+      });
+
+      expect(response.statusCode).toBe(404);
     });
   });
 
@@ -362,6 +434,389 @@ describe('API Integration Tests', () => {
       expect(body.edges).toBeDefined();
       expect(body.videoId).toBe(videoId);
     });
+
+    it('GET /api/v1/graphs/:id/analytics should rank topics and cache the result', async () => {
+      const graph = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/graph`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const graphId = JSON.parse(graph.body).id;
+
+      const first = await app.inject({
+        method: 'GET',
+        url: `/api/v1/graphs/${graphId}/analytics`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(first.statusCode).toBe(200);
+      const body = JSON.parse(first.body);
+      expect(body.cached).toBe(false);
+      expect(body.topics.length).toBeGreaterThan(0);
+      expect(body.topics[0].pagerank).toBeGreaterThanOrEqual(body.topics.at(-1).pagerank);
+      expect(body.community_count).toBeGreaterThan(0);
+      expect(Array.isArray(body.bridges)).toBe(true);
+
+      const second = await app.inject({
+        method: 'GET',
+        url: `/api/v1/graphs/${graphId}/analytics`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(JSON.parse(second.body).cached).toBe(true);
+      expect(JSON.parse(second.body).computed_at).toBe(body.computed_at);
+    });
+
+    it('GET /api/v1/graphs/:id/paths should return a path between connected topics', async () => {
+      const graph = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/graph`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const { id: graphId, edges } = JSON.parse(graph.body);
+      const { src_topic_id: from, dst_topic_id: to } = edges[0];
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/graphs/${graphId}/paths?from=${from}&to=${to}`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.topics[0].id).toBe(from);
+      expect(body.topics.at(-1).id).toBe(to);
+      expect(body.edges).toHaveLength(body.topics.length - 1);
+    });
+
+    it('GET /api/v1/graphs/:id/paths should require both topics', async () => {
+      const graph = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/graph`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const graphId = JSON.parse(graph.body).id;
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/graphs/${graphId}/paths`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('POST /api/v1/graphs/:id/reprocess should queue a child version', async () => {
+      const graph = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/graph`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const graphId = JSON.parse(graph.body).id;
+      await storage.write(
+        getManifestPath(videoId, graphId),
+        Buffer.from(JSON.stringify({ video_id: videoId, graph_version_id: graphId, paths: {} }))
+      );
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/graphs/${graphId}/reprocess`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { config: { topic_levels: 2, edge_similarity_threshold: 0.6 } },
+      });
+
+      expect(response.statusCode).toBe(202);
+      const body = JSON.parse(response.body);
+      expect(body.parent_version_id).toBe(graphId);
+      expect(body.status).toBe('processing');
+      expect(body.config_snapshot.topic_levels).toBe(2);
+
+      const job = await app.inject({
+        method: 'GET',
+        url: `/api/v1/jobs/${body.job_id}`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      expect(job.statusCode).toBe(200);
+
+      // The child has not finished, so it cannot be reprocessed yet
+      const child = await app.inject({
+        method: 'POST',
+        url: `/api/v1/graphs/${body.id}/reprocess`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { config: { topic_levels: 3 } },
+      });
+      expect(child.statusCode).toBe(409);
+    });
+
+    it('POST /api/v1/graphs/:id/reprocess should 409 without a checkpoint to reuse', async () => {
+      const graph = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/graph`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const graphId = JSON.parse(graph.body).id;
+      await storage.delete(getManifestPath(videoId, graphId));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/graphs/${graphId}/reprocess`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { config: { topic_levels: 2 } },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).code).toBe('INVALID_STATE');
+    });
+
+    it('GET /api/v1/graphs/:id/diff should compare a fork with its parent', async () => {
+      const graph = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/graph`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const { id: graphId, nodes } = JSON.parse(graph.body);
+
+      const fork = await app.inject({
+        method: 'POST',
+        url: `/api/v1/graphs/${graphId}/fork`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: {
+          topic_modifications: [
+            { topic_id: nodes[0].id, action: 'update', updates: { title: 'Renamed topic' } },
+          ],
+        },
+      });
+      const forkId = JSON.parse(fork.body).id;
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/graphs/${forkId}/diff`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.base.id).toBe(graphId);
+      expect(body.summary.matched).toBe(nodes.length);
+      expect(body.summary.added).toBe(0);
+      expect(body.summary.removed).toBe(0);
+      expect(body.topics.retitled).toEqual([
+        expect.objectContaining({ base_topic_id: nodes[0].id, target_title: 'Renamed topic' }),
+      ]);
+      expect(body.edges.added).toEqual([]);
+      expect(body.edges.removed).toEqual([]);
+    });
+
+    it('GET /api/v1/graphs/:id/diff should require a base for a version without parent', async () => {
+      const graph = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/graph`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const graphId = JSON.parse(graph.body).id;
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/graphs/${graphId}/diff`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('POST /api/v1/graphs/:id/reprocess should reject settings that change nothing', async () => {
+      const graph = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/graph`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const graphId = JSON.parse(graph.body).id;
+
+      const unchanged = await app.inject({
+        method: 'POST',
+        url: `/api/v1/graphs/${graphId}/reprocess`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { config: {} },
+      });
+      expect(unchanged.statusCode).toBe(400);
+
+      // Transcript settings cannot change without re-running ASR
+      const asr = await app.inject({
+        method: 'POST',
+        url: `/api/v1/graphs/${graphId}/reprocess`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { config: { asr_model: 'whisper' } },
+      });
+      expect(asr.statusCode).toBe(400);
+    });
+
+    it('POST /api/v1/graphs/:id/edits/undo should revert a merge and redo it', async () => {
+      const graph = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/graph`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const { id: graphId, nodes } = JSON.parse(graph.body);
+
+      const merge = await app.inject({
+        method: 'POST',
+        url: '/api/v1/topics/merge',
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { topic_ids: [nodes[0].id, nodes[1].id], new_title: 'Merged' },
+      });
+      const mergedId = JSON.parse(merge.body).id;
+
+      const history = await app.inject({
+        method: 'GET',
+        url: `/api/v1/graphs/${graphId}/edits`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      expect(history.statusCode).toBe(200);
+      const historyBody = JSON.parse(history.body);
+      expect(historyBody.items[0]).toMatchObject({ operation: 'merge', undone: false });
+      expect(historyBody.undo_available).toBe(1);
+
+      const undo = await app.inject({
+        method: 'POST',
+        url: `/api/v1/graphs/${graphId}/edits/undo`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: {},
+      });
+      expect(undo.statusCode).toBe(200);
+      expect(JSON.parse(undo.body)).toMatchObject({ undo_available: 0, redo_available: 1 });
+
+      const removed = await app.inject({
+        method: 'GET',
+        url: `/api/v1/topics/${mergedId}`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      expect(removed.statusCode).toBe(404);
+
+      const redo = await app.inject({
+        method: 'POST',
+        url: `/api/v1/graphs/${graphId}/edits/redo`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { count: 1 },
+      });
+      expect(redo.statusCode).toBe(200);
+
+      const restored = await app.inject({
+        method: 'GET',
+        url: `/api/v1/topics/${mergedId}`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      expect(JSON.parse(restored.body).title).toBe('Merged');
+    });
+
+    it('GET /api/v1/graphs/:id/edits should number concurrent edits in order', async () => {
+      const graph = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/graph`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const { id: graphId, nodes } = JSON.parse(graph.body);
+
+      const edits = await Promise.all(
+        ['First title', 'Second title'].map((title) =>
+          app.inject({
+            method: 'PATCH',
+            url: `/api/v1/topics/${nodes[0].id}`,
+            headers: { Authorization: `Bearer ${authToken}` },
+            payload: { title },
+          })
+        )
+      );
+      expect(edits.map((r) => r.statusCode)).toEqual([200, 200]);
+
+      const history = await app.inject({
+        method: 'GET',
+        url: `/api/v1/graphs/${graphId}/edits`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const { items } = JSON.parse(history.body);
+      expect(items.map((e: { sequence: number }) => e.sequence)).toEqual([2, 1]);
+      // The later edit saw the earlier one's title as its starting point
+      expect(items[0].before.topics[0].title).toBe(items[1].after.topics[0].title);
+    });
+
+    it('POST /api/v1/graphs/:id/edits/undo should reject undoing more than was edited', async () => {
+      const graph = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/graph`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const graphId = JSON.parse(graph.body).id;
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/graphs/${graphId}/edits/undo`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { count: 2 },
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('Library Graph', () => {
+    it('GET /api/v1/library/graph should 404 before a build', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/library/graph',
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('POST /api/v1/library/graph should queue a single build', async () => {
+      const first = await app.inject({
+        method: 'POST',
+        url: '/api/v1/library/graph',
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(first.statusCode).toBe(202);
+      const body = JSON.parse(first.body);
+      expect(body.status).toBe('processing');
+      expect(body.job_id).toBeDefined();
+
+      const second = await app.inject({
+        method: 'POST',
+        url: '/api/v1/library/graph',
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(second.statusCode).toBe(409);
+
+      const job = await app.inject({
+        method: 'GET',
+        url: `/api/v1/jobs/${body.job_id}`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(JSON.parse(job.body).type).toBe('library_graph');
+    });
+
+    it('GET /api/v1/library/graph should page an unbuilt graph', async () => {
+      await app.inject({
+        method: 'POST',
+        url: '/api/v1/library/graph',
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/library/graph?page=1&limit=5',
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.status).toBe('processing');
+      expect(body.clusters).toEqual([]);
+      expect(body.pagination).toMatchObject({ page: 1, limit: 5, total: 0 });
+    });
   });
 
   describe('Search', () => {
@@ -424,6 +879,465 @@ describe('API Integration Tests', () => {
 
       expect(response.statusCode).toBe(200);
     });
+
+    it('POST /api/v1/search should explain which signals matched', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/search',
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+          'Content-Type': 'application/json',
+        },
+        payload: {
+          query: 'RLHF',
+          options: {
+            fusion: { k: 30, weights: { vector: 0.5, title: 2 } },
+          },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.fusion.k).toBe(30);
+      expect(body.fusion.weights).toMatchObject({ vector: 0.5, title: 2 });
+      for (const result of body.results) {
+        expect(result.matched_signals.length).toBeGreaterThan(0);
+        for (const signal of result.matched_signals) {
+          expect(result.signals[signal]).toHaveProperty('rank');
+        }
+      }
+    });
+
+    it('POST /api/v1/search should group transcript segment hits by topic', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/search',
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+          'Content-Type': 'application/json',
+        },
+        payload: {
+          query: 'gradient descent',
+          options: { mode: 'segments', top_k: 5 },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.results.length).toBeLessThanOrEqual(5);
+      for (const result of body.results) {
+        expect(result.segments.length).toBeGreaterThan(0);
+        for (const segment of result.segments) {
+          expect(segment.jump_to_ts).toBeGreaterThanOrEqual(segment.start_ts);
+          expect(segment.jump_to_ts).toBeLessThanOrEqual(segment.end_ts);
+          expect(typeof segment.snippet).toBe('string');
+          expect(Array.isArray(segment.highlights)).toBe(true);
+        }
+      }
+    });
+
+    it('POST /api/v1/search should return facet counts for all matches', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/search',
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+          'Content-Type': 'application/json',
+        },
+        payload: {
+          query: 'deep learning',
+          filters: {
+            date_from: '2024-01-01T00:00:00Z',
+            date_to: '2024-12-31T23:59:59Z',
+            source_types: ['youtube'],
+            edge_types: ['semantic'],
+          },
+          options: { top_k: 3 },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.results.length).toBeLessThanOrEqual(3);
+      for (const facet of ['videos', 'levels', 'speakers', 'clusters']) {
+        expect(Array.isArray(body.facets[facet])).toBe(true);
+      }
+      const videoCount = body.facets.videos.reduce((sum: number, f: { count: number }) => sum + f.count, 0);
+      expect(videoCount).toBe(body.total);
+    });
+
+    it('POST /api/v1/search should reject invalid dates', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/search',
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+          'Content-Type': 'application/json',
+        },
+        payload: {
+          query: 'deep learning',
+          filters: { date_from: 'last tuesday' },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('POST /api/v1/search should reject unknown search modes', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/search',
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+          'Content-Type': 'application/json',
+        },
+        payload: {
+          query: 'gradient descent',
+          options: { mode: 'frames' },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('POST /api/v1/search should reject negative fusion weights', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/search',
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+          'Content-Type': 'application/json',
+        },
+        payload: {
+          query: 'deep learning',
+          options: { fusion: { weights: { transcript: -1 } } },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('POST /api/v1/search/deep should answer without citations when nothing is retrieved', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/search/deep',
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+          'Content-Type': 'application/json',
+        },
+        payload: {
+          query: 'gradient descent',
+          video_ids: ['00000000-0000-0000-0000-000000000000'],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(typeof body.answer).toBe('string');
+      expect(body.citations).toEqual([]);
+      expect(body.claims).toEqual([]);
+      expect(body.unsupported_claims).toBe(0);
+    });
+  });
+
+  describe('Sharing', () => {
+    async function shareVideo(
+      scope = 'view',
+      password?: string
+    ): Promise<{ videoId: string; token: string }> {
+      const video = await app.inject({
+        method: 'POST',
+        url: '/api/v1/videos',
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { title: 'Shared Video', originalUrl: 'https://youtube.com/watch?v=shared' },
+      });
+      const videoId = JSON.parse(video.body).id;
+
+      const share = await app.inject({
+        method: 'POST',
+        url: '/api/v1/shares',
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { resource_type: 'video', resource_id: videoId, scope, password },
+      });
+      return { videoId, token: JSON.parse(share.body).token };
+    }
+
+    it('POST /api/v1/shares/:token/redeem should grant access to the video', async () => {
+      const { videoId, token } = await shareVideo();
+      const otherToken = await getTestAuthToken(app, 'other-user');
+
+      const before = await app.inject({
+        method: 'GET',
+        url: '/api/v1/videos',
+        headers: { Authorization: `Bearer ${otherToken}` },
+      });
+      expect(JSON.parse(before.body).items).toHaveLength(0);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/shares/${token}/redeem`,
+        headers: { Authorization: `Bearer ${otherToken}` },
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({
+        resource_type: 'video',
+        resource_id: videoId,
+        scope: 'view',
+        role: 'viewer',
+      });
+
+      const after = await app.inject({
+        method: 'GET',
+        url: '/api/v1/videos',
+        headers: { Authorization: `Bearer ${otherToken}` },
+      });
+      expect(JSON.parse(after.body).items.map((v: { id: string }) => v.id)).toEqual([videoId]);
+
+      const detail = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}`,
+        headers: { Authorization: `Bearer ${otherToken}` },
+      });
+      expect(detail.statusCode).toBe(200);
+    });
+
+    it('POST /api/v1/search should cover redeemed videos', async () => {
+      const { videoId, token } = await shareVideo();
+      const otherToken = await getTestAuthToken(app, 'other-user');
+
+      await app.inject({
+        method: 'POST',
+        url: `/api/v1/shares/${token}/redeem`,
+        headers: { Authorization: `Bearer ${otherToken}` },
+        payload: {},
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/search',
+        headers: { Authorization: `Bearer ${otherToken}` },
+        payload: { query: 'shared video' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      for (const facet of body.facets.videos) {
+        expect(facet.value).toBe(videoId);
+      }
+    });
+
+    it('should check share link passwords on view and redeem', async () => {
+      const { token } = await shareVideo('view', 'open sesame');
+      const otherToken = await getTestAuthToken(app, 'other-user');
+
+      const missing = await app.inject({ method: 'GET', url: `/api/v1/shares/${token}` });
+      expect(JSON.parse(missing.body).code).toBe('PASSWORD_REQUIRED');
+
+      const wrong = await app.inject({
+        method: 'POST',
+        url: `/api/v1/shares/${token}/redeem`,
+        headers: { Authorization: `Bearer ${otherToken}` },
+        payload: { password: 'open simsim' },
+      });
+      expect(wrong.statusCode).toBe(401);
+      expect(JSON.parse(wrong.body).code).toBe('INVALID_PASSWORD');
+
+      const view = await app.inject({
+        method: 'GET',
+        url: `/api/v1/shares/${token}?password=${encodeURIComponent('open sesame')}`,
+      });
+      expect(view.statusCode).toBe(200);
+
+      const redeem = await app.inject({
+        method: 'POST',
+        url: `/api/v1/shares/${token}/redeem`,
+        headers: { Authorization: `Bearer ${otherToken}` },
+        payload: { password: 'open sesame' },
+      });
+      expect(redeem.statusCode).toBe(200);
+    });
+
+    it('POST /api/v1/shares/:token/redeem should 404 for unknown links', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/shares/unknown-token/redeem',
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('Collaborators', () => {
+    async function createVideo(): Promise<string> {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/videos',
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { title: 'Team Video', originalUrl: 'https://youtube.com/watch?v=team' },
+      });
+      return JSON.parse(response.body).id;
+    }
+
+    it('should add, change and remove collaborators with an audit trail', async () => {
+      const videoId = await createVideo();
+      const editorToken = await getTestAuthToken(app, 'editor-user');
+
+      const added = await app.inject({
+        method: 'POST',
+        url: `/api/v1/videos/${videoId}/collaborators`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { user_id: 'editor-user', role: 'viewer' },
+      });
+      expect(added.statusCode).toBe(201);
+      expect(JSON.parse(added.body)).toMatchObject({
+        user_id: 'editor-user',
+        role: 'viewer',
+        granted_by: 'test-user',
+      });
+
+      const duplicate = await app.inject({
+        method: 'POST',
+        url: `/api/v1/videos/${videoId}/collaborators`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { user_id: 'editor-user', role: 'editor' },
+      });
+      expect(duplicate.statusCode).toBe(409);
+
+      const changed = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/videos/${videoId}/collaborators/editor-user`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { role: 'editor' },
+      });
+      expect(JSON.parse(changed.body).role).toBe('editor');
+
+      const list = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/collaborators`,
+        headers: { Authorization: `Bearer ${editorToken}` },
+      });
+      expect(JSON.parse(list.body)).toMatchObject({
+        owner_id: 'test-user',
+        your_role: 'editor',
+        can_manage: true,
+        collaborators: [{ user_id: 'editor-user', role: 'editor' }],
+      });
+
+      const removed = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/videos/${videoId}/collaborators/editor-user`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      expect(removed.statusCode).toBe(204);
+
+      const audit = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/collaborators/audit`,
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const actions = JSON.parse(audit.body).items.map((e: { action: string }) => e.action);
+      expect(actions).toEqual(['revoke', 'update', 'grant']);
+    });
+
+    it('should only let owners manage owners', async () => {
+      const videoId = await createVideo();
+      const editorToken = await getTestAuthToken(app, 'editor-user');
+
+      await app.inject({
+        method: 'POST',
+        url: `/api/v1/videos/${videoId}/collaborators`,
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { user_id: 'editor-user', role: 'editor' },
+      });
+
+      const viewer = await app.inject({
+        method: 'POST',
+        url: `/api/v1/videos/${videoId}/collaborators`,
+        headers: { Authorization: `Bearer ${editorToken}` },
+        payload: { user_id: 'viewer-user', role: 'viewer' },
+      });
+      expect(viewer.statusCode).toBe(201);
+
+      const owner = await app.inject({
+        method: 'POST',
+        url: `/api/v1/videos/${videoId}/collaborators`,
+        headers: { Authorization: `Bearer ${editorToken}` },
+        payload: { user_id: 'owner-user', role: 'owner' },
+      });
+      expect(owner.statusCode).toBe(403);
+
+      const promoteSelf = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/videos/${videoId}/collaborators/editor-user`,
+        headers: { Authorization: `Bearer ${editorToken}` },
+        payload: { role: 'owner' },
+      });
+      expect(promoteSelf.statusCode).toBe(403);
+    });
+
+    it('should not let editors via share links manage collaborators', async () => {
+      const videoId = await createVideo();
+      const share = await app.inject({
+        method: 'POST',
+        url: '/api/v1/shares',
+        headers: { Authorization: `Bearer ${authToken}` },
+        payload: { resource_type: 'video', resource_id: videoId, scope: 'edit' },
+      });
+      const shareEditorToken = await getTestAuthToken(app, 'share-editor');
+      await app.inject({
+        method: 'POST',
+        url: `/api/v1/shares/${JSON.parse(share.body).token}/redeem`,
+        headers: { Authorization: `Bearer ${shareEditorToken}` },
+        payload: {},
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/videos/${videoId}/collaborators`,
+        headers: { Authorization: `Bearer ${shareEditorToken}` },
+        payload: { user_id: 'viewer-user', role: 'viewer' },
+      });
+      expect(response.statusCode).toBe(403);
+
+      const list = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/collaborators`,
+        headers: { Authorization: `Bearer ${shareEditorToken}` },
+      });
+      expect(JSON.parse(list.body)).toMatchObject({ your_role: 'editor', can_manage: false });
+    });
+
+    it('should answer concurrent grants for the same user with one 201 and one 409', async () => {
+      const videoId = await createVideo();
+      const grant = () =>
+        app.inject({
+          method: 'POST',
+          url: `/api/v1/videos/${videoId}/collaborators`,
+          headers: { Authorization: `Bearer ${authToken}` },
+          payload: { user_id: 'viewer-user', role: 'viewer' },
+        });
+
+      const responses = await Promise.all([grant(), grant()]);
+
+      expect(responses.map((r) => r.statusCode).sort()).toEqual([201, 409]);
+    });
+
+    it('GET /api/v1/videos/:id/collaborators should 404 without access', async () => {
+      const videoId = await createVideo();
+      const otherToken = await getTestAuthToken(app, 'other-user');
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/videos/${videoId}/collaborators`,
+        headers: { Authorization: `Bearer ${otherToken}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
   });
 
   describe('Authentication', () => {
@@ -464,14 +1378,14 @@ describe('API Integration Tests', () => {
 });
 
 // Helper functions
-async function getTestAuthToken(app: FastifyInstance): Promise<string> {
+async function getTestAuthToken(app: FastifyInstance, userId = 'test-user'): Promise<string> {
   // In test environment, generate a mock token
   const response = await app.inject({
     method: 'POST',
     url: '/auth/test-token',
     payload: {
-      userId: 'test-user',
-      email: 'test@example.com',
+      userId,
+      email: `${userId}@example.com`,
     },
   });
 